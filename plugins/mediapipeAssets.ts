@@ -0,0 +1,75 @@
+/**
+ * mediapipeAssets.ts
+ *
+ * Serves the MediaPipe Face Mesh script, WASM and model files from the app
+ * itself instead of a CDN. In dev they are read straight from node_modules;
+ * in a build they are copied to <outDir>/mediapipe/face_mesh/.
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+export const MEDIAPIPE_ASSET_DIR = 'mediapipe/face_mesh';
+
+// Everything face_mesh.js may ask locateFile for, plus the script itself
+export const FACE_MESH_FILES = [
+  'face_mesh.js',
+  'face_mesh.binarypb',
+  'face_mesh_solution_packed_assets.data',
+  'face_mesh_solution_packed_assets_loader.js',
+  'face_mesh_solution_simd_wasm_bin.data',
+  'face_mesh_solution_simd_wasm_bin.js',
+  'face_mesh_solution_simd_wasm_bin.wasm',
+  'face_mesh_solution_wasm_bin.js',
+  'face_mesh_solution_wasm_bin.wasm'
+];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.wasm': 'application/wasm',
+  '.data': 'application/octet-stream',
+  '.binarypb': 'application/octet-stream'
+};
+
+export default function mediapipeAssets(): Plugin {
+  let sourceDir = '';
+  let base = '/';
+
+  return {
+    name: 'facevibe-mediapipe-assets',
+
+    configResolved(config) {
+      sourceDir = path.resolve(config.root, 'node_modules/@mediapipe/face_mesh');
+      base = config.base;
+    },
+
+    configureServer(server) {
+      const prefix = `${base}${MEDIAPIPE_ASSET_DIR}/`;
+
+      server.middlewares.use((req, res, next) => {
+        const url = req.url?.split('?')[0];
+        if (!url?.startsWith(prefix)) return next();
+
+        const file = url.slice(prefix.length);
+        if (!FACE_MESH_FILES.includes(file)) return next();
+
+        res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+        fs.createReadStream(path.join(sourceDir, file)).pipe(res);
+      });
+    },
+
+    generateBundle() {
+      for (const file of FACE_MESH_FILES) {
+        const sourcePath = path.join(sourceDir, file);
+        if (!fs.existsSync(sourcePath)) {
+          this.error(`Missing MediaPipe asset ${sourcePath}, is @mediapipe/face_mesh installed?`);
+        }
+        this.emitFile({
+          type: 'asset',
+          fileName: `${MEDIAPIPE_ASSET_DIR}/${file}`,
+          source: fs.readFileSync(sourcePath)
+        });
+      }
+    }
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * offlinePrecache.ts
+ *
+ * After a build, lists every file the app needs to run offline and writes it
+ * into the service worker (public/sw.js) and precache-manifest.json. Each
+ * entry carries a content hash, so a changed file changes the worker and
+ * triggers an update.
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+
+export const SERVICE_WORKER_FILE = 'sw.js';
+export const PRECACHE_MANIFEST_FILE = 'precache-manifest.json';
+
+// Placeholder in sw.js that is replaced with the manifest
+const MANIFEST_PLACEHOLDER = 'self.__PRECACHE_MANIFEST__';
+
+// Files in public/ that the app never loads
+const EXCLUDED_EXTENSIONS = ['.ipynb', '.heic', '.map'];
+
+export interface PrecacheEntry {
+  url: string;
+  revision: string;
+}
+
+export interface PrecacheManifest {
+  version: string;
+  files: PrecacheEntry[];
+}
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+}
+
+const hash = (content: crypto.BinaryLike) =>
+  crypto.createHash('sha256').update(content).digest('hex').slice(0, 16);
+
+export default function offlinePrecache(): Plugin {
+  let outDir = '';
+  let base = '/';
+
+  return {
+    name: 'facevibe-offline-precache',
+    apply: 'build',
+
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      base = config.base;
+    },
+
+    closeBundle() {
+      const workerPath = path.join(outDir, SERVICE_WORKER_FILE);
+      if (!fs.existsSync(workerPath)) {
+        this.warn(`No ${SERVICE_WORKER_FILE} in ${outDir}, skipping the offline precache`);
+        return;
+      }
+
+      const files: PrecacheEntry[] = listFiles(outDir)
+        .map(file => path.relative(outDir, file).split(path.sep).join('/'))
+        .filter(file =>
+          file !== SERVICE_WORKER_FILE &&
+          file !== PRECACHE_MANIFEST_FILE &&
+          !EXCLUDED_EXTENSIONS.includes(path.extname(file).toLowerCase())
+        )
+        .sort()
+        .map(file => ({
+          url: `${base}${file}`,
+          revision: hash(fs.readFileSync(path.join(outDir, file)))
+        }));
+
+      const manifest: PrecacheManifest = {
+        version: hash(files.map(file => `${file.url}@${file.revision}`).join('\n')),
+        files
+      };
+
+      fs.writeFileSync(path.join(outDir, PRECACHE_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+      const worker = fs.readFileSync(workerPath, 'utf8');
+      if (!worker.includes(MANIFEST_PLACEHOLDER)) {
+        this.warn(`${SERVICE_WORKER_FILE} has no ${MANIFEST_PLACEHOLDER} placeholder`);
+        return;
+      }
+      fs.writeFileSync(workerPath, worker.replace(MANIFEST_PLACEHOLDER, JSON.stringify(manifest)));
+    }
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * sw.js
+ *
+ * FaceVibe service worker. Precaches the UI, fonts and the MediaPipe assets
+ * listed by the offlinePrecache build plugin, then serves them cache-first so
+ * the app starts with no network at all.
+ */
+
+// Replaced with { version, files: [{ url, revision }] } at build time
+const PRECACHE = self.__PRECACHE_MANIFEST__ ?? { version: 'dev', files: [] };
+
+const CACHE_PREFIX = 'facevibe-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE.version}`;
+const SCOPE = new URL(self.registration.scope).pathname;
+const INDEX_URL = `${SCOPE}index.html`;
+const MANIFEST_URL = `${SCOPE}precache-manifest.json`;
+
+// Tell every open page how the precache went
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+}
+
+// Cache each file on its own, so one failed download doesn't lose the rest
+async function precache() {
+  const cache = await caches.open(CACHE_NAME);
+  const missing = [];
+
+  // Keep the manifest this worker was built with, so pages can check the cache offline
+  await cache.put(MANIFEST_URL, new Response(JSON.stringify(PRECACHE), {
+    headers: { 'Content-Type': 'application/json' }
+  }));
+
+  await Promise.all(PRECACHE.files.map(async ({ url, revision }) => {
+    if (await cache.match(url)) return;
+    try {
+      // The revision busts any HTTP cache between us and the server
+      const response = await fetch(new Request(`${url}?__rev=${revision}`, { cache: 'reload' }));
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      await cache.put(url, response);
+    } catch (error) {
+      console.warn(`FaceVibe offline cache couldn't store ${url}:`, error);
+      missing.push(url);
+    }
+  }));
+
+  await notifyClients({
+    type: missing.length ? 'precache-incomplete' : 'precache-complete',
+    version: PRECACHE.version,
+    missing
+  });
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', event => {
+  // Pages can ask for a retry of files that failed to download
+  if (event.data?.type === 'precache-retry') {
+    event.waitUntil(precache());
+  }
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || !url.pathname.startsWith(SCOPE)) return;
+
+  // Pages: network first so deploys show up, the cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        return await fetch(request);
+      } catch (error) {
+        const cached = await caches.match(INDEX_URL, { cacheName: CACHE_NAME });
+        if (cached) return cached;
+        throw error;
+      }
+    })());
+    return;
+  }
+
+  // Everything else: cache first (assets are hashed or versioned by the manifest)
+  event.respondWith((async () => {
+    const cached = await caches.match(url.pathname, { cacheName: CACHE_NAME });
+    return cached ?? fetch(request);
+  })());
+});
@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import App from './App';
+import { getRenderCounts, LandmarkStream, resetRenderCounts } from './utils/LandmarkStream';
+
+// Lets act() flush React's work synchronously
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+// jsdom draws nothing: a 2D context whose methods do nothing (gradients and the like
+// come back as the same stand-in) and whose pixels are all gray
+const fakeContext: object = new Proxy({}, {
+  get: (_, property) => property === 'getImageData'
+    ? (_x: number, _y: number, width: number, height: number) => ({ data: new Uint8ClampedArray(width * height * 4).fill(140), width, height })
+    : () => fakeContext,
+  set: () => true
+});
+
+describe('App renders', () => {
+  let root: Root;
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.history.replaceState(null, '', '/?tracker=synthetic');
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(fakeContext as never);
+    vi.stubGlobal('ResizeObserver', class {
+      observe() {}
+      unobserve() {}
+      disconnect() {}
+    });
+    Element.prototype.scrollIntoView = () => {};
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { enumerateDevices: async () => [{ kind: 'videoinput' }] }
+    });
+    container = document.createElement('div');
+    document.body.appendChild(container);
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    container.remove();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('stay well below the tracker frame rate while an exercise is scored', async () => {
+    // Watch the live score go by on the stream
+    const scores: (number | null)[] = [];
+    const publish = LandmarkStream.prototype.publish;
+    vi.spyOn(LandmarkStream.prototype, 'publish').mockImplementation(function (this: LandmarkStream, sample, exerciseScore) {
+      scores.push(exerciseScore ?? null);
+      publish.call(this, sample, exerciseScore);
+    });
+
+    act(() => root.render(<App />));
+    const start = [...container.querySelectorAll('button')].find(button => button.textContent?.includes('VIBE UP'));
+    act(() => start!.click());
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1000);
+    });
+    resetRenderCounts();
+    scores.length = 0;
+
+    // 20 seconds of the synthetic tracker at 30 fps, working through its expressions
+    const seconds = 20;
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(seconds * 1000);
+    });
+
+    const scoreChanges = scores.filter((score, i) => i > 0 && score !== scores[i - 1]).length;
+    expect(scores.length).toBeGreaterThan(seconds * 25);
+    expect(scoreChanges).toBeGreaterThan(seconds * 3);
+
+    // Before the score went through the stream, App, StressGame and TrainerChat
+    // each re-rendered on every score change
+    const renders = getRenderCounts();
+    expect(renders.App ?? 0).toBeLessThanOrEqual(seconds / 2);
+    expect(renders.StressGame ?? 0).toBeLessThanOrEqual(seconds / 5);
+    expect(renders.TrainerChat ?? 0).toBeLessThanOrEqual(seconds * 2);
+  });
+});
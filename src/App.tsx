@@ -4,6 +4,28 @@ import StressGame from './components/StressGame';
 import TrainerChat from './components/TrainerChat';
 import ResilienceTracker from './components/ResilienceTracker';
 import SocialStreaks from './components/SocialStreaks';
+import RoutineBuilder from './components/RoutineBuilder';
+import RoutinePlayer from './components/RoutinePlayer';
+import SessionRecorderControls from './components/SessionRecorderControls';
+import SessionReplayControls from './components/SessionReplayControls';
+import OfflineStatus from './components/OfflineStatus';
+import RehabControls from './components/RehabControls';
+import RehabProgress from './components/RehabProgress';
+import EyeExercisePanel from './components/EyeExercisePanel';
+import { EXERCISES } from './utils/ExerciseRegistry';
+import type { ExerciseSetResult } from './utils/ExerciseProtocol';
+import { getStepProtocol } from './utils/Routines';
+import type { Routine, RoutineStep, RoutineSummary } from './utils/Routines';
+import { SessionRecorder } from './utils/SessionRecorder';
+import type { SessionFile } from './utils/SessionRecorder';
+import { getLandmarkProviderConfig } from './utils/LandmarkProvider';
+import { LandmarkStream, useRenderCount } from './utils/LandmarkStream';
+import { PerformanceGovernor } from './utils/PerformanceGovernor';
+import { clearRehabSettings, loadRehabSettings, saveRehabSettings } from './utils/Rehab';
+import type { RehabSettings } from './utils/Rehab';
+import { EYE_BREAK_INTERVAL_MS } from './utils/EyeExercises';
+import type { EyeExerciseId } from './utils/EyeExercises';
+import { HeartRateMonitor } from './utils/HeartRate';
 
 // Logo component with stylized face
 const Logo = () => (
@@ -27,17 +49,50 @@ const Logo = () => (
 );
 
 const App: React.FC = () => {
+  useRenderCount('App');
+  
   // Core state
   const [exerciseCount, setExerciseCount] = useState<number>(0);
   const [stressLevel, setStressLevel] = useState<number>(0);
   const [exerciseDoneToday, setExerciseDoneToday] = useState<boolean>(false);
-  const [landmarks, setLandmarks] = useState<any>(null);
-  const [faceVisible, setFaceVisible] = useState<boolean>(false);
   const [exerciseProgress, setExerciseProgress] = useState<number>(0);
   const [currentExercise, setCurrentExercise] = useState<string>('');
   const [trainerChatMinimized, setTrainerChatMinimized] = useState<boolean>(true);
   const [completedExercises, setCompletedExercises] = useState<Set<string>>(new Set());
   
+  // Routine state
+  const [showRoutines, setShowRoutines] = useState<boolean>(false);
+  const [activeRoutine, setActiveRoutine] = useState<Routine | null>(null);
+  const [routineStep, setRoutineStep] = useState<RoutineStep | null>(null);
+  const [routineStepActive, setRoutineStepActive] = useState<boolean>(false);
+  const [routineSetResult, setRoutineSetResult] = useState<ExerciseSetResult | null>(null);
+  
+  // Tracker frames go through the stream, so App doesn't re-render at camera rate
+  const [landmarkStream] = useState(() => new LandmarkStream());
+  
+  // Holds the tracker at a frame rate this device can sustain
+  const [performanceGovernor] = useState(() => new PerformanceGovernor());
+  
+  // One recorder for the app's lifetime; it only buffers while recording
+  const [sessionRecorder] = useState(() => new SessionRecorder());
+  
+  // Pulse read from the camera by the tracker, and fed into the stress score
+  const [heartRateMonitor] = useState(() => new HeartRateMonitor());
+  
+  // Recorded session played back instead of the camera
+  const [replaySession, setReplaySession] = useState<SessionFile | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState<number>(1);
+  
+  // Face tracker backend, chosen by ?tracker= or VITE_LANDMARK_PROVIDER
+  const [providerConfig] = useState(() => getLandmarkProviderConfig());
+  
+  // Rehab mode (affected side and goal) sticks across visits
+  const [rehabSettings, setRehabSettings] = useState<RehabSettings | null>(() => loadRehabSettings());
+  
+  // Eye exercise in progress (null = closed), and whether a 20-20-20 break is due (on the timer or from eye strain)
+  const [eyeExercise, setEyeExercise] = useState<EyeExerciseId | null>(null);
+  const [eyeBreakDue, setEyeBreakDue] = useState<boolean>(false);
+  
   // Prevent infinite loop by using ref for previous minimized state
   const prevMinimizedRef = useRef(trainerChatMinimized);
   
@@ -88,22 +143,24 @@ const App: React.FC = () => {
   
   const themeColors = getThemeColors();
 
-  // Handle landmark data from ExerciseTracker
-  const handleLandmarkUpdate = useCallback((newLandmarks: any, visible: boolean) => {
-    setLandmarks(newLandmarks);
-    setFaceVisible(visible);
-  }, []);
-
   // Handle exercise completion
-  const handleExerciseComplete = useCallback(() => {
+  const handleExerciseComplete = useCallback((result?: ExerciseSetResult) => {
     console.log(completedExercises);
+    // Let a running routine know the set is done
+    if (result) {
+      setRoutineSetResult(result);
+    }
+    
+    // Intermediate sets don't complete the exercise yet
+    if (result && !result.exerciseComplete) return;
+    
     // Only increment the count if this is a unique exercise
     setCompletedExercises(prev => {
       const newSet = new Set(prev);
       // If this exercise wasn't already completed, add it and increment the count
       if (!prev.has(currentExercise)) {
         newSet.add(currentExercise);
-        setExerciseCount(Math.min(10, newSet.size));
+        setExerciseCount(Math.min(EXERCISES.length, newSet.size));
       }
       return newSet;
     });
@@ -118,7 +175,8 @@ const App: React.FC = () => {
   // Handle stress level updates
   const handleStressUpdate = useCallback((newStressLevel: number) => {
     setStressLevel(newStressLevel);
-  }, []);
+    sessionRecorder.recordStress(newStressLevel);
+  }, [sessionRecorder]);
 
   // Handle exercise selection
   const handleExerciseSelection = useCallback((exercise: string) => {
@@ -130,6 +188,55 @@ const App: React.FC = () => {
     setExerciseProgress(progress);
   }, []);
 
+  // Start a routine from the routine library
+  const handleRoutineStart = useCallback((routine: Routine) => {
+    setShowRoutines(false);
+    setRoutineSetResult(null);
+    setActiveRoutine(routine);
+    sessionRecorder.recordEvent('routineStarted', { routineId: routine.id, routineName: routine.name });
+  }, [sessionRecorder]);
+  
+  // The routine player drives which exercise the tracker follows
+  const handleRoutineStepChange = useCallback((step: RoutineStep | null, active: boolean) => {
+    setRoutineStep(step);
+    setRoutineStepActive(active);
+  }, []);
+  
+  const handleRoutineFinish = useCallback((summary: RoutineSummary) => {
+    sessionRecorder.recordEvent('routineFinished', { ...summary });
+  }, [sessionRecorder]);
+  
+  const handleRoutineExit = useCallback(() => {
+    setActiveRoutine(null);
+  }, []);
+  
+  // Go back to the camera when a replay finishes or is stopped
+  const handleReplayStop = useCallback(() => {
+    setReplaySession(null);
+  }, []);
+  
+  // Turn rehab mode on or off and remember the choice
+  const handleRehabChange = useCallback((settings: RehabSettings | null) => {
+    if (settings) {
+      saveRehabSettings(settings);
+    } else {
+      clearRehabSettings();
+    }
+    setRehabSettings(settings);
+  }, []);
+  
+  // A finished break starts the next 20 minutes
+  const handleEyeExerciseComplete = useCallback((exercise: EyeExerciseId) => {
+    if (exercise === 'eyeBreak') {
+      setEyeBreakDue(false);
+    }
+  }, []);
+
+  // Blinking says the eyes are strained, so suggest the break now
+  const handleEyeStrain = useCallback(() => {
+    setEyeBreakDue(true);
+  }, []);
+
   // Load user preferences and check exercise status
   useEffect(() => {
     // Check if exercise was done today
@@ -153,6 +260,13 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Nudge for a 20-20-20 eye break every 20 minutes of use
+  useEffect(() => {
+    if (!appStarted || eyeBreakDue) return;
+    const timer = window.setTimeout(() => setEyeBreakDue(true), EYE_BREAK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [appStarted, eyeBreakDue]);
+
   // Add debug info to track camera status
   useEffect(() => {
     if (appStarted) {
@@ -215,68 +329,15 @@ const App: React.FC = () => {
   //     }
   //   }
   // };
-  useEffect(() => {
-    const link = document.createElement('link');
-    link.href = 'https://fonts.googleapis.com/css2?family=Playfair+Display:wght@400;500;600&display=swap';
-    link.rel = 'stylesheet';
-    document.head.appendChild(link);
-    
-    return () => {
-      document.head.removeChild(link);
-    };
-  }, []);
-  
-  useEffect(() => {
-    // Load MediaPipe scripts once at app startup
-    const loadMediaPipeScripts = async () => {
-      try {
-        // Check if already loaded
-        if ((window as any).FaceMesh && (window as any).Camera) {
-          console.log("MediaPipe scripts already loaded");
-          return;
-        }
-        
-        console.log("Loading MediaPipe scripts globally");
-        
-        // Setup the Module object to prevent WASM error
-        (window as any).Module = { 
-          arguments_: [],
-          locateFile: (file: string) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh/${file}`;
-          }
-        };
-        
-        // Load Face Mesh script
-        await new Promise((resolve, reject) => {
-          const script = document.createElement('script');
-          script.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619/face_mesh.js';
-          script.async = true;
-          script.onload = resolve;
-          script.onerror = reject;
-          document.body.appendChild(script);
-        });
-        
-        // Load Camera Utils script
-        await new Promise((resolve, reject) => {
-          const cameraScript = document.createElement('script');
-          cameraScript.src = 'https://cdn.jsdelivr.net/npm/@mediapipe/camera_utils@0.3/camera_utils.js';
-          cameraScript.async = true;
-          cameraScript.onload = resolve;
-          cameraScript.onerror = reject;
-          document.body.appendChild(cameraScript);
-        });
-        
-        console.log("MediaPipe scripts loaded successfully");
-      } catch (error) {
-        console.error("Error loading MediaPipe scripts:", error);
-      }
-    };
-    
-    loadMediaPipeScripts();
-  }, []);
-
   // Start the app
   const startApp = () => {
+    // Recorded and synthetic landmarks don't need the camera
+    if (providerConfig.kind !== 'mediapipe') {
+      setAppStarted(true);
+      setShowIntro(false);
+      return;
+    }
+    
     try {
       // Force request camera permissions immediately
       navigator.mediaDevices.getUserMedia({ video: true })
@@ -312,6 +373,8 @@ const App: React.FC = () => {
         position: 'relative',
         overflow: 'hidden'
       }}>
+        <OfflineStatus />
+
         {/* Header */}
         <div style={{
           width: '100%',
@@ -500,6 +563,8 @@ const App: React.FC = () => {
       position: 'relative',
       overflow: 'hidden'
     }}>
+      <OfflineStatus />
+
       {/* App Header */}
       <header style={{
         position: 'absolute',
@@ -637,20 +702,112 @@ const App: React.FC = () => {
               height: { ideal: 720, min: 480 },
               facingMode: "user"
             }}
-            onLandmarkUpdate={handleLandmarkUpdate}
+            providerConfig={providerConfig}
+            stream={landmarkStream}
+            governor={performanceGovernor}
             onExerciseComplete={handleExerciseComplete}
             onExerciseSelection={handleExerciseSelection}
             onProgressUpdate={handleProgressUpdate}
             exerciseCount={exerciseCount}
+            exercise={routineStep?.exercise}
+            protocol={routineStep ? getStepProtocol(routineStep) : undefined}
+            paused={(activeRoutine !== null && !routineStepActive) || eyeExercise !== null}
+            recorder={sessionRecorder}
+            replay={replaySession}
+            replaySpeed={replaySpeed}
+            onReplayEnd={handleReplayStop}
+            rehab={rehabSettings}
+            heartRate={heartRateMonitor}
           />
+          {activeRoutine ? (
+            <RoutinePlayer
+              routine={activeRoutine}
+              setResult={routineSetResult}
+              onStepChange={handleRoutineStepChange}
+              onFinish={handleRoutineFinish}
+              onExit={handleRoutineExit}
+            />
+          ) : showRoutines && (
+            <RoutineBuilder
+              onStart={handleRoutineStart}
+              onClose={() => setShowRoutines(false)}
+            />
+          )}
+          {eyeExercise && (
+            <EyeExercisePanel
+              stream={landmarkStream}
+              exercise={eyeExercise}
+              onExerciseChange={setEyeExercise}
+              onComplete={handleEyeExerciseComplete}
+              onClose={() => setEyeExercise(null)}
+            />
+          )}
+          <div style={{
+            position: 'absolute',
+            bottom: '70px',
+            left: '20px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '10px',
+            zIndex: 30
+          }}>
+            {!activeRoutine && !showRoutines && (
+              <button
+                onClick={() => setShowRoutines(true)}
+                style={{
+                  padding: '8px 15px',
+                  backgroundColor: 'rgba(0, 0, 0, 0.6)',
+                  color: 'white',
+                  border: '2px solid #F5F5DC',
+                  borderRadius: '30px',
+                  fontFamily: 'Arial',
+                  fontWeight: 'bold',
+                  cursor: 'pointer',
+                  backdropFilter: 'blur(5px)'
+                }}
+              >
+                Routines
+              </button>
+            )}
+            {!activeRoutine && !eyeExercise && (
+              <button
+                onClick={() => setEyeExercise(eyeBreakDue ? 'eyeBreak' : 'smoothPursuit')}
+                title={eyeBreakDue ? "Eyes need a rest—look 20 feet away for 20 seconds" : undefined}
+                style={{
+                  padding: '8px 15px',
+                  backgroundColor: eyeBreakDue ? '#F5F5DC' : 'rgba(0, 0, 0, 0.6)',
+                  color: eyeBreakDue ? 'black' : 'white',
+                  border: '2px solid #F5F5DC',
+                  borderRadius: '30px',
+                  fontFamily: 'Arial',
+                  fontWeight: 'bold',
+                  cursor: 'pointer',
+                  backdropFilter: 'blur(5px)'
+                }}
+              >
+                {eyeBreakDue ? 'Eye Break!' : 'Eye Gym'}
+              </button>
+            )}
+            <SessionRecorderControls recorder={sessionRecorder} />
+            <SessionReplayControls
+              replaying={replaySession !== null}
+              speed={replaySpeed}
+              onLoad={setReplaySession}
+              onStop={handleReplayStop}
+              onSpeedChange={setReplaySpeed}
+            />
+            <RehabControls settings={rehabSettings} onChange={handleRehabChange} />
+          </div>
           <StressGame
-            landmarks={landmarks}
-            faceVisible={faceVisible}
+            stream={landmarkStream}
             onStressUpdate={handleStressUpdate}
             isFullScreen={isFullScreen}
+            onEyeStrain={handleEyeStrain}
+            heartRate={heartRateMonitor}
           />
           <TrainerChat
             exerciseProgress={exerciseProgress}
+            stream={landmarkStream}
             currentExercise={currentExercise}
             isInSidePanel={true}
             onMinimizedChange={handleTrainerChatMinimized}
@@ -830,6 +987,17 @@ const App: React.FC = () => {
                 exerciseDoneToday={exerciseDoneToday}
               />
             </div>
+            
+            {/* Column 4 - Rehab Progress */}
+            <div style={{
+              height: 'auto',
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: 'center',
+              order: 4
+            }}>
+              <RehabProgress active={rehabSettings !== null} />
+            </div>
           </div>
         </div>
       )}
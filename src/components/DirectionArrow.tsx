@@ -1,45 +1,58 @@
 import React from 'react';
+import type { VisualDirection, VisualPosition } from '../utils/FacialAnalysis';
+import { CUE_CONTOURS, getCueAnchor, isSameAnchor } from '../utils/ExerciseCues';
+import { useRenderCount, useStreamSelector } from '../utils/LandmarkStream';
+import type { LandmarkStream } from '../utils/LandmarkStream';
 
 interface DirectionArrowProps {
-  direction: 'up' | 'down' | 'left' | 'right' | 'in' | 'out' | 'open' | 'close' | 'none';
-  position: 'mouth' | 'eyes' | 'eyebrows' | 'cheeks' | 'chin' | 'forehead' | 'nose' | 'tongue';
-  size?: number;
+  stream: LandmarkStream;       // Tracker frames the arrow follows
+  direction: VisualDirection;
+  position: VisualPosition;
+  focusPoints?: number[];       // Landmarks the exercise moves (the region's contours when omitted)
+  remaining?: number;           // Share of the move still to go (0-1); sets how far the arrow nudges
   color?: string;
 }
 
-const DirectionArrow: React.FC<DirectionArrowProps> = ({ 
-  direction, 
-  position, 
-  size = 40, 
-  color = "#00C4B4" 
+// The arrow follows the face at display rate but only re-renders when it actually moves
+const CUE_SAMPLE_HZ = 30;
+
+// How far the arrow travels at its peak, as a share of its own size, when the whole move is still to go
+const MAX_NUDGE = 0.35;
+const MAX_PULSE = 0.25;
+
+// Screen-space nudge per direction (the preview is mirrored, so these read as the user sees them)
+const NUDGE_VECTORS: Partial<Record<VisualDirection, [number, number]>> = {
+  up: [0, -1],
+  down: [0, 1],
+  left: [-1, 0],
+  right: [1, 0]
+};
+
+/**
+ * Exercise cue anchored to the live face
+ * Rendered inside a layer that covers the (mirrored) camera preview exactly
+ */
+const DirectionArrow: React.FC<DirectionArrowProps> = ({
+  stream,
+  direction,
+  position,
+  focusPoints,
+  remaining = 1,
+  color = "#00C4B4"
 }) => {
-  // Skip rendering if direction is none
-  if (direction === 'none') return null;
-  
-  // Calculate position based on facial feature
-  const getPositionStyle = () => {
-    switch(position) {
-      case 'eyebrows':
-        return { top: '20%', left: '50%' };
-      case 'eyes':
-        return { top: '30%', left: '50%' };
-      case 'nose':
-        return { top: '40%', left: '50%' };
-      case 'cheeks':
-        return { top: '45%', left: '50%' };
-      case 'mouth':
-        return { top: '60%', left: '50%' };
-      case 'chin':
-        return { top: '75%', left: '50%' };
-      case 'forehead':
-        return { top: '15%', left: '50%' };
-      case 'tongue':
-        return { top: '65%', left: '50%' };
-      default:
-        return { top: '50%', left: '50%' };
-    }
-  };
-  
+  useRenderCount('DirectionArrow');
+
+  const anchor = useStreamSelector(
+    stream,
+    frame => frame.landmarks && direction !== 'none'
+      ? getCueAnchor(frame.landmarks, focusPoints ?? CUE_CONTOURS[position].flat(), direction)
+      : null,
+    { hz: CUE_SAMPLE_HZ, isEqual: isSameAnchor }
+  );
+
+  // Skip rendering without a direction or a face to anchor to
+  if (direction === 'none' || !anchor) return null;
+
   // Get SVG path for different arrow types
   const getArrowPath = () => {
     switch(direction) {
@@ -63,43 +76,58 @@ const DirectionArrow: React.FC<DirectionArrowProps> = ({
         return '';
     }
   };
-  
-  const positionStyle = getPositionStyle();
-  const arrowPath = getArrowPath();
-  
+
+  // Directional arrows travel toward the goal; the rest pulse in size
+  const effort = Math.min(1, Math.max(0, remaining));
+  const [dx, dy] = NUDGE_VECTORS[direction] ?? [0, 0];
+  const pulse = NUDGE_VECTORS[direction] ? 1 : 1 + effort * MAX_PULSE;
+  const nudgeStyle = {
+    '--cue-dx': `${dx * effort * MAX_NUDGE * 100}%`,
+    '--cue-dy': `${dy * effort * MAX_NUDGE * 100}%`,
+    '--cue-scale': pulse
+  } as React.CSSProperties;
+
   return (
     <div style={{
       position: 'absolute',
-      top: positionStyle.top,
-      left: positionStyle.left,
+      // Landmarks are in camera coordinates; the preview is mirrored
+      left: `${(1 - anchor.x) * 100}%`,
+      top: `${anchor.y * 100}%`,
+      width: `${anchor.size * 100}%`,
+      aspectRatio: '1',
       transform: 'translate(-50%, -50%)',
-      width: `${size}px`,
-      height: `${size}px`,
       zIndex: 25,
       pointerEvents: 'none',
-      animation: 'pulse-arrow 2s infinite ease-in-out'
+      // Fades once the move gets there, so it stops competing with the face
+      opacity: 0.35 + 0.65 * effort
     }}>
-      <svg 
-        width={size} 
-        height={size} 
-        viewBox="0 0 40 40" 
+      <svg
+        width="100%"
+        height="100%"
+        viewBox="0 0 40 40"
         xmlns="http://www.w3.org/2000/svg"
+        style={{
+          ...nudgeStyle,
+          display: 'block',
+          overflow: 'visible',
+          animation: effort > 0 ? 'cue-nudge 1.2s infinite ease-in-out' : 'none'
+        }}
       >
-        <path 
-          d={arrowPath} 
-          stroke={color} 
-          strokeWidth="3" 
-          fill="none" 
-          strokeLinecap="round" 
+        <path
+          d={getArrowPath()}
+          stroke={color}
+          strokeWidth="3"
+          fill="none"
+          strokeLinecap="round"
           strokeLinejoin="round"
         />
       </svg>
       <style>
         {`
-          @keyframes pulse-arrow {
-            0% { opacity: 0.4; transform: translate(-50%, -50%) scale(0.95); }
-            50% { opacity: 1; transform: translate(-50%, -50%) scale(1.05); }
-            100% { opacity: 0.4; transform: translate(-50%, -50%) scale(0.95); }
+          @keyframes cue-nudge {
+            0% { transform: translate(0, 0) scale(1); }
+            50% { transform: translate(var(--cue-dx), var(--cue-dy)) scale(var(--cue-scale)); }
+            100% { transform: translate(0, 0) scale(1); }
           }
         `}
       </style>
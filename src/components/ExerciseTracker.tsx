@@ -1,33 +1,141 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { ExerciseValidators, getExerciseInstructions } from '../utils/FacialAnalysis';
+import {
+  analyzeFrame,
+  EXERCISE_IDS,
+  EXERCISE_NAMES,
+  EXERCISE_PASS_SCORE,
+  getActiveCalibration,
+  getExerciseFocusPoints,
+  getExerciseInstructions,
+  getExerciseVisualDirection,
+  isRelaxationExercise,
+  scoreExercise,
+  setActiveCalibration,
+  setFrameAspectRatio
+} from '../utils/FacialAnalysis';
+import type { ExerciseId, ExerciseScore, VisualPosition } from '../utils/FacialAnalysis';
+import { getHeadPoseWarning } from '../utils/HeadPose';
+import {
+  computeCalibrationProfile,
+  loadCalibrationProfile,
+  saveCalibrationProfile
+} from '../utils/Calibration';
+import type { CalibrationRecording } from '../utils/Calibration';
+import type { LandmarkFrame } from '../utils/LandmarkFeatures';
+import { ExerciseProtocolTracker } from '../utils/ExerciseProtocol';
+import type { ExerciseProtocol, ExerciseSetResult, ProtocolSnapshot } from '../utils/ExerciseProtocol';
+import type { SessionFile, SessionRecorder } from '../utils/SessionRecorder';
+import { DEFAULT_LANDMARK_PROVIDER_CONFIG, LandmarkProviderError } from '../utils/LandmarkProvider';
+import type { LandmarkProvider, LandmarkProviderConfig, LandmarkSample } from '../utils/LandmarkProvider';
+import { createLandmarkProvider } from '../utils/LandmarkProviders';
+import { RecordedLandmarkProvider } from '../utils/RecordedProvider';
+import { useRenderCount } from '../utils/LandmarkStream';
+import type { LandmarkStream } from '../utils/LandmarkStream';
+import type { PerformanceGovernor, PerformanceStats } from '../utils/PerformanceGovernor';
+import { getExerciseSmoothing, LandmarkSmoother, smoothSample } from '../utils/LandmarkSmoothing';
+import { DEFAULT_FRAMING_THRESHOLDS, FramingCoach, measureFaceBox, readVideoLighting } from '../utils/FramingCoach';
+import type { FramingAssessment, FramingDirection, LightingStats } from '../utils/FramingCoach';
+import type { HeartRateMonitor } from '../utils/HeartRate';
+import { CUE_CONTOURS, getCueRemaining } from '../utils/ExerciseCues';
+import { EXERCISES, getExerciseByName } from '../utils/ExerciseRegistry';
+import {
+  getSidePoints,
+  loadSymmetryHistory,
+  saveSymmetryReport,
+  SYMMETRY_MIDLINE_POINTS,
+  SYMMETRY_REGION_NAMES,
+  SYMMETRY_REGIONS,
+  SYMMETRY_TOLERANCE,
+  SymmetryTracker
+} from '../utils/Symmetry';
+import type { SymmetryFrame, SymmetryReport } from '../utils/Symmetry';
+import { getHealthyBest, loadRehabHistory, RehabTracker, saveRehabSession } from '../utils/Rehab';
+import type { RehabSettings } from '../utils/Rehab';
+import DirectionArrow from './DirectionArrow';
+import SymmetryReportPanel from './SymmetryReportPanel';
 
-// Define global types for MediaPipe
-declare global {
-  interface Window {
-    FaceMesh?: any;
-    Camera?: any;
-  }
+// Calibration records a neutral face, then a maximal attempt of every exercise
+type CalibrationTarget = 'neutral' | ExerciseId;
+
+interface CalibrationStep {
+  target: CalibrationTarget;
+  phase: 'prepare' | 'record';
+  startedAt: number;
 }
 
-type ExerciseName = 
-  | "Jaw Dropper" 
-  | "Brow Lifter" 
-  | "Cheek Puffer" 
-  | "Eye Winker" 
-  | "Smiley Stretch" 
-  | "Nose Scruncher" 
-  | "Lip Pucker" 
-  | "Chin Jutter" 
-  | "Forehead Smoother" 
-  | "Tongue Twister";
+const CALIBRATION_SEQUENCE: CalibrationTarget[] = ['neutral', ...EXERCISE_IDS];
+const CALIBRATION_PREPARE_MS = 2000;
+const CALIBRATION_NEUTRAL_MS = 4000;
+const CALIBRATION_ATTEMPT_MS = 3000;
+
+const getCalibrationStepDuration = (step: CalibrationStep) => {
+  if (step.phase === 'prepare') return CALIBRATION_PREPARE_MS;
+  return step.target === 'neutral' ? CALIBRATION_NEUTRAL_MS : CALIBRATION_ATTEMPT_MS;
+};
+
+// Shown for each protocol phase under the intensity meter
+const PROTOCOL_PHASE_LABELS: Record<ProtocolSnapshot['phase'], string> = {
+  active: 'Go!',
+  hold: 'Hold it...',
+  release: 'Relax',
+  rest: 'Rest',
+  complete: 'Done!'
+};
+
+// Protocol snapshots are rebuilt every frame; only store one that differs
+const isSameSnapshot = (a: ProtocolSnapshot | null, b: ProtocolSnapshot) =>
+  a !== null &&
+  a.phase === b.phase &&
+  a.set === b.set &&
+  a.validReps === b.validReps &&
+  a.shortReps === b.shortReps &&
+  a.phaseProgress === b.phaseProgress &&
+  a.progress === b.progress &&
+  a.lastRep === b.lastRep;
+
+// How often the framing coach measures the lighting of the camera frame
+const LIGHTING_SAMPLE_MS = 500;
+
+// Arrow segments (as fractions of the canvas height) pointing the way to move for each framing direction
+const FRAMING_ARROWS: Record<FramingDirection, [number, number, number, number][]> = {
+  left: [[0.08, 0, -0.08, 0]],
+  right: [[-0.08, 0, 0.08, 0]],
+  up: [[0, 0.08, 0, -0.08]],
+  down: [[0, -0.08, 0, 0.08]],
+  // Outward to grow the face, inward to shrink it
+  closer: [[-0.12, -0.12, -0.22, -0.22], [0.12, -0.12, 0.22, -0.22], [-0.12, 0.12, -0.22, 0.22], [0.12, 0.12, 0.22, 0.22]],
+  back: [[-0.22, -0.22, -0.12, -0.12], [0.22, -0.22, 0.12, -0.12], [-0.22, 0.22, -0.12, 0.12], [0.22, 0.22, 0.12, 0.12]]
+};
+
+// User-facing message for a provider that failed to start
+const getProviderErrorMessage = (error: unknown) => {
+  if (error instanceof LandmarkProviderError) {
+    if (error.failure === 'camera') return "Camera shy? Allow access!";
+    if (error.failure === 'playback') return "Camera permission granted but couldn't start video. Try refreshing.";
+  }
+  return "Failed to initialize facial tracking. Please try refreshing.";
+};
 
 interface ExerciseTrackerProps {
   videoConstraints?: MediaTrackConstraints;
-  onLandmarkUpdate?: (landmarks: any, faceVisible: boolean) => void;
-  onExerciseComplete?: () => void;
+  providerConfig?: LandmarkProviderConfig;  // Where landmarks come from (camera + MediaPipe by default)
+  stream?: LandmarkStream;        // Receives every sample, for consumers that sample it at their own rate
+  governor?: PerformanceGovernor; // Adapts frame rate, camera resolution and overlay to the device (live camera only)
+  onLandmarkUpdate?: (landmarks: LandmarkFrame | null, faceVisible: boolean) => void;
+  onExerciseComplete?: (result?: ExerciseSetResult) => void;
   onExerciseSelection?: (exercise: string) => void;
   onProgressUpdate?: (progress: number) => void;
+  onScoreUpdate?: (score: ExerciseScore | null) => void;
   exerciseCount?: number;
+  exercise?: ExerciseId;          // Controls the exercise (e.g. from a routine) instead of the picker
+  protocol?: ExerciseProtocol;    // Overrides the exercise's own rep protocol
+  paused?: boolean;               // Keep tracking the face but stop scoring reps
+  recorder?: SessionRecorder;     // Receives every frame and event while recording
+  replay?: SessionFile | null;    // Play this recording instead of the configured provider
+  replaySpeed?: number;
+  onReplayEnd?: () => void;
+  rehab?: RehabSettings | null;   // Score the affected side against the healthy side instead of pass/fail
+  heartRate?: HeartRateMonitor;   // Reads the pulse from the skin in every camera frame
 }
 
 const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({ 
@@ -36,111 +144,95 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     height: 480,
     facingMode: "user"
   },
+  providerConfig = DEFAULT_LANDMARK_PROVIDER_CONFIG,
+  stream,
+  governor,
   onLandmarkUpdate,
   onExerciseComplete,
   onExerciseSelection,
   onProgressUpdate,
-  exerciseCount
+  onScoreUpdate,
+  exerciseCount,
+  exercise: controlledExercise,
+  protocol: protocolOverride,
+  paused = false,
+  recorder,
+  replay = null,
+  replaySpeed = 1,
+  onReplayEnd,
+  rehab = null,
+  heartRate
 }) => {
+  useRenderCount('ExerciseTracker');
+  
   // All refs must be declared at the top level
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const activeMeshRef = useRef<any>(null);
-  const activeStreamRef = useRef<MediaStream | null>(null);
-  const animationFrameIdRef = useRef<number | null>(null);
-  const prevConstraintsRef = useRef(videoConstraints);
+  const cueLayerRef = useRef<HTMLDivElement>(null);
+  const providerRef = useRef<LandmarkProvider | null>(null);
+  const prevConstraintsRef = useRef(governor?.mode.videoConstraints ?? videoConstraints);
   const isFirstMountRef = useRef(true);
   const displayScaleRef = useRef<{scaleX: number, scaleY: number}>({scaleX: 1, scaleY: 1});
+  const headPoseWarningRef = useRef<string | null>(null);
+  const protocolTrackerRef = useRef<ExerciseProtocolTracker | null>(null);
+  const protocolKeyRef = useRef<string>('');
+  const replayRef = useRef<SessionFile | null>(replay);
+  const replaySpeedRef = useRef<number>(replaySpeed);
+  const onReplayEndRef = useRef(onReplayEnd);
+  const startProviderRef = useRef<() => void>(() => {});
+  const lastReportedScoreRef = useRef<number | null>(null);
+  const onSampleRef = useRef<(sample: LandmarkSample) => void>(() => {});
+  const calibrationStepRef = useRef<CalibrationStep | null>(null);
+  const calibrationRecordingRef = useRef<CalibrationRecording>({ neutral: [], attempts: {} });
+  // Whether the running provider is a live camera the governor measures and adapts
+  const governedRef = useRef(false);
+  // Smooths landmarks from providers that don't smooth them themselves
+  const smootherRef = useRef<LandmarkSmoother>(new LandmarkSmoother());
+  const framingCoachRef = useRef<FramingCoach>(new FramingCoach());
+  const lightingRef = useRef<{ sampledAt: number; stats: LightingStats | null }>({ sampledAt: -Infinity, stats: null });
+  const symmetryTrackerRef = useRef<SymmetryTracker>(new SymmetryTracker());
+  const rehabTrackerRef = useRef<RehabTracker | null>(null);
   
   // State declarations
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string>("");
-  const [selectedExercise, setSelectedExercise] = useState<ExerciseName>("Jaw Dropper");
+  const [pickedExercise, setPickedExercise] = useState<string>(EXERCISES[0].name);
   const [feedback, setFeedback] = useState<string>("");
   const [feedbackType, setFeedbackType] = useState<'success' | 'failure' | ''>('');
   const [showFeedback, setShowFeedback] = useState<boolean>(false);
   const [vibePulse, setVibePulse] = useState<number>(0); 
   const [actualResolution, setActualResolution] = useState({ width: 0, height: 0 });
-  const [successStreak, setSuccessStreak] = useState<number>(0);
+  const [protocolState, setProtocolState] = useState<ProtocolSnapshot | null>(null);
+  const [completedSet, setCompletedSet] = useState<ExerciseSetResult | null>(null);
   const [lastExerciseResult, setLastExerciseResult] = useState<{
     isSuccessful: boolean;
     feedbackMessage: string;
+    score: number;
   } | null>(null);
+  const [headPoseWarning, setHeadPoseWarning] = useState<string | null>(null);
+  const [performanceStats, setPerformanceStats] = useState<PerformanceStats | null>(() => governor?.stats ?? null);
+  const [calibrationStep, setCalibrationStep] = useState<CalibrationStep | null>(null);
+  const [calibrationClock, setCalibrationClock] = useState<number>(0);
+  const [isCalibrated, setIsCalibrated] = useState<boolean>(false);
+  const [showSymmetry, setShowSymmetry] = useState<boolean>(false);
+  const [symmetryReport, setSymmetryReport] = useState<SymmetryReport | null>(null);
+  const [symmetryHistory, setSymmetryHistory] = useState<SymmetryReport[]>([]);
+  const [rehabStatus, setRehabStatus] = useState<{ reading: boolean; affected: number; healthy: number } | null>(null);
 
   // Premium colors
   //const TEAL_COLOR = "#C49A7E"; 
   const RED_COLOR = "#FF4A4A";
   const BEIGE_COLOR = "#F5F5DC"; // New beige color
 
-  // Define the 10 required exercises
-  const exercises: Record<ExerciseName, {
-    name: string;
-    validate: (landmarks: any) => boolean;
-    successMessage: string;
-    failureMessage: string;
-  }> = {
-    "Jaw Dropper": {
-      name: "Jaw Dropper",
-      validate: ExerciseValidators.jawDropper,
-      successMessage: "Jaw's dropping jaws—elite status unlocked!",
-      failureMessage: "Widen it, vibe rookie!"
-    },
-    "Brow Lifter": {
-      name: "Brow Lifter",
-      validate: ExerciseValidators.browLifter,
-      successMessage: "Brows hit the VIP list—stress is shook!",
-      failureMessage: "Lift 'em to the penthouse, fam!"
-    },
-    "Cheek Puffer": {
-      name: "Cheek Puffer",
-      validate: ExerciseValidators.cheekPuffer,
-      successMessage: "Chipmunk champ—puff power maxed!",
-      failureMessage: "Puff harder, glow slacker!"
-    },
-    "Eye Winker": {
-      name: "Eye Winker",
-      validate: ExerciseValidators.eyeWinker,
-      successMessage: "Wink wizard—eye game on fleek!",
-      failureMessage: "One eye's lazy—step it up!"
-    },
-    "Smiley Stretch": {
-      name: "Smiley Stretch",
-      validate: ExerciseValidators.smileyStretch,
-      successMessage: "Grin king—stress just got dethroned!",
-      failureMessage: "Stretch that smile, vibe lord!"
-    },
-    "Nose Scruncher": {
-      name: "Nose Scruncher",
-      validate: ExerciseValidators.noseScruncher,
-      successMessage: "Scrunched it—wrinkle warrior!",
-      failureMessage: "Snout's slacking—crinkle more!"
-    },
-    "Lip Pucker": {
-      name: "Lip Pucker",
-      validate: ExerciseValidators.lipPucker,
-      successMessage: "Pout power—lips too posh for stress!",
-      failureMessage: "Pucker up, you're half there!"
-    },
-    "Chin Jutter": {
-      name: "Chin Jutter",
-      validate: ExerciseValidators.chinJutter,
-      successMessage: "Chin out, boss—vibe royalty!",
-      failureMessage: "Push it forward, champ!"
-    },
-    "Forehead Smoother": {
-      name: "Forehead Smoother",
-      validate: ExerciseValidators.foreheadSmoother,
-      successMessage: "Zen forehead—stress canceled deluxe!",
-      failureMessage: "Smooth it out, tension's lurking!"
-    },
-    "Tongue Twister": {
-      name: "Tongue Twister",
-      validate: ExerciseValidators.tongueTwister,
-      successMessage: "Tongue titan—vibe beast mode!",
-      failureMessage: "Stick it out, don't hide!"
-    }
-  };
+  // A controlling parent wins over the picker
+  const selectedExercise = controlledExercise
+    ? EXERCISE_NAMES[controlledExercise]
+    : pickedExercise;
+  const selectedDefinition = getExerciseByName(selectedExercise) ?? EXERCISES[0];
+  const selectedExerciseId = selectedDefinition.id;
+  const visualCue = getExerciseVisualDirection(selectedExercise);
+  const activeProtocol = protocolOverride ?? selectedDefinition.protocol;
 
   // Calculate proper canvas scaling based on container dimensions
   const updateCanvasScaling = () => {
@@ -191,285 +283,90 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
       videoRef.current.style.left = `${(containerWidth - newWidth) / 2}px`;
       videoRef.current.style.top = `${(containerHeight - newHeight) / 2}px`;
     }
+    
+    // Exercise cues are positioned in fractions of the preview
+    if (cueLayerRef.current) {
+      cueLayerRef.current.style.width = `${newWidth}px`;
+      cueLayerRef.current.style.height = `${newHeight}px`;
+      cueLayerRef.current.style.left = `${(containerWidth - newWidth) / 2}px`;
+      cueLayerRef.current.style.top = `${(containerHeight - newHeight) / 2}px`;
+    }
   };
 
-  // Function to set up the camera and FaceMesh
-  const setupCamera = async () => {
-    if (!videoRef.current) return;
-    
+  // Lower performance modes swap in a smaller camera resolution
+  const effectiveConstraints = performanceStats?.mode.videoConstraints ?? videoConstraints;
+  
+  // Start the configured landmark provider, or a replay standing in for it
+  const startProvider = async () => {
     // Stop any previous instances
-    await cleanupMediaPipe();
+    stopProvider();
+    
+    const replaySession = replayRef.current;
+    const provider: LandmarkProvider = replaySession
+      ? new RecordedLandmarkProvider(replaySession, {
+          speed: replaySpeedRef.current,
+          onEnd: () => onReplayEndRef.current?.()
+        })
+      : createLandmarkProvider(providerConfig);
+    providerRef.current = provider;
+    provider.setAnalysisTarget?.({ exercise: selectedExerciseId, calibration: getActiveCalibration() });
+    smootherRef.current.reset();
+    framingCoachRef.current.reset();
+    lightingRef.current = { sampledAt: -Infinity, stats: null };
+    governedRef.current = !!governor && !replaySession && provider.kind === 'mediapipe';
+    if (governor && governedRef.current) {
+      governor.reset();
+      provider.setMaxFps?.(governor.targetFps);
+    }
+    setLoading(true);
     
     try {
-      setLoading(true);
-      
-      // Get user media with video constraints
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: videoConstraints
-      });
-      
-      // Store stream in ref for cleanup
-      activeStreamRef.current = stream;
+      const resolution = await provider.start(
+        (sample) => onSampleRef.current(sample),
+        { video: videoRef.current, videoConstraints: effectiveConstraints }
+      );
       
-      // Get resolution
-      const videoTrack = stream.getVideoTracks()[0];
-      const settings = videoTrack.getSettings();
-      console.log("Video settings:", settings);
+      // Replaced by a newer provider while starting
+      if (providerRef.current !== provider) return;
       
-      // Store the actual video dimensions
-      if (settings.width && settings.height) {
-        setActualResolution({
-          width: settings.width,
-          height: settings.height
-        });
-        
-        // Set canvas dimensions to match the actual video dimensions
-        if (canvasRef.current) {
-          canvasRef.current.width = settings.width;
-          canvasRef.current.height = settings.height;
-        }
-      }
-      
-      // Set video source and play with proper event handling
-      videoRef.current.srcObject = stream;
-
-      // Wait for the loadedmetadata event before trying to play
-      try {
-        await new Promise<void>((resolve, reject) => {
-          if (!videoRef.current) {
-            reject(new Error("Video element not available"));
-            return;
-          }
-          
-          // Function to handle successful loadedmetadata event
-          const loadHandler = () => {
-            videoRef.current?.removeEventListener('loadedmetadata', loadHandler);
-            videoRef.current?.removeEventListener('error', errorHandler);
-            
-            // Now try to play the video
-            videoRef.current?.play()
-              .then(() => resolve())
-              .catch(err => reject(err));
-          };
-          
-          // Function to handle video error events
-          const errorHandler = () => {
-            videoRef.current?.removeEventListener('loadedmetadata', loadHandler);
-            videoRef.current?.removeEventListener('error', errorHandler);
-            reject(new Error("Video loading error"));
-          };
-          
-          // Add event listeners
-          videoRef.current.addEventListener('loadedmetadata', loadHandler);
-          videoRef.current.addEventListener('error', errorHandler);
-          
-          // If the video is already loaded, resolve immediately
-          if (videoRef.current.readyState >= 2) {
-            videoRef.current.removeEventListener('loadedmetadata', loadHandler);
-            videoRef.current.removeEventListener('error', errorHandler);
-            
-            videoRef.current.play()
-              .then(() => resolve())
-              .catch(err => reject(err));
-          }
-        });
-      } catch (playError) {
-        console.error("Error playing video:", playError);
-        setError("Camera permission granted but couldn't start video. Try refreshing.");
-        setLoading(false);
-        return;
+      // Size the canvas to the frames the landmarks were measured on, and
+      // let normalization correct for their shape
+      setFrameAspectRatio(resolution.width / resolution.height);
+      recorder?.recordResolution(resolution);
+      setActualResolution(resolution);
+      if (canvasRef.current) {
+        canvasRef.current.width = resolution.width;
+        canvasRef.current.height = resolution.height;
       }
-      
-      // Apply the correct scaling once we have the video dimensions
       updateCanvasScaling();
-      
-      try {
-        // Make sure FaceMesh is available
-        if (!window.FaceMesh) {
-          throw new Error("MediaPipe FaceMesh not available");
-        }
-        
-        // Initialize FaceMesh with careful error handling and WASM workaround
-        // First, manually define a Module object on window to fix the WASM error
-        // This addresses the "Module.arguments has been replaced" error
-        (window as any).Module = {
-          arguments_: [],
-          locateFile: (file: string) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619/${file}`;
-          }
-        };
-        
-        // Create the FaceMesh instance with the same locateFile function
-        const mesh = new window.FaceMesh({
-          locateFile: (file: string) => {
-            return `https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619/${file}`;
-          }
-        });
-        
-        // Store mesh in ref
-        activeMeshRef.current = mesh;
-        
-        // Configure with await
-        await mesh.setOptions({
-          maxNumFaces: 1,
-          refineLandmarks: true,
-          minDetectionConfidence: 0.5,
-          minTrackingConfidence: 0.5
-        });
-        
-        // Set up result handler
-        mesh.onResults(onResults);
-        
-        // Initialize the model with a short timeout to allow WASM initialization
-        await new Promise(resolve => setTimeout(resolve, 100));
-        await mesh.initialize();
-        
-        // Create a canvas context for grabbing frames
-        if (!canvasRef.current) {
-          throw new Error("Canvas not available");
-        }
-        
-        const ctx = canvasRef.current.getContext('2d');
-        if (!ctx) {
-          throw new Error("Could not get canvas context");
-        }
-        
-        // Create our own frame processor using requestAnimationFrame
-        const processFrame = async () => {
-          if (!videoRef.current || !activeMeshRef.current || !canvasRef.current || !ctx) {
-            // If component is unmounted or resources cleaned up
-            return;
-          }
-          
-          // Check if video is playing and ready
-          if (videoRef.current.paused || videoRef.current.ended || videoRef.current.readyState < 2) {
-            // Try again on next frame
-            animationFrameIdRef.current = requestAnimationFrame(processFrame);
-            return;
-          }
-          
-          try {
-            // Draw the current frame to the canvas
-            // Make sure we draw it at its native size
-            ctx.drawImage(
-              videoRef.current, 
-              0, 
-              0, 
-              canvasRef.current.width, 
-              canvasRef.current.height
-            );
-            
-            // CRITICAL FIX: Use the video element directly instead of ImageData
-            // This avoids WASM memory issues with ImageData processing
-            if (activeMeshRef.current && videoRef.current) {
-              try {
-                // Try direct video element first
-                await activeMeshRef.current.send({image: videoRef.current});
-              } catch (directError) {
-                console.log('Trying alternative approach with ImageData');
-                // Fallback to ImageData if direct approach fails
-                const imageData = ctx.getImageData(
-                  0, 
-                  0, 
-                  canvasRef.current.width, 
-                  canvasRef.current.height
-                );
-                await activeMeshRef.current.send({image: imageData});
-              }
-            }
-          } catch (e) {
-            // Log but don't throw to keep animation frame running
-            console.error('Error processing frame:', e);
-          }
-          
-          // Process next frame
-          animationFrameIdRef.current = requestAnimationFrame(processFrame);
-        };
-        
-        // Start processing frames
-        animationFrameIdRef.current = requestAnimationFrame(processFrame);
-        
-        // We're ready!
-        setLoading(false);
-        
-      } catch (meshError) {
-        console.error("Error initializing FaceMesh:", meshError);
-        cleanupMediaPipe();
-        setError("Failed to initialize facial tracking. Please try refreshing.");
-        setLoading(false);
-      }
+      setLoading(false);
     } catch (error) {
-      console.error("Error setting up camera:", error);
-      cleanupMediaPipe();
-      setError("Camera shy? Allow access!");
+      if (providerRef.current !== provider) return;
+      console.error("Error starting landmark provider:", error);
+      stopProvider();
+      setError(getProviderErrorMessage(error));
       setLoading(false);
     }
   };
 
-  // Improved cleanup function
-  const cleanupMediaPipe = async () => {
-    console.log("Cleaning up MediaPipe resources");
-    
-    // Cancel any animation frames first
-    if (animationFrameIdRef.current !== null) {
-      cancelAnimationFrame(animationFrameIdRef.current);
-      animationFrameIdRef.current = null;
-    }
-    
-    // Close mesh
-    if (activeMeshRef.current) {
-      try {
-        console.log("Closing FaceMesh");
-        activeMeshRef.current.close();
-      } catch (e) {
-        console.error("Error closing FaceMesh:", e);
-      }
-      activeMeshRef.current = null;
-    }
-    
-    // Stop media stream
-    if (activeStreamRef.current) {
-      try {
-        console.log("Stopping media tracks");
-        activeStreamRef.current.getTracks().forEach(track => {
-          track.stop();
-        });
-      } catch (e) {
-        console.error("Error stopping media tracks:", e);
-      }
-      activeStreamRef.current = null;
-    }
-    
-    // Clear video source if still connected to component
-    if (videoRef.current && videoRef.current.srcObject) {
-      try {
-        videoRef.current.pause();
-        videoRef.current.srcObject = null;
-      } catch (e) {
-        console.error("Error clearing video source:", e);
-      }
+  // Stop the provider and release its camera and tracker
+  const stopProvider = () => {
+    if (providerRef.current) {
+      console.log(`Stopping ${providerRef.current.kind} landmark provider`);
+      providerRef.current.stop();
+      providerRef.current = null;
     }
-    
-    console.log("MediaPipe cleanup complete");
   };
-  // Load MediaPipe dependencies and setup
-  const loadMediaPipe = async () => {
+  
+  // Start tracking unless a provider is already running
+  const loadProvider = () => {
     // Prevent duplicate initialization
-    if (activeMeshRef.current) {
-      console.log("MediaPipe already initialized, skipping setup");
-      setLoading(false);
+    if (providerRef.current) {
+      console.log("Landmark provider already running, skipping setup");
       return;
     }
     
-    // Check if scripts are loaded and proceed
-    if (window.FaceMesh) {
-      console.log("MediaPipe libraries available, setting up camera");
-      setupCamera();
-    } else {
-      console.error("MediaPipe libraries not available");
-      setError("Required libraries not loaded. Please refresh the page.");
-      setLoading(false);
-    }
+    startProvider();
   };
 
   // Function to reset and restart camera
@@ -485,13 +382,13 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     setError("");
     
     // Do a full cleanup first
-    await cleanupMediaPipe();
+    stopProvider();
     
     // Wait for cleanup to finalize with a slightly longer delay
     await new Promise(resolve => setTimeout(resolve, 800));
     
     // Reinitialize
-    setupCamera();
+    startProvider();
   };
 
   // Add camera permission error handling with retry
@@ -502,13 +399,61 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
       
       // Short delay before retry to break potential loops
       setTimeout(() => {
-        loadMediaPipe();
+        loadProvider();
       }, 500);
     }
   };
 
   // EFFECTS SECTION - All useEffect hooks must be called at the component's top level
 
+  // Notify parent of exercise selection change (picked here or set by the parent)
+  useEffect(() => {
+    if (onExerciseSelection) {
+      onExerciseSelection(selectedExercise);
+    }
+    recorder?.recordEvent('exerciseSelected', { exercise: selectedExerciseId });
+  }, [selectedExercise, selectedExerciseId, onExerciseSelection, recorder]);
+  
+  // Replay a recorded session instead of the configured provider, restoring it afterwards
+  useEffect(() => {
+    if (!replay) return;
+    
+    replayRef.current = replay;
+    setError("");
+    startProviderRef.current();
+    
+    return () => {
+      replayRef.current = null;
+      startProviderRef.current();
+    };
+  }, [replay]);
+  
+  // Speed changes apply to a replay that's already running
+  useEffect(() => {
+    replaySpeedRef.current = replaySpeed;
+    if (providerRef.current instanceof RecordedLandmarkProvider) {
+      providerRef.current.setSpeed(replaySpeed);
+    }
+  }, [replaySpeed]);
+  
+  // Keep providers that score frames off the main thread on the current exercise and calibration
+  // (a calibration session ends by clearing calibrationStep, after the new profile is active)
+  useEffect(() => {
+    providerRef.current?.setAnalysisTarget?.({ exercise: selectedExerciseId, calibration: getActiveCalibration() });
+  }, [selectedExerciseId, isCalibrated, calibrationStep]);
+  
+  // Quick exercises get responsive smoothing, long holds stable readings
+  useEffect(() => {
+    smootherRef.current.setParams(getExerciseSmoothing(selectedExerciseId));
+  }, [selectedExerciseId]);
+  
+  // Apply any saved calibration profile
+  useEffect(() => {
+    const profile = loadCalibrationProfile();
+    setActiveCalibration(profile);
+    setIsCalibrated(profile !== null);
+  }, []);
+
   // Initial setup effect
   useEffect(() => {
     // Track whether component is mounted
@@ -517,8 +462,8 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     // Initial setup with a small delay to ensure DOM is ready
     const initTimer = setTimeout(() => {
       if (isMounted) {
-        console.log("Initial MediaPipe setup");
-        loadMediaPipe();
+        console.log("Initial landmark provider setup");
+        loadProvider();
         isFirstMountRef.current = false;
       }
     }, 500); // Increased delay to ensure DOM is fully ready
@@ -526,18 +471,18 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     // Cleanup on unmount
     return () => {
       isMounted = false;
-      console.log("Component unmounting, cleaning up MediaPipe");
+      console.log("Component unmounting, stopping landmark provider");
       clearTimeout(initTimer);
-      cleanupMediaPipe();
+      stopProvider();
     };
   }, []);
 
   // Add a visibility change listener to handle tab switching
   useEffect(() => {
     const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && !activeMeshRef.current) {
-        console.log("Page became visible, reinitializing MediaPipe");
-        loadMediaPipe();
+      if (document.visibilityState === 'visible' && !providerRef.current) {
+        console.log("Page became visible, restarting landmark provider");
+        loadProvider();
       }
     };
 
@@ -551,9 +496,9 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
   // Add a focus event listener to handle window focus
   useEffect(() => {
     const handleFocus = () => {
-      if (!activeMeshRef.current) {
-        console.log("Window gained focus, checking MediaPipe");
-        loadMediaPipe();
+      if (!providerRef.current) {
+        console.log("Window gained focus, restarting landmark provider");
+        loadProvider();
       }
     };
     
@@ -594,7 +539,7 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     }
     
     // Compare current constraints with previous ones
-    const constraintsChanged = JSON.stringify(prevConstraintsRef.current) !== JSON.stringify(videoConstraints);
+    const constraintsChanged = JSON.stringify(prevConstraintsRef.current) !== JSON.stringify(effectiveConstraints);
     
     // Only reset camera if constraints actually changed and not loading
     if (constraintsChanged && !loading && videoRef.current && videoRef.current.srcObject) {
@@ -603,8 +548,27 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     }
     
     // Update the previous constraints ref
-    prevConstraintsRef.current = videoConstraints;
-  }, [videoConstraints, loading]);
+    prevConstraintsRef.current = effectiveConstraints;
+  }, [effectiveConstraints, loading]);
+
+  // Follow the performance governor: cap the provider's frame rate, tell the rep
+  // tracker how far apart frames arrive, and show the mode (lower modes also
+  // switch the camera resolution through effectiveConstraints above)
+  useEffect(() => {
+    if (!governor) return;
+    
+    return governor.subscribe((stats, modeChanged) => {
+      protocolTrackerRef.current?.setFrameInterval(stats.frameIntervalMs);
+      if (modeChanged) {
+        console.log(`Performance mode: ${stats.mode.name} (${stats.fps.toFixed(1)} fps, ${Math.round(stats.latencyMs)}ms latency)`);
+        providerRef.current?.setMaxFps?.(stats.targetFps);
+        recorder?.recordEvent('performanceMode', { mode: stats.mode.name, fps: stats.fps });
+      }
+      setPerformanceStats(prev =>
+        prev && prev.mode === stats.mode && Math.round(prev.fps) === Math.round(stats.fps) ? prev : stats
+      );
+    });
+  }, [governor, recorder]);
 
   // Error notification effect
   useEffect(() => {
@@ -641,69 +605,107 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     }
   }, [error]);
   
-  // Effect to handle progress updates and exercise completion
+  // Keep the session's symmetry report when the tracker goes away
   useEffect(() => {
-    // Calculate progress percentage (0-15 → 0-100%)
-    const progressPercentage = Math.min(100, Math.round((successStreak / 15) * 100));
+    const symmetryTracker = symmetryTrackerRef.current;
+    return () => saveSymmetryReport(symmetryTracker.getReport());
+  }, []);
+  
+  // Rehab mode starts a fresh session (aiming for the best healthy range so far) and logs it when it ends
+  useEffect(() => {
+    if (!rehab) return;
+    
+    const rehabTracker = new RehabTracker(rehab, getHealthyBest(loadRehabHistory()));
+    rehabTrackerRef.current = rehabTracker;
+    protocolTrackerRef.current = null;
+    return () => {
+      saveRehabSession(rehabTracker.getSession());
+      rehabTrackerRef.current = null;
+      protocolTrackerRef.current = null;
+      setRehabStatus(null);
+    };
+  }, [rehab]);
+  
+  // Refresh the symmetry report while it's open
+  useEffect(() => {
+    if (!showSymmetry) return;
     
-    // Report progress update to parent component
+    setSymmetryHistory(loadSymmetryHistory());
+    const refresh = () => setSymmetryReport(symmetryTrackerRef.current.getReport());
+    refresh();
+    const timer = window.setInterval(refresh, 1000);
+    return () => clearInterval(timer);
+  }, [showSymmetry]);
+  
+  // Report protocol progress to parent component (whole percents, so it doesn't re-render every frame)
+  const protocolProgress = protocolState ? Math.round(protocolState.progress) : 0;
+  useEffect(() => {
     if (onProgressUpdate) {
-      onProgressUpdate(progressPercentage);
+      onProgressUpdate(protocolProgress);
+    }
+  }, [protocolProgress, onProgressUpdate]);
+  
+  // Effect to handle finished sets and exercise completion
+  useEffect(() => {
+    if (completedSet === null) return;
+    setCompletedSet(null);
+    recorder?.recordEvent('setCompleted', { ...completedSet, reps: completedSet.reps.length });
+    saveSymmetryReport(symmetryTrackerRef.current.getReport());
+    if (rehabTrackerRef.current) {
+      saveRehabSession(rehabTrackerRef.current.getSession());
     }
     
-    // Check for exercise completion
-    if (successStreak >= 15 && onExerciseComplete) {
-      onExerciseComplete();
-      // Reset streak after completion
-      setSuccessStreak(0);
-      
-      // Create a function for showing completion feedback
-      const showCompletionFeedback = () => {
-        const completionFeedback = document.createElement('div');
-        completionFeedback.style.position = 'fixed';
-        completionFeedback.style.top = '50%';
-        completionFeedback.style.left = '50%';
-        completionFeedback.style.transform = 'translate(-50%, -50%)';
-        completionFeedback.style.backgroundColor = 'rgba(230, 210, 180, 0.6)';
-        completionFeedback.style.color = 'white';
-        completionFeedback.style.padding = '20px';
-        completionFeedback.style.borderRadius = '10px';
-        completionFeedback.style.zIndex = '9999';
-        completionFeedback.style.textAlign = 'center';
-        completionFeedback.innerHTML = `<h3>Exercise Complete!</h3><p>You've mastered the ${selectedExercise}!</p>`;
-        document.body.appendChild(completionFeedback);
-        
-        // Remove after 0.5 seconds
-        setTimeout(() => {
-          if (document.body.contains(completionFeedback)) {
-            document.body.removeChild(completionFeedback);
-          }
-        }, 500);
-      };
-      
-      showCompletionFeedback();
+    if (onExerciseComplete) {
+      onExerciseComplete(completedSet);
+    }
+    
+    // Start the protocol over once every set is done
+    if (completedSet.exerciseComplete) {
+      protocolTrackerRef.current?.reset();
+      setProtocolState(null);
     }
-  }, [successStreak, onProgressUpdate, onExerciseComplete, selectedExercise]);
+    
+    // Create a function for showing completion feedback
+    const showCompletionFeedback = () => {
+      const completionFeedback = document.createElement('div');
+      completionFeedback.style.position = 'fixed';
+      completionFeedback.style.top = '50%';
+      completionFeedback.style.left = '50%';
+      completionFeedback.style.transform = 'translate(-50%, -50%)';
+      completionFeedback.style.backgroundColor = 'rgba(230, 210, 180, 0.6)';
+      completionFeedback.style.color = 'white';
+      completionFeedback.style.padding = '20px';
+      completionFeedback.style.borderRadius = '10px';
+      completionFeedback.style.zIndex = '9999';
+      completionFeedback.style.textAlign = 'center';
+      completionFeedback.innerHTML = completedSet.exerciseComplete
+        ? `<h3>Exercise Complete!</h3><p>You've mastered the ${selectedExercise}!</p>`
+        : `<h3>Set ${completedSet.set}/${completedSet.totalSets} done!</h3><p>${completedSet.validReps} reps${completedSet.shortReps > 0 ? `, ${completedSet.shortReps} too short` : ''}</p>`;
+      document.body.appendChild(completionFeedback);
+      
+      // Remove after 1.5 seconds
+      setTimeout(() => {
+        if (document.body.contains(completionFeedback)) {
+          document.body.removeChild(completionFeedback);
+        }
+      }, 1500);
+    };
+    
+    showCompletionFeedback();
+  }, [completedSet, onExerciseComplete, selectedExercise, recorder]);
   
   // Add a useEffect to handle exercise success/failure state changes
   useEffect(() => {
     if (lastExerciseResult === null) return;
     
-    const { isSuccessful, feedbackMessage } = lastExerciseResult;
+    const { isSuccessful, feedbackMessage, score } = lastExerciseResult;
     // Update feedback
     setFeedback(feedbackMessage);
     setFeedbackType(isSuccessful ? 'success' : 'failure');
     setShowFeedback(true);
     
-    // Update vibePulse
-    setVibePulse(prev => isSuccessful ? Math.min(100, prev + 5) : Math.max(0, prev - 1));
-    
-    // Update success streak
-    if (isSuccessful) {
-      setSuccessStreak(prev => prev + 1);
-    } else {
-      setSuccessStreak(0);
-    }
+    // Vibe Pulse shows the live intensity
+    setVibePulse(score);
     
     // Hide feedback after a delay
     setTimeout(() => {
@@ -711,13 +713,112 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     }, 8000); 
   }, [lastExerciseResult]);
   
-  // Handle FaceMesh results and provide premium feedback
-  const onResults = (results: any) => {
-    if (!canvasRef.current || !results.multiFaceLandmarks || results.multiFaceLandmarks.length === 0) {
+  // Advance the calibration session through its prepare/record steps
+  useEffect(() => {
+    calibrationStepRef.current = calibrationStep;
+    if (!calibrationStep) return;
+    
+    // Tick the countdown display
+    const clockTimer = window.setInterval(() => setCalibrationClock(Date.now()), 100);
+    
+    const stepTimer = window.setTimeout(() => {
+      if (calibrationStep.phase === 'prepare') {
+        setCalibrationStep({ ...calibrationStep, phase: 'record', startedAt: Date.now() });
+        return;
+      }
+      
+      const nextIndex = CALIBRATION_SEQUENCE.indexOf(calibrationStep.target) + 1;
+      if (nextIndex < CALIBRATION_SEQUENCE.length) {
+        setCalibrationStep({ target: CALIBRATION_SEQUENCE[nextIndex], phase: 'prepare', startedAt: Date.now() });
+      } else {
+        const calibrated = finishCalibration();
+        recorder?.recordEvent('calibrationFinished', { success: calibrated });
+      }
+    }, getCalibrationStepDuration(calibrationStep));
+    
+    return () => {
+      clearInterval(clockTimer);
+      clearTimeout(stepTimer);
+    };
+  }, [calibrationStep, recorder]);
+  
+  // Start a guided calibration session
+  const startCalibration = () => {
+    calibrationRecordingRef.current = { neutral: [], attempts: {} };
+    resetScoring();
+    recorder?.recordEvent('calibrationStarted');
+    setShowFeedback(false);
+    setCalibrationStep({ target: 'neutral', phase: 'prepare', startedAt: Date.now() });
+  };
+  
+  const cancelCalibration = () => {
+    setCalibrationStep(null);
+  };
+  
+  // Turn the recordings into personal thresholds and persist them
+  // Returns whether a profile could be computed
+  const finishCalibration = (): boolean => {
+    setCalibrationStep(null);
+    
+    const profile = computeCalibrationProfile(calibrationRecordingRef.current);
+    if (profile) {
+      saveCalibrationProfile(profile);
+      setActiveCalibration(profile);
+      setIsCalibrated(true);
+      setFeedback("Calibrated—thresholds tuned to your face!");
+      setFeedbackType('success');
+    } else {
+      setFeedback("Couldn't see your face—calibrate again!");
+      setFeedbackType('failure');
+    }
+    setShowFeedback(true);
+    setTimeout(() => {
+      setShowFeedback(false);
+    }, 8000);
+    return profile !== null;
+  };
+  
+  // Restart the rep protocol and clear the live score
+  // (the tracker is rebuilt for the selected exercise on the next frame)
+  const resetScoring = () => {
+    protocolTrackerRef.current = null;
+    setProtocolState(null);
+    setVibePulse(0);
+    reportScore(null);
+  };
+  
+  // Report the score to the parent only when its rounded value changes
+  const reportScore = (score: ExerciseScore | null) => {
+    const value = score ? score.score : null;
+    if (value === lastReportedScoreRef.current) return;
+    lastReportedScoreRef.current = value;
+    if (onScoreUpdate) {
+      onScoreUpdate(score);
+    }
+  };
+  
+  // Handle provider samples and provide premium feedback
+  // Providers running in a worker send the frame's analysis along (computed from landmarks
+  // they smoothed themselves); otherwise frames are smoothed and analyzed here
+  const onSample = (trackerSample: LandmarkSample) => {
+    const sample = smoothSample(smootherRef.current, trackerSample);
+    const { landmarks, timestamp, analysis } = sample;
+    if (governedRef.current) {
+      governor?.recordFrame(timestamp, performance.now());
+    }
+    // This frame isn't scored yet, so the score published with it is the previous frame's
+    stream?.publish(sample, lastReportedScoreRef.current);
+    
+    if (!canvasRef.current || !landmarks) {
       // No face detected
+      canvasRef.current?.getContext('2d')?.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
       if (onLandmarkUpdate) {
         onLandmarkUpdate(null, false);
       }
+      recorder?.recordFrame([], { exercise: selectedExerciseId });
+      reportScore(null);
+      framingCoachRef.current.reset();
+      heartRate?.addFrame(null, null);
       return;
     }
     
@@ -725,36 +826,148 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
+    // Recordings keep the tracker's own output; replays are smoothed again on the way in
+    const rawLandmarks = sample.rawLandmarks ?? landmarks;
+    
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
     
-    // Get landmarks
-    const landmarks = results.multiFaceLandmarks[0];
+    // Lighter performance modes skip the 468 landmark dots
+    const drawLandmarks = !governedRef.current || performanceStats?.mode.overlay !== 'minimal';
+    
+    // Warn when the head is turned too far for reliable measurements
+    // (only touch state when the message actually changes)
+    const poseWarning = getHeadPoseWarning((analysis ?? analyzeFrame(landmarks)).pose);
+    if (poseWarning !== headPoseWarningRef.current) {
+      headPoseWarningRef.current = poseWarning;
+      setHeadPoseWarning(poseWarning);
+    }
     
     // Notify parent component about landmark update
     if (onLandmarkUpdate) {
       onLandmarkUpdate(landmarks, true);
     }
     
-    // Update progress if provided
-    if (onProgressUpdate) {
-      onProgressUpdate(vibePulse);
+    // Check centering, distance and lighting (camera frames only, a couple of times a second)
+    if (timestamp - lightingRef.current.sampledAt >= LIGHTING_SAMPLE_MS || timestamp < lightingRef.current.sampledAt) {
+      lightingRef.current = { sampledAt: timestamp, stats: readVideoLighting(videoRef.current, measureFaceBox(landmarks)) };
+    }
+    const framing = framingCoachRef.current.update(landmarks, timestamp, lightingRef.current.stats);
+    
+    // Pulse from the skin color (a replay's landmarks don't belong to the video behind them)
+    heartRate?.addFrame(replayRef.current ? null : videoRef.current, landmarks);
+    const showFramingGuidance = (framing.paused || framing.assessment.ok) && framing.assessment.message !== null;
+    
+    // While calibrating, record features instead of validating (but not while the setup is off)
+    const activeCalibrationStep = calibrationStepRef.current;
+    if (activeCalibrationStep || paused) {
+      recorder?.recordFrame(rawLandmarks, { exercise: selectedExerciseId });
+      
+      if (activeCalibrationStep?.phase === 'record' && !framing.paused) {
+        const { features } = analysis ?? analyzeFrame(landmarks);
+        const recording = calibrationRecordingRef.current;
+        
+        if (activeCalibrationStep.target === 'neutral') {
+          recording.neutral.push(features);
+        } else {
+          const attempt = recording.attempts[activeCalibrationStep.target] ?? [];
+          attempt.push(features);
+          recording.attempts[activeCalibrationStep.target] = attempt;
+        }
+      }
+      
+      if (drawLandmarks) {
+        drawLandmarkDots(ctx, landmarks, BEIGE_COLOR);
+      }
+      if (showFramingGuidance) {
+        drawFramingGuidance(ctx, framing.assessment);
+      }
+      
+      // Reps start over when scoring resumes
+      protocolTrackerRef.current = null;
+      return;
+    }
+    
+    // Poor setup pauses scoring: a hold in progress is dropped rather than counted as a failed rep
+    if (framing.paused) {
+      recorder?.recordFrame(rawLandmarks, { exercise: selectedExerciseId });
+      reportScore(null);
+      if (protocolTrackerRef.current) {
+        const snapshot = protocolTrackerRef.current.interrupt(timestamp);
+        setProtocolState(prev => isSameSnapshot(prev, snapshot) ? prev : snapshot);
+      }
+      if (drawLandmarks) {
+        drawLandmarkDots(ctx, landmarks, BEIGE_COLOR);
+      }
+      if (showFramingGuidance) {
+        drawFramingGuidance(ctx, framing.assessment);
+      }
+      return;
     }
     
     // Get current exercise
-    const currentExercise = exercises[selectedExercise];
+    const currentExercise = selectedDefinition;
     
     if (currentExercise && landmarks) {
-      // Only validate the currently selected exercise
-      const isSuccessful = currentExercise.validate(landmarks);
+      // Only score the currently selected exercise
+      const exerciseScore = analysis?.exercise === currentExercise.id && analysis.score
+        ? analysis.score
+        : scoreExercise(currentExercise.id, landmarks);
+      reportScore(exerciseScore);
+      const symmetry = symmetryTrackerRef.current.update(landmarks, currentExercise.id, exerciseScore.score);
       
-      // Store exercise result state
-      setLastExerciseResult({
-        isSuccessful,
-        feedbackMessage: isSuccessful 
-          ? currentExercise.successMessage
-          : currentExercise.failureMessage
+      // In rehab mode reps count the affected side's movement against the healthy side's range
+      // (nothing counts while the resting face is still being read)
+      const rehabTracker = rehabTrackerRef.current;
+      const rehabFrame = rehabTracker?.update(landmarks, currentExercise.id) ?? null;
+      const protocolScore = rehabTracker ? rehabFrame?.score ?? 0 : exerciseScore.score;
+      const isSuccessful = rehabTracker ? protocolScore >= EXERCISE_PASS_SCORE : exerciseScore.passed;
+      if (rehabTracker) {
+        const status = {
+          reading: rehabFrame === null,
+          affected: rehabFrame?.affectedPercent ?? 0,
+          healthy: rehabFrame?.healthyPercent ?? 0
+        };
+        setRehabStatus(prev =>
+          prev && prev.reading === status.reading && prev.affected === status.affected && prev.healthy === status.healthy
+            ? prev
+            : status
+        );
+      }
+      
+      // Advance the active rep protocol, starting over whenever the exercise or protocol changes
+      const protocolKey = [selectedExercise, activeProtocol.reps, activeProtocol.holdMs, activeProtocol.restMs, activeProtocol.sets].join('|');
+      if (!protocolTrackerRef.current || protocolKeyRef.current !== protocolKey) {
+        protocolTrackerRef.current = new ExerciseProtocolTracker(activeProtocol, {
+          skipRelease: isRelaxationExercise(selectedExerciseId)
+        });
+        protocolTrackerRef.current.setFrameInterval(governedRef.current && governor ? governor.stats.frameIntervalMs : 0);
+        protocolKeyRef.current = protocolKey;
+      }
+      const update = protocolTrackerRef.current.update(protocolScore, timestamp);
+      setProtocolState(prev => isSameSnapshot(prev, update.snapshot) ? prev : update.snapshot);
+      
+      recorder?.recordFrame(rawLandmarks, {
+        exercise: currentExercise.id,
+        score: exerciseScore.score,
+        passed: exerciseScore.passed
       });
+      if (update.rep) {
+        recorder?.recordEvent('repCompleted', { ...update.rep });
+      }
+      if (update.setResult) {
+        setCompletedSet(update.setResult);
+      }
+      
+      // Store exercise result state (keeping the previous object when nothing changed skips the re-render)
+      const feedbackMessage = isSuccessful 
+        ? currentExercise.messages.success
+        : currentExercise.messages.failure;
+      setLastExerciseResult(prev =>
+        prev && prev.isSuccessful === isSuccessful && prev.score === protocolScore && prev.feedbackMessage === feedbackMessage
+          ? prev
+          : { isSuccessful, feedbackMessage, score: protocolScore }
+      );
       
       // Draw face landmarks with premium styling
       ctx.save();
@@ -766,32 +979,50 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
       // Draw facial mesh landmarks with elegant visualization
       // No need to apply scaleX/scaleY here as we're drawing directly on the canvas
       // at its native resolution. The canvas itself is being scaled in the DOM.
-      for (const landmark of landmarks) {
-        const x = landmark.x * canvas.width;
-        const y = landmark.y * canvas.height;
-        
-        // Draw elegant dots for landmarks
-        ctx.beginPath();
-        ctx.arc(x, y, 1.5, 0, 2 * Math.PI); 
-        ctx.fill();
+      if (drawLandmarks) {
+        for (const landmark of landmarks) {
+          const x = landmark.x * canvas.width;
+          const y = landmark.y * canvas.height;
+          
+          // Draw elegant dots for landmarks
+          ctx.beginPath();
+          ctx.arc(x, y, 1.5, 0, 2 * Math.PI); 
+          ctx.fill();
+        }
+      }
+      
+      // Highlight the region this exercise works
+      drawFocusHighlight(ctx, landmarks, visualCue.position, getExerciseFocusPoints(selectedExercise));
+      
+      if (showSymmetry) {
+        drawSymmetryOverlay(ctx, landmarks, symmetry);
       }
       
       // Draw Vibe Pulse meter - premium visualization
       drawVibePulse(ctx, canvas.width - 30, 30, vibePulse);
       
-      // Draw streak counter if > 0
-      if (successStreak > 0) {
+      // Advisory framing tips (e.g. flat lighting) don't pause scoring
+      if (showFramingGuidance) {
+        drawFramingGuidance(ctx, framing.assessment);
+      }
+      
+      // Draw rep counter once the protocol is underway
+      if (protocolState) {
         ctx.fillStyle = "rgba(0, 196, 180, 0.8)";
         ctx.font = "bold 16px Arial";
         ctx.textAlign = "left";
         ctx.textBaseline = "top";
-        ctx.fillText(`Streak: ${successStreak}`, 10, 10);
+        ctx.fillText(`Rep ${protocolState.validReps}/${activeProtocol.reps}`, 10, 10);
       }
       
       ctx.restore();
     }
   };
   
+  onSampleRef.current = onSample;
+  onReplayEndRef.current = onReplayEnd;
+  startProviderRef.current = startProvider;
+  
   // Premium Vibe Pulse visualization
   const drawVibePulse = (ctx: CanvasRenderingContext2D, x: number, y: number, value: number) => {
     const radius = 20;
@@ -820,19 +1051,169 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
     ctx.fillText(`${value}%`, x, y);
   };
   
+  // Draw the face mesh points
+  const drawLandmarkDots = (ctx: CanvasRenderingContext2D, landmarks: LandmarkFrame, color: string) => {
+    ctx.save();
+    ctx.fillStyle = color;
+    for (const landmark of landmarks) {
+      ctx.beginPath();
+      ctx.arc(landmark.x * ctx.canvas.width, landmark.y * ctx.canvas.height, 1.5, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+    ctx.restore();
+  };
+  
+  // Outline the region an exercise moves and mark its focus points
+  const drawFocusHighlight = (
+    ctx: CanvasRenderingContext2D,
+    landmarks: LandmarkFrame,
+    position: VisualPosition,
+    focusPoints: number[]
+  ) => {
+    const { width, height } = ctx.canvas;
+    
+    ctx.save();
+    ctx.strokeStyle = "rgba(0, 196, 180, 0.8)";
+    ctx.lineWidth = 2;
+    ctx.lineJoin = 'round';
+    for (const contour of CUE_CONTOURS[position]) {
+      const points = contour.map(index => landmarks[index]).filter(point => point !== undefined);
+      if (points.length < 2) continue;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x * width, points[0].y * height);
+      for (const point of points.slice(1)) {
+        ctx.lineTo(point.x * width, point.y * height);
+      }
+      ctx.stroke();
+    }
+    
+    ctx.fillStyle = "#00C4B4";
+    for (const index of focusPoints) {
+      const point = landmarks[index];
+      if (!point) continue;
+      ctx.beginPath();
+      ctx.arc(point.x * width, point.y * height, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+    ctx.restore();
+  };
+  
+  // Symmetry overlay: the midline, each region's mirrored pairs (red when the region is
+  // uneven) and rings on the side that sits lower, or lags while working
+  const drawSymmetryOverlay = (ctx: CanvasRenderingContext2D, landmarks: LandmarkFrame, symmetry: SymmetryFrame) => {
+    const { width, height } = ctx.canvas;
+    
+    ctx.save();
+    ctx.strokeStyle = "rgba(245, 245, 220, 0.6)";
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([6, 6]);
+    ctx.beginPath();
+    SYMMETRY_MIDLINE_POINTS.forEach((index, i) => {
+      const point = landmarks[index];
+      if (i === 0) ctx.moveTo(point.x * width, point.y * height);
+      else ctx.lineTo(point.x * width, point.y * height);
+    });
+    ctx.stroke();
+    ctx.setLineDash([]);
+    
+    for (const region of SYMMETRY_REGION_NAMES) {
+      const weakSide = symmetry.working ? symmetry.balance[region]?.lagging : symmetry.regions[region].lowerSide;
+      const uneven = weakSide || symmetry.regions[region].asymmetry >= SYMMETRY_TOLERANCE;
+      
+      ctx.strokeStyle = uneven ? "rgba(255, 74, 74, 0.7)" : "rgba(0, 196, 180, 0.5)";
+      for (const [left, right] of SYMMETRY_REGIONS[region].pairs) {
+        ctx.beginPath();
+        ctx.moveTo(landmarks[left].x * width, landmarks[left].y * height);
+        ctx.lineTo(landmarks[right].x * width, landmarks[right].y * height);
+        ctx.stroke();
+      }
+      
+      if (!weakSide) continue;
+      ctx.strokeStyle = RED_COLOR;
+      ctx.lineWidth = 2;
+      for (const index of getSidePoints(region, weakSide)) {
+        ctx.beginPath();
+        ctx.arc(landmarks[index].x * width, landmarks[index].y * height, 6, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+      ctx.lineWidth = 1.5;
+    }
+    ctx.restore();
+  };
+  
+  // Framing guidance: where the face should be, which way to move and why
+  const drawFramingGuidance = (ctx: CanvasRenderingContext2D, assessment: FramingAssessment) => {
+    const { width, height } = ctx.canvas;
+    const lightingIssue = assessment.primary === 'tooDark' || assessment.primary === 'backlit' || assessment.primary === 'lowContrast';
+    
+    ctx.save();
+    // The canvas is mirrored with CSS; flip back so text reads normally and arrows point as seen
+    ctx.translate(width, 0);
+    ctx.scale(-1, 1);
+    
+    // Target outline, sized to the middle of the comfortable distance range
+    if (assessment.box && !lightingIssue) {
+      const { minFaceWidth, maxFaceWidth } = DEFAULT_FRAMING_THRESHOLDS;
+      const targetWidth = width * (minFaceWidth + maxFaceWidth) / 2;
+      const aspect = (assessment.box.height * height) / Math.max(1, assessment.box.width * width);
+      ctx.strokeStyle = "rgba(245, 245, 220, 0.7)";
+      ctx.lineWidth = 3;
+      ctx.setLineDash([10, 8]);
+      ctx.beginPath();
+      ctx.ellipse(width / 2, height / 2, targetWidth / 2, (targetWidth * aspect) / 2, 0, 0, 2 * Math.PI);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+    
+    // Arrows toward where the face should go
+    if (assessment.direction) {
+      ctx.strokeStyle = BEIGE_COLOR;
+      ctx.lineWidth = 6;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      for (const [x1, y1, x2, y2] of FRAMING_ARROWS[assessment.direction]) {
+        const fromX = width / 2 + x1 * height;
+        const fromY = height / 2 + y1 * height;
+        const toX = width / 2 + x2 * height;
+        const toY = height / 2 + y2 * height;
+        const angle = Math.atan2(toY - fromY, toX - fromX);
+        const head = height * 0.035;
+        ctx.beginPath();
+        ctx.moveTo(fromX, fromY);
+        ctx.lineTo(toX, toY);
+        ctx.moveTo(toX - head * Math.cos(angle - Math.PI / 6), toY - head * Math.sin(angle - Math.PI / 6));
+        ctx.lineTo(toX, toY);
+        ctx.lineTo(toX - head * Math.cos(angle + Math.PI / 6), toY - head * Math.sin(angle + Math.PI / 6));
+        ctx.stroke();
+      }
+    }
+    
+    // Message pill near the top
+    if (assessment.message) {
+      ctx.font = "bold 18px Arial";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      const pillWidth = ctx.measureText(assessment.message).width + 40;
+      const pillY = height * 0.12;
+      ctx.fillStyle = lightingIssue ? "rgba(255, 74, 74, 0.8)" : "rgba(0, 0, 0, 0.6)";
+      ctx.beginPath();
+      ctx.roundRect(width / 2 - pillWidth / 2, pillY - 18, pillWidth, 36, 18);
+      ctx.fill();
+      ctx.fillStyle = lightingIssue ? "white" : BEIGE_COLOR;
+      ctx.fillText(assessment.message, width / 2, pillY);
+    }
+    
+    ctx.restore();
+  };
+  
   // Handle exercise selection change
   const handleExerciseChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newExercise = e.target.value as ExerciseName;
-    setSelectedExercise(newExercise);
+    const newExercise = e.target.value;
+    setPickedExercise(newExercise);
     setFeedback("");
     setFeedbackType('');
     setShowFeedback(false);
-    setSuccessStreak(0);
-    
-    // Notify parent of exercise selection change
-    if (onExerciseSelection) {
-      onExerciseSelection(newExercise);
-    }
+    resetScoring();
   };
   
   return (
@@ -859,7 +1240,7 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
         <select
           value={selectedExercise}
           onChange={handleExerciseChange}
-          disabled={loading}
+          disabled={loading || controlledExercise !== undefined}
           style={{
             width: 'auto',
             minWidth: '200px',
@@ -872,14 +1253,14 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
             color: 'white',
             outline: 'none',
             boxShadow: '0 4px 10px rgba(0, 0, 0, 0.3)',
-            cursor: loading ? 'not-allowed' : 'pointer',
+            cursor: loading || controlledExercise !== undefined ? 'not-allowed' : 'pointer',
             transition: 'all 0.3s ease',
             backdropFilter: 'blur(5px)'
           }}
         >
-          {[...new Set(Object.keys(exercises))].map((exercise) => (
-            <option key={exercise} value={exercise}>
-              {exercise}
+          {EXERCISES.map(({ id, name }) => (
+            <option key={id} value={name}>
+              {name}
             </option>
           ))}
         </select>
@@ -898,14 +1279,14 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
           justifyContent: 'center',
           backdropFilter: 'blur(5px)'
         }}>
-          Exercises today: <span style={{ fontWeight: 'bold', marginLeft: '5px', color: BEIGE_COLOR }}>{exerciseCount || 0}/10</span>
+          Exercises today: <span style={{ fontWeight: 'bold', marginLeft: '5px', color: BEIGE_COLOR }}>{exerciseCount || 0}/{EXERCISES.length}</span>
         </div>
         <button 
           onClick={() => {
             // Mark the current exercise as successful
             
             // Show success feedback
-            setFeedback(exercises[selectedExercise].successMessage);
+            setFeedback(selectedDefinition.messages.success);
             setFeedbackType('success');
             setShowFeedback(true);
             
@@ -962,6 +1343,39 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
         >
           Mark Complete
         </button>
+        <button
+          onClick={startCalibration}
+          disabled={loading || calibrationStep !== null}
+          title="Record your neutral face and best attempt at each exercise to personalize thresholds"
+          style={{
+            padding: '8px 12px',
+            marginLeft: '10px',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            color: 'white',
+            border: `2px solid ${BEIGE_COLOR}`,
+            borderRadius: '4px',
+            cursor: loading ? 'not-allowed' : 'pointer',
+            fontWeight: 'bold'
+          }}
+        >
+          {isCalibrated ? 'Recalibrate' : 'Calibrate'}
+        </button>
+        <button
+          onClick={() => setShowSymmetry(show => !show)}
+          title="Compare the two sides of your face at rest and during each exercise"
+          style={{
+            padding: '8px 12px',
+            marginLeft: '10px',
+            backgroundColor: showSymmetry ? BEIGE_COLOR : 'rgba(0, 0, 0, 0.6)',
+            color: showSymmetry ? 'black' : 'white',
+            border: `2px solid ${BEIGE_COLOR}`,
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontWeight: 'bold'
+          }}
+        >
+          Symmetry
+        </button>
       </div>
       
       <div style={{ 
@@ -1061,6 +1475,34 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
           }}
         />
         
+        {/* Exercise cue that follows the face (sized and placed with the canvas) */}
+        <div
+          ref={cueLayerRef}
+          style={{
+            position: 'absolute',
+            zIndex: 3,
+            pointerEvents: 'none'
+          }}
+        >
+          {stream && !calibrationStep && !paused && (
+            <DirectionArrow
+              stream={stream}
+              direction={visualCue.direction}
+              position={visualCue.position}
+              focusPoints={getExerciseFocusPoints(selectedExercise)}
+              remaining={getCueRemaining(lastExerciseResult?.score ?? null)}
+            />
+          )}
+        </div>
+        
+        {showSymmetry && symmetryReport && (
+          <SymmetryReportPanel
+            report={symmetryReport}
+            history={symmetryHistory}
+            onClose={() => setShowSymmetry(false)}
+          />
+        )}
+        
         {showFeedback && (
           <div
             style={{
@@ -1112,6 +1554,167 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
           {getExerciseInstructions(selectedExercise)}
         </div>
         
+        {/* Live intensity with the pass mark, and hold progress toward completion */}
+        {!calibrationStep && !paused && (
+          <div
+            style={{
+              position: 'absolute',
+              bottom: '140px',
+              left: '50%',
+              transform: 'translateX(-50%)',
+              width: '260px',
+              backgroundColor: 'rgba(0, 0, 0, 0.6)',
+              color: 'white',
+              padding: '8px 12px',
+              borderRadius: '15px',
+              fontFamily: 'Arial',
+              fontSize: '12px',
+              backdropFilter: 'blur(5px)',
+              zIndex: 25
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '4px' }}>
+              <span>Intensity {vibePulse}%</span>
+              <span>
+                Set {protocolState?.set ?? 1}/{activeProtocol.sets} ·
+                Rep {protocolState?.validReps ?? 0}/{activeProtocol.reps}
+                {protocolState && protocolState.shortReps > 0 && ` · ${protocolState.shortReps} short`}
+              </span>
+            </div>
+            <div style={{
+              position: 'relative',
+              height: '6px',
+              backgroundColor: 'rgba(255,255,255,0.2)',
+              borderRadius: '3px',
+              overflow: 'hidden',
+              marginBottom: '4px'
+            }}>
+              <div style={{
+                width: `${vibePulse}%`,
+                height: '100%',
+                backgroundColor: vibePulse >= EXERCISE_PASS_SCORE ? BEIGE_COLOR : RED_COLOR,
+                transition: 'width 0.1s linear'
+              }} />
+              <div style={{
+                position: 'absolute',
+                top: 0,
+                left: `${EXERCISE_PASS_SCORE}%`,
+                width: '2px',
+                height: '100%',
+                backgroundColor: 'white'
+              }} />
+            </div>
+            <div style={{
+              height: '4px',
+              backgroundColor: 'rgba(255,255,255,0.2)',
+              borderRadius: '2px',
+              overflow: 'hidden'
+            }}>
+              <div style={{
+                width: `${(protocolState?.phaseProgress ?? 0) * 100}%`,
+                height: '100%',
+                backgroundColor: 'rgba(0, 196, 180, 0.8)',
+                transition: 'width 0.1s linear'
+              }} />
+            </div>
+            {rehabStatus && (
+              <div style={{ marginTop: '4px', textAlign: 'center' }}>
+                {rehabStatus.reading
+                  ? "Relax—reading your resting face..."
+                  : `Affected ${rehabStatus.affected}% · Healthy ${rehabStatus.healthy}% of range`}
+              </div>
+            )}
+            <div style={{ marginTop: '4px', textAlign: 'center', fontWeight: 'bold' }}>
+              {(protocolState?.phase === 'release' || protocolState?.phase === 'rest') && protocolState.lastRep && !protocolState.lastRep.valid
+                ? `Too short—hold it ${activeProtocol.holdMs / 1000}s!`
+                : PROTOCOL_PHASE_LABELS[protocolState?.phase ?? 'active']}
+            </div>
+          </div>
+        )}
+        
+        {calibrationStep && (
+          <div style={{
+            position: 'absolute',
+            top: '50%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            backgroundColor: 'rgba(0, 0, 0, 0.7)',
+            color: 'white',
+            padding: '20px 30px',
+            borderRadius: '20px',
+            fontFamily: 'Arial',
+            textAlign: 'center',
+            minWidth: '260px',
+            maxWidth: '340px',
+            backdropFilter: 'blur(5px)',
+            zIndex: 30
+          }}>
+            <div style={{ fontSize: '12px', color: 'rgba(255,255,255,0.7)', marginBottom: '6px' }}>
+              Calibration {CALIBRATION_SEQUENCE.indexOf(calibrationStep.target) + 1}/{CALIBRATION_SEQUENCE.length}
+            </div>
+            <h3 style={{ margin: '0 0 8px 0', color: BEIGE_COLOR }}>
+              {calibrationStep.target === 'neutral' ? 'Neutral Face' : EXERCISE_NAMES[calibrationStep.target]}
+            </h3>
+            <p style={{ margin: '0 0 12px 0', fontSize: '14px' }}>
+              {calibrationStep.target === 'neutral'
+                ? 'Relax your face and look straight at the camera.'
+                : `${getExerciseInstructions(EXERCISE_NAMES[calibrationStep.target])} Go as far as you comfortably can!`}
+            </p>
+            <div style={{ fontSize: '14px', fontWeight: 'bold', marginBottom: '8px' }}>
+              {calibrationStep.phase === 'prepare' ? 'Get ready...' : 'Hold it!'}
+            </div>
+            <div style={{
+              width: '100%',
+              height: '6px',
+              backgroundColor: 'rgba(255,255,255,0.2)',
+              borderRadius: '3px',
+              overflow: 'hidden'
+            }}>
+              <div style={{
+                width: `${Math.min(100, Math.max(0, ((calibrationClock - calibrationStep.startedAt) / getCalibrationStepDuration(calibrationStep)) * 100))}%`,
+                height: '100%',
+                backgroundColor: calibrationStep.phase === 'prepare' ? 'rgba(255,255,255,0.6)' : BEIGE_COLOR,
+                transition: 'width 0.1s linear'
+              }} />
+            </div>
+            <button
+              onClick={cancelCalibration}
+              style={{
+                marginTop: '15px',
+                backgroundColor: 'transparent',
+                color: 'white',
+                border: '1px solid rgba(255,255,255,0.5)',
+                borderRadius: '30px',
+                padding: '6px 14px',
+                cursor: 'pointer'
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        
+        {headPoseWarning && (
+          <div style={{
+            position: 'absolute',
+            top: '200px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            backgroundColor: 'rgba(255, 74, 74, 0.8)',
+            color: 'white',
+            padding: '6px 14px',
+            borderRadius: '15px',
+            fontFamily: 'Arial',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            boxShadow: '0 4px 10px rgba(0, 0, 0, 0.2)',
+            textAlign: 'center',
+            zIndex: 26
+          }}>
+            {headPoseWarning}
+          </div>
+        )}
+        
         {actualResolution.width > 0 && (
           <div style={{
             position: 'absolute',
@@ -1125,6 +1728,9 @@ const ExerciseTracker: React.FC<ExerciseTrackerProps> = ({
             zIndex: 15
           }}>
             {actualResolution.width}×{actualResolution.height}
+            {governedRef.current && performanceStats && (
+              <> · {performanceStats.mode.label}{performanceStats.fps > 0 && ` · ${Math.round(performanceStats.fps)} fps`}</>
+            )}
           </div>
         )}
       </div>
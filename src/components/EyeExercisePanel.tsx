@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EYE_EXERCISES, EyeExerciseTracker, getEyeExercise } from '../utils/EyeExercises';
+import type { EyeExerciseId, EyeTarget } from '../utils/EyeExercises';
+import { EXERCISE_PASS_SCORE } from '../utils/FacialAnalysis';
+import { useStreamSubscription } from '../utils/LandmarkStream';
+import type { LandmarkStream } from '../utils/LandmarkStream';
+
+interface EyeExercisePanelProps {
+  stream: LandmarkStream;
+  exercise: EyeExerciseId;
+  onExerciseChange: (exercise: EyeExerciseId) => void;
+  onComplete?: (exercise: EyeExerciseId) => void;
+  onClose: () => void;
+}
+
+interface PanelStatus {
+  score: number;
+  progress: number;     // Whole percents
+  remainingSecs: number;
+  faceVisible: boolean;
+  hasGaze: boolean;
+  readingScreen: boolean;
+  complete: boolean;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+const RED_COLOR = "#FF4A4A";
+const TEAL_COLOR = "#00C4B4";
+
+// Gaze is checked on up to this many frames a second
+const EYE_SAMPLE_HZ = 30;
+
+// How far toward the edges of the preview the dot travels at the target's extremes
+const DOT_REACH = 45;
+
+const FOCUS_LABELS: Record<EyeTarget['focus'], string> = {
+  screen: "",
+  near: "NEAR—look at your thumb",
+  far: "FAR—look past the screen"
+};
+
+const isSameStatus = (a: PanelStatus | null, b: PanelStatus) =>
+  a !== null && (Object.keys(b) as (keyof PanelStatus)[]).every(key => a[key] === b[key]);
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.5)',
+  borderRadius: '30px',
+  padding: '4px 10px',
+  cursor: 'pointer',
+  fontSize: '12px'
+};
+
+/**
+ * Runs an eye exercise over the camera preview: a dot to follow (or a near/far
+ * cue, or the break countdown) and how well the gaze is keeping up
+ */
+const EyeExercisePanel: React.FC<EyeExercisePanelProps> = ({ stream, exercise, onExerciseChange, onComplete, onClose }) => {
+  const definition = getEyeExercise(exercise);
+  const [tracker, setTracker] = useState(() => new EyeExerciseTracker(definition, performance.now()));
+  const [status, setStatus] = useState<PanelStatus | null>(null);
+  const [focus, setFocus] = useState<EyeTarget['focus']>('screen');
+  const dotRef = useRef<HTMLDivElement>(null);
+  const completedRef = useRef(false);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  // Start over whenever the exercise changes
+  if (tracker.exercise.id !== exercise) {
+    setTracker(new EyeExerciseTracker(definition, performance.now()));
+    setStatus(null);
+  }
+
+  useEffect(() => {
+    completedRef.current = false;
+  }, [tracker]);
+
+  // Move the dot at display rate without re-rendering
+  useEffect(() => {
+    let frameId = requestAnimationFrame(function animate() {
+      const target = tracker.targetAt(performance.now());
+      if (dotRef.current) {
+        dotRef.current.style.left = `${50 + target.x * DOT_REACH}%`;
+        dotRef.current.style.top = `${50 + target.y * DOT_REACH}%`;
+      }
+      setFocus(target.focus);
+      frameId = requestAnimationFrame(animate);
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [tracker]);
+
+  useStreamSubscription(stream, frame => {
+    const result = tracker.update(frame.faceVisible ? frame.landmarks : null, frame.timestamp);
+    const next: PanelStatus = {
+      score: result.score,
+      progress: Math.round(result.progress * 100),
+      remainingSecs: Math.ceil((tracker.exercise.goalMs - result.onTargetMs) / 1000),
+      faceVisible: frame.faceVisible,
+      hasGaze: result.gaze !== null,
+      readingScreen: tracker.readingScreen,
+      complete: result.complete
+    };
+    setStatus(prev => isSameStatus(prev, next) ? prev : next);
+
+    if (result.complete && !completedRef.current) {
+      completedRef.current = true;
+      onCompleteRef.current?.(tracker.exercise.id);
+    }
+  }, { hz: EYE_SAMPLE_HZ });
+
+  const showDot = definition.kind === 'pursuit' && !status?.complete;
+  const onTarget = (status?.score ?? 0) >= EXERCISE_PASS_SCORE;
+
+  let message: string;
+  if (status?.complete) {
+    message = definition.messages.success;
+  } else if (status?.readingScreen) {
+    message = "Look at the screen for a sec...";
+  } else if (status && status.faceVisible && !status.hasGaze && definition.kind !== 'lookAway') {
+    message = "This tracker doesn't send iris points—switch to the camera tracker for eye exercises.";
+  } else if (definition.kind === 'lookAway') {
+    message = `${Math.max(0, status?.remainingSecs ?? 0)}s to go`;
+  } else {
+    message = onTarget ? "On it—keep going!" : definition.messages.failure;
+  }
+
+  return (
+    <>
+      {/* Target layer over the preview */}
+      <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none', zIndex: 35 }}>
+        {showDot && (
+          <div
+            ref={dotRef}
+            style={{
+              position: 'absolute',
+              left: '50%',
+              top: '50%',
+              width: '24px',
+              height: '24px',
+              marginLeft: '-12px',
+              marginTop: '-12px',
+              borderRadius: '50%',
+              backgroundColor: onTarget ? TEAL_COLOR : BEIGE_COLOR,
+              boxShadow: `0 0 20px ${onTarget ? TEAL_COLOR : BEIGE_COLOR}`
+            }}
+          />
+        )}
+        {definition.kind === 'focus' && !status?.complete && (
+          <div style={{
+            position: 'absolute',
+            top: '40%',
+            left: '50%',
+            transform: 'translate(-50%, -50%)',
+            color: BEIGE_COLOR,
+            fontFamily: 'Arial',
+            fontSize: '28px',
+            fontWeight: 'bold',
+            textShadow: '0 2px 8px rgba(0, 0, 0, 0.6)'
+          }}>
+            {FOCUS_LABELS[focus]}
+          </div>
+        )}
+      </div>
+
+      <div style={{
+        position: 'absolute',
+        bottom: '130px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: '320px',
+        backgroundColor: 'rgba(0, 0, 0, 0.75)',
+        color: 'white',
+        padding: '15px 20px',
+        borderRadius: '20px',
+        fontFamily: 'Arial',
+        fontSize: '13px',
+        textAlign: 'center',
+        backdropFilter: 'blur(5px)',
+        zIndex: 40
+      }}>
+        <div style={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: '6px', marginBottom: '10px' }}>
+          {EYE_EXERCISES.map(({ id, name }) => (
+            <button
+              key={id}
+              onClick={() => onExerciseChange(id)}
+              style={{
+                ...buttonStyle,
+                backgroundColor: id === exercise ? BEIGE_COLOR : 'transparent',
+                color: id === exercise ? 'black' : 'white'
+              }}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <p style={{ margin: '0 0 10px 0' }}>{definition.instructions}</p>
+        <div style={{
+          height: '6px',
+          backgroundColor: 'rgba(255,255,255,0.2)',
+          borderRadius: '3px',
+          overflow: 'hidden',
+          marginBottom: '6px'
+        }}>
+          <div style={{
+            width: `${status?.progress ?? 0}%`,
+            height: '100%',
+            backgroundColor: onTarget || status?.complete ? TEAL_COLOR : RED_COLOR,
+            transition: 'width 0.1s linear'
+          }} />
+        </div>
+        <div style={{ fontWeight: 'bold', marginBottom: '10px' }}>{message}</div>
+        <button onClick={onClose} style={buttonStyle}>
+          Done
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default EyeExercisePanel;
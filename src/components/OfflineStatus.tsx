@@ -0,0 +1,148 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  getOfflineCacheStatus,
+  isOfflineCacheSupported,
+  isPrecacheMessage,
+  retryOfflineCache
+} from '../utils/OfflineCache';
+import type { OfflineCacheStatus } from '../utils/OfflineCache';
+
+const BEIGE_COLOR = "#F5F5DC";
+const RED_COLOR = "#FF4A4A";
+
+// How often to re-check while the worker is still downloading
+const PROGRESS_POLL_MS = 3000;
+
+const pillStyle: React.CSSProperties = {
+  position: 'fixed',
+  top: '12px',
+  left: '50%',
+  transform: 'translateX(-50%)',
+  zIndex: 10000,
+  display: 'flex',
+  alignItems: 'center',
+  gap: '10px',
+  padding: '6px 14px',
+  backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  color: 'white',
+  borderRadius: '30px',
+  fontFamily: 'Arial',
+  fontSize: '12px',
+  backdropFilter: 'blur(5px)',
+  maxWidth: '90vw'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  backgroundColor: 'transparent',
+  color: BEIGE_COLOR,
+  border: `1px solid ${BEIGE_COLOR}`,
+  borderRadius: '30px',
+  cursor: 'pointer',
+  fontWeight: 'bold',
+  fontSize: '12px'
+};
+
+/**
+ * Tells the user whether FaceVibe will work offline: shows download progress
+ * of the offline cache, and a clear warning when it's incomplete
+ */
+const OfflineStatus: React.FC = () => {
+  const [status, setStatus] = useState<OfflineCacheStatus | null>(null);
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  // Waiting for the worker to report back on a retry
+  const [retrying, setRetrying] = useState<boolean>(false);
+
+  const enabled = import.meta.env.PROD && isOfflineCacheSupported();
+
+  const refresh = useCallback(() => {
+    getOfflineCacheStatus()
+      .then(setStatus)
+      .catch(error => console.error('Error checking the offline cache:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleOnline = () => {
+      setOnline(navigator.onLine);
+      refresh();
+    };
+    const handleMessage = (event: MessageEvent) => {
+      if (!isPrecacheMessage(event.data)) return;
+      setRetrying(false);
+      refresh();
+    };
+
+    refresh();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOnline);
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOnline);
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }, [enabled, refresh]);
+
+  const downloading = Boolean(status && (status.downloading || retrying));
+
+  // Follow the download while it's in progress
+  useEffect(() => {
+    if (!enabled || !online || !downloading) return;
+
+    const timer = window.setInterval(refresh, PROGRESS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, online, downloading, refresh]);
+
+  const handleRetry = () => {
+    setRetrying(true);
+    retryOfflineCache().catch(error => console.error('Error retrying the offline cache:', error));
+  };
+
+  if (!enabled || !status) return null;
+
+  const progress = `${status.cachedFiles}/${status.totalFiles} files`;
+
+  if (status.complete) {
+    if (online) return null;
+    return (
+      <div style={{ ...pillStyle, border: `1px solid ${BEIGE_COLOR}` }} role="status">
+        <span style={{ color: BEIGE_COLOR }}>✈ Offline mode — everything's saved, keep vibing fam</span>
+      </div>
+    );
+  }
+
+  if (!online) {
+    return (
+      <div style={{ ...pillStyle, border: `1px solid ${RED_COLOR}` }} role="alert">
+        <span style={{ color: RED_COLOR }}>
+          {status.version
+            ? `You're offline and the offline cache is incomplete (${progress}) — face tracking may not load`
+            : "You're offline and FaceVibe isn't saved for offline use yet — reconnect to finish setting up"}
+        </span>
+      </div>
+    );
+  }
+
+  // No worker has run yet (first visit), it reports back when it's done
+  if (!status.version) return null;
+
+  if (!downloading) {
+    return (
+      <div style={{ ...pillStyle, border: `1px solid ${RED_COLOR}` }} role="alert">
+        <span style={{ color: RED_COLOR }}>Offline cache incomplete ({progress}) — FaceVibe won't fully work offline</span>
+        <button onClick={handleRetry} style={buttonStyle}>Retry</button>
+      </div>
+    );
+  }
+
+  return (
+    <div style={pillStyle} role="status">
+      <span>Saving FaceVibe for offline use… {progress}</span>
+    </div>
+  );
+};
+
+export default OfflineStatus;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { DEFAULT_REHAB_GOAL } from '../utils/Rehab';
+import type { RehabSettings } from '../utils/Rehab';
+
+interface RehabControlsProps {
+  settings: RehabSettings | null;
+  onChange: (settings: RehabSettings | null) => void;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+
+// Shares of the healthy side's range that can count as a rep
+const GOAL_OPTIONS = [0.3, 0.5, 0.7, 0.9];
+
+const selectStyle: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  color: BEIGE_COLOR,
+  border: `1px solid ${BEIGE_COLOR}`,
+  borderRadius: '30px',
+  padding: '4px 8px',
+  cursor: 'pointer'
+};
+
+/**
+ * Turn rehab mode on for an affected side, and pick how much of the healthy
+ * side's range a rep asks for
+ */
+const RehabControls: React.FC<RehabControlsProps> = ({ settings, onChange }) => {
+  const handleSideChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const side = e.target.value;
+    onChange(side === 'left' || side === 'right'
+      ? { affectedSide: side, goal: settings?.goal ?? DEFAULT_REHAB_GOAL }
+      : null);
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '6px 10px',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      color: 'white',
+      borderRadius: '30px',
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      backdropFilter: 'blur(5px)'
+    }}>
+      <select
+        value={settings?.affectedSide ?? 'off'}
+        onChange={handleSideChange}
+        title="Score each side separately while recovering one side of your face"
+        style={selectStyle}
+      >
+        <option value="off">Rehab off</option>
+        <option value="left">Rehab: left side</option>
+        <option value="right">Rehab: right side</option>
+      </select>
+      {settings && (
+        <select
+          value={settings.goal}
+          onChange={(e) => onChange({ ...settings, goal: Number(e.target.value) })}
+          title="How much of your healthy side's range each rep asks for"
+          style={selectStyle}
+        >
+          {GOAL_OPTIONS.map(goal => (
+            <option key={goal} value={goal}>Goal {Math.round(goal * 100)}%</option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default RehabControls;
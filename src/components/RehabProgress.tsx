@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Chart, LineController, LineElement, PointElement, LinearScale, CategoryScale, Tooltip, Legend } from 'chart.js';
+import { EXERCISE_NAMES } from '../utils/FacialAnalysis';
+import { getWeeklyRecovery, loadRehabHistory } from '../utils/Rehab';
+import type { RehabSession } from '../utils/Rehab';
+
+Chart.register(LineController, LineElement, PointElement, LinearScale, CategoryScale, Tooltip, Legend);
+
+interface RehabProgressProps {
+  active: boolean;   // Rehab mode is on (the card is hidden when it's off and nothing was logged)
+}
+
+const ACCENT_COLOR = "#E1DDD1";
+const TEXT_COLOR = "#2E2E2E";
+const PRIMARY_COLOR = "#8D8D8D";
+const BACKGROUND_COLOR = "#F8F6F2";
+
+// One line color per movement, cycled
+const LINE_COLORS = ["#A3B1AB", "#C49A7E", "#8D8D8D", "#00C4B4", "#FF4A4A", "#6B8FB3"];
+
+/**
+ * Recovery per movement over the weeks: the affected side's range of motion
+ * as a percentage of the healthy side's, from the logged rehab sessions
+ */
+const RehabProgress: React.FC<RehabProgressProps> = ({ active }) => {
+  const [history] = useState<RehabSession[]>(() => loadRehabHistory());
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstance = useRef<Chart | null>(null);
+
+  const weeks = useMemo(() => getWeeklyRecovery(history), [history]);
+  const latest = history[history.length - 1];
+
+  useEffect(() => {
+    if (!chartRef.current || weeks.length === 0) return;
+    const ctx = chartRef.current.getContext('2d');
+    if (!ctx) return;
+
+    const exerciseIds = [...new Set(weeks.flatMap(week => Object.keys(week.recovery)))];
+    chartInstance.current?.destroy();
+    chartInstance.current = new Chart(ctx, {
+      type: 'line',
+      data: {
+        labels: weeks.map(({ week }) => new Date(week).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })),
+        datasets: exerciseIds.map((exerciseId, i) => ({
+          label: EXERCISE_NAMES[exerciseId] ?? exerciseId,
+          data: weeks.map(week => week.recovery[exerciseId] ?? null),
+          borderColor: LINE_COLORS[i % LINE_COLORS.length],
+          backgroundColor: LINE_COLORS[i % LINE_COLORS.length],
+          borderWidth: 2,
+          tension: 0.3,
+          spanGaps: true,
+          pointRadius: 3
+        }))
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            position: 'bottom',
+            labels: { font: { family: 'serif', size: 10 }, boxWidth: 10 }
+          },
+          tooltip: {
+            callbacks: { label: item => `${item.dataset.label}: ${item.formattedValue}%` }
+          }
+        },
+        scales: {
+          x: { grid: { display: false }, ticks: { font: { family: 'serif', size: 10 } } },
+          y: {
+            beginAtZero: true,
+            max: 100,
+            grid: { color: 'rgba(46, 46, 46, 0.05)' },
+            ticks: { font: { family: 'serif', size: 10 }, callback: value => `${value}%` }
+          }
+        }
+      }
+    });
+
+    return () => {
+      chartInstance.current?.destroy();
+      chartInstance.current = null;
+    };
+  }, [weeks]);
+
+  if (!active && history.length === 0) return null;
+
+  return (
+    <div style={{
+      width: '100%',
+      maxWidth: '400px',
+      margin: '0 auto',
+      padding: '20px',
+      backgroundColor: 'white',
+      borderRadius: '15px',
+      boxShadow: '0 4px 15px rgba(0, 0, 0, 0.05)',
+      border: `1px solid ${ACCENT_COLOR}`
+    }}>
+      <h3 style={{
+        color: TEXT_COLOR,
+        fontFamily: 'serif',
+        fontSize: '20px',
+        textAlign: 'center',
+        margin: '0 0 15px 0',
+        padding: '0 0 10px 0',
+        borderBottom: `1px solid ${ACCENT_COLOR}`,
+        fontWeight: 'normal'
+      }}>
+        Rehab Progress
+      </h3>
+
+      <div style={{ height: '220px', position: 'relative' }}>
+        {weeks.length > 0 ? (
+          <canvas ref={chartRef} height="220" />
+        ) : (
+          <div style={{
+            display: 'flex',
+            justifyContent: 'center',
+            alignItems: 'center',
+            height: '100%',
+            color: PRIMARY_COLOR,
+            fontFamily: 'serif',
+            fontSize: '16px',
+            textAlign: 'center',
+            backgroundColor: BACKGROUND_COLOR,
+            borderRadius: '10px',
+            padding: '20px'
+          }}>
+            Finish a rehab session to start tracking your recovery.
+          </div>
+        )}
+      </div>
+
+      {latest && (
+        <div style={{
+          marginTop: '15px',
+          paddingTop: '10px',
+          borderTop: `1px solid ${ACCENT_COLOR}`,
+          fontFamily: 'serif',
+          fontSize: '13px',
+          color: TEXT_COLOR
+        }}>
+          <div style={{ marginBottom: '5px' }}>
+            Last session ({new Date(latest.startedAt).toLocaleDateString('en-US')}, {latest.affectedSide} side affected)
+          </div>
+          {Object.entries(latest.exercises).map(([exerciseId, log]) => (
+            <div key={exerciseId} style={{ display: 'flex', justifyContent: 'space-between', color: PRIMARY_COLOR }}>
+              <span>{EXERCISE_NAMES[exerciseId] ?? exerciseId}</span>
+              <span>{log.affectedMm} mm / {log.healthyMm} mm · {log.recovery}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RehabProgress;
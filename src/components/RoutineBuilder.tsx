@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { EXERCISE_IDS, EXERCISE_NAMES } from '../utils/FacialAnalysis';
+import type { ExerciseId } from '../utils/FacialAnalysis';
+import {
+  createRoutineId,
+  deleteUserRoutine,
+  estimateRoutineDurationMs,
+  loadUserRoutines,
+  ROUTINE_PRESETS,
+  saveUserRoutine
+} from '../utils/Routines';
+import type { Routine, RoutineStep } from '../utils/Routines';
+
+interface RoutineBuilderProps {
+  onStart: (routine: Routine) => void;
+  onClose: () => void;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+
+const NEW_STEP: RoutineStep = { exercise: 'jawDropper', reps: 6, holdMs: 3000, restAfterMs: 10000 };
+
+const formatMinutes = (ms: number) => `~${Math.max(1, Math.round(ms / 60000))} min`;
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.5)',
+  borderRadius: '30px',
+  padding: '4px 12px',
+  cursor: 'pointer',
+  fontSize: '13px'
+};
+
+const inputStyle: React.CSSProperties = {
+  backgroundColor: 'rgba(255,255,255,0.1)',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '6px',
+  padding: '4px 6px',
+  fontSize: '13px'
+};
+
+/**
+ * Routine library: pick a preset or one of your own routines, or build a new one
+ */
+const RoutineBuilder: React.FC<RoutineBuilderProps> = ({ onStart, onClose }) => {
+  const [userRoutines, setUserRoutines] = useState<Routine[]>(() => loadUserRoutines());
+  const [draft, setDraft] = useState<Routine | null>(null);
+
+  const startNewRoutine = () => {
+    setDraft({ id: createRoutineId(), name: 'My routine', steps: [{ ...NEW_STEP }] });
+  };
+
+  const updateStep = (index: number, changes: Partial<RoutineStep>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      steps: draft.steps.map((step, i) => i === index ? { ...step, ...changes } : step)
+    });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    if (!draft) return;
+    const target = index + offset;
+    if (target < 0 || target >= draft.steps.length) return;
+    const steps = [...draft.steps];
+    [steps[index], steps[target]] = [steps[target], steps[index]];
+    setDraft({ ...draft, steps });
+  };
+
+  const removeStep = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, steps: draft.steps.filter((_, i) => i !== index) });
+  };
+
+  const saveDraft = () => {
+    if (!draft || draft.steps.length === 0 || !draft.name.trim()) return;
+    setUserRoutines(saveUserRoutine({ ...draft, name: draft.name.trim() }));
+    setDraft(null);
+  };
+
+  const renderRoutine = (routine: Routine) => (
+    <div
+      key={routine.id}
+      style={{
+        padding: '10px 0',
+        borderTop: '1px solid rgba(255,255,255,0.15)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: '10px'
+      }}
+    >
+      <div style={{ textAlign: 'left' }}>
+        <div style={{ fontWeight: 'bold' }}>{routine.name}</div>
+        <div style={{ fontSize: '12px', color: 'rgba(255,255,255,0.7)' }}>
+          {routine.steps.length} exercises · {formatMinutes(estimateRoutineDurationMs(routine))}
+          {routine.description && ` · ${routine.description}`}
+        </div>
+      </div>
+      <div style={{ display: 'flex', gap: '5px', flexShrink: 0 }}>
+        {!routine.builtIn && (
+          <>
+            <button onClick={() => setDraft(routine)} style={buttonStyle}>Edit</button>
+            <button onClick={() => setUserRoutines(deleteUserRoutine(routine.id))} style={buttonStyle}>Delete</button>
+          </>
+        )}
+        <button
+          onClick={() => onStart(routine)}
+          style={{ ...buttonStyle, borderColor: BEIGE_COLOR, color: BEIGE_COLOR, fontWeight: 'bold' }}
+        >
+          Start
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      width: 'min(520px, 90%)',
+      maxHeight: '70%',
+      overflowY: 'auto',
+      backgroundColor: 'rgba(0, 0, 0, 0.8)',
+      color: 'white',
+      padding: '20px 25px',
+      borderRadius: '20px',
+      fontFamily: 'Arial',
+      fontSize: '14px',
+      backdropFilter: 'blur(5px)',
+      zIndex: 50
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <h3 style={{ margin: 0, color: BEIGE_COLOR }}>{draft ? 'Build a routine' : 'Routines'}</h3>
+        <button onClick={onClose} style={buttonStyle}>Close</button>
+      </div>
+
+      {draft ? (
+        <div>
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Routine name"
+            style={{ ...inputStyle, width: '100%', fontSize: '15px', marginBottom: '10px', boxSizing: 'border-box' }}
+          />
+          {draft.steps.map((step, index) => (
+            <div
+              key={index}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '6px 0',
+                borderTop: '1px solid rgba(255,255,255,0.15)',
+                flexWrap: 'wrap'
+              }}
+            >
+              <select
+                value={step.exercise}
+                onChange={(e) => updateStep(index, { exercise: e.target.value as ExerciseId })}
+                style={inputStyle}
+              >
+                {EXERCISE_IDS.map(id => (
+                  <option key={id} value={id} style={{ color: 'black' }}>{EXERCISE_NAMES[id]}</option>
+                ))}
+              </select>
+              <label>
+                reps{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={step.reps}
+                  onChange={(e) => updateStep(index, { reps: Math.max(1, Number(e.target.value) || 1) })}
+                  style={{ ...inputStyle, width: '45px' }}
+                />
+              </label>
+              <label>
+                hold{' '}
+                <input
+                  type="number"
+                  min={1}
+                  max={30}
+                  value={step.holdMs / 1000}
+                  onChange={(e) => updateStep(index, { holdMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+                  style={{ ...inputStyle, width: '45px' }}
+                />s
+              </label>
+              <label>
+                rest{' '}
+                <input
+                  type="number"
+                  min={0}
+                  max={120}
+                  value={step.restAfterMs / 1000}
+                  onChange={(e) => updateStep(index, { restAfterMs: Math.max(0, Number(e.target.value) || 0) * 1000 })}
+                  style={{ ...inputStyle, width: '45px' }}
+                />s
+              </label>
+              <button onClick={() => moveStep(index, -1)} style={buttonStyle} title="Move up">↑</button>
+              <button onClick={() => moveStep(index, 1)} style={buttonStyle} title="Move down">↓</button>
+              <button onClick={() => removeStep(index)} style={buttonStyle} title="Remove">✕</button>
+            </div>
+          ))}
+          <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '12px' }}>
+            <button
+              onClick={() => setDraft({ ...draft, steps: [...draft.steps, { ...NEW_STEP }] })}
+              style={buttonStyle}
+            >
+              + Add exercise
+            </button>
+            <div style={{ display: 'flex', gap: '5px' }}>
+              <button onClick={() => setDraft(null)} style={buttonStyle}>Cancel</button>
+              <button
+                onClick={saveDraft}
+                disabled={draft.steps.length === 0 || !draft.name.trim()}
+                style={{ ...buttonStyle, borderColor: BEIGE_COLOR, color: BEIGE_COLOR, fontWeight: 'bold' }}
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div>
+          {ROUTINE_PRESETS.map(renderRoutine)}
+          {userRoutines.map(renderRoutine)}
+          <button onClick={startNewRoutine} style={{ ...buttonStyle, marginTop: '12px' }}>
+            + New routine
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RoutineBuilder;
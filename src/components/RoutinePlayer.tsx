@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { EXERCISE_NAMES, getExerciseInstructions } from '../utils/FacialAnalysis';
+import type { ExerciseSetResult } from '../utils/ExerciseProtocol';
+import { ROUTINE_COUNTDOWN_MS } from '../utils/Routines';
+import type { Routine, RoutineStep, RoutineStepSummary, RoutineSummary } from '../utils/Routines';
+
+type PlayerPhase = 'countdown' | 'exercise' | 'rest' | 'summary';
+
+interface RoutinePlayerProps {
+  routine: Routine;
+  setResult: ExerciseSetResult | null;                          // Latest set finished by the tracker
+  onStepChange: (step: RoutineStep | null, active: boolean) => void; // active = reps are being counted
+  onFinish?: (summary: RoutineSummary) => void;
+  onExit: () => void;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+
+const formatSeconds = (ms: number) => `${Math.max(0, Math.ceil(ms / 1000))}s`;
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
+
+const cardStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: '50%',
+  left: '50%',
+  transform: 'translate(-50%, -50%)',
+  backgroundColor: 'rgba(0, 0, 0, 0.75)',
+  color: 'white',
+  padding: '20px 30px',
+  borderRadius: '20px',
+  fontFamily: 'Arial',
+  textAlign: 'center',
+  minWidth: '280px',
+  maxWidth: '380px',
+  backdropFilter: 'blur(5px)',
+  zIndex: 40
+};
+
+const buttonStyle: React.CSSProperties = {
+  backgroundColor: 'transparent',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.5)',
+  borderRadius: '30px',
+  padding: '6px 14px',
+  cursor: 'pointer',
+  margin: '0 5px'
+};
+
+/**
+ * Plays a routine step by step: countdown → exercise → rest → ... → summary
+ * The parent drives ExerciseTracker from onStepChange and feeds finished sets back in
+ */
+const RoutinePlayer: React.FC<RoutinePlayerProps> = ({ routine, setResult, onStepChange, onFinish, onExit }) => {
+  const [phase, setPhase] = useState<PlayerPhase>('countdown');
+  const [stepIndex, setStepIndex] = useState<number>(0);
+  const [phaseStartedAt, setPhaseStartedAt] = useState<number>(() => Date.now());
+  const [phaseDurationMs, setPhaseDurationMs] = useState<number>(ROUTINE_COUNTDOWN_MS);
+  const [stepStartedAt, setStepStartedAt] = useState<number>(0);
+  const [stepSummaries, setStepSummaries] = useState<RoutineStepSummary[]>([]);
+  const [clock, setClock] = useState<number>(() => Date.now());
+  const [completedAt, setCompletedAt] = useState<number>(0);
+  const startedAtRef = useRef<number>(Date.now());
+  const handledResultRef = useRef<ExerciseSetResult | null>(setResult);
+
+  const step = routine.steps[stepIndex];
+
+  // Tell the parent which exercise to track, and whether reps count right now
+  useEffect(() => {
+    onStepChange(phase === 'summary' ? null : routine.steps[stepIndex], phase === 'exercise');
+  }, [phase, stepIndex, routine, onStepChange]);
+
+  // Release the tracker when the player goes away
+  useEffect(() => {
+    return () => onStepChange(null, false);
+  }, [onStepChange]);
+
+  // Countdown and rest screens advance on their own
+  useEffect(() => {
+    if (phase !== 'countdown' && phase !== 'rest') return;
+
+    const clockTimer = window.setInterval(() => setClock(Date.now()), 250);
+    const phaseTimer = window.setTimeout(() => {
+      if (phase === 'countdown') {
+        setStepStartedAt(Date.now());
+        setPhase('exercise');
+      } else {
+        setPhase('countdown');
+        setPhaseStartedAt(Date.now());
+        setPhaseDurationMs(ROUTINE_COUNTDOWN_MS);
+      }
+    }, Math.max(0, phaseStartedAt + phaseDurationMs - Date.now()));
+
+    return () => {
+      clearInterval(clockTimer);
+      clearTimeout(phaseTimer);
+    };
+  }, [phase, phaseStartedAt, phaseDurationMs]);
+
+  // Record the step and move on to a rest, the next countdown or the summary
+  const finishStep = useCallback((result: ExerciseSetResult | null) => {
+    const currentStep = routine.steps[stepIndex];
+    const summary: RoutineStepSummary = {
+      step: currentStep,
+      validReps: result ? result.validReps : 0,
+      shortReps: result ? result.shortReps : 0,
+      durationMs: Date.now() - stepStartedAt,
+      skipped: result === null
+    };
+    const summaries = [...stepSummaries, summary];
+    setStepSummaries(summaries);
+
+    if (stepIndex >= routine.steps.length - 1) {
+      const finishedAt = Date.now();
+      setCompletedAt(finishedAt);
+      setPhase('summary');
+      if (onFinish) {
+        onFinish({
+          routineId: routine.id,
+          routineName: routine.name,
+          steps: summaries,
+          startedAt: startedAtRef.current,
+          completedAt: finishedAt
+        });
+      }
+      return;
+    }
+
+    setStepIndex(stepIndex + 1);
+    setPhase(currentStep.restAfterMs > 0 ? 'rest' : 'countdown');
+    setPhaseStartedAt(Date.now());
+    setPhaseDurationMs(currentStep.restAfterMs > 0 ? currentStep.restAfterMs : ROUTINE_COUNTDOWN_MS);
+  }, [routine, stepIndex, stepStartedAt, stepSummaries, onFinish]);
+
+  // A finished set from the tracker completes the current step
+  useEffect(() => {
+    if (!setResult || setResult === handledResultRef.current) return;
+    handledResultRef.current = setResult;
+
+    if (phase === 'exercise' && setResult.exerciseComplete) {
+      finishStep(setResult);
+    }
+  }, [setResult, phase, finishStep]);
+
+  const remainingMs = phaseStartedAt + phaseDurationMs - clock;
+  const stepLabel = `Step ${stepIndex + 1}/${routine.steps.length}`;
+
+  if (phase === 'summary') {
+    const totalReps = stepSummaries.reduce((sum, summary) => sum + summary.validReps, 0);
+    const targetReps = stepSummaries.reduce((sum, summary) => sum + summary.step.reps, 0);
+
+    return (
+      <div style={cardStyle}>
+        <h3 style={{ margin: '0 0 5px 0', color: BEIGE_COLOR }}>{routine.name} complete!</h3>
+        <div style={{ fontSize: '14px', marginBottom: '12px' }}>
+          {totalReps}/{targetReps} reps · {formatDuration(completedAt - startedAtRef.current)}
+        </div>
+        <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse', marginBottom: '12px' }}>
+          <tbody>
+            {stepSummaries.map((summary, index) => (
+              <tr key={index} style={{ borderTop: '1px solid rgba(255,255,255,0.15)' }}>
+                <td style={{ textAlign: 'left', padding: '4px 0' }}>{EXERCISE_NAMES[summary.step.exercise]}</td>
+                <td style={{ textAlign: 'right', padding: '4px 0' }}>
+                  {summary.skipped
+                    ? 'skipped'
+                    : `${summary.validReps}/${summary.step.reps}${summary.shortReps > 0 ? ` (${summary.shortReps} short)` : ''}`}
+                </td>
+                <td style={{ textAlign: 'right', padding: '4px 0 4px 10px', color: 'rgba(255,255,255,0.7)' }}>
+                  {formatDuration(summary.durationMs)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={onExit} style={{ ...buttonStyle, borderColor: BEIGE_COLOR, color: BEIGE_COLOR }}>
+          Done
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'exercise') {
+    return (
+      <div style={{
+        position: 'absolute',
+        top: '140px',
+        left: '20px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        padding: '10px 15px',
+        borderRadius: '15px',
+        fontFamily: 'Arial',
+        fontSize: '13px',
+        backdropFilter: 'blur(5px)',
+        zIndex: 40
+      }}>
+        <div style={{ color: 'rgba(255,255,255,0.7)' }}>{routine.name} · {stepLabel}</div>
+        <div style={{ fontWeight: 'bold', color: BEIGE_COLOR, margin: '4px 0 8px 0' }}>
+          {EXERCISE_NAMES[step.exercise]} · {step.reps} × {step.holdMs / 1000}s
+        </div>
+        <button onClick={() => finishStep(null)} style={{ ...buttonStyle, margin: 0 }}>Skip</button>
+        <button onClick={onExit} style={buttonStyle}>End</button>
+      </div>
+    );
+  }
+
+  // Countdown before a step, or rest after one
+  return (
+    <div style={cardStyle}>
+      <div style={{ fontSize: '12px', color: 'rgba(255,255,255,0.7)', marginBottom: '6px' }}>
+        {routine.name} · {stepLabel}
+      </div>
+      <h3 style={{ margin: '0 0 8px 0', color: BEIGE_COLOR }}>
+        {phase === 'rest' ? 'Rest up' : EXERCISE_NAMES[step.exercise]}
+      </h3>
+      <p style={{ margin: '0 0 12px 0', fontSize: '14px' }}>
+        {phase === 'rest'
+          ? `Up next: ${EXERCISE_NAMES[step.exercise]}`
+          : `${getExerciseInstructions(EXERCISE_NAMES[step.exercise])} ${step.reps} reps, hold ${step.holdMs / 1000}s each.`}
+      </p>
+      <div style={{ fontSize: '36px', fontWeight: 'bold', marginBottom: '12px' }}>
+        {formatSeconds(remainingMs)}
+      </div>
+      <button onClick={onExit} style={buttonStyle}>End routine</button>
+    </div>
+  );
+};
+
+export default RoutinePlayer;
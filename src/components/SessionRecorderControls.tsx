@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import type { SessionRecorder } from '../utils/SessionRecorder';
+
+interface SessionRecorderControlsProps {
+  recorder: SessionRecorder;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+const RED_COLOR = "#FF4A4A";
+
+// Frame-rate decimation choices (0 = every frame)
+const FPS_OPTIONS = [0, 15, 10, 5];
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: 'transparent',
+  color: 'white',
+  border: '1px solid rgba(255,255,255,0.5)',
+  borderRadius: '30px',
+  cursor: 'pointer',
+  fontWeight: 'bold'
+};
+
+/**
+ * Record the landmark stream of a session and download it as a file
+ */
+const SessionRecorderControls: React.FC<SessionRecorderControlsProps> = ({ recorder }) => {
+  const [recording, setRecording] = useState<boolean>(recorder.isRecording);
+  const [maxFps, setMaxFps] = useState<number>(15);
+  const [stats, setStats] = useState({ frames: recorder.frameCount, bytes: recorder.byteSize, truncated: recorder.isTruncated });
+
+  // Refresh the frame/size counters while recording (the recorder stops itself at its size cap)
+  useEffect(() => {
+    if (!recording) return;
+
+    const timer = window.setInterval(() => {
+      setStats({ frames: recorder.frameCount, bytes: recorder.byteSize, truncated: recorder.isTruncated });
+      if (!recorder.isRecording) {
+        setRecording(false);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [recording, recorder]);
+
+  const toggleRecording = () => {
+    if (recording) {
+      recorder.stop();
+    } else {
+      recorder.start({ maxFps });
+    }
+    setRecording(recorder.isRecording);
+    setStats({ frames: recorder.frameCount, bytes: recorder.byteSize, truncated: recorder.isTruncated });
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '6px 10px',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      color: 'white',
+      borderRadius: '30px',
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      backdropFilter: 'blur(5px)'
+    }}>
+      <button
+        onClick={toggleRecording}
+        style={{ ...buttonStyle, borderColor: recording ? RED_COLOR : BEIGE_COLOR, color: recording ? RED_COLOR : BEIGE_COLOR }}
+        title="Record landmark frames, scores and events to reproduce issues"
+      >
+        {recording ? '■ Stop' : '● Rec'}
+      </button>
+      {!recording && (
+        <select
+          value={maxFps}
+          onChange={(e) => setMaxFps(Number(e.target.value))}
+          title="Frames recorded per second"
+          style={{
+            backgroundColor: 'transparent',
+            color: 'white',
+            border: '1px solid rgba(255,255,255,0.3)',
+            borderRadius: '6px',
+            fontSize: '12px'
+          }}
+        >
+          {FPS_OPTIONS.map(fps => (
+            <option key={fps} value={fps} style={{ color: 'black' }}>
+              {fps === 0 ? 'All frames' : `${fps} fps`}
+            </option>
+          ))}
+        </select>
+      )}
+      {stats.frames > 0 && (
+        <span>
+          {stats.frames} frames · {formatSize(stats.bytes)}{stats.truncated && ' (size limit reached)'}
+        </span>
+      )}
+      {!recording && stats.frames > 0 && (
+        <button onClick={() => recorder.download()} style={buttonStyle}>
+          Download
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SessionRecorderControls;
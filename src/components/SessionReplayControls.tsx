@@ -0,0 +1,103 @@
+import React, { useRef, useState } from 'react';
+import { parseSessionFile } from '../utils/SessionReplay';
+import type { SessionFile } from '../utils/SessionRecorder';
+
+interface SessionReplayControlsProps {
+  replaying: boolean;
+  speed: number;
+  onLoad: (session: SessionFile) => void;
+  onStop: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+const RED_COLOR = "#FF4A4A";
+
+const SPEED_OPTIONS = [1, 2, 4, 8];
+
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: 'transparent',
+  color: BEIGE_COLOR,
+  border: `1px solid ${BEIGE_COLOR}`,
+  borderRadius: '30px',
+  cursor: 'pointer',
+  fontWeight: 'bold'
+};
+
+/**
+ * Load a recorded session file and play it back in place of the camera
+ */
+const SessionReplayControls: React.FC<SessionReplayControlsProps> = ({ replaying, speed, onLoad, onStop, onSpeedChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      onLoad(parseSessionFile(await file.text()));
+      setLoadError(null);
+    } catch (error) {
+      console.error('Error loading session file:', error);
+      setLoadError(error instanceof Error ? error.message : 'Could not load session file');
+    }
+  };
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '6px 10px',
+      backgroundColor: 'rgba(0, 0, 0, 0.6)',
+      color: 'white',
+      borderRadius: '30px',
+      fontFamily: 'Arial',
+      fontSize: '12px',
+      backdropFilter: 'blur(5px)'
+    }}>
+      {replaying ? (
+        <button onClick={onStop} style={{ ...buttonStyle, borderColor: RED_COLOR, color: RED_COLOR }}>
+          ■ Stop replay
+        </button>
+      ) : (
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          style={buttonStyle}
+          title="Play a recorded session instead of the camera"
+        >
+          ▶ Replay
+        </button>
+      )}
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        title="Playback speed"
+        style={{
+          backgroundColor: 'transparent',
+          color: 'white',
+          border: '1px solid rgba(255,255,255,0.3)',
+          borderRadius: '6px',
+          fontSize: '12px'
+        }}
+      >
+        {SPEED_OPTIONS.map(option => (
+          <option key={option} value={option} style={{ color: 'black' }}>{option}×</option>
+        ))}
+      </select>
+      {loadError && <span style={{ color: RED_COLOR }}>{loadError}</span>}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleFileChange}
+        style={{ display: 'none' }}
+      />
+    </div>
+  );
+};
+
+export default SessionReplayControls;
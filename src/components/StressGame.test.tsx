@@ -0,0 +1,63 @@
+// @vitest-environment jsdom
+import { act, useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import StressGame from './StressGame';
+import { getRenderCounts, LandmarkStream, resetRenderCounts, useRenderCount, useStreamSubscription } from '../utils/LandmarkStream';
+import type { StreamFrame } from '../utils/LandmarkStream';
+import { createSyntheticFace } from '../utils/SyntheticFaces';
+
+// Lets act() flush React's work synchronously
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const FRAME_MS = 1000 / 30;
+const face = createSyntheticFace();
+
+// A consumer that keeps every frame in state, as the app did before the stream
+const PerFrame = ({ stream }: { stream: LandmarkStream }) => {
+  const [frame, setFrame] = useState<StreamFrame | null>(null);
+  useRenderCount('PerFrame');
+  useStreamSubscription(stream, setFrame);
+  return <span>{frame?.faceVisible ? 'face' : 'no face'}</span>;
+};
+
+describe('StressGame renders', () => {
+  let root: Root;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    root = createRoot(document.createElement('div'));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    vi.useRealTimers();
+  });
+
+  it('stay bounded while the stream runs at 30 fps', () => {
+    const stream = new LandmarkStream();
+    const onStressUpdate = vi.fn();
+    act(() => root.render(<>
+      <StressGame stream={stream} onStressUpdate={onStressUpdate} />
+      <PerFrame stream={stream} />
+    </>));
+    resetRenderCounts();
+
+    // 20 seconds of frames, with the face lost for one second in the middle
+    const frames = 20 * 30;
+    for (let i = 0; i < frames; i++) {
+      act(() => {
+        vi.advanceTimersByTime(FRAME_MS);
+        const visible = i < 300 || i >= 330;
+        stream.publish({ landmarks: visible ? face : null, rawLandmarks: visible ? face : null, timestamp: performance.now() });
+      });
+    }
+
+    // Face lost and found, plus the 5-second stress checks; nothing per frame
+    const renders = getRenderCounts();
+    expect(onStressUpdate).toHaveBeenCalled();
+    expect(renders.PerFrame).toBe(frames);
+    expect(renders.StressGame).toBeLessThanOrEqual(frames / 30);
+  });
+});
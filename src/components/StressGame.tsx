@@ -1,35 +1,137 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { calculateStressLevel, ExerciseValidators } from '../utils/FacialAnalysis';
+import type { GraphModel, LayersModel } from '@tensorflow/tfjs';
+import { assessEyeStrain, BlinkDetector, blendBlinkStress, MIN_BLINK_COVERAGE_MS } from '../utils/BlinkDetector';
+import type { EyeStrainSign } from '../utils/BlinkDetector';
+import { analyzeFrame, calculateStressLevel } from '../utils/FacialAnalysis';
+import { blendHeartRateStress, MIN_PULSE_QUALITY } from '../utils/HeartRate';
+import type { HeartRateMonitor } from '../utils/HeartRate';
+import { GAME_RULES } from '../utils/GameValidators';
+import { compileRule } from '../utils/LandmarkRules';
+import type { CompiledRule, LandmarkRule } from '../utils/LandmarkRules';
+import { useRenderCount, useStreamSelector, useStreamSubscription } from '../utils/LandmarkStream';
+import type { LandmarkStream, StreamFrame } from '../utils/LandmarkStream';
+import { LandmarkSmoother, SMOOTHING_PRESETS } from '../utils/LandmarkSmoothing';
+import type { SmoothingPreset } from '../utils/LandmarkSmoothing';
+import {
+  MODEL_FEATURE_NAMES,
+  computeTemporalFeatures,
+  toFeatureVector
+} from '../utils/LandmarkFeatures';
+import type { FaceFeatures, LandmarkFrame } from '../utils/LandmarkFeatures';
 
-// ML Model class placeholder for future implementation
+// Default location of the converted stress model (served from public/models/stress/)
+const DEFAULT_ML_MODEL_PATH = `${import.meta.env.BASE_URL}models/stress/model.json`;
+
+// Number of values produced per frame by preprocessLandmarks (one per model feature)
+const FRAME_FEATURE_COUNT = MODEL_FEATURE_NAMES.length;
+
+// Confidence reported when a score comes from the heuristic instead of the model
+const HEURISTIC_CONFIDENCE = 0.5;
+
+type StressScoreSource = 'ml' | 'heuristic';
+
+interface StressTimePattern {
+  trend: 'insufficient_data' | 'increasing' | 'decreasing' | 'stable';
+  sustainedStress?: boolean;
+  variability?: string;
+  facialMotion?: 'still' | 'moderate' | 'restless';
+}
+
+interface StressDetectionResult {
+  stressLevel: number;
+  confidence: number;
+  source: StressScoreSource;
+  timePattern: StressTimePattern;
+}
+
+// ML model wrapper: runs a TensorFlow.js model over a sliding window of frames
+// and falls back to the heuristic whenever the model is missing or not warmed up
 class StressMLModel {
-  //private model: any = null;
-  private facialBuffer: any[] = [];
+  private model: LayersModel | GraphModel | null = null;
+  private tf: typeof import('@tensorflow/tfjs') | null = null;
+  private loadPromise: Promise<boolean> | null = null;
+  private facialBuffer: FaceFeatures[] = [];
+  private lastBufferedFrame: LandmarkFrame | null = null;
   private bufferSize: number = 30; // Store 30 frames for temporal analysis
   private stressHistory: Array<{timestamp: number, score: number}> = [];
   
-  constructor() {
-    // Will load pre-trained model in future implementation
-    this.initModel();
+  constructor(private modelPath: string = DEFAULT_ML_MODEL_PATH) {}
+  
+  /**
+   * Load the model once; resolves to true if inference is available,
+   * false if we are running on the heuristic fallback
+   */
+  load(): Promise<boolean> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.initModel();
+    }
+    return this.loadPromise;
   }
   
-  private async initModel() {
-    // Placeholder for loading TensorFlow.js or similar ML model
-    // this.model = await tf.loadLayersModel('stress_detection_model/model.json');
-    console.log('ML model would be initialized here in future implementation');
+  get isModelLoaded(): boolean {
+    return this.model !== null;
   }
   
-  //to be implemented
-  //private preprocessLandmarks(landmarks: any) {
-    // Extract relevant features from face landmarks
-    // Will convert to tensor format expected by model
-    // Example features: distance ratios, normalized positions, etc.
-    //return landmarks;
-  //}
+  private async initModel(): Promise<boolean> {
+    try {
+      // Load TensorFlow.js lazily so the heuristic-only path doesn't pay for it
+      const tf = await import('@tensorflow/tfjs');
+      await tf.ready();
+      
+      let model: LayersModel | GraphModel;
+      try {
+        model = await tf.loadLayersModel(this.modelPath);
+      } catch (layersError) {
+        // Converted graph models share the model.json name, so try that format next
+        console.warn('Not a layers model, trying graph model format:', layersError);
+        model = await tf.loadGraphModel(this.modelPath);
+      }
+      
+      // The model must accept the full [batch, frames, features] window
+      const inputShape = model.inputs[0]?.shape;
+      if (!inputShape || inputShape.length !== 3 ||
+          (inputShape[1] !== null && inputShape[1] !== -1 && inputShape[1] !== this.bufferSize) ||
+          (inputShape[2] !== null && inputShape[2] !== -1 && inputShape[2] !== FRAME_FEATURE_COUNT)) {
+        throw new Error(`Unexpected model input shape: ${JSON.stringify(inputShape)}`);
+      }
+      
+      this.tf = tf;
+      this.model = model;
+      console.log(`Stress model loaded from ${this.modelPath}`);
+      return true;
+    } catch (error) {
+      console.warn(`Stress model unavailable at ${this.modelPath}, using heuristic fallback:`, error);
+      this.model = null;
+      return false;
+    }
+  }
+  
+  // Extract the same pose-normalized features the heuristics use
+  private preprocessLandmarks(landmarks: LandmarkFrame): FaceFeatures {
+    return analyzeFrame(landmarks).features;
+  }
+  
+  // Summarize how much the face moved across the buffered window
+  private extractTemporalFeatures(): StressTimePattern['facialMotion'] {
+    if (this.facialBuffer.length < 2) return undefined;
+    
+    const { velocity } = computeTemporalFeatures(this.facialBuffer);
+    const movement = (velocity.mouthOpenness + velocity.browHeight + velocity.jawDrop + velocity.eyeOpenness) / 4;
+    
+    if (movement < 0.002) return 'still';
+    if (movement < 0.006) return 'moderate';
+    return 'restless';
+  }
   
-  private updateBuffer(landmarks: any) {
-    // Add new landmarks to buffer for temporal analysis
-    this.facialBuffer.push(landmarks);
+  /**
+   * Add a frame to the temporal buffer. Call on every landmark update so the
+   * window covers the last 30 frames rather than the last 30 stress checks
+   */
+  observe(landmarks: LandmarkFrame) {
+    if (!landmarks || landmarks === this.lastBufferedFrame) return;
+    this.lastBufferedFrame = landmarks;
+    
+    this.facialBuffer.push(this.preprocessLandmarks(landmarks));
     
     // Keep buffer at fixed size
     if (this.facialBuffer.length > this.bufferSize) {
@@ -37,29 +139,60 @@ class StressMLModel {
     }
   }
   
-  //to be implemented
-  //private extractTemporalFeatures() {
-    // Extract features that capture changes over time
-    // Movement speeds, expression transitions, etc.
-    //return {
-      //temporalFeatures: this.facialBuffer.length > 0 ? 'temporal_features_extracted' : null
-    //};
-  //}
+  // Run the model over the buffered window; returns null if inference is not possible yet
+  private async runInference(): Promise<{ score: number, confidence: number } | null> {
+    if (!this.model || !this.tf || this.facialBuffer.length < this.bufferSize) {
+      return null;
+    }
+    
+    const tf = this.tf;
+    const model = this.model;
+    const input = tf.tensor3d(
+      [this.facialBuffer.map(toFeatureVector)],
+      [1, this.bufferSize, FRAME_FEATURE_COUNT]
+    );
+    
+    try {
+      const output = model.predict(input);
+      const outputTensor = Array.isArray(output) ? output[0] : output;
+      if (!(outputTensor instanceof tf.Tensor)) {
+        throw new Error('Model returned a named tensor map; expected a single output');
+      }
+      const values = await outputTensor.data();
+      tf.dispose(output);
+      
+      if (values.length === 1) {
+        // Single sigmoid unit: probability of stress
+        const score = values[0];
+        return { score, confidence: Math.abs(score - 0.5) * 2 };
+      }
+      
+      if (values.length === 2) {
+        // Softmax over [calm, stressed]
+        return { score: values[1], confidence: Math.max(values[0], values[1]) };
+      }
+      
+      throw new Error(`Unexpected model output size: ${values.length}`);
+    } catch (error) {
+      console.error('Stress model inference failed, using heuristic fallback:', error);
+      return null;
+    } finally {
+      input.dispose();
+    }
+  }
   
-  async detectStress(faceMeshLandmarks: any): Promise<{stressLevel: number, confidence: number, timePattern: any} | null> {
+  async detectStress(faceMeshLandmarks: LandmarkFrame | null): Promise<StressDetectionResult | null> {
     if (!faceMeshLandmarks) return null;
     
-    // Update buffer with new landmarks
-    this.updateBuffer(faceMeshLandmarks);
+    // Make sure the latest frame is part of the window
+    this.observe(faceMeshLandmarks);
     
-    // In an actual implementation, we would:
-    // 1. Process the current frame
-    // 2. Process temporal features
-    // 3. Combine features and run inference
-    // 4. Update stress history
+    const inference = await this.runInference();
     
-    // For now, fall back to heuristic calculation
-    const stressScore = calculateStressLevel(faceMeshLandmarks);
+    // Fall back to the heuristic when the model is missing or the window isn't full yet
+    const source: StressScoreSource = inference ? 'ml' : 'heuristic';
+    const stressScore = inference ? inference.score : calculateStressLevel(faceMeshLandmarks);
+    const confidence = inference ? inference.confidence : HEURISTIC_CONFIDENCE;
     
     // Update stress history
     this.stressHistory.push({
@@ -74,12 +207,23 @@ class StressMLModel {
     
     return {
       stressLevel: stressScore * 100,
-      confidence: 0.7, // Placeholder confidence
-      timePattern: this.analyzeStressOverTime()
+      confidence,
+      source,
+      timePattern: {
+        ...this.analyzeStressOverTime(),
+        facialMotion: this.extractTemporalFeatures()
+      }
     };
   }
   
-  private analyzeStressOverTime() {
+  dispose() {
+    this.model?.dispose();
+    this.model = null;
+    this.facialBuffer = [];
+    this.lastBufferedFrame = null;
+  }
+  
+  private analyzeStressOverTime(): StressTimePattern {
     // Analyze patterns in stress history
     // Detect sustained stress, stress spikes, etc.
     
@@ -101,12 +245,42 @@ class StressMLModel {
   }
 }
 
+// How often the stress check and the active game look at the face
+const STRESS_SAMPLE_HZ = 1;
+const GAME_SAMPLE_HZ = 10;
+
+// Eye strain is reported at most this often
+const EYE_STRAIN_COOLDOWN_MS = 5 * 60 * 1000;
+
+// What each sign of eye strain says to the user (the first sign found is shown)
+const EYE_STRAIN_MESSAGES: Record<EyeStrainSign, string> = {
+  rareBlinking: "Screen stare detected—blink, bestie!",
+  frequentBlinking: "Blinking a lot—eyes need a breather",
+  slowBlinks: "Heavy blinks—eyes running on empty",
+  drooping: "Eyelids drooping—time for an eye break"
+};
+
+// Blinking shown in the stress panel, rounded so it only re-renders on visible changes
+interface BlinkStats {
+  blinksPerMinute: number;
+  perclos: number;        // Whole percents
+  strain: EyeStrainSign | null;
+}
+
+// Pulse shown in the stress panel (null values until the estimate is trustworthy)
+interface PulseStats {
+  bpm: number | null;
+  hrvMs: number | null;
+}
+
 interface StressGameProps {
-  landmarks: any;
-  faceVisible: boolean;
+  stream: LandmarkStream;       // Tracker frames, sampled here at the rates above
   onStressUpdate?: (newStressLevel: number) => void;
   isFullScreen?: boolean;
   useMLModel?: boolean; // Flag to switch between heuristic and ML models
+  mlModelPath?: string; // model.json location, defaults to public/models/stress/model.json
+  onEyeStrain?: (signs: EyeStrainSign[]) => void; // Blinking suggests the eyes need a rest
+  heartRate?: HeartRateMonitor; // Pulse from the camera, fed by the tracker
 }
 
 interface GameDefinition {
@@ -114,7 +288,8 @@ interface GameDefinition {
   name: string;
   description: string;
   durationSecs: number;
-  validate: (landmarks: any) => boolean;
+  rule: LandmarkRule;          // What the face has to do (checked on every sampled frame)
+  smoothing?: SmoothingPreset; // Landmark smoothing for validation, balanced by default (movement games stay responsive)
   successMessage: string;
   failureMessage: string;
   instructions: string;
@@ -124,11 +299,13 @@ interface GameDefinition {
 }
 
 const StressGame: React.FC<StressGameProps> = ({ 
-  landmarks, 
-  faceVisible, 
+  stream, 
   onStressUpdate, 
   isFullScreen = false,
-  useMLModel = false // Default to heuristic model
+  useMLModel = false, // Default to heuristic model
+  mlModelPath = DEFAULT_ML_MODEL_PATH,
+  onEyeStrain,
+  heartRate
 }) => {
   const [stressLevel, setStressLevel] = useState<number>(0);
   const [activeGame, setActiveGame] = useState<GameDefinition | null>(null);
@@ -140,6 +317,10 @@ const StressGame: React.FC<StressGameProps> = ({
   const [stressHistory, setStressHistory] = useState<number[]>([]);
   const [minimized, setMinimized] = useState<boolean>(false);
   const [mlModelReady, setMlModelReady] = useState<boolean>(false);
+  const [stressSource, setStressSource] = useState<StressScoreSource>('heuristic');
+  const [stressConfidence, setStressConfidence] = useState<number | null>(null);
+  const [blinkStats, setBlinkStats] = useState<BlinkStats | null>(null);
+  const [pulseStats, setPulseStats] = useState<PulseStats | null>(null);
   
   // References for timers to clean up
   const stressCheckRef = useRef<number | null>(null);
@@ -148,6 +329,20 @@ const StressGame: React.FC<StressGameProps> = ({
   const lastCheckTimeRef = useRef<number>(0);
   // ML model reference
   const mlModelRef = useRef<StressMLModel | null>(null);
+  // Latest frame from the stress check's 1 Hz subscription
+  const stressFrameRef = useRef<StreamFrame | null>(null);
+  // The active game's rule, compiled when the game starts (it keeps the game's counters)
+  const gameRuleRef = useRef<CompiledRule | null>(null);
+  // Smooths the tracker's raw landmarks with the active game's settings
+  const gameSmootherRef = useRef<LandmarkSmoother>(new LandmarkSmoother());
+  // Blinks and eye closure over the last minute, fed every frame
+  const blinkDetectorRef = useRef<BlinkDetector>(new BlinkDetector());
+  const lastEyeStrainRef = useRef<number>(0);
+  
+  useRenderCount('StressGame');
+  
+  // Only re-render when the face appears or disappears, not on every frame
+  const faceVisible = useStreamSelector(stream, frame => frame.faceVisible, { hz: GAME_SAMPLE_HZ });
   
   // Premium colors
   const TEAL_COLOR = "#C49A7E"; // Changed from "#00C4B4" to match app's beige/warm color scheme
@@ -161,7 +356,7 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Smile Snipe",
       description: "Maintain a wide smile to snipe away stress gremlins",
       durationSecs: 30,
-      validate: ExerciseValidators.smileyStretch,
+      rule: { op: 'exercise', id: 'smileyStretch' },
       successMessage: "Grin's too posh for gremlins—snipe win!",
       failureMessage: "Smile harder, stress is dodging!",
       instructions: "Smile wide to snipe stress gremlins",
@@ -174,10 +369,8 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Brow Chill",
       description: "Keep your brows relaxed and still to freeze stress",
       durationSecs: 30,
-      validate: (landmarks) => {
-        // Modified validation for relaxed, not raised brows
-        return !ExerciseValidators.browLifter(landmarks);
-      },
+      // Relaxed, not raised brows
+      rule: { op: 'not', rule: { op: 'exercise', id: 'browLifter' } },
       successMessage: "Brows on vacay—stress canceled deluxe!",
       failureMessage: "Chill those caterpillars, fam!",
       instructions: "Relax your eyebrows completely",
@@ -190,27 +383,7 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Breath Blast",
       description: "Deep breathing to blast away tension",
       durationSecs: 30,
-      validate: (landmarks) => {
-        // Placeholder: no chest detection, use mouth and jaw movement as proxy
-        const jawDropAmount = ExerciseValidators.jawDropper(landmarks);
-        
-        // Get time since start
-        const now = Date.now();
-        const elapsed = now - (gameStartTime || now);
-        
-        // We want to see oscillation between open and closed mouth
-        // This simulates breathing rhythm
-        const cycleTime = 4000; // 4 seconds per breath cycle
-        const phase = (elapsed % cycleTime) / cycleTime;
-        
-        // In first half of cycle, jaw should be dropped (inhale)
-        // In second half, jaw should be closed (exhale)
-        if (phase < 0.5) {
-          return jawDropAmount; // Jaw should be open during inhale
-        } else {
-          return !jawDropAmount; // Jaw should be closed during exhale
-        }
-      },
+      rule: GAME_RULES.breathBlast,
       successMessage: "Blast stress with air power—vibe titan!",
       failureMessage: "Breathe deeper, rookie!",
       instructions: "Take slow, deep breaths (4s in, 4s out)",
@@ -223,18 +396,7 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Eye Rest",
       description: "Close your eyes for a quick refreshing break",
       durationSecs: 5,
-      validate: (landmarks) => {
-        // Check if eyes are closed - invert the eye winker validation
-        const leftEyeOpening = Math.abs(
-          landmarks[159].y - landmarks[145].y
-        );
-        const rightEyeOpening = Math.abs(
-          landmarks[386].y - landmarks[374].y
-        );
-        
-        // Return true if both eyes are nearly closed
-        return leftEyeOpening < 0.01 && rightEyeOpening < 0.01;
-      },
+      rule: GAME_RULES.eyeRest,
       successMessage: "Peepers napped—stress got zapped!",
       failureMessage: "Close 'em longer, vibe slacker!",
       instructions: "Close your eyes completely for 5 seconds",
@@ -247,34 +409,8 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Jaw Jiggle",
       description: "Wiggle your jaw to shake out tension",
       durationSecs: 30,
-      validate: (landmarks) => {
-        // We need to track jaw movement over time
-        const chin = landmarks[152];
-        const prev = gameStartTime ? JSON.parse(sessionStorage.getItem('prevJawPos') || '{}') : null;
-        const jiggleCount = parseInt(sessionStorage.getItem('jawJiggleCount') || '0');
-        
-        if (gameStartTime) {
-          const current = { y: chin.y };
-          
-          if (prev && prev.y) {
-            const yDiff = Math.abs(current.y - prev.y);
-            
-            if (yDiff > 0.02) { // Significant movement threshold
-              const newCount = jiggleCount + 1;
-              sessionStorage.setItem('jawJiggleCount', newCount.toString());
-              
-              // Reset the position after counting a jiggle
-              sessionStorage.setItem('prevJawPos', JSON.stringify({ y: current.y - (current.y - prev.y) / 2 }));
-              
-              return newCount >= 10; // Need 10 jiggles to succeed
-            }
-          }
-          
-          sessionStorage.setItem('prevJawPos', JSON.stringify(current));
-        }
-        
-        return jiggleCount >= 10; // Success if 10+ jiggles
-      },
+      rule: GAME_RULES.jawJiggle,
+      smoothing: "responsive",
       successMessage: "Wiggle master—tension's toast!",
       failureMessage: "Shake it more, stress is clingy!",
       instructions: "Wiggle your jaw up and down 10 times",
@@ -287,7 +423,7 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Positive Reframe",
       description: "Smile to reframe negative thoughts positively",
       durationSecs: 30,
-      validate: ExerciseValidators.smileyStretch, // Same as smile snipe but with different context
+      rule: { op: 'exercise', id: 'smileyStretch' }, // Same as smile snipe but with different context
       successMessage: "Zen boss mode—stress reframed elite!",
       failureMessage: "Smile and reframe, you're halfway!",
       instructions: "Smile wide while thinking positive thoughts",
@@ -300,10 +436,8 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Cheek Drop",
       description: "Relax your cheeks to release tension",
       durationSecs: 30,
-      validate: (landmarks) => {
-        // Opposite of cheek puffer - we want relaxed, not puffed cheeks
-        return !ExerciseValidators.cheekPuffer(landmarks);
-      },
+      // Opposite of cheek puffer - we want relaxed, not puffed cheeks
+      rule: { op: 'not', rule: { op: 'exercise', id: 'cheekPuffer' } },
       successMessage: "Chipmunk vibes dropped—stress KO'd!",
       failureMessage: "Relax those cheeks, fam!",
       instructions: "Relax your cheeks completely",
@@ -316,10 +450,8 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Lip Loosen",
       description: "Loosen your lips to release facial tension",
       durationSecs: 30,
-      validate: (landmarks) => {
-        // Check for relaxed lips (not pursed)
-        return !ExerciseValidators.lipPucker(landmarks);
-      },
+      // Relaxed lips (not pursed)
+      rule: { op: 'not', rule: { op: 'exercise', id: 'lipPucker' } },
       successMessage: "Lips too chill for vaults—vibe win!",
       failureMessage: "Loosen up, tension's tight!",
       instructions: "Relax your lips completely",
@@ -332,39 +464,8 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Nose Flare",
       description: "Flare your nostrils to release trapped stress",
       durationSecs: 30,
-      validate: (landmarks) => {
-        // Need to track movement over time
-        const leftNostril = landmarks[102];
-        const rightNostril = landmarks[331];
-        const prev = gameStartTime ? JSON.parse(sessionStorage.getItem('prevNostrilPos') || '{}') : null;
-        const flareCount = parseInt(sessionStorage.getItem('nostrilFlareCount') || '0');
-        
-        if (gameStartTime) {
-          const current = { leftX: leftNostril.x, rightX: rightNostril.x };
-          
-          if (prev && prev.leftX && prev.rightX) {
-            const leftDiff = Math.abs(current.leftX - prev.leftX);
-            const rightDiff = Math.abs(current.rightX - prev.rightX);
-            
-            if (leftDiff > 0.005 && rightDiff > 0.005) { // Threshold for nostril flare
-              const newCount = flareCount + 1;
-              sessionStorage.setItem('nostrilFlareCount', newCount.toString());
-              
-              // Reset position after counting a flare
-              sessionStorage.setItem('prevNostrilPos', JSON.stringify({ 
-                leftX: current.leftX - (current.leftX - prev.leftX) / 2,
-                rightX: current.rightX - (current.rightX - prev.rightX) / 2
-              }));
-              
-              return newCount >= 5; // Need 5 flares to succeed
-            }
-          }
-          
-          sessionStorage.setItem('prevNostrilPos', JSON.stringify(current));
-        }
-        
-        return flareCount >= 5; // Success if 5+ flares
-      },
+      rule: GAME_RULES.noseFlare,
+      smoothing: "responsive",
       successMessage: "Nostril glow-up—blues flared out!",
       failureMessage: "Flare more, stress is sneaky!",
       instructions: "Flare your nostrils 5 times",
@@ -377,40 +478,8 @@ const StressGame: React.FC<StressGameProps> = ({
       name: "Face Freeze",
       description: "Freeze your face to solidify your calm",
       durationSecs: 15,
-      validate: (landmarks) => {
-        // Check for minimal movement across all facial features
-        const nose = landmarks[4];
-        const chin = landmarks[152];
-        const leftEye = landmarks[159];
-        const rightEye = landmarks[386];
-        
-        const prev = gameStartTime ? JSON.parse(sessionStorage.getItem('prevFacePos') || '{}') : null;
-        
-        if (gameStartTime) {
-          const current = { 
-            noseX: nose.x, noseY: nose.y,
-            chinX: chin.x, chinY: chin.y,
-            leftEyeX: leftEye.x, leftEyeY: leftEye.y,
-            rightEyeX: rightEye.x, rightEyeY: rightEye.y
-          };
-          
-          if (prev && prev.noseX) { // Check if we have previous data
-            const noseDiff = Math.sqrt(Math.pow(current.noseX - prev.noseX, 2) + Math.pow(current.noseY - prev.noseY, 2));
-            const chinDiff = Math.sqrt(Math.pow(current.chinX - prev.chinX, 2) + Math.pow(current.chinY - prev.chinY, 2));
-            const leftEyeDiff = Math.sqrt(Math.pow(current.leftEyeX - prev.leftEyeX, 2) + Math.pow(current.leftEyeY - prev.leftEyeY, 2));
-            const rightEyeDiff = Math.sqrt(Math.pow(current.rightEyeX - prev.rightEyeX, 2) + Math.pow(current.rightEyeY - prev.rightEyeY, 2));
-            
-            const allStill = noseDiff < 0.005 && chinDiff < 0.005 && leftEyeDiff < 0.005 && rightEyeDiff < 0.005;
-            sessionStorage.setItem('prevFacePos', JSON.stringify(current));
-            
-            return allStill;
-          }
-          
-          sessionStorage.setItem('prevFacePos', JSON.stringify(current));
-        }
-        
-        return true; // Default to true on first frame
-      },
+      rule: GAME_RULES.faceFreeze,
+      smoothing: "stable",
       successMessage: "Statue vibes—stress froze solid!",
       failureMessage: "Hold it, don't crack!",
       instructions: "Keep your entire face completely still",
@@ -422,26 +491,30 @@ const StressGame: React.FC<StressGameProps> = ({
 
   // Initialize ML model if enabled
   useEffect(() => {
-    if (useMLModel && !mlModelRef.current) {
-      mlModelRef.current = new StressMLModel();
+    let cancelled = false;
+    
+    if (useMLModel) {
+      const model = new StressMLModel(mlModelPath);
+      mlModelRef.current = model;
+      setMlModelReady(false);
       
-      // In a real implementation, we would wait for model to load
-      // For now, just set as ready after a short delay
-      setTimeout(() => {
-        setMlModelReady(true);
-      }, 1000);
+      // Ready once loading settles, whether the model loaded or we fell back
+      model.load().then(() => {
+        if (!cancelled) {
+          setMlModelReady(true);
+        }
+      });
     }
     
-    // Clear session storage for game state
-    sessionStorage.removeItem('prevBrowPos');
-    sessionStorage.removeItem('prevJawPos');
-    sessionStorage.removeItem('jawJiggleCount');
-    sessionStorage.removeItem('prevNostrilPos');
-    sessionStorage.removeItem('nostrilFlareCount');
-    sessionStorage.removeItem('prevFacePos');
-    
     // Cleanup function
     return () => {
+      cancelled = true;
+      
+      if (mlModelRef.current) {
+        mlModelRef.current.dispose();
+        mlModelRef.current = null;
+      }
+      
       if (stressCheckRef.current) {
         clearInterval(stressCheckRef.current);
       }
@@ -454,7 +527,47 @@ const StressGame: React.FC<StressGameProps> = ({
         clearInterval(progressTimerRef.current);
       }
     };
-  }, [useMLModel]);
+  }, [useMLModel, mlModelPath]);
+
+  // Feed every frame into the ML model's temporal window
+  useStreamSubscription(stream, frame => {
+    if (mlModelRef.current && frame.landmarks) {
+      mlModelRef.current.observe(frame.landmarks);
+    }
+  }, { enabled: useMLModel });
+  
+  // Blinks last a few frames, so the detector sees every one (unsmoothed, so blinks stay sharp)
+  useStreamSubscription(stream, frame => {
+    blinkDetectorRef.current.update(frame.faceVisible ? frame.rawLandmarks ?? frame.landmarks : null, frame.timestamp);
+  });
+
+  useStreamSubscription(stream, frame => {
+    stressFrameRef.current = frame;
+
+    const blinkMetrics = blinkDetectorRef.current.getMetrics(frame.timestamp);
+    const signs = assessEyeStrain(blinkMetrics);
+    const next: BlinkStats | null = blinkMetrics.coveredMs < MIN_BLINK_COVERAGE_MS ? null : {
+      blinksPerMinute: Math.round(blinkMetrics.blinksPerMinute),
+      perclos: Math.round(blinkMetrics.perclos * 100),
+      strain: signs[0] ?? null
+    };
+    setBlinkStats(prev => prev && next && prev.blinksPerMinute === next.blinksPerMinute &&
+      prev.perclos === next.perclos && prev.strain === next.strain ? prev : next);
+
+    if (signs.length > 0 && frame.timestamp - lastEyeStrainRef.current > EYE_STRAIN_COOLDOWN_MS) {
+      lastEyeStrainRef.current = frame.timestamp;
+      onEyeStrain?.(signs);
+    }
+
+    // The pulse needs the face in view; a noisy estimate shows as still reading
+    const pulse = frame.faceVisible ? heartRate?.estimate ?? null : null;
+    const trusted = pulse !== null && pulse.quality >= MIN_PULSE_QUALITY;
+    const nextPulse: PulseStats | null = !heartRate || !frame.faceVisible ? null : {
+      bpm: trusted ? Math.round(pulse.bpm) : null,
+      hrvMs: trusted && pulse.hrvMs !== null ? Math.round(pulse.hrvMs) : null
+    };
+    setPulseStats(prev => prev && nextPulse && prev.bpm === nextPulse.bpm && prev.hrvMs === nextPulse.hrvMs ? prev : nextPulse);
+  }, { hz: STRESS_SAMPLE_HZ });
 
   // Stress check function - implemented as useCallback to avoid recreating on every render
   const checkStress = useCallback(async () => {
@@ -467,18 +580,30 @@ const StressGame: React.FC<StressGameProps> = ({
     // Update the last check time
     lastCheckTimeRef.current = now;
     
-    if (faceVisible && landmarks) {
+    const frame = stressFrameRef.current ?? stream.latest;
+    const landmarks = frame.landmarks;
+    
+    if (landmarks) {
       let newStressLevel: number;
       
       if (useMLModel && mlModelRef.current) {
-        // Use ML model if enabled and ready
+        // Use ML model if enabled; it reports whether the model or the heuristic produced the score
         const mlResult = await mlModelRef.current.detectStress(landmarks);
         newStressLevel = mlResult ? mlResult.stressLevel / 100 : 0.3;
+        setStressSource(mlResult ? mlResult.source : 'heuristic');
+        setStressConfidence(mlResult ? mlResult.confidence : null);
       } else {
-        // Use heuristic-based stress calculation
-        newStressLevel = calculateStressLevel(landmarks);
+        // Use heuristic-based stress calculation (already computed when the face worker is running)
+        newStressLevel = frame.analysis?.stress ?? calculateStressLevel(landmarks);
+        setStressSource('heuristic');
+        setStressConfidence(null);
       }
       
+      // Blinking fast or eyes drooping adds to whichever score we got
+      newStressLevel = blendBlinkStress(newStressLevel, blinkDetectorRef.current.getMetrics(frame.timestamp));
+      // So do a racing pulse and low HRV, when the camera can see them
+      newStressLevel = blendHeartRateStress(newStressLevel, heartRate?.estimate ?? null);
+      
       setStressLevel(newStressLevel);
       
       // Update stress history for trend analysis
@@ -504,7 +629,7 @@ const StressGame: React.FC<StressGameProps> = ({
         onStressUpdate(defaultStressLevel);
       }
     }
-  }, [landmarks, faceVisible, useMLModel, onStressUpdate]);
+  }, [stream, useMLModel, onStressUpdate, heartRate]);
 
   // Initialize stress check timer and run initial check
   useEffect(() => {
@@ -625,14 +750,18 @@ const StressGame: React.FC<StressGameProps> = ({
     };
   }, [activeGame, gameStartTime, requirementsMet]);
 
-  // Validate game requirements
-  useEffect(() => {
-    if (activeGame && landmarks && gameStartTime) {
+  // Validate game requirements while a game runs
+  useStreamSubscription(stream, frame => {
+    if (!frame.landmarks) {
+      gameSmootherRef.current.reset();
+    }
+    if (activeGame && frame.landmarks && gameStartTime && gameRuleRef.current) {
+      const landmarks = gameSmootherRef.current.smooth(frame.rawLandmarks ?? frame.landmarks, frame.timestamp);
+
       // Check if current landmarks meet game requirements
-      const meetsRequirements = activeGame.validate(landmarks);
-      setRequirementsMet(meetsRequirements);
+      setRequirementsMet(gameRuleRef.current.evaluate({ landmarks, timestamp: frame.timestamp }));
     }
-  }, [landmarks, activeGame, gameStartTime]);
+  }, { hz: GAME_SAMPLE_HZ, enabled: activeGame !== null });
 
   // Helper functions
   
@@ -644,14 +773,11 @@ const StressGame: React.FC<StressGameProps> = ({
     //setGameSuccess(null);
     //setShowModal(true);
     setRequirementsMet(false);
+    gameSmootherRef.current.setParams(SMOOTHING_PRESETS[game.smoothing ?? 'balanced']);
+    gameSmootherRef.current.reset();
     
-    // Clear any previous game state
-    sessionStorage.removeItem('prevBrowPos');
-    sessionStorage.removeItem('prevJawPos');
-    sessionStorage.removeItem('jawJiggleCount');
-    sessionStorage.removeItem('prevNostrilPos');
-    sessionStorage.removeItem('nostrilFlareCount');
-    sessionStorage.removeItem('prevFacePos');
+    // A fresh rule for every game, so no counters carry over
+    gameRuleRef.current = compileRule(game.rule);
   };
   
   // Complete the game and determine success
@@ -817,9 +943,21 @@ const StressGame: React.FC<StressGameProps> = ({
               fontSize: '14px',
               color: 'white'
             }}>
-              {useMLModel ? 'ML Stress' : 'Stress Level'}
+              {stressSource === 'ml' ? 'ML Stress' : 'Stress Level'}
             </h4>
             
+            {/* Which path produced the score when the ML model is enabled */}
+            {useMLModel && mlModelReady && (
+              <div style={{
+                fontSize: '11px',
+                color: 'rgba(255,255,255,0.6)',
+                marginTop: '3px'
+              }}>
+                {stressSource === 'ml' ? 'Model' : 'Heuristic fallback'}
+                {stressConfidence !== null && ` · ${Math.round(stressConfidence * 100)}% conf.`}
+              </div>
+            )}
+            
             {/* Stress trend indicator */}
             {stressHistory.length > 5 && (
               <div style={{
@@ -830,6 +968,40 @@ const StressGame: React.FC<StressGameProps> = ({
                 {getStressTrend(stressHistory)}
               </div>
             )}
+            
+            {/* Pulse from the camera */}
+            {pulseStats && (
+              <div style={{
+                fontSize: '11px',
+                color: 'rgba(255,255,255,0.6)',
+                marginTop: '5px'
+              }}>
+                {pulseStats.bpm === null
+                  ? "♥ Hold still, reading pulse..."
+                  : `♥ ${pulseStats.bpm} BPM${pulseStats.hrvMs !== null ? ` · HRV ${pulseStats.hrvMs}ms` : ''}`}
+              </div>
+            )}
+            
+            {/* Blinking over the last minute, once there's enough of it */}
+            {blinkStats && (
+              <div style={{
+                fontSize: '11px',
+                color: 'rgba(255,255,255,0.6)',
+                marginTop: '5px'
+              }}>
+                {blinkStats.blinksPerMinute} blinks/min · {blinkStats.perclos}% shut
+              </div>
+            )}
+            {blinkStats?.strain && (
+              <div style={{
+                fontSize: '11px',
+                color: '#F5F5DC',
+                fontWeight: 'bold',
+                marginTop: '5px'
+              }}>
+                {EYE_STRAIN_MESSAGES[blinkStats.strain]}
+              </div>
+            )}
           </div>
           
           {/* Minimize button */}
@@ -860,4 +1032,5 @@ const StressGame: React.FC<StressGameProps> = ({
   );
 };
 
-export default StressGame;
\ No newline at end of file
+// Memoized: its props are stable, so parent re-renders don't reach it
+export default React.memo(StressGame);
\ No newline at end of file
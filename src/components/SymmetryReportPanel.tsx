@@ -0,0 +1,152 @@
+import React from 'react';
+import { EXERCISE_NAMES } from '../utils/FacialAnalysis';
+import { getLaggingSide, SYMMETRY_REGION_NAMES, SYMMETRY_REGIONS } from '../utils/Symmetry';
+import type { FaceSide, SymmetryReport } from '../utils/Symmetry';
+
+interface SymmetryReportPanelProps {
+  report: SymmetryReport;
+  history: SymmetryReport[];   // Earlier saved sessions, oldest first
+  onClose: () => void;
+}
+
+const BEIGE_COLOR = "#F5F5DC";
+const RED_COLOR = "#FF4A4A";
+const TEAL_COLOR = "#00C4B4";
+
+// Sessions shown in each region's trend, including this one
+const TREND_SESSIONS = 5;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+const sideLabel = (side: FaceSide) => `your ${side}`;
+
+const cellStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  textAlign: 'left',
+  borderBottom: '1px solid rgba(255,255,255,0.1)'
+};
+
+/**
+ * Session symmetry report: how even each region is at rest, which side lagged
+ * during each exercise, and how resting asymmetry has moved over past sessions
+ */
+const SymmetryReportPanel: React.FC<SymmetryReportPanelProps> = ({ report, history, onClose }) => {
+  const sessions = [...history.filter(entry => entry.startedAt !== report.startedAt), report]
+    .filter(entry => entry.rest !== null)
+    .slice(-TREND_SESSIONS);
+  const laggingSide = getLaggingSide(report);
+  const exercises = Object.entries(report.exercises).filter(([, { regions }]) => Object.keys(regions).length > 0);
+
+  return (
+    <div style={{
+      position: 'absolute',
+      top: '150px',
+      right: '20px',
+      width: '320px',
+      maxHeight: 'calc(100% - 240px)',
+      overflowY: 'auto',
+      backgroundColor: 'rgba(0, 0, 0, 0.75)',
+      color: 'white',
+      padding: '15px 20px',
+      borderRadius: '20px',
+      fontFamily: 'Arial',
+      fontSize: '13px',
+      backdropFilter: 'blur(5px)',
+      zIndex: 35
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <h3 style={{ margin: 0, color: BEIGE_COLOR }}>Symmetry Check</h3>
+        <button
+          onClick={onClose}
+          style={{
+            backgroundColor: 'transparent',
+            color: 'white',
+            border: '1px solid rgba(255,255,255,0.5)',
+            borderRadius: '30px',
+            padding: '4px 12px',
+            cursor: 'pointer'
+          }}
+        >
+          Close
+        </button>
+      </div>
+
+      <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>At rest</div>
+      {report.rest ? (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '12px' }}>
+          <tbody>
+            {SYMMETRY_REGION_NAMES.map(region => {
+              const { asymmetry, lowerSide } = report.rest![region];
+              return (
+                <tr key={region}>
+                  <td style={cellStyle}>{SYMMETRY_REGIONS[region].label}</td>
+                  <td style={{ ...cellStyle, color: lowerSide ? RED_COLOR : TEAL_COLOR }}>
+                    {lowerSide ? `${sideLabel(lowerSide)} sits lower` : 'Even'}
+                  </td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>{formatPercent(asymmetry)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      ) : (
+        <p style={{ margin: '0 0 12px 0', color: 'rgba(255,255,255,0.7)' }}>
+          Relax your face between reps so we can read your resting symmetry.
+        </p>
+      )}
+
+      <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>During exercises</div>
+      {exercises.length > 0 ? (
+        <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '12px' }}>
+          <tbody>
+            {exercises.flatMap(([exerciseId, { regions }]) =>
+              SYMMETRY_REGION_NAMES.filter(region => regions[region]).map(region => {
+                const { left, right, lagging } = regions[region]!;
+                return (
+                  <tr key={`${exerciseId}-${region}`}>
+                    <td style={cellStyle}>{EXERCISE_NAMES[exerciseId] ?? exerciseId}</td>
+                    <td style={cellStyle}>{SYMMETRY_REGIONS[region].label}</td>
+                    <td style={{ ...cellStyle, color: lagging ? RED_COLOR : TEAL_COLOR }}>
+                      {lagging
+                        ? `${sideLabel(lagging)} lags (${formatPercent(Math.min(left, right) / Math.max(left, right))})`
+                        : 'Balanced'}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      ) : (
+        <p style={{ margin: '0 0 12px 0', color: 'rgba(255,255,255,0.7)' }}>
+          Nail a few reps and we'll compare your sides.
+        </p>
+      )}
+
+      {sessions.length > 1 && (
+        <>
+          <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>Resting asymmetry, last {sessions.length} sessions</div>
+          <table style={{ width: '100%', borderCollapse: 'collapse', marginBottom: '12px' }}>
+            <tbody>
+              {SYMMETRY_REGION_NAMES.map(region => (
+                <tr key={region}>
+                  <td style={cellStyle}>{SYMMETRY_REGIONS[region].label}</td>
+                  <td style={{ ...cellStyle, textAlign: 'right' }}>
+                    {sessions.map(entry => formatPercent(entry.rest![region].asymmetry)).join(' → ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {laggingSide && (
+        <div style={{ textAlign: 'center', fontWeight: 'bold', color: BEIGE_COLOR }}>
+          {`Your ${laggingSide} side is playing catch-up—give it extra focus!`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SymmetryReportPanel;
@@ -1,20 +1,37 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Anthropic } from '@anthropic-ai/sdk';
-import { getExerciseBenefits } from '../utils/FacialAnalysis';
+import { EXERCISE_PASS_SCORE, getExerciseBenefits } from '../utils/FacialAnalysis';
+import { useRenderCount, useStreamSelector } from '../utils/LandmarkStream';
+import type { LandmarkStream } from '../utils/LandmarkStream';
+import { EXERCISES } from '../utils/ExerciseRegistry';
 
 interface TrainerChatProps {
   exerciseProgress: number;
+  stream: LandmarkStream;      // Carries the live 0-100 score of the current attempt
   currentExercise: string;
   isInSidePanel?: boolean;
   onMinimizedChange?: (minimized: boolean) => void;
 }
 
+// Every registered exercise with what it asks for, for the system prompt
+const EXERCISE_SUMMARY = EXERCISES
+  .map(exercise => `${exercise.name} (${exercise.visual.description.toLowerCase()})`)
+  .join(', ');
+
+// How often the intensity readout follows the live score
+const INTENSITY_SAMPLE_HZ = 4;
+
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
 }
 
-const TrainerChat: React.FC<TrainerChatProps> = ({ exerciseProgress, currentExercise, isInSidePanel = true, onMinimizedChange }) => {
+const TrainerChat: React.FC<TrainerChatProps> = ({ exerciseProgress, stream, currentExercise, isInSidePanel = true, onMinimizedChange }) => {
+  useRenderCount('TrainerChat');
+  
+  // The score changes nearly every frame while the face moves; a few updates a second is plenty here
+  const exerciseIntensity = useStreamSelector(stream, frame => frame.exerciseScore ?? 0, { hz: INTENSITY_SAMPLE_HZ });
+  
   // Initialize minimized state separately from props to avoid circular dependency
   const [minimized, setMinimized] = useState<boolean>(false);
   
@@ -71,12 +88,12 @@ const TrainerChat: React.FC<TrainerChatProps> = ({ exerciseProgress, currentExer
       });
       
       // Create the system prompt
-      const systemPrompt = 'You are a motivational gym trainer and CBT therapist with a Gen Z vibe for *FaceVibe*, guiding users through 10 facial exercises: Jaw Dropper (>20px), Brow Lifter (>15px), Cheek Puffer (>25px), Eye Winker (>10px asymmetry), Smiley Stretch (>30px), Nose Scruncher (>10px y-shift), Lip Pucker (>10px z-shift), Chin Jutter (>15px), Forehead Smoother (<5px variance), Tongue Twister (>5px). Encourage progress (e.g., "Yo, fam, 75% on Jaw Dropper—slay it!") and suggest next steps.';
+      const systemPrompt = `You are a motivational gym trainer and CBT therapist with a Gen Z vibe for *FaceVibe*, guiding users through ${EXERCISES.length} facial exercises: ${EXERCISE_SUMMARY}. Progress is how much of the hold time is done; intensity is how far toward the target the face is right now (${EXERCISE_PASS_SCORE}% passes). Encourage partial effort and progress (e.g., "Yo, fam, 75% on Jaw Dropper—slay it!") and suggest next steps.`;
       
       // Combine user message with current exercise and progress info
       const fullPrompt = isAutoFeedback 
         ? userMessage 
-        : `User: ${userMessage}\nCurrent Exercise: ${currentExercise}, Progress: ${exerciseProgress}%`;
+        : `User: ${userMessage}\n${describeExerciseStatus()}`;
       
       // Make API request
       const response = await anthropic.messages.create({
@@ -97,6 +114,11 @@ const TrainerChat: React.FC<TrainerChatProps> = ({ exerciseProgress, currentExer
     }
   };
   
+  // Current exercise, progress and intensity as sent to the trainer
+  const describeExerciseStatus = () => {
+    return `Current Exercise: ${currentExercise}, Progress: ${exerciseProgress}%, Intensity: ${exerciseIntensity}%`;
+  };
+  
   // Provide real-time feedback when progress changes significantly
   const provideProgressFeedback = async () => {
     try {
@@ -108,7 +130,7 @@ const TrainerChat: React.FC<TrainerChatProps> = ({ exerciseProgress, currentExer
       setChatMessages(prev => [...prev, tempMessage]);
       
       // Create a prompt about the current exercise and progress
-      const prompt = `Current Exercise: ${currentExercise}, Progress: ${exerciseProgress}%`;
+      const prompt = describeExerciseStatus();
       
       // Get feedback from Claude
       const feedback = await generateResponse(prompt, true);
@@ -518,7 +540,10 @@ const TrainerChat: React.FC<TrainerChatProps> = ({ exerciseProgress, currentExer
           justifyContent: 'space-between'
         }}>
           <div>{currentExercise || 'No exercise selected'}</div>
-          <div>{exerciseProgress}% complete</div>
+          <div>
+            {`${exerciseIntensity}% intensity · `}
+            {exerciseProgress}% complete
+          </div>
         </div>
         
         {/* Chat messages */}
@@ -1,10 +1,22 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import '@fontsource/playfair-display/400.css'
+import '@fontsource/playfair-display/500.css'
+import '@fontsource/playfair-display/600.css'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './utils/OfflineCache'
+import { logRenderCounts } from './utils/LandmarkStream'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
 )
+
+registerServiceWorker()
+
+// ?debug=renders logs how often the main components re-render
+if (new URLSearchParams(window.location.search).get('debug') === 'renders') {
+  logRenderCounts()
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assessEyeStrain,
+  BLINK_STRESS_WEIGHT,
+  BlinkDetector,
+  blendBlinkStress
+} from './BlinkDetector';
+import type { BlinkMetrics } from './BlinkDetector';
+import { createSyntheticFace } from './SyntheticFaces';
+import type { ExpressionWeights } from './SyntheticFaces';
+
+const FRAME_MS = 1000 / 30;
+
+// Feed ms of frames at 30 fps, building each from the time it's shown
+const run = (ms: number, look: (t: number) => ExpressionWeights | null) => {
+  const detector = new BlinkDetector();
+  let metrics: BlinkMetrics | null = null;
+  for (let t = 0; t < ms; t += FRAME_MS) {
+    const expressions = look(t);
+    metrics = detector.update(expressions ? createSyntheticFace(expressions) : null, t);
+  }
+  return metrics!;
+};
+
+// A 150ms blink every 3 seconds, starting 1.5 seconds in
+const blinkEvery3s = (closed: ExpressionWeights) => (t: number) => (t + 1500) % 3000 < 150 ? closed : {};
+
+describe('BlinkDetector', () => {
+  it('counts blinks, their length and the time the eyes are shut', () => {
+    const metrics = run(60000, blinkEvery3s({ eyesClosed: 1 }));
+    expect(metrics.blinksPerMinute).toBeCloseTo(20, 0);
+    expect(metrics.averageBlinkMs).toBeGreaterThan(130);
+    expect(metrics.averageBlinkMs).toBeLessThan(200);
+    expect(metrics.perclos).toBeGreaterThan(0.03);
+    expect(metrics.perclos).toBeLessThan(0.07);
+  });
+
+  it('doesn\'t count a wink as a blink', () => {
+    const metrics = run(60000, blinkEvery3s({ wink: 1 }));
+    expect(metrics.blinksPerMinute).toBe(0);
+    expect(metrics.perclos).toBe(0);
+  });
+
+  it('counts resting the eyes toward PERCLOS but not as a blink', () => {
+    const metrics = run(22000, t => t >= 10000 && t < 12000 ? { eyesClosed: 1 } : {});
+    expect(metrics.blinksPerMinute).toBe(0);
+    expect(metrics.perclos).toBeCloseTo(2 / 22, 2);
+  });
+
+  it('leaves time without a face out of the window', () => {
+    const metrics = run(40000, t => t < 20000 ? null : {});
+    expect(Math.abs(metrics.coveredMs - 20000)).toBeLessThan(100);
+    expect(metrics.blinksPerMinute).toBe(0);
+  });
+});
+
+describe('assessEyeStrain', () => {
+  it('flags staring once there\'s enough face time', () => {
+    expect(assessEyeStrain(run(10000, () => ({})))).toEqual([]);
+    expect(assessEyeStrain(run(30000, () => ({})))).toEqual(['rareBlinking']);
+    expect(assessEyeStrain(run(30000, blinkEvery3s({ eyesClosed: 1 })))).toEqual([]);
+  });
+
+  it('flags slow blinks and drooping eyes', () => {
+    const metrics = run(30000, t => t % 1500 < 400 ? { eyesClosed: 1 } : {});
+    expect(assessEyeStrain(metrics)).toEqual(['frequentBlinking', 'slowBlinks', 'drooping']);
+  });
+});
+
+describe('blendBlinkStress', () => {
+  const metrics = (blinksPerMinute: number, perclos = 0, coveredMs = 60000): BlinkMetrics =>
+    ({ blinksPerMinute, averageBlinkMs: 150, perclos, coveredMs });
+
+  it('leaves stress alone without enough face time', () => {
+    expect(blendBlinkStress(0.4, metrics(40, 0.5, 5000))).toBe(0.4);
+  });
+
+  it('raises stress with fast blinking and drooping eyes', () => {
+    expect(blendBlinkStress(0.5, metrics(17))).toBeCloseTo(0.5 * (1 - BLINK_STRESS_WEIGHT), 6);
+    expect(blendBlinkStress(0.5, metrics(40))).toBeCloseTo(0.5 + 0.5 * BLINK_STRESS_WEIGHT, 6);
+    expect(blendBlinkStress(0.5, metrics(17, 0.3))).toBeGreaterThan(0.5);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * BlinkDetector.ts
+ *
+ * Blinks and eye closure over time, from the eye aspect ratio (lid gap over
+ * eye width) of every frame. A single frame only says how open the eyes are;
+ * blink rate, blink duration and PERCLOS (the share of time the eyes are
+ * mostly shut) say how tired or tense they are. The open-eye aspect ratio is
+ * learned as frames come in, so thresholds fit each user's eyes.
+ */
+import { analyzeFrame } from './FacialAnalysis';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { Landmark, LandmarkFrame } from './LandmarkFeatures';
+
+export interface BlinkMetrics {
+  blinksPerMinute: number;
+  averageBlinkMs: number;   // 0 with no blinks in the window
+  perclos: number;          // Share of face time the eyes were at least 80% closed (0-1)
+  coveredMs: number;        // Face time in the window the metrics are based on
+}
+
+// Metrics look back over the last minute
+export const BLINK_WINDOW_MS = 60000;
+
+// Face time needed before the metrics are worth acting on
+export const MIN_BLINK_COVERAGE_MS = 20000;
+
+// Openness (aspect ratio over the open-eye value) that starts and ends a closure;
+// the gap between them keeps a half-open flutter from counting twice
+export const BLINK_CLOSE_RATIO = 0.5;
+export const BLINK_REOPEN_RATIO = 0.7;
+
+// Openness at or below which the eyes count as closed for PERCLOS (the usual P80 measure)
+export const PERCLOS_CLOSED_RATIO = 0.2;
+
+// Closures longer than this are resting the eyes (or nodding off), not blinking
+export const MAX_BLINK_MS = 500;
+
+// Frames further apart than this don't add their gap to the face time
+const MAX_FRAME_GAP_MS = 200;
+
+// How fast the open-eye value follows wider eyes, and drifts down with narrower open eyes
+const OPEN_BASELINE_RISE = 0.2;
+const OPEN_BASELINE_FALL = 0.02;
+
+const distance = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Eye aspect ratio of the more open eye (lid gap over corner-to-corner width)
+ * The more open eye, so a wink isn't a blink
+ */
+export function eyeAspectRatio(landmarks: LandmarkFrame): number {
+  const { normalized } = analyzeFrame(landmarks);
+  const L = FACIAL_LANDMARKS;
+  const left = distance(normalized[L.LEFT_EYE_TOP], normalized[L.LEFT_EYE_BOTTOM]) /
+    Math.max(1e-6, distance(normalized[L.LEFT_EYE_OUTER], normalized[L.LEFT_EYE_INNER]));
+  const right = distance(normalized[L.RIGHT_EYE_TOP], normalized[L.RIGHT_EYE_BOTTOM]) /
+    Math.max(1e-6, distance(normalized[L.RIGHT_EYE_OUTER], normalized[L.RIGHT_EYE_INNER]));
+  return Math.max(left, right);
+}
+
+interface Blink {
+  startedAt: number;
+  durationMs: number;
+}
+
+interface FaceTime {
+  timestamp: number;
+  durationMs: number;
+  closed: boolean;
+}
+
+/**
+ * Feeds on the landmark stream and keeps a minute of blinks and eye closure
+ */
+export class BlinkDetector {
+  private openBaseline: number | null = null;
+  private closedSince: number | null = null;
+  private lastTimestamp: number | null = null;
+  private blinks: Blink[] = [];
+  private faceTime: FaceTime[] = [];
+  private coveredMs = 0;
+  private closedMs = 0;
+
+  reset() {
+    this.openBaseline = null;
+    this.closedSince = null;
+    this.lastTimestamp = null;
+    this.blinks = [];
+    this.faceTime = [];
+    this.coveredMs = 0;
+    this.closedMs = 0;
+  }
+
+  // Whether the eyes are shut right now (mid-blink or resting)
+  get eyesClosed(): boolean {
+    return this.closedSince !== null;
+  }
+
+  update(landmarks: LandmarkFrame | null, timestamp: number): BlinkMetrics {
+    // A lost face ends any closure in progress without counting it
+    if (!landmarks) {
+      this.closedSince = null;
+      this.lastTimestamp = null;
+      return this.getMetrics(timestamp);
+    }
+
+    const ratio = eyeAspectRatio(landmarks);
+    if (this.openBaseline === null) {
+      this.openBaseline = ratio;
+    }
+    const openness = ratio / this.openBaseline;
+
+    if (this.closedSince === null && openness < BLINK_CLOSE_RATIO) {
+      this.closedSince = timestamp;
+    } else if (this.closedSince !== null && openness > BLINK_REOPEN_RATIO) {
+      const durationMs = timestamp - this.closedSince;
+      if (durationMs <= MAX_BLINK_MS) {
+        this.blinks.push({ startedAt: this.closedSince, durationMs });
+      }
+      this.closedSince = null;
+    }
+
+    // Only open frames teach the open-eye value
+    if (ratio > this.openBaseline) {
+      this.openBaseline += (ratio - this.openBaseline) * OPEN_BASELINE_RISE;
+    } else if (this.closedSince === null && openness > BLINK_REOPEN_RATIO) {
+      this.openBaseline += (ratio - this.openBaseline) * OPEN_BASELINE_FALL;
+    }
+
+    if (this.lastTimestamp !== null) {
+      const gap = timestamp - this.lastTimestamp;
+      if (gap > 0 && gap <= MAX_FRAME_GAP_MS) {
+        const closed = openness <= PERCLOS_CLOSED_RATIO;
+        this.faceTime.push({ timestamp, durationMs: gap, closed });
+        this.coveredMs += gap;
+        if (closed) this.closedMs += gap;
+      }
+    }
+    this.lastTimestamp = timestamp;
+
+    return this.getMetrics(timestamp);
+  }
+
+  getMetrics(now: number): BlinkMetrics {
+    const windowStart = now - BLINK_WINDOW_MS;
+    while (this.faceTime.length > 0 && this.faceTime[0].timestamp < windowStart) {
+      const expired = this.faceTime.shift()!;
+      this.coveredMs -= expired.durationMs;
+      if (expired.closed) this.closedMs -= expired.durationMs;
+    }
+    while (this.blinks.length > 0 && this.blinks[0].startedAt < windowStart) {
+      this.blinks.shift();
+    }
+
+    const coveredMs = Math.max(0, this.coveredMs);
+    return {
+      blinksPerMinute: coveredMs > 0 ? this.blinks.length / coveredMs * 60000 : 0,
+      averageBlinkMs: this.blinks.length > 0
+        ? this.blinks.reduce((sum, blink) => sum + blink.durationMs, 0) / this.blinks.length
+        : 0,
+      perclos: coveredMs > 0 ? Math.max(0, this.closedMs) / coveredMs : 0,
+      coveredMs
+    };
+  }
+}
+
+// Signs of eye strain, by what they point at
+export type EyeStrainSign = 'rareBlinking' | 'frequentBlinking' | 'slowBlinks' | 'drooping';
+
+// Resting blink rates run about 15-20 a minute; staring at a screen drops them, stress and fatigue raise them
+export const RARE_BLINK_RATE = 8;
+export const FREQUENT_BLINK_RATE = 30;
+export const SLOW_BLINK_MS = 300;
+export const PERCLOS_STRAIN = 0.15;
+
+/**
+ * What in the last minute suggests eye strain (empty when nothing does, or
+ * when there hasn't been enough face time to tell)
+ */
+export function assessEyeStrain(metrics: BlinkMetrics): EyeStrainSign[] {
+  if (metrics.coveredMs < MIN_BLINK_COVERAGE_MS) return [];
+
+  const signs: EyeStrainSign[] = [];
+  if (metrics.blinksPerMinute < RARE_BLINK_RATE) signs.push('rareBlinking');
+  if (metrics.blinksPerMinute > FREQUENT_BLINK_RATE) signs.push('frequentBlinking');
+  if (metrics.averageBlinkMs > SLOW_BLINK_MS) signs.push('slowBlinks');
+  if (metrics.perclos > PERCLOS_STRAIN) signs.push('drooping');
+  return signs;
+}
+
+// Blink rate at which blinking reads as fully stressed
+export const STRESSED_BLINK_RATE = 35;
+export const RESTING_BLINK_RATE = 17;
+
+// Share of the stress level that comes from the eyes once there's enough face time
+export const BLINK_STRESS_WEIGHT = 0.2;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Mix blinking into a stress level (0-1): faster than resting blinking and
+ * drooping eyes both push it up
+ */
+export function blendBlinkStress(stressLevel: number, metrics: BlinkMetrics): number {
+  if (metrics.coveredMs < MIN_BLINK_COVERAGE_MS) return stressLevel;
+
+  const rate = clamp01((metrics.blinksPerMinute - RESTING_BLINK_RATE) / (STRESSED_BLINK_RATE - RESTING_BLINK_RATE));
+  const fatigue = clamp01(metrics.perclos / (PERCLOS_STRAIN * 2));
+  return clamp01(stressLevel * (1 - BLINK_STRESS_WEIGHT) + Math.max(rate, fatigue) * BLINK_STRESS_WEIGHT);
+}
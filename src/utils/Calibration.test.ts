@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calibrateCriterion, computeCalibrationProfile } from './Calibration';
+import { analyzeFrame } from './FacialAnalysis';
+import type { ExerciseCriterion } from './FacialAnalysis';
+import { createSyntheticFace } from './SyntheticFaces';
+
+const criterion = (comparison: ExerciseCriterion['comparison'], calibration: ExerciseCriterion['calibration']): ExerciseCriterion =>
+  ({ feature: 'mouthWidth', comparison, threshold: 0.5, rest: 0.3, calibration });
+
+describe('calibrateCriterion', () => {
+  it('gives neutral criteria some slack on the passing side', () => {
+    expect(calibrateCriterion(criterion('below', 'neutral'), 0.02, [])).toBeCloseTo(0.021, 6);
+    expect(calibrateCriterion(criterion('above', 'neutral'), 0.02, [])).toBeCloseTo(0.019, 6);
+  });
+
+  it('sets range criteria part way from neutral to the best attempt', () => {
+    const attempts = Array.from({ length: 11 }, (_, i) => 0.1 + i * 0.01);
+    expect(calibrateCriterion(criterion('above', 'range'), 0.1, attempts)).toBeCloseTo(0.1 + 0.09 * 0.6, 6);
+    expect(calibrateCriterion(criterion('below', 'range'), 0.2, attempts)).toBeCloseTo(0.2 - 0.09 * 0.6, 6);
+  });
+
+  it('keeps the default when the attempt barely moved or the criterion isn\'t calibrated', () => {
+    expect(calibrateCriterion(criterion('above', 'range'), 0.1, [0.1005, 0.101])).toBeUndefined();
+    expect(calibrateCriterion(criterion('above', 'range'), 0.1, [])).toBeUndefined();
+    expect(calibrateCriterion(criterion('above', 'none'), 0.1, [0.5])).toBeUndefined();
+  });
+});
+
+describe('computeCalibrationProfile', () => {
+  it('lets a relaxed forehead pass Forehead Smoother', () => {
+    const neutral = analyzeFrame(createSyntheticFace()).features;
+    const profile = computeCalibrationProfile({ neutral: [neutral], attempts: {} })!;
+    expect(profile.thresholds.foreheadSmoother?.foreheadVariation).toBeGreaterThan(neutral.foreheadVariation);
+  });
+
+  it('needs a neutral recording', () => {
+    expect(computeCalibrationProfile({ neutral: [], attempts: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Calibration.ts
+ *
+ * Builds a per-user calibration profile from a recorded neutral face and a
+ * maximal attempt of every exercise, and persists it in localStorage.
+ * Personal thresholds replace the fixed constants in DEFAULT_EXERCISE_CRITERIA.
+ */
+import { DEFAULT_EXERCISE_CRITERIA, EXERCISE_IDS } from './FacialAnalysis';
+import type { ExerciseCriterion, ExerciseId } from './FacialAnalysis';
+import { FEATURE_NAMES } from './LandmarkFeatures';
+import type { FaceFeatures, FeatureName } from './LandmarkFeatures';
+
+const CALIBRATION_STORAGE_KEY = 'facevibe_calibration';
+const CALIBRATION_VERSION = 1;
+
+// How far from neutral toward the user's best attempt a rep has to reach
+const RANGE_TARGET_FRACTION = 0.6;
+
+// Relaxation exercises pass at the user's neutral value plus this relative tolerance
+// (on the lenient side, so the user's own resting face passes)
+const NEUTRAL_TOLERANCE_FRACTION = 0.05;
+
+// Attempts that barely move away from neutral keep the default threshold
+const MIN_CALIBRATION_RANGE = 0.002;
+
+// Percentile of the attempt recording treated as the user's maximum (robust against outliers)
+const ATTEMPT_PERCENTILE = 0.9;
+
+export interface CalibrationProfile {
+  version: number;
+  createdAt: string;
+  neutral: FaceFeatures;  // Mean features of the neutral recording
+  thresholds: Partial<Record<ExerciseId, Partial<Record<FeatureName, number>>>>;
+}
+
+export interface CalibrationRecording {
+  neutral: FaceFeatures[];
+  attempts: Partial<Record<ExerciseId, FaceFeatures[]>>;
+}
+
+function meanFeatures(frames: FaceFeatures[]): FaceFeatures {
+  const mean = {} as FaceFeatures;
+  for (const name of FEATURE_NAMES) {
+    mean[name] = frames.reduce((sum, frame) => sum + frame[name], 0) / frames.length;
+  }
+  return mean;
+}
+
+function percentile(values: number[], fraction: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Derive one personal threshold, or undefined to keep the default
+ */
+export function calibrateCriterion(
+  criterion: ExerciseCriterion,
+  neutralValue: number,
+  attemptValues: number[]
+): number | undefined {
+  const direction = criterion.comparison === 'above' ? 1 : -1;
+
+  if (criterion.calibration === 'neutral') {
+    return neutralValue - direction * Math.abs(neutralValue) * NEUTRAL_TOLERANCE_FRACTION;
+  }
+
+  if (criterion.calibration !== 'range' || attemptValues.length === 0) {
+    return undefined;
+  }
+
+  // Best effort in the criterion's direction
+  const best = percentile(attemptValues, direction > 0 ? ATTEMPT_PERCENTILE : 1 - ATTEMPT_PERCENTILE);
+  const range = (best - neutralValue) * direction;
+
+  if (range < MIN_CALIBRATION_RANGE) {
+    return undefined;
+  }
+
+  return neutralValue + direction * range * RANGE_TARGET_FRACTION;
+}
+
+/**
+ * Compute a calibration profile from the recorded sessions
+ * Returns null if there is no usable neutral recording
+ */
+export function computeCalibrationProfile(recording: CalibrationRecording): CalibrationProfile | null {
+  if (recording.neutral.length === 0) return null;
+
+  const neutral = meanFeatures(recording.neutral);
+  const thresholds: CalibrationProfile['thresholds'] = {};
+
+  for (const exerciseId of EXERCISE_IDS) {
+    const attempt = recording.attempts[exerciseId] ?? [];
+    const personal: Partial<Record<FeatureName, number>> = {};
+
+    for (const criterion of DEFAULT_EXERCISE_CRITERIA[exerciseId]) {
+      const threshold = calibrateCriterion(
+        criterion,
+        neutral[criterion.feature],
+        attempt.map(frame => frame[criterion.feature])
+      );
+      if (threshold !== undefined) {
+        personal[criterion.feature] = threshold;
+      }
+    }
+
+    if (Object.keys(personal).length > 0) {
+      thresholds[exerciseId] = personal;
+    }
+  }
+
+  return {
+    version: CALIBRATION_VERSION,
+    createdAt: new Date().toISOString(),
+    neutral,
+    thresholds
+  };
+}
+
+/**
+ * Load the saved calibration profile, or null if none is stored or it is outdated
+ */
+export function loadCalibrationProfile(): CalibrationProfile | null {
+  if (typeof localStorage === 'undefined') return null;
+
+  const stored = localStorage.getItem(CALIBRATION_STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const profile = JSON.parse(stored) as CalibrationProfile;
+    if (profile.version !== CALIBRATION_VERSION || !profile.neutral || !profile.thresholds) {
+      return null;
+    }
+    return profile;
+  } catch (error) {
+    console.error('Error parsing calibration profile from localStorage:', error);
+    return null;
+  }
+}
+
+export function saveCalibrationProfile(profile: CalibrationProfile) {
+  localStorage.setItem(CALIBRATION_STORAGE_KEY, JSON.stringify(profile));
+}
+
+export function clearCalibrationProfile() {
+  localStorage.removeItem(CALIBRATION_STORAGE_KEY);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { getCueAnchor, getCueRemaining, isSameAnchor } from './ExerciseCues';
+import { EXERCISE_PASS_SCORE, getExerciseFocusPoints } from './FacialAnalysis';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+describe('getCueAnchor', () => {
+  const browPoints = getExerciseFocusPoints("Brow Lifter");
+  const jawPoints = getExerciseFocusPoints("Jaw Dropper");
+
+  it('follows the face as it moves and scales with it', () => {
+    const centered = getCueAnchor(createSyntheticFace(), jawPoints, 'down');
+    const moved = getCueAnchor(createSyntheticFace({}, { x: 0.35, y: 0.6 }), jawPoints, 'down');
+    const closer = getCueAnchor(createSyntheticFace({}, { scale: 1.5 }), jawPoints, 'down');
+
+    expect(moved!.x - centered!.x).toBeCloseTo(-0.15, 3);
+    expect(moved!.y - centered!.y).toBeCloseTo(0.1, 3);
+    expect(closer!.size / centered!.size).toBeCloseTo(1.5, 3);
+  });
+
+  it('places up and down arrows beyond the region they point away from', () => {
+    const face = createSyntheticFace();
+    const brows = getCueAnchor(face, browPoints, 'up')!;
+    const jaw = getCueAnchor(face, jawPoints, 'down')!;
+
+    expect(brows.y).toBeLessThan(face[FACIAL_LANDMARKS.LEFT_EYEBROW_INNER].y);
+    expect(jaw.y).toBeGreaterThan(face[FACIAL_LANDMARKS.CHIN].y);
+  });
+
+  it('sits on the region for other cues', () => {
+    const face = createSyntheticFace();
+    const pucker = getCueAnchor(face, getExerciseFocusPoints("Lip Pucker"), 'in')!;
+
+    expect(pucker.x).toBeCloseTo(face[FACIAL_LANDMARKS.UPPER_LIP].x, 2);
+    expect(pucker.y).toBeGreaterThan(face[FACIAL_LANDMARKS.UPPER_LIP_TOP].y);
+    expect(pucker.y).toBeLessThan(face[FACIAL_LANDMARKS.LOWER_LIP_BOTTOM].y);
+  });
+
+  it('has nothing to anchor to without the focus points', () => {
+    expect(getCueAnchor(createSyntheticFace(), [], 'up')).toBeNull();
+    expect(getCueAnchor([], browPoints, 'up')).toBeNull();
+  });
+});
+
+describe('isSameAnchor', () => {
+  it('ignores sub-pixel wobble', () => {
+    const anchor = { x: 0.5, y: 0.4, size: 0.1 };
+    expect(isSameAnchor(anchor, { x: 0.501, y: 0.399, size: 0.1 })).toBe(true);
+    expect(isSameAnchor(anchor, { x: 0.52, y: 0.4, size: 0.1 })).toBe(false);
+    expect(isSameAnchor(anchor, null)).toBe(false);
+    expect(isSameAnchor(null, null)).toBe(true);
+  });
+});
+
+describe('getCueRemaining', () => {
+  it('shrinks to zero as the score reaches the pass mark', () => {
+    expect(getCueRemaining(null)).toBe(1);
+    expect(getCueRemaining(0)).toBe(1);
+    expect(getCueRemaining(EXERCISE_PASS_SCORE / 2)).toBeCloseTo(0.5);
+    expect(getCueRemaining(EXERCISE_PASS_SCORE)).toBe(0);
+    expect(getCueRemaining(100)).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * ExerciseCues.ts
+ *
+ * Places an exercise's visual cue on the face as it is right now: the arrow is
+ * anchored to the landmarks the exercise moves and sized to the face, and the
+ * region's contours are highlighted on the mesh. How far the user still has to
+ * go sets how far the arrow nudges, so cues settle down as the move gets there.
+ */
+import { EXERCISE_PASS_SCORE } from './FacialAnalysis';
+import type { VisualDirection, VisualPosition } from './FacialAnalysis';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+// Where a cue goes, in normalized image coordinates (unmirrored)
+export interface CueAnchor {
+  x: number;
+  y: number;
+  size: number;   // Arrow size as a fraction of the image width
+}
+
+// Face mesh contours outlining each region, drawn as polylines
+export const CUE_CONTOURS: Record<VisualPosition, number[][]> = {
+  mouth: [[61, 185, 40, 39, 37, 0, 267, 269, 270, 409, 291, 375, 321, 405, 314, 17, 84, 181, 91, 146, 61]],
+  tongue: [[78, 191, 80, 81, 82, 13, 312, 311, 310, 415, 308, 324, 318, 402, 317, 14, 87, 178, 88, 95, 78]],
+  eyes: [
+    [33, 160, 159, 158, 133, 153, 145, 144, 33],
+    [263, 387, 386, 385, 362, 380, 374, 373, 263]
+  ],
+  eyebrows: [
+    [70, 63, 105, 66, 107],
+    [300, 293, 334, 296, 336]
+  ],
+  nose: [
+    [168, 6, 197, 195, 5, 4],
+    [98, 97, 2, 326, 327]
+  ],
+  cheeks: [
+    [234, 93, 132, 58, 172],
+    [454, 323, 361, 288, 397]
+  ],
+  chin: [[172, 136, 150, 149, 176, 148, 152, 377, 400, 378, 379, 365, 397]],
+  forehead: [[54, 103, 67, 109, 10, 338, 297, 332, 284]]
+};
+
+// Arrow size relative to the face width, and its gap from the region it points away from
+const ARROW_FACE_SCALE = 0.3;
+const ARROW_MARGIN = 0.6;
+
+/**
+ * Anchor a cue to the focus points of the current frame
+ * Up and down arrows sit just beyond the region's edge so they don't cover it;
+ * everything else sits on its center. Null when the points aren't in the frame.
+ */
+export function getCueAnchor(
+  landmarks: LandmarkFrame,
+  focusPoints: number[],
+  direction: VisualDirection
+): CueAnchor | null {
+  const points = focusPoints.map(index => landmarks[index]).filter(point => point !== undefined);
+  const leftCheek = landmarks[FACIAL_LANDMARKS.LEFT_CHEEK];
+  const rightCheek = landmarks[FACIAL_LANDMARKS.RIGHT_CHEEK];
+  if (points.length === 0 || !leftCheek || !rightCheek) return null;
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const size = Math.hypot(rightCheek.x - leftCheek.x, rightCheek.y - leftCheek.y) * ARROW_FACE_SCALE;
+
+  const x = xs.reduce((sum, value) => sum + value, 0) / xs.length;
+  const y = direction === 'up' ? minY - size * ARROW_MARGIN
+    : direction === 'down' ? maxY + size * ARROW_MARGIN
+    : (minY + maxY) / 2;
+
+  return { x, y, size };
+}
+
+/**
+ * Same place to within a fraction of a percent (keeps cue re-renders to real movement)
+ */
+export function isSameAnchor(a: CueAnchor | null, b: CueAnchor | null, tolerance = 0.003): boolean {
+  if (!a || !b) return a === b;
+  return Math.abs(a.x - b.x) < tolerance && Math.abs(a.y - b.y) < tolerance && Math.abs(a.size - b.size) < tolerance;
+}
+
+/**
+ * Share of the way still to go before the move passes (1 at rest, 0 once it passes)
+ */
+export function getCueRemaining(score: number | null, passScore = EXERCISE_PASS_SCORE): number {
+  if (score === null) return 1;
+  return Math.min(1, Math.max(0, 1 - score / passScore));
+}
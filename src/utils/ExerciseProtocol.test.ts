@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { computeCalibrationProfile } from './Calibration';
+import { ExerciseProtocolTracker } from './ExerciseProtocol';
+import type { ExerciseProtocol, ProtocolUpdate } from './ExerciseProtocol';
+import { getExercise } from './ExerciseRegistry';
+import { analyzeFrame, EXERCISE_PASS_SCORE, isRelaxationExercise, scoreExercise, setActiveCalibration } from './FacialAnalysis';
+import { createSyntheticFace } from './SyntheticFaces';
+
+// Feed one score every frameMs from `from` to `to` (inclusive); returns every update
+function feed(tracker: ExerciseProtocolTracker, score: number, from: number, to: number, frameMs = 50): ProtocolUpdate[] {
+  const updates: ProtocolUpdate[] = [];
+  for (let now = from; now <= to; now += frameMs) {
+    updates.push(tracker.update(score, now));
+  }
+  return updates;
+}
+
+const last = (updates: ProtocolUpdate[]) => updates[updates.length - 1];
+const repsOf = (updates: ProtocolUpdate[]) => updates.flatMap(update => update.rep ? [update.rep] : []);
+
+describe('ExerciseProtocolTracker', () => {
+  const protocol: ExerciseProtocol = { reps: 2, holdMs: 1000, restMs: 500, sets: 1 };
+
+  it('walks a rep through hold, release and rest', () => {
+    const tracker = new ExerciseProtocolTracker(protocol);
+    expect(tracker.update(10, 0).snapshot.phase).toBe('active');
+
+    const holding = feed(tracker, 90, 50, 1050);
+    expect(holding[0].snapshot.phase).toBe('hold');
+    expect(holding[9].snapshot.phaseProgress).toBeCloseTo(0.45);
+    expect(holding[9].snapshot.progress).toBe(23);
+
+    // The rep ends on the frame the hold is reached, then waits for the face to relax
+    const done = last(holding);
+    expect(done.rep).toEqual({ holdMs: 1000, peakScore: 90, valid: true });
+    expect(done.snapshot.phase).toBe('release');
+    expect(tracker.update(60, 1100).snapshot.phase).toBe('release');
+
+    expect(tracker.update(10, 1150).snapshot).toMatchObject({ phase: 'rest', validReps: 1, progress: 50 });
+    expect(tracker.update(90, 1600).snapshot.phase).toBe('rest');
+    expect(tracker.update(90, 1650).snapshot.phase).toBe('active');
+    expect(tracker.update(90, 1700).snapshot.phase).toBe('hold');
+  });
+
+  it('rides out short dips but counts an early release as a short rep', () => {
+    const tracker = new ExerciseProtocolTracker(protocol);
+
+    // Two frames (100ms) below the pass score mid-hold
+    const dipped = [...feed(tracker, 90, 0, 250), ...feed(tracker, 20, 300, 350), ...feed(tracker, 90, 400, 1000)];
+    expect(repsOf(dipped)).toEqual([{ holdMs: 1000, peakScore: 90, valid: true }]);
+
+    feed(tracker, 10, 1050, 1600);
+    const released = [...feed(tracker, 85, 1650, 2050), ...feed(tracker, 20, 2100, 2300)];
+    const [rep] = repsOf(released);
+    expect(rep).toEqual({ holdMs: 400, peakScore: 85, valid: false });
+    expect(last(released).snapshot).toMatchObject({ phase: 'rest', validReps: 1, shortReps: 1, progress: 50 });
+  });
+
+  it('finishes sets and then the exercise', () => {
+    const tracker = new ExerciseProtocolTracker({ reps: 1, holdMs: 500, restMs: 200, sets: 2 });
+
+    feed(tracker, 90, 0, 500);
+    const firstSet = tracker.update(10, 550);
+    expect(firstSet.setResult).toMatchObject({
+      set: 1,
+      totalSets: 2,
+      validReps: 1,
+      shortReps: 0,
+      startedAt: 0,
+      completedAt: 550,
+      exerciseComplete: false
+    });
+    expect(firstSet.snapshot).toMatchObject({ phase: 'rest', set: 2, validReps: 0, progress: 50 });
+
+    feed(tracker, 10, 600, 750);
+    feed(tracker, 90, 800, 1300);
+    const secondSet = tracker.update(10, 1350);
+    expect(secondSet.setResult).toMatchObject({ set: 2, startedAt: 550, exerciseComplete: true });
+    expect(secondSet.snapshot).toMatchObject({ phase: 'complete', progress: 100, phaseProgress: 1 });
+
+    // Nothing more to count
+    const after = feed(tracker, 90, 1400, 3000);
+    expect(repsOf(after)).toEqual([]);
+    expect(last(after).snapshot.phase).toBe('complete');
+  });
+
+  it('drops a hold that gets interrupted', () => {
+    const tracker = new ExerciseProtocolTracker(protocol);
+    feed(tracker, 95, 0, 400);
+
+    expect(tracker.interrupt(450)).toMatchObject({ phase: 'active', validReps: 0, shortReps: 0, progress: 0 });
+
+    // The next hold starts over, without the interrupted one's peak
+    const retried = feed(tracker, 85, 500, 1500);
+    expect(repsOf(retried)).toEqual([{ holdMs: 1000, peakScore: 85, valid: true }]);
+    expect(retried[19].snapshot.phase).toBe('hold');
+
+    // Outside a hold it changes nothing
+    tracker.update(10, 1550);
+    expect(tracker.interrupt(1600).phase).toBe('rest');
+  });
+});
+
+describe('ExerciseProtocolTracker on a relaxation exercise', () => {
+  afterEach(() => {
+    setActiveCalibration(null);
+  });
+
+  // Calibrated on this face, which then just stays relaxed for the whole exercise
+  const relaxedFace = createSyntheticFace();
+  const runRelaxed = (tracker: ExerciseProtocolTracker, ms: number) => {
+    const updates: ProtocolUpdate[] = [];
+    for (let now = 0; now <= ms; now += 50) {
+      updates.push(tracker.update(scoreExercise('foreheadSmoother', relaxedFace).score, now));
+    }
+    return updates;
+  };
+
+  it('finishes without having to tense up between reps', () => {
+    setActiveCalibration(computeCalibrationProfile({ neutral: [analyzeFrame(relaxedFace).features], attempts: {} }));
+    expect(scoreExercise('foreheadSmoother', relaxedFace).score).toBeGreaterThanOrEqual(EXERCISE_PASS_SCORE);
+    expect(isRelaxationExercise('foreheadSmoother')).toBe(true);
+    expect(isRelaxationExercise('smileyStretch')).toBe(false);
+
+    const protocol = getExercise('foreheadSmoother')!.protocol;
+    const exerciseMs = protocol.reps * (protocol.holdMs + protocol.restMs) + 1000;
+
+    // Waiting for the face to relax would never end
+    const waiting = runRelaxed(new ExerciseProtocolTracker(protocol), exerciseMs);
+    expect(last(waiting).snapshot).toMatchObject({ phase: 'release', validReps: 1 });
+
+    const updates = runRelaxed(new ExerciseProtocolTracker(protocol, { skipRelease: true }), exerciseMs);
+    expect(updates.some(update => update.snapshot.phase === 'release')).toBe(false);
+    expect(repsOf(updates).filter(rep => rep.valid)).toHaveLength(protocol.reps);
+    expect(updates.find(update => update.setResult)?.setResult).toMatchObject({
+      validReps: protocol.reps,
+      exerciseComplete: true
+    });
+    expect(last(updates).snapshot).toMatchObject({ phase: 'complete', progress: 100 });
+  });
+});
+
+describe('ExerciseProtocolTracker at low frame rates', () => {
+  const protocol = { reps: 1, holdMs: 1000, restMs: 0, sets: 1 };
+
+  // Hold at 5 fps with one frame dipping below the pass score
+  const holdWithDip = (tracker: ExerciseProtocolTracker) => {
+    const frameMs = 1000 / 5;
+    let result;
+    for (let i = 0; i * frameMs <= 1200; i++) {
+      const update = tracker.update(i === 3 ? 20 : 90, i * frameMs);
+      result = update.rep ?? result;
+    }
+    return result;
+  };
+
+  it('lets one dropped frame end a hold without the frame interval', () => {
+    expect(holdWithDip(new ExerciseProtocolTracker(protocol))?.valid).toBe(false);
+  });
+
+  it('stretches the hold grace to the frame interval', () => {
+    const tracker = new ExerciseProtocolTracker(protocol);
+    expect(tracker.holdGraceMs).toBe(150);
+    tracker.setFrameInterval(1000 / 5);
+    expect(tracker.holdGraceMs).toBe(400);
+    expect(holdWithDip(tracker)?.valid).toBe(true);
+
+    // Fast frames keep the minimum grace
+    tracker.setFrameInterval(1000 / 30);
+    expect(tracker.holdGraceMs).toBe(150);
+  });
+});
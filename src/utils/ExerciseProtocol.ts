@@ -0,0 +1,265 @@
+/**
+ * ExerciseProtocol.ts
+ *
+ * Rep-based exercise protocols ("hold 3 seconds, relax, repeat 8 times") and
+ * the state machine that follows them from per-frame exercise scores:
+ *
+ *   active → hold → release → rest → active ...
+ *
+ * - active:  waiting for the face to reach the pass score
+ * - hold:    the pass score is being held; the rep is valid once holdMs is reached
+ * - release: rep over, waiting for the face to relax (skipped for relaxation
+ *            exercises, whose passing pose is the relaxed face)
+ * - rest:    short break before the next rep (or the next set)
+ */
+import { EXERCISE_PASS_SCORE } from './FacialAnalysis';
+
+export interface ExerciseProtocol {
+  reps: number;     // Valid reps per set
+  holdMs: number;   // How long each rep has to be held
+  restMs: number;   // Break after each rep and between sets
+  sets: number;
+}
+
+export type ProtocolPhase = 'active' | 'hold' | 'release' | 'rest' | 'complete';
+
+export interface RepResult {
+  holdMs: number;     // How long the pass score was held
+  peakScore: number;
+  valid: boolean;     // False when released before the hold duration
+}
+
+export interface ExerciseSetResult {
+  set: number;               // 1-based
+  totalSets: number;
+  validReps: number;
+  shortReps: number;
+  reps: RepResult[];
+  startedAt: number;
+  completedAt: number;
+  exerciseComplete: boolean; // True for the final set of the protocol
+}
+
+export interface ProtocolSnapshot {
+  phase: ProtocolPhase;
+  set: number;              // 1-based set in progress
+  validReps: number;        // Valid reps in the current set
+  shortReps: number;        // Too-short reps in the current set
+  phaseProgress: number;    // 0-1 through the current hold or rest
+  progress: number;         // 0-100 through the whole protocol
+  lastRep: RepResult | null;
+}
+
+export interface ProtocolTrackerOptions {
+  skipRelease: boolean;   // Go straight to rest after a rep (the target is the resting face)
+}
+
+export interface ProtocolUpdate {
+  snapshot: ProtocolSnapshot;
+  rep?: RepResult;              // Set on the frame a rep ends
+  setResult?: ExerciseSetResult; // Set on the frame a set ends
+}
+
+// The face has to come back below this score before the next rep can start
+export const RELEASE_SCORE = 30;
+
+// Dips below the pass score shorter than this don't end a hold (tracking jitter)
+// At low frame rates the grace stretches to cover HOLD_GRACE_FRAMES frames
+const HOLD_GRACE_MS = 150;
+const HOLD_GRACE_FRAMES = 2;
+
+export const DEFAULT_EXERCISE_PROTOCOL: ExerciseProtocol = {
+  reps: 8,
+  holdMs: 3000,
+  restMs: 2000,
+  sets: 1
+};
+
+/**
+ * Follows one exercise protocol frame by frame
+ * Feed it the current exercise score with a timestamp (ms) on every frame
+ */
+export class ExerciseProtocolTracker {
+  private readonly protocol: ExerciseProtocol;
+  private phase: ProtocolPhase = 'active';
+  private set = 1;
+  private reps: RepResult[] = [];
+  private setStartedAt: number | null = null;
+  private phaseStartedAt = 0;
+  private lastPassAt = 0;
+  private peakScore = 0;
+  private completedReps = 0;
+  private frameIntervalMs = 0;
+  private readonly skipRelease: boolean;
+
+  constructor(protocol: ExerciseProtocol = DEFAULT_EXERCISE_PROTOCOL, options: Partial<ProtocolTrackerOptions> = {}) {
+    this.protocol = protocol;
+    this.skipRelease = options.skipRelease ?? false;
+  }
+
+  reset() {
+    this.phase = 'active';
+    this.set = 1;
+    this.reps = [];
+    this.setStartedAt = null;
+    this.phaseStartedAt = 0;
+    this.lastPassAt = 0;
+    this.peakScore = 0;
+    this.completedReps = 0;
+  }
+
+  /**
+   * Tell the tracker how far apart frames arrive, so a single slow frame doesn't end a hold
+   */
+  setFrameInterval(frameIntervalMs: number) {
+    this.frameIntervalMs = frameIntervalMs;
+  }
+
+  get holdGraceMs(): number {
+    return Math.max(HOLD_GRACE_MS, this.frameIntervalMs * HOLD_GRACE_FRAMES);
+  }
+
+  update(score: number, now: number): ProtocolUpdate {
+    if (this.setStartedAt === null) {
+      this.setStartedAt = now;
+    }
+
+    const passing = score >= EXERCISE_PASS_SCORE;
+    let rep: RepResult | undefined;
+    let setResult: ExerciseSetResult | undefined;
+
+    switch (this.phase) {
+      case 'active':
+        if (passing) {
+          this.enterPhase('hold', now);
+          this.lastPassAt = now;
+          this.peakScore = score;
+        }
+        break;
+
+      case 'hold': {
+        if (passing) {
+          this.lastPassAt = now;
+          this.peakScore = Math.max(this.peakScore, score);
+        }
+        const heldMs = this.lastPassAt - this.phaseStartedAt;
+
+        if (heldMs >= this.protocol.holdMs) {
+          rep = this.finishRep(this.protocol.holdMs, true);
+        } else if (now - this.lastPassAt > this.holdGraceMs) {
+          // Let go before the hold was done
+          rep = this.finishRep(heldMs, false);
+        }
+        if (rep) {
+          if (this.skipRelease) {
+            setResult = this.release(now);
+          } else {
+            this.enterPhase('release', now);
+          }
+        }
+        break;
+      }
+
+      case 'release':
+        if (score <= RELEASE_SCORE) {
+          setResult = this.release(now);
+        }
+        break;
+
+      case 'rest':
+        if (now - this.phaseStartedAt >= this.protocol.restMs) {
+          this.enterPhase('active', now);
+        }
+        break;
+
+      case 'complete':
+        break;
+    }
+
+    return { snapshot: this.getSnapshot(now), rep, setResult };
+  }
+
+  /**
+   * Drop a hold in progress without counting it (scoring paused, e.g. for bad framing)
+   * Other phases carry on; returns the snapshot after the interruption
+   */
+  interrupt(now: number): ProtocolSnapshot {
+    if (this.phase === 'hold') {
+      this.peakScore = 0;
+      this.enterPhase('active', now);
+    }
+    return this.getSnapshot(now);
+  }
+
+  getSnapshot(now: number): ProtocolSnapshot {
+    let phaseProgress = 0;
+    if (this.phase === 'hold') {
+      phaseProgress = Math.min(1, (this.lastPassAt - this.phaseStartedAt) / this.protocol.holdMs);
+    } else if (this.phase === 'rest') {
+      phaseProgress = Math.min(1, (now - this.phaseStartedAt) / Math.max(1, this.protocol.restMs));
+    } else if (this.phase === 'complete') {
+      phaseProgress = 1;
+    }
+
+    // A hold in progress counts as a partial rep
+    const totalReps = this.protocol.reps * this.protocol.sets;
+    const partialRep = this.phase === 'hold' ? phaseProgress : 0;
+    const progress = Math.min(100, Math.round(((this.completedReps + partialRep) / totalReps) * 100));
+
+    return {
+      phase: this.phase,
+      set: this.set,
+      validReps: this.getValidReps(),
+      shortReps: this.reps.length - this.getValidReps(),
+      phaseProgress,
+      progress,
+      lastRep: this.reps.length > 0 ? this.reps[this.reps.length - 1] : null
+    };
+  }
+
+  private enterPhase(phase: ProtocolPhase, now: number) {
+    this.phase = phase;
+    this.phaseStartedAt = now;
+  }
+
+  // Rep over and the face relaxed: finish the set once it has its reps, else rest
+  private release(now: number): ExerciseSetResult | undefined {
+    const setResult = this.getValidReps() >= this.protocol.reps ? this.finishSet(now) : undefined;
+    this.enterPhase(setResult?.exerciseComplete ? 'complete' : 'rest', now);
+    return setResult;
+  }
+
+  private getValidReps(): number {
+    return this.reps.filter(rep => rep.valid).length;
+  }
+
+  private finishRep(holdMs: number, valid: boolean): RepResult {
+    const rep = { holdMs, peakScore: this.peakScore, valid };
+    this.reps.push(rep);
+    if (valid) this.completedReps++;
+    this.peakScore = 0;
+    return rep;
+  }
+
+  private finishSet(now: number): ExerciseSetResult {
+    const validReps = this.getValidReps();
+    const result: ExerciseSetResult = {
+      set: this.set,
+      totalSets: this.protocol.sets,
+      validReps,
+      shortReps: this.reps.length - validReps,
+      reps: this.reps,
+      startedAt: this.setStartedAt ?? now,
+      completedAt: now,
+      exerciseComplete: this.set >= this.protocol.sets
+    };
+
+    if (!result.exerciseComplete) {
+      this.set++;
+      this.reps = [];
+      this.setStartedAt = now;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createExerciseRegistry,
+  EXERCISES,
+  ExerciseRegistryError,
+  getExercise,
+  getExerciseByName,
+  parseExerciseDefinition
+} from './ExerciseRegistry';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+
+const EXERCISE_FILES = import.meta.glob<unknown>('../exercises/*.json', { eager: true, import: 'default' });
+
+// A minimal valid record to break in different ways
+const createRecord = (overrides: Record<string, unknown> = {}) => ({
+  id: 'cheekSucker',
+  order: 11,
+  name: "Cheek Sucker",
+  instructions: "Suck your cheeks in like a fish.",
+  benefits: "Works the cheek muscles from the inside.",
+  focusLandmarks: ['LEFT_CHEEK', 'RIGHT_CHEEK'],
+  visual: { direction: 'in', position: 'cheeks', description: 'Suck your cheeks in' },
+  messages: { success: "Fish face on point!", failure: "Suck 'em in, fam!" },
+  protocol: { reps: 6, holdMs: 3000, restMs: 2000, sets: 2 },
+  criteria: [
+    { feature: 'cheekWidth', comparison: 'below', threshold: 0.2, rest: 0.22, calibration: 'range' }
+  ],
+  ...overrides
+});
+
+const issuesOf = (data: unknown): string[] => {
+  try {
+    parseExerciseDefinition(data, 'test.json');
+  } catch (error) {
+    if (error instanceof ExerciseRegistryError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('bundled exercises', () => {
+  it('loads every exercise file in order', () => {
+    expect(EXERCISES).toHaveLength(Object.keys(EXERCISE_FILES).length);
+    expect(EXERCISES.map(exercise => exercise.order)).toEqual([...EXERCISES.map(exercise => exercise.order)].sort((a, b) => a - b));
+    expect(EXERCISES[0].name).toBe("Jaw Dropper");
+  });
+
+  it('names each file after its exercise id', () => {
+    for (const [path, data] of Object.entries(EXERCISE_FILES)) {
+      expect(path).toBe(`../exercises/${(data as { id: string }).id}.json`);
+    }
+  });
+
+  it('looks exercises up by id and by name', () => {
+    const jawDropper = getExercise('jawDropper');
+    expect(jawDropper?.name).toBe("Jaw Dropper");
+    expect(getExerciseByName("Jaw Dropper")).toBe(jawDropper);
+    expect(jawDropper?.focusPoints).toContain(FACIAL_LANDMARKS.CHIN);
+    expect(getExercise('moonwalk')).toBeUndefined();
+  });
+});
+
+describe('parseExerciseDefinition', () => {
+  it('accepts a valid record and fills in defaults', () => {
+    const definition = parseExerciseDefinition(createRecord());
+    expect(definition.focusPoints).toEqual([FACIAL_LANDMARKS.LEFT_CHEEK, FACIAL_LANDMARKS.RIGHT_CHEEK]);
+    expect(definition.smoothing).toBe('balanced');
+    expect(definition.notes).toBeUndefined();
+  });
+
+  it('reports every problem with the field it is in', () => {
+    const issues = issuesOf(createRecord({
+      id: 'Cheek Sucker',
+      focusLandmarks: ['LEFT_CHEEK', 'LEFT_EAR'],
+      visual: { direction: 'sideways', position: 'cheeks', description: 'Suck your cheeks in' },
+      protocol: { reps: 0, holdMs: 3000, restMs: 2000, sets: 1.5 },
+      criteria: [{ feature: 'cheekHollowness', comparison: 'below', threshold: '0.2', rest: 0.22, calibration: 'range' }],
+      messsages: {}
+    }));
+
+    expect(issues).toEqual(expect.arrayContaining([
+      'exercise.messsages is not a known field',
+      expect.stringContaining('id must be camelCase'),
+      expect.stringContaining('focusLandmarks[1] must be one of'),
+      expect.stringContaining('visual.direction must be one of'),
+      'protocol.reps must be an integer of at least 1',
+      'protocol.sets must be an integer of at least 1',
+      expect.stringContaining('criteria[0].feature must be one of'),
+      'criteria[0].threshold must be a number'
+    ]));
+  });
+
+  it('needs messages and at least one criterion', () => {
+    const record: Record<string, unknown> = createRecord({ criteria: [] });
+    delete record.messages;
+
+    const issues = issuesOf(record);
+    expect(issues).toContain('messages must be an object');
+    expect(issues).toContain('criteria must be a list with at least 1 entry');
+  });
+
+  it('names the file in the error', () => {
+    expect(() => parseExerciseDefinition(null, 'exercises/broken.json')).toThrow(/exercises\/broken\.json/);
+  });
+});
+
+describe('createExerciseRegistry', () => {
+  it('sorts exercises by their order', () => {
+    const registry = createExerciseRegistry({
+      'b.json': createRecord({ id: 'second', name: "Second", order: 2 }),
+      'a.json': createRecord({ id: 'first', name: "First", order: 1 })
+    });
+    expect(registry.map(exercise => exercise.id)).toEqual(['first', 'second']);
+  });
+
+  it('rejects duplicate ids and names', () => {
+    expect(() => createExerciseRegistry({
+      'a.json': createRecord(),
+      'b.json': createRecord({ name: "Other Name" })
+    })).toThrow('id "cheekSucker" is already used by a.json');
+
+    expect(() => createExerciseRegistry({
+      'a.json': createRecord(),
+      'b.json': createRecord({ id: 'otherId' })
+    })).toThrow('name "Cheek Sucker" is already used by a.json');
+  });
+});
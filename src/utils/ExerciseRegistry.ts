@@ -0,0 +1,227 @@
+/**
+ * ExerciseRegistry.ts
+ *
+ * Every exercise is a data record in src/exercises/<id>.json: what to tell the
+ * user, which landmarks and region it works, its rep protocol, smoothing and
+ * the criteria it's validated by. The records are bundled at build time and
+ * checked against the schema below when the app starts, so adding an exercise
+ * is adding a file. A record that doesn't fit the schema stops the app with an
+ * error naming the file and field rather than half-working.
+ */
+import { FACIAL_LANDMARKS, FEATURE_NAMES } from './LandmarkFeatures';
+import type { FeatureName } from './LandmarkFeatures';
+import type { ExerciseCriterion, ExerciseId, VisualDirection, VisualPosition } from './FacialAnalysis';
+import type { ExerciseProtocol } from './ExerciseProtocol';
+import type { SmoothingPreset } from './LandmarkSmoothing';
+
+export type LandmarkName = keyof typeof FACIAL_LANDMARKS;
+
+export interface ExerciseDefinition {
+  id: ExerciseId;                   // Stable key for calibration, routines and recordings (camelCase)
+  order: number;                    // Position in pickers and the calibration sequence
+  name: string;                     // Display name
+  instructions: string;
+  benefits: string;
+  focusLandmarks: LandmarkName[];   // Landmarks the exercise moves, by FACIAL_LANDMARKS name
+  focusPoints: number[];            // The same landmarks as mesh indices
+  visual: {
+    direction: VisualDirection;
+    position: VisualPosition;
+    description: string;
+  };
+  messages: {
+    success: string;
+    failure: string;
+  };
+  protocol: ExerciseProtocol;
+  smoothing: SmoothingPreset;       // Landmark smoothing while the exercise is selected
+  notes?: string;                   // What the criteria check, for whoever tunes them
+  criteria: ExerciseCriterion[];    // All have to be met for a pass
+}
+
+export class ExerciseRegistryError extends Error {
+  readonly source: string;
+  readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Invalid exercise definition in ${source}:\n- ${issues.join('\n- ')}`);
+    this.name = 'ExerciseRegistryError';
+    this.source = source;
+    this.issues = issues;
+  }
+}
+
+// Allowed values, kept in step with the types they check
+const VISUAL_DIRECTIONS: VisualDirection[] = ['up', 'down', 'left', 'right', 'in', 'out', 'open', 'close', 'none'];
+const VISUAL_POSITIONS: VisualPosition[] = ['mouth', 'eyes', 'eyebrows', 'cheeks', 'chin', 'forehead', 'nose', 'tongue'];
+const SMOOTHING_PRESET_NAMES: SmoothingPreset[] = ['responsive', 'balanced', 'stable'];
+const COMPARISONS: ExerciseCriterion['comparison'][] = ['above', 'below'];
+const CALIBRATION_MODES: ExerciseCriterion['calibration'][] = ['range', 'neutral', 'none'];
+const LANDMARK_NAMES = Object.keys(FACIAL_LANDMARKS) as LandmarkName[];
+
+const DEFINITION_FIELDS = [
+  'id', 'order', 'name', 'instructions', 'benefits', 'focusLandmarks',
+  'visual', 'messages', 'protocol', 'smoothing', 'notes', 'criteria'
+];
+
+// Ids end up as object keys in storage and session files
+const EXERCISE_ID_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+
+/**
+ * Reads fields off an untyped record, noting every problem with its path
+ */
+class RecordReader {
+  constructor(private readonly issues: string[]) {}
+
+  object(value: unknown, path: string, fields: string[]): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.issues.push(`${path} must be an object`);
+      return {};
+    }
+    for (const key of Object.keys(value)) {
+      if (!fields.includes(key)) this.issues.push(`${path}.${key} is not a known field`);
+    }
+    return value as Record<string, unknown>;
+  }
+
+  string(value: unknown, path: string): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      this.issues.push(`${path} must be a non-empty string`);
+      return '';
+    }
+    return value;
+  }
+
+  number(value: unknown, path: string, { min = -Infinity, integer = false } = {}): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+      const kind = integer ? 'an integer' : 'a number';
+      this.issues.push(min > -Infinity ? `${path} must be ${kind} of at least ${min}` : `${path} must be ${kind}`);
+      return 0;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, allowed: T[]): T {
+    if (!allowed.includes(value as T)) {
+      this.issues.push(`${path} must be one of ${allowed.join(', ')}`);
+      return allowed[0];
+    }
+    return value as T;
+  }
+
+  array(value: unknown, path: string, minLength = 0): unknown[] {
+    if (!Array.isArray(value) || value.length < minLength) {
+      this.issues.push(minLength > 0 ? `${path} must be a list with at least ${minLength} entr${minLength === 1 ? 'y' : 'ies'}` : `${path} must be a list`);
+      return [];
+    }
+    return value;
+  }
+}
+
+/**
+ * Check one exercise record against the schema
+ * Throws ExerciseRegistryError listing every problem found
+ */
+export function parseExerciseDefinition(data: unknown, source = 'exercise'): ExerciseDefinition {
+  const issues: string[] = [];
+  const read = new RecordReader(issues);
+  const record = read.object(data, 'exercise', DEFINITION_FIELDS);
+
+  const id = read.string(record.id, 'id');
+  if (id && !EXERCISE_ID_PATTERN.test(id)) {
+    issues.push('id must be camelCase letters and digits (e.g. "jawDropper")');
+  }
+
+  const focusLandmarks = read.array(record.focusLandmarks, 'focusLandmarks')
+    .map((name, i) => read.oneOf(name, `focusLandmarks[${i}]`, LANDMARK_NAMES));
+
+  const visual = read.object(record.visual, 'visual', ['direction', 'position', 'description']);
+  const messages = read.object(record.messages, 'messages', ['success', 'failure']);
+  const protocol = read.object(record.protocol, 'protocol', ['reps', 'holdMs', 'restMs', 'sets']);
+
+  const criteria = read.array(record.criteria, 'criteria', 1).map((value, i): ExerciseCriterion => {
+    const path = `criteria[${i}]`;
+    const criterion = read.object(value, path, ['feature', 'comparison', 'threshold', 'rest', 'calibration']);
+    return {
+      feature: read.oneOf<FeatureName>(criterion.feature, `${path}.feature`, FEATURE_NAMES),
+      comparison: read.oneOf(criterion.comparison, `${path}.comparison`, COMPARISONS),
+      threshold: read.number(criterion.threshold, `${path}.threshold`),
+      rest: read.number(criterion.rest, `${path}.rest`),
+      calibration: read.oneOf(criterion.calibration, `${path}.calibration`, CALIBRATION_MODES)
+    };
+  });
+
+  const definition: ExerciseDefinition = {
+    id,
+    order: read.number(record.order, 'order'),
+    name: read.string(record.name, 'name'),
+    instructions: read.string(record.instructions, 'instructions'),
+    benefits: read.string(record.benefits, 'benefits'),
+    focusLandmarks,
+    focusPoints: focusLandmarks.map(name => FACIAL_LANDMARKS[name]),
+    visual: {
+      direction: read.oneOf(visual.direction, 'visual.direction', VISUAL_DIRECTIONS),
+      position: read.oneOf(visual.position, 'visual.position', VISUAL_POSITIONS),
+      description: read.string(visual.description, 'visual.description')
+    },
+    messages: {
+      success: read.string(messages.success, 'messages.success'),
+      failure: read.string(messages.failure, 'messages.failure')
+    },
+    protocol: {
+      reps: read.number(protocol.reps, 'protocol.reps', { min: 1, integer: true }),
+      holdMs: read.number(protocol.holdMs, 'protocol.holdMs', { min: 0, integer: true }),
+      restMs: read.number(protocol.restMs, 'protocol.restMs', { min: 0, integer: true }),
+      sets: read.number(protocol.sets, 'protocol.sets', { min: 1, integer: true })
+    },
+    smoothing: record.smoothing === undefined ? 'balanced' : read.oneOf(record.smoothing, 'smoothing', SMOOTHING_PRESET_NAMES),
+    criteria
+  };
+  if (record.notes !== undefined) {
+    definition.notes = read.string(record.notes, 'notes');
+  }
+
+  if (issues.length > 0) {
+    throw new ExerciseRegistryError(source, issues);
+  }
+  return definition;
+}
+
+/**
+ * Validate a set of records (keyed by where they came from) into the ordered registry
+ * Ids and names have to be unique across the set
+ */
+export function createExerciseRegistry(records: Record<string, unknown>): ExerciseDefinition[] {
+  const definitions = Object.entries(records).map(([source, data]) => ({ source, definition: parseExerciseDefinition(data, source) }));
+
+  for (const key of ['id', 'name'] as const) {
+    const seen = new Map<string, string>();
+    for (const { source, definition } of definitions) {
+      const previous = seen.get(definition[key]);
+      if (previous) {
+        throw new ExerciseRegistryError(source, [`${key} "${definition[key]}" is already used by ${previous}`]);
+      }
+      seen.set(definition[key], source);
+    }
+  }
+
+  return definitions
+    .map(({ definition }) => definition)
+    .sort((a, b) => a.order - b.order || a.id.localeCompare(b.id));
+}
+
+// Bundled exercise records, validated once at startup
+const EXERCISE_FILES = import.meta.glob<unknown>('../exercises/*.json', { eager: true, import: 'default' });
+
+export const EXERCISES: ExerciseDefinition[] = createExerciseRegistry(EXERCISE_FILES);
+
+const exercisesById = new Map(EXERCISES.map(exercise => [exercise.id, exercise]));
+const exercisesByName = new Map(EXERCISES.map(exercise => [exercise.name, exercise]));
+
+export function getExercise(id: ExerciseId): ExerciseDefinition | undefined {
+  return exercisesById.get(id);
+}
+
+export function getExerciseByName(name: string): ExerciseDefinition | undefined {
+  return exercisesByName.get(name);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EYE_BASELINE_FRAMES,
+  EYE_BREAK_MS,
+  EyeExerciseTracker,
+  getEyeExercise
+} from './EyeExercises';
+import type { EyeExerciseFrame, EyeExerciseId, EyeTarget } from './EyeExercises';
+import { EXERCISE_PASS_SCORE } from './FacialAnalysis';
+import { createSyntheticFace } from './SyntheticFaces';
+import type { ExpressionWeights } from './SyntheticFaces';
+
+const FRAME_MS = 1000 / 30;
+
+// Run an exercise for ms, building each frame from the target it shows
+const run = (id: EyeExerciseId, ms: number, look: (target: EyeTarget) => ExpressionWeights | null) => {
+  const tracker = new EyeExerciseTracker(getEyeExercise(id), 0);
+  const frames: EyeExerciseFrame[] = [];
+  for (let t = 0; t <= ms; t += FRAME_MS) {
+    const expressions = look(tracker.targetAt(t));
+    frames.push(tracker.update(expressions ? createSyntheticFace(expressions) : null, t));
+  }
+  return frames;
+};
+
+// The target's screen y runs down; lookUp runs up
+const follow = (target: EyeTarget): ExpressionWeights => ({ lookRight: target.x, lookUp: -target.y });
+
+describe('EyeExerciseTracker', () => {
+  it('scores eyes that follow the dot', () => {
+    const frames = run('smoothPursuit', 10000, follow);
+    const last = frames[frames.length - 1];
+    expect(last.score).toBe(100);
+    expect(last.onTargetMs).toBeGreaterThan(6000);
+    expect(last.progress).toBeGreaterThan(0.3);
+  });
+
+  it('gives nothing for eyes that stay put', () => {
+    const frames = run('smoothPursuit', 10000, () => ({}));
+    expect(Math.max(...frames.map(frame => frame.score))).toBe(0);
+  });
+
+  it('wants both axes of the figure eight', () => {
+    expect(run('figureEight', 10000, follow).pop()!.score).toBeGreaterThanOrEqual(EXERCISE_PASS_SCORE);
+    expect(run('figureEight', 10000, target => ({ lookRight: target.x })).pop()!.score).toBe(0);
+  });
+
+  it('follows focus shifts between near and far', () => {
+    const frames = run('focusShift', 12000, target => ({ lookNear: target.focus === 'near' ? 1 : 0 }));
+    expect(frames.pop()!.onTarget).toBe(true);
+    expect(run('focusShift', 12000, () => ({ lookNear: 1 })).pop()!.score).toBe(0);
+  });
+
+  it('counts a break once the eyes leave the screen', () => {
+    let frame = 0;
+    const frames = run('eyeBreak', EYE_BREAK_MS + 2000, () => frame++ < EYE_BASELINE_FRAMES ? {} : { lookRight: 1 });
+    expect(frames[EYE_BASELINE_FRAMES - 1].score).toBe(0);
+    expect(frames[EYE_BASELINE_FRAMES].onTarget).toBe(true);
+    expect(frames[frames.length - 1].complete).toBe(true);
+  });
+
+  it('doesn\'t count a break spent looking at the screen', () => {
+    const frames = run('eyeBreak', 5000, () => ({ lookRight: 0.1 }));
+    expect(frames.some(frame => frame.onTarget)).toBe(false);
+  });
+});
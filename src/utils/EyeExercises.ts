@@ -0,0 +1,293 @@
+/**
+ * EyeExercises.ts
+ *
+ * Eye exercises judged by gaze (Gaze.ts) instead of facial features: follow a
+ * dot side to side, trace a figure eight, shift focus between near and far,
+ * and the 20-20-20 break. Each exercise moves a target over time; a frame is
+ * on target when the recent gaze tracks it. Tracking is judged by correlation
+ * rather than absolute position, so it holds whatever the user's eye shape,
+ * camera height or distance, and only the eyes moving with the target count.
+ */
+import { analyzeFrame, EXERCISE_PASS_SCORE } from './FacialAnalysis';
+import { EYE_CLOSED_APERTURE } from './GameValidators';
+import { measureGaze } from './Gaze';
+import type { GazeEstimate } from './Gaze';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+export type EyeExerciseId = 'smoothPursuit' | 'figureEight' | 'focusShift' | 'eyeBreak';
+
+/**
+ * What the user should look at: a dot in the mirrored preview (-1 to 1 from
+ * the center to the edges), and for focus exercises how far away to focus
+ */
+export interface EyeTarget {
+  x: number;
+  y: number;
+  focus: 'screen' | 'near' | 'far';
+}
+
+/**
+ * How an exercise is judged:
+ * - 'pursuit':  gaze follows the dot on every axis it moves along
+ * - 'focus':    vergence rises for near and falls for far
+ * - 'lookAway': eyes (or head) turned off the screen
+ */
+export type EyeExerciseKind = 'pursuit' | 'focus' | 'lookAway';
+
+export interface EyeExerciseDefinition {
+  id: EyeExerciseId;
+  name: string;
+  instructions: string;
+  kind: EyeExerciseKind;
+  goalMs: number;         // On-target time that completes the exercise
+  windowMs: number;       // Recent tracking the score looks back over
+  target: (elapsedMs: number) => EyeTarget;
+  messages: {
+    success: string;
+    failure: string;
+  };
+}
+
+// Side to side sweep, and one loop of the figure eight
+export const PURSUIT_PERIOD_MS = 6000;
+export const FIGURE_EIGHT_PERIOD_MS = 8000;
+
+// Time spent on each of near and far
+export const FOCUS_SHIFT_MS = 4000;
+
+// The 20-20-20 rule: every 20 minutes, look 20 feet away for 20 seconds
+export const EYE_BREAK_INTERVAL_MS = 20 * 60 * 1000;
+export const EYE_BREAK_MS = 20000;
+
+// Correlation between gaze and target that scores EXERCISE_PASS_SCORE
+export const TRACKING_CORRELATION = 0.6;
+
+// Gaze shift (half eye widths) or head turn (degrees) that counts as looking off the screen
+export const LOOK_AWAY_GAZE = 0.35;
+export const LOOK_AWAY_YAW = 20;
+
+// Frames of looking at the screen read before a break starts, to know where the screen is
+export const EYE_BASELINE_FRAMES = 15;
+
+// Share of the window that needs gaze samples before tracking is scored
+const MIN_WINDOW_COVERAGE = 0.5;
+
+// Frames further apart than this don't add their gap to the on-target time
+const MAX_FRAME_GAP_MS = 200;
+
+const sweep = (elapsedMs: number, periodMs: number) => Math.sin(elapsedMs / periodMs * Math.PI * 2);
+
+export const EYE_EXERCISES: EyeExerciseDefinition[] = [
+  {
+    id: 'smoothPursuit',
+    name: "Follow the Dot",
+    instructions: "Keep your head still and follow the dot with just your eyes.",
+    kind: 'pursuit',
+    goalMs: 20000,
+    windowMs: PURSUIT_PERIOD_MS / 2,
+    target: elapsedMs => ({ x: sweep(elapsedMs, PURSUIT_PERIOD_MS) * 0.8, y: 0, focus: 'screen' }),
+    messages: {
+      success: "Locked on—those eyes are smooth operators!",
+      failure: "Dot's getting away—eyes only, no head!"
+    }
+  },
+  {
+    id: 'figureEight',
+    name: "Figure Eight",
+    instructions: "Trace the dot's figure eight with your eyes, head still.",
+    kind: 'pursuit',
+    goalMs: 20000,
+    windowMs: FIGURE_EIGHT_PERIOD_MS / 2,
+    target: elapsedMs => ({
+      x: sweep(elapsedMs, FIGURE_EIGHT_PERIOD_MS) * 0.8,
+      y: sweep(elapsedMs, FIGURE_EIGHT_PERIOD_MS / 2) * 0.5,
+      focus: 'screen'
+    }),
+    messages: {
+      success: "Infinity loop unlocked—eye flex!",
+      failure: "Stay on the loop, bestie!"
+    }
+  },
+  {
+    id: 'focusShift',
+    name: "Near & Far",
+    instructions: "Hold a thumb a hand's width from your nose. Look at it on NEAR, past the screen on FAR.",
+    kind: 'focus',
+    goalMs: 20000,
+    windowMs: FOCUS_SHIFT_MS * 2,
+    target: elapsedMs => ({
+      x: 0,
+      y: 0,
+      focus: Math.floor(elapsedMs / FOCUS_SHIFT_MS) % 2 === 0 ? 'near' : 'far'
+    }),
+    messages: {
+      success: "Focus pulls on point—cinematic eyes!",
+      failure: "Switch focus all the way, thumb then wall!"
+    }
+  },
+  {
+    id: 'eyeBreak',
+    name: "20-20-20 Break",
+    instructions: "Look away at something 20 feet off—out a window, across the room—for 20 seconds.",
+    kind: 'lookAway',
+    goalMs: EYE_BREAK_MS,
+    windowMs: 0,
+    target: () => ({ x: 0, y: 0, focus: 'far' }),
+    messages: {
+      success: "Eyes on vacay—screen can wait!",
+      failure: "Eyes off the screen, fam!"
+    }
+  }
+];
+
+export const EYE_EXERCISE_IDS: EyeExerciseId[] = EYE_EXERCISES.map(exercise => exercise.id);
+
+export function getEyeExercise(id: EyeExerciseId): EyeExerciseDefinition {
+  return EYE_EXERCISES.find(exercise => exercise.id === id) ?? EYE_EXERCISES[0];
+}
+
+/**
+ * One frame of an eye exercise
+ */
+export interface EyeExerciseFrame {
+  target: EyeTarget;
+  gaze: GazeEstimate | null;    // null without a face, or from a tracker without iris points
+  score: number;                // 0-100, EXERCISE_PASS_SCORE when on target
+  onTarget: boolean;
+  onTargetMs: number;
+  progress: number;             // Share of the goal reached (0-1)
+  complete: boolean;
+}
+
+interface GazeSample {
+  timestamp: number;
+  target: EyeTarget;
+  gaze: GazeEstimate;
+}
+
+/**
+ * Pearson correlation of the gaze with the target, or null when the target
+ * didn't move (nothing to follow); gaze that didn't move correlates 0
+ */
+function correlate(target: number[], measured: number[]): number | null {
+  const n = target.length;
+  if (n < 2) return null;
+  const meanTarget = target.reduce((sum, value) => sum + value, 0) / n;
+  const meanMeasured = measured.reduce((sum, value) => sum + value, 0) / n;
+
+  let covariance = 0;
+  let targetVariance = 0;
+  let measuredVariance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (target[i] - meanTarget) * (measured[i] - meanMeasured);
+    targetVariance += (target[i] - meanTarget) ** 2;
+    measuredVariance += (measured[i] - meanMeasured) ** 2;
+  }
+  if (targetVariance < 1e-9) return null;
+  if (measuredVariance < 1e-9) return 0;
+  return covariance / Math.sqrt(targetVariance * measuredVariance);
+}
+
+// Grade a value against the one that passes, like the exercise criteria
+const toScore = (value: number, passAt: number) =>
+  Math.round(Math.min(100, Math.max(0, value / passAt * EXERCISE_PASS_SCORE)));
+
+/**
+ * Runs one eye exercise: where its target is at any moment, and how well the
+ * gaze kept up with it
+ */
+export class EyeExerciseTracker {
+  readonly exercise: EyeExerciseDefinition;
+  private readonly startedAt: number;
+  private samples: GazeSample[] = [];
+  private baseline: GazeEstimate[] = [];
+  private baselineFrames = 0;
+  private onTargetMs = 0;
+  private lastTimestamp: number | null = null;
+
+  constructor(exercise: EyeExerciseDefinition, startedAt: number) {
+    this.exercise = exercise;
+    this.startedAt = startedAt;
+  }
+
+  targetAt(timestamp: number): EyeTarget {
+    return this.exercise.target(Math.max(0, timestamp - this.startedAt));
+  }
+
+  // Breaks read where the screen is first; until then the user should look at it
+  get readingScreen(): boolean {
+    return this.exercise.kind === 'lookAway' && this.baselineFrames < EYE_BASELINE_FRAMES;
+  }
+
+  update(landmarks: LandmarkFrame | null, timestamp: number): EyeExerciseFrame {
+    const target = this.targetAt(timestamp);
+    const gaze = landmarks ? measureGaze(landmarks) : null;
+    const score = this.score(landmarks, gaze, target, timestamp);
+    const onTarget = score >= EXERCISE_PASS_SCORE;
+
+    if (onTarget && this.lastTimestamp !== null) {
+      const gap = timestamp - this.lastTimestamp;
+      if (gap > 0 && gap <= MAX_FRAME_GAP_MS) {
+        this.onTargetMs += gap;
+      }
+    }
+    this.lastTimestamp = timestamp;
+
+    const progress = Math.min(1, this.onTargetMs / this.exercise.goalMs);
+    return {
+      target,
+      gaze,
+      score,
+      onTarget,
+      onTargetMs: this.onTargetMs,
+      progress,
+      complete: progress >= 1
+    };
+  }
+
+  private score(landmarks: LandmarkFrame | null, gaze: GazeEstimate | null, target: EyeTarget, timestamp: number): number {
+    if (this.exercise.kind === 'lookAway') {
+      return this.scoreLookAway(landmarks, gaze);
+    }
+
+    // Blinks say nothing about where the eyes point
+    if (landmarks && gaze && analyzeFrame(landmarks).features.eyeApertureMin >= EYE_CLOSED_APERTURE) {
+      this.samples.push({ timestamp, target, gaze });
+    }
+    const windowStart = timestamp - this.exercise.windowMs;
+    this.samples = this.samples.filter(sample => sample.timestamp >= windowStart && sample.timestamp <= timestamp);
+    if (this.samples.length < 2 || this.samples[this.samples.length - 1].timestamp - this.samples[0].timestamp < this.exercise.windowMs * MIN_WINDOW_COVERAGE) {
+      return 0;
+    }
+
+    const correlations = this.exercise.kind === 'focus'
+      ? [correlate(this.samples.map(sample => sample.target.focus === 'near' ? 1 : 0), this.samples.map(sample => sample.gaze.vergence))]
+      : (['x', 'y'] as const).map(axis => correlate(this.samples.map(sample => sample.target[axis]), this.samples.map(sample => sample.gaze[axis])));
+
+    // The weakest axis the target moves along (one that doesn't move isn't judged)
+    const judged = correlations.filter((correlation): correlation is number => correlation !== null);
+    return judged.length > 0 ? toScore(Math.min(...judged), TRACKING_CORRELATION) : 0;
+  }
+
+  // Off the screen when the eyes have moved well away from where they sat while
+  // reading the screen, the head has turned away, or the face has left the camera
+  private scoreLookAway(landmarks: LandmarkFrame | null, gaze: GazeEstimate | null): number {
+    if (this.readingScreen) {
+      if (landmarks) this.baselineFrames++;
+      if (gaze) this.baseline.push(gaze);
+      return 0;
+    }
+    if (!landmarks) return 100;
+
+    // Without iris points only turning the head away counts
+    const yawScore = toScore(Math.abs(analyzeFrame(landmarks).pose.yaw), LOOK_AWAY_YAW);
+    if (!gaze || this.baseline.length === 0) return yawScore;
+
+    const screen = {
+      x: this.baseline.reduce((sum, entry) => sum + entry.x, 0) / this.baseline.length,
+      y: this.baseline.reduce((sum, entry) => sum + entry.y, 0) / this.baseline.length
+    };
+    const gazeScore = toScore(Math.hypot(gaze.x - screen.x, gaze.y - screen.y), LOOK_AWAY_GAZE);
+    return Math.max(yawScore, gazeScore);
+  }
+}
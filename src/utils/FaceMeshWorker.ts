@@ -0,0 +1,123 @@
+/**
+ * FaceMeshWorker.ts
+ *
+ * Web Worker that runs MediaPipe Face Mesh on frames transferred from the
+ * page as ImageBitmaps, then smooths and scores the face and posts back only
+ * the packed landmarks and a compact analysis. Face Mesh renders into an
+ * OffscreenCanvas when it runs in a worker.
+ */
+import { setActiveCalibration, setFrameAspectRatio } from './FacialAnalysis';
+import { analyzeSample, packLandmarks } from './FaceWorkerProtocol';
+import type { AnalysisTarget, FaceWorkerRequest, FaceWorkerResponse } from './FaceWorkerProtocol';
+import { getExerciseSmoothing, LandmarkSmoother } from './LandmarkSmoothing';
+import { FACE_MESH_OPTIONS } from './MediaPipeProvider';
+import type { FaceMeshInstance, FaceMeshResults } from './MediaPipeProvider';
+
+// The parts of the worker global scope this file touches
+interface FaceWorkerScope {
+  postMessage(message: FaceWorkerResponse, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<FaceWorkerRequest>) => void): void;
+  importScripts(...urls: string[]): void;
+  FaceMesh?: new (config: { locateFile: (file: string) => string }) => FaceMeshInstance;
+  Module?: { arguments_: string[]; locateFile: (file: string) => string };
+}
+
+const scope = self as unknown as FaceWorkerScope;
+
+let mesh: FaceMeshInstance | null = null;
+let target: AnalysisTarget = { exercise: null, calibration: null };
+let frameTimestamp = 0;
+const smoother = new LandmarkSmoother(getExerciseSmoothing(null));
+
+// Vite serves workers as modules, which have no importScripts; Face Mesh
+// loads its WASM glue with it, so run those scripts in global scope instead
+const nativeImportScripts = scope.importScripts.bind(scope);
+scope.importScripts = (...urls: string[]) => {
+  try {
+    nativeImportScripts(...urls);
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+
+    for (const url of urls) {
+      const request = new XMLHttpRequest();
+      request.open('GET', url, false);
+      request.send();
+      if (request.status !== 200) {
+        throw new Error(`Couldn't load ${url} (${request.status})`);
+      }
+      (0, eval)(request.responseText);
+    }
+  }
+};
+
+async function initialize(assetPath: string) {
+  const locateFile = (file: string) => `${assetPath}/${file}`;
+
+  // Same workaround as the page: prevents the "Module.arguments has been replaced" WASM error
+  scope.Module = { arguments_: [], locateFile };
+  scope.importScripts(locateFile('face_mesh.js'));
+  if (!scope.FaceMesh) {
+    throw new Error("MediaPipe FaceMesh not available in the worker");
+  }
+
+  const instance = new scope.FaceMesh({ locateFile });
+  await instance.setOptions(FACE_MESH_OPTIONS);
+
+  instance.onResults((results: FaceMeshResults) => {
+    const rawLandmarks = results.multiFaceLandmarks?.[0] ?? null;
+    if (!rawLandmarks) {
+      smoother.reset();
+      scope.postMessage({ type: 'result', timestamp: frameTimestamp, landmarks: null, rawLandmarks: null, analysis: null });
+      return;
+    }
+
+    const landmarks = smoother.smooth(rawLandmarks, frameTimestamp);
+    const packed = packLandmarks(landmarks);
+    const packedRaw = packLandmarks(rawLandmarks);
+    scope.postMessage({
+      type: 'result',
+      timestamp: frameTimestamp,
+      landmarks: packed,
+      rawLandmarks: packedRaw,
+      analysis: analyzeSample(landmarks, target)
+    }, [packed.buffer, packedRaw.buffer]);
+  });
+
+  await instance.initialize();
+  mesh = instance;
+}
+
+scope.addEventListener('message', async ({ data }) => {
+  switch (data.type) {
+    case 'init':
+      try {
+        await initialize(data.assetPath);
+        scope.postMessage({ type: 'ready' });
+      } catch (error) {
+        scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      }
+      break;
+
+    case 'target':
+      target = data.target;
+      setActiveCalibration(target.calibration);
+      smoother.setParams(getExerciseSmoothing(target.exercise));
+      break;
+
+    case 'frame':
+      if (!mesh) {
+        data.image.close();
+        return;
+      }
+      try {
+        frameTimestamp = data.timestamp;
+        setFrameAspectRatio(data.image.width / data.image.height);
+        await mesh.send({ image: data.image });
+      } catch (error) {
+        scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      } finally {
+        data.image.close();
+      }
+      break;
+  }
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSample, packLandmarks, unpackLandmarks } from './FaceWorkerProtocol';
+import { scoreExercise } from './FacialAnalysis';
+import { createLandmarkProvider } from './LandmarkProviders';
+import { MediaPipeLandmarkProvider } from './MediaPipeProvider';
+import { createSyntheticFace, SYNTHETIC_FACES } from './SyntheticFaces';
+import { REFINED_FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+
+describe('packLandmarks', () => {
+  it('round-trips a frame through a transferable array', () => {
+    const face = createSyntheticFace({ smile: 1 });
+    const packed = packLandmarks(face);
+
+    expect(packed).toBeInstanceOf(Float32Array);
+    expect(packed.length).toBe(REFINED_FACE_MESH_POINT_COUNT * 3);
+
+    const unpacked = unpackLandmarks(packed);
+    expect(unpacked).toHaveLength(REFINED_FACE_MESH_POINT_COUNT);
+    unpacked.forEach((landmark, i) => {
+      expect(landmark.x).toBeCloseTo(face[i].x, 6);
+      expect(landmark.y).toBeCloseTo(face[i].y, 6);
+      expect(landmark.z).toBeCloseTo(face[i].z, 6);
+    });
+  });
+});
+
+describe('analyzeSample', () => {
+  it('scores the target exercise the same way the page does', () => {
+    const face = createSyntheticFace(SYNTHETIC_FACES.jawOpen);
+    const analysis = analyzeSample(face, { exercise: 'jawDropper', calibration: null });
+
+    expect(analysis.exercise).toBe('jawDropper');
+    expect(analysis.score).toEqual(scoreExercise('jawDropper', face));
+    expect(analysis.score?.passed).toBe(true);
+    expect(analysis.stress).toBeGreaterThanOrEqual(0);
+    expect(analysis.stress).toBeLessThanOrEqual(1);
+  });
+
+  it('skips scoring without an exercise', () => {
+    const analysis = analyzeSample(createSyntheticFace(), { exercise: null, calibration: null });
+
+    expect(analysis.score).toBeNull();
+    expect(Math.abs(analysis.pose.yaw)).toBeLessThan(1);
+  });
+});
+
+describe('createLandmarkProvider', () => {
+  it('runs MediaPipe on the main thread where workers are unavailable', () => {
+    expect(createLandmarkProvider({ kind: 'mediapipe' })).toBeInstanceOf(MediaPipeLandmarkProvider);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * FaceWorkerProtocol.ts
+ *
+ * Messages between the page and the face worker (FaceMeshWorker.ts), and the
+ * per-frame analysis the worker sends back with each face. Landmarks travel
+ * as packed Float32Arrays so they can be transferred instead of cloned. The
+ * worker smooths landmarks before analyzing them, so scores match what the
+ * page would compute from smoothed frames.
+ */
+import { analyzeFrame, calculateStressLevel, scoreExercise } from './FacialAnalysis';
+import type { ExerciseId, ExerciseScore } from './FacialAnalysis';
+import type { CalibrationProfile } from './Calibration';
+import type { HeadPose } from './HeadPose';
+import type { FaceFeatures, LandmarkFrame } from './LandmarkFeatures';
+
+/**
+ * What to score frames against; mirrors the page's exercise and calibration
+ */
+export interface AnalysisTarget {
+  exercise: ExerciseId | null;
+  calibration: CalibrationProfile | null;
+}
+
+/**
+ * Everything the page needs from one frame, computed next to the tracker
+ */
+export interface SampleAnalysis {
+  exercise: ExerciseId | null;    // Exercise the score was computed for
+  score: ExerciseScore | null;
+  pose: HeadPose;
+  features: FaceFeatures;
+  stress: number;                 // Heuristic stress level (0-1)
+}
+
+export type FaceWorkerRequest =
+  | { type: 'init'; assetPath: string }                       // Absolute URL of the Face Mesh assets
+  | { type: 'target'; target: AnalysisTarget }
+  | { type: 'frame'; image: ImageBitmap; timestamp: number }; // The bitmap is transferred
+
+export type FaceWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | {
+      type: 'result';
+      timestamp: number;
+      landmarks: Float32Array | null;     // Smoothed for the target exercise
+      rawLandmarks: Float32Array | null;  // As detected
+      analysis: SampleAnalysis | null;    // Computed from the smoothed landmarks
+    };
+
+// Values stored per landmark (x, y, z)
+const LANDMARK_STRIDE = 3;
+
+export function packLandmarks(landmarks: LandmarkFrame): Float32Array {
+  const packed = new Float32Array(landmarks.length * LANDMARK_STRIDE);
+  landmarks.forEach((landmark, i) => {
+    packed[i * LANDMARK_STRIDE] = landmark.x;
+    packed[i * LANDMARK_STRIDE + 1] = landmark.y;
+    packed[i * LANDMARK_STRIDE + 2] = landmark.z;
+  });
+  return packed;
+}
+
+export function unpackLandmarks(packed: Float32Array): LandmarkFrame {
+  const landmarks: LandmarkFrame = [];
+  for (let i = 0; i + LANDMARK_STRIDE <= packed.length; i += LANDMARK_STRIDE) {
+    landmarks.push({ x: packed[i], y: packed[i + 1], z: packed[i + 2] });
+  }
+  return landmarks;
+}
+
+/**
+ * Analyze one frame for the target exercise
+ * The calibration must already be active (setActiveCalibration) where this runs
+ */
+export function analyzeSample(landmarks: LandmarkFrame, target: AnalysisTarget): SampleAnalysis {
+  const { pose, features } = analyzeFrame(landmarks);
+
+  return {
+    exercise: target.exercise,
+    score: target.exercise ? scoreExercise(target.exercise, landmarks) : null,
+    pose,
+    features,
+    stress: calculateStressLevel(landmarks)
+  };
+}
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  analyzeFrame,
+  calculateStressLevel,
+  EXERCISE_IDS,
+  EXERCISE_PASS_SCORE,
+  ExerciseValidators,
+  scoreExercise
+} from './FacialAnalysis';
+import type { ExerciseId } from './FacialAnalysis';
+import { MODEL_FEATURE_NAMES, toFeatureVector } from './LandmarkFeatures';
+import { createSyntheticFace, SYNTHETIC_FACES } from './SyntheticFaces';
+import type { Expression, SyntheticFaceName } from './SyntheticFaces';
+
+// The synthetic expression that performs each exercise
+const EXERCISE_EXPRESSIONS: Record<ExerciseId, Expression> = {
+  jawDropper: 'jawOpen',
+  browLifter: 'browRaise',
+  cheekPuffer: 'cheekPuff',
+  eyeWinker: 'wink',
+  smileyStretch: 'smile',
+  noseScruncher: 'noseScrunch',
+  lipPucker: 'pucker',
+  chinJutter: 'chinJut',
+  foreheadSmoother: 'foreheadRelax',
+  tongueTwister: 'tongueOut'
+};
+
+// Framing changes the validators should not notice
+const POSES = [
+  { scale: 0.6 },
+  { scale: 1.4, x: 0.4, y: 0.55 },
+  { roll: 12 },
+  { yaw: 15 },
+  { pitch: -10 }
+];
+
+describe('ExerciseValidators', () => {
+  it.each(EXERCISE_IDS)('%s fails on a neutral face', (exercise) => {
+    expect(ExerciseValidators[exercise](createSyntheticFace())).toBe(false);
+  });
+
+  it.each(EXERCISE_IDS)('%s passes when the exercise is performed', (exercise) => {
+    const face = createSyntheticFace({ [EXERCISE_EXPRESSIONS[exercise]]: 1 });
+    expect(ExerciseValidators[exercise](face)).toBe(true);
+  });
+
+  it.each(EXERCISE_IDS)('%s fails on a half-hearted attempt', (exercise) => {
+    const face = createSyntheticFace({ [EXERCISE_EXPRESSIONS[exercise]]: 0.4 });
+    expect(ExerciseValidators[exercise](face)).toBe(false);
+  });
+
+  it.each(EXERCISE_IDS)('%s ignores head position, distance and rotation', (exercise) => {
+    for (const pose of POSES) {
+      expect(ExerciseValidators[exercise](createSyntheticFace({}, pose))).toBe(false);
+      expect(ExerciseValidators[exercise](createSyntheticFace({ [EXERCISE_EXPRESSIONS[exercise]]: 1 }, pose))).toBe(true);
+    }
+  });
+
+  it('keeps which exercises each synthetic face triggers', () => {
+    const detected = Object.fromEntries(
+      (Object.keys(SYNTHETIC_FACES) as SyntheticFaceName[]).map(name => {
+        const face = createSyntheticFace(SYNTHETIC_FACES[name]);
+        return [name, EXERCISE_IDS.filter(exercise => ExerciseValidators[exercise](face))];
+      })
+    );
+    expect(detected).toMatchSnapshot();
+  });
+});
+
+describe('scoreExercise', () => {
+  it.each(EXERCISE_IDS)('%s scores below the pass score at rest and passes when performed', (exercise) => {
+    const neutral = scoreExercise(exercise, createSyntheticFace());
+    const performed = scoreExercise(exercise, createSyntheticFace({ [EXERCISE_EXPRESSIONS[exercise]]: 1 }));
+
+    expect(neutral.passed).toBe(false);
+    expect(neutral.score).toBeLessThan(EXERCISE_PASS_SCORE);
+    expect(performed.passed).toBe(true);
+    expect(performed.score).toBeGreaterThanOrEqual(EXERCISE_PASS_SCORE);
+  });
+
+  it.each(EXERCISE_IDS)('%s grades effort monotonically', (exercise) => {
+    const scores = [0, 0.25, 0.5, 0.75, 1].map(weight =>
+      scoreExercise(exercise, createSyntheticFace({ [EXERCISE_EXPRESSIONS[exercise]]: weight })).score
+    );
+    for (let i = 1; i < scores.length; i++) {
+      expect(scores[i]).toBeGreaterThanOrEqual(scores[i - 1]);
+    }
+  });
+});
+
+describe('calculateStressLevel', () => {
+  beforeEach(() => {
+    // Remove the natural-variation noise so levels are reproducible
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the neutral default without landmarks', () => {
+    expect(calculateStressLevel(null)).toBe(0.5);
+  });
+
+  it('stays within 0-1 for every synthetic face', () => {
+    for (const expressions of Object.values(SYNTHETIC_FACES)) {
+      const level = calculateStressLevel(createSyntheticFace(expressions));
+      expect(level).toBeGreaterThanOrEqual(0);
+      expect(level).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('rates a smile calmer and pursed lips tenser than a neutral face', () => {
+    const neutral = calculateStressLevel(createSyntheticFace());
+    expect(calculateStressLevel(createSyntheticFace({ smile: 1 }))).toBeLessThan(neutral);
+    expect(calculateStressLevel(createSyntheticFace({ pucker: 1 }))).toBeGreaterThan(neutral);
+  });
+
+  it('compares against the given neutral baseline', () => {
+    const face = createSyntheticFace();
+    const matching = calculateStressLevel(face, { eyeOpenness: 0.03, noseWidth: 0.15, jawRatio: 2 });
+    const wideEyed = calculateStressLevel(face, { eyeOpenness: 0.01, noseWidth: 0.15, jawRatio: 2 });
+    expect(wideEyed).toBeGreaterThan(matching);
+  });
+
+  it('keeps the stress level of each synthetic face', () => {
+    const levels = Object.fromEntries(
+      (Object.keys(SYNTHETIC_FACES) as SyntheticFaceName[]).map(name =>
+        [name, Number(calculateStressLevel(createSyntheticFace(SYNTHETIC_FACES[name])).toFixed(3))]
+      )
+    );
+    expect(levels).toMatchSnapshot();
+  });
+});
+
+describe('toFeatureVector', () => {
+  it('keeps the version 1 model layout', () => {
+    const { features } = analyzeFrame(createSyntheticFace());
+    const vector = toFeatureVector(features);
+    expect(vector).toHaveLength(30);
+    expect(vector[0]).toBe(features.browPinch);
+    expect(vector[12]).toBe(features.mouthWidth);
+    expect(vector[29]).toBe(features.foreheadVariation);
+    expect(MODEL_FEATURE_NAMES).not.toContain('eyeApertureMin');
+  });
+});
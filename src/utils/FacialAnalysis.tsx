@@ -4,143 +4,110 @@
  * This utility provides heuristic-based facial analysis functions for:
  * 1. Stress detection based on facial expressions
  * 2. Validation of specific facial exercises
+ * 
+ * Measurements come from the shared feature extractor in LandmarkFeatures.ts,
+ * taken on frames normalized for head pose and camera distance (HeadPose.ts).
+ * The exercises themselves (criteria, copy, focus landmarks) are data records
+ * loaded by ExerciseRegistry.ts.
  */
+import { extractFeatures } from './LandmarkFeatures';
+import type { FaceFeatures, FeatureName, LandmarkFrame } from './LandmarkFeatures';
+import { normalizeLandmarks } from './HeadPose';
+import type { HeadPose } from './HeadPose';
+import type { CalibrationProfile } from './Calibration';
+import { EXERCISES, getExerciseByName } from './ExerciseRegistry';
 
-// Enhanced landmark indices for facial features
-const FACIAL_LANDMARKS = {
-    // Eyes
-    LEFT_EYE_TOP: 159,
-    LEFT_EYE_BOTTOM: 145,
-    LEFT_EYE_OUTER: 33,
-    LEFT_EYE_INNER: 133,
-    RIGHT_EYE_TOP: 386,
-    RIGHT_EYE_BOTTOM: 374,
-    RIGHT_EYE_OUTER: 263,
-    RIGHT_EYE_INNER: 362,
-    
-    // Eyebrows
-    LEFT_EYEBROW_OUTER: 70,
-    LEFT_EYEBROW: 107,
-    LEFT_EYEBROW_INNER: 105,
-    RIGHT_EYEBROW_OUTER: 300,
-    RIGHT_EYEBROW: 336,
-    RIGHT_EYEBROW_INNER: 334,
-    
-    // Mouth
-    MOUTH_LEFT: 61,
-    MOUTH_RIGHT: 291,
-    UPPER_LIP: 13,
-    LOWER_LIP: 14,
-    UPPER_LIP_TOP: 0,
-    LOWER_LIP_BOTTOM: 17,
-    
-    // Face structure
-    NOSE_TIP: 4,
-    NOSE_BRIDGE: 6,
-    NOSE_LEFT: 285,
-    NOSE_RIGHT: 55,
-    CHIN: 152,
-    CHIN_LEFT: 149,
-    CHIN_RIGHT: 378,
-    FOREHEAD_TOP: 10,
-    FOREHEAD_MID: 151,
-    
-    // Cheeks
-    LEFT_CHEEK: 234,
-    RIGHT_CHEEK: 454,
-    LEFT_CHEEK_OUTER: 206,
-    RIGHT_CHEEK_OUTER: 426,
-    
-    // Jaw
-    JAW_LEFT: 207,
-    JAW_RIGHT: 427,
-    JAW_CENTER: 200
-};
+export interface FrameAnalysis {
+  features: FaceFeatures;         // Features measured on the normalized frame
+  pose: HeadPose;                 // Estimated head pose of the raw frame
+  normalized: LandmarkFrame;      // Landmarks in the canonical frontal frame
+  interocularDistance: number;    // Raw outer eye corner distance in frame heights (a proxy for camera distance)
+}
+
+// Width over height of the frames landmarks come from (set by whoever runs the tracker)
+let frameAspectRatio = 1;
+
+/**
+ * Set the aspect ratio of the frames being tracked, so normalization can undo
+ * MediaPipe's width-relative x and height-relative y
+ */
+export function setFrameAspectRatio(aspectRatio: number) {
+  frameAspectRatio = Number.isFinite(aspectRatio) && aspectRatio > 0 ? aspectRatio : 1;
+}
+
+export function getFrameAspectRatio(): number {
+  return frameAspectRatio;
+}
+
+// Validators, the stress score and the tracker often look at the same frame,
+// so keep the analysis per frame object instead of normalizing repeatedly
+const frameAnalysisCache = new WeakMap<LandmarkFrame, FrameAnalysis & { aspectRatio: number }>();
+
+/**
+ * Normalize a raw frame for head pose and scale, then extract its features
+ * Every validator and the stress score go through this first
+ */
+export function analyzeFrame(landmarks: LandmarkFrame): FrameAnalysis {
+  const cached = frameAnalysisCache.get(landmarks);
+  if (cached && cached.aspectRatio === frameAspectRatio) return cached;
+  
+  const { landmarks: normalized, pose, interocularDistance } = normalizeLandmarks(landmarks, frameAspectRatio);
+  const analysis = {
+    features: extractFeatures(normalized),
+    pose,
+    normalized,
+    interocularDistance,
+    aspectRatio: frameAspectRatio
+  };
+  
+  frameAnalysisCache.set(landmarks, analysis);
+  return analysis;
+}
 
 /**
  * Calculate stress level based on facial features
  * Returns a value between 0-1 where higher values indicate more stress
  * Enhanced with additional biometric indicators
+ * Compares against the user's calibrated neutral face when one is available
  */
-export function calculateStressLevel(landmarks: any): number {
+export function calculateStressLevel(
+  landmarks: LandmarkFrame | null,
+  baseline: Pick<FaceFeatures, 'eyeOpenness' | 'noseWidth' | 'jawRatio'> = activeCalibration?.neutral ?? DEFAULT_NEUTRAL_BASELINE
+): number {
   if (!landmarks) return 0.5; // Default neutral value if landmarks are unavailable
   
   // Gather key metrics that correlate with stress
+  const { features } = analyzeFrame(landmarks);
   
-  // 1. Measure eyebrow contraction (knitted brows indicate stress)
-  const leftBrowInner = landmarks[FACIAL_LANDMARKS.LEFT_EYEBROW_INNER];
-  const rightBrowInner = landmarks[FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER];
-  const leftBrowOuter = landmarks[FACIAL_LANDMARKS.LEFT_EYEBROW_OUTER];
-  const rightBrowOuter = landmarks[FACIAL_LANDMARKS.RIGHT_EYEBROW_OUTER];
-  const noseBridge = landmarks[FACIAL_LANDMARKS.NOSE_BRIDGE];
-  
-  // Calculate vertical position of brows relative to nose bridge
-  const browPinchFactor = Math.abs(
-    (leftBrowInner.y - noseBridge.y) + (rightBrowInner.y - noseBridge.y)
-  ) / 2;
-  
-  // Calculate brow asymmetry (can indicate tension)
-  const browAsymmetry = Math.abs(
-    (leftBrowOuter.y - leftBrowInner.y) - (rightBrowOuter.y - rightBrowInner.y)
-  );
-  
-  // 2. Measure mouth tension (tight lips indicate stress)
-  const mouthLeft = landmarks[FACIAL_LANDMARKS.MOUTH_LEFT];
-  const mouthRight = landmarks[FACIAL_LANDMARKS.MOUTH_RIGHT];
-  const upperLip = landmarks[FACIAL_LANDMARKS.UPPER_LIP];
-  const lowerLip = landmarks[FACIAL_LANDMARKS.LOWER_LIP];
-  
-  // Horizontal mouth width
-  const mouthWidth = Math.abs(mouthLeft.x - mouthRight.x);
-  
-  // Vertical mouth openness
-  const mouthOpenness = Math.abs(upperLip.y - lowerLip.y);
+  // 1. Eyebrow contraction (knitted brows indicate stress) and asymmetry (tension)
+  const browPinchFactor = features.browBridgeDistance;
+  const browAsymmetry = features.browArchAsymmetry;
   
+  // 2. Mouth tension (tight lips indicate stress)
   // Lip compression (tight lips)
-  const lipCompression = Math.min(0.05, mouthOpenness) / 0.05;
-  
-  // 3. Measure eye openness (wide eyes can indicate stress/fear)
-  const leftEyeOpening = Math.abs(
-    landmarks[FACIAL_LANDMARKS.LEFT_EYE_TOP].y - 
-    landmarks[FACIAL_LANDMARKS.LEFT_EYE_BOTTOM].y
-  );
-  const rightEyeOpening = Math.abs(
-    landmarks[FACIAL_LANDMARKS.RIGHT_EYE_TOP].y - 
-    landmarks[FACIAL_LANDMARKS.RIGHT_EYE_BOTTOM].y
-  );
-  const eyeOpenness = (leftEyeOpening + rightEyeOpening) / 2;
+  const lipCompression = Math.min(0.05, features.mouthOpenness) / 0.05;
   
+  // 3. Eye openness (wide eyes can indicate stress/fear)
   // Eye widening factor (both very wide and very narrow eyes can indicate stress)
-  const eyeWidenFactor = Math.abs(eyeOpenness - 0.03) * 10;
+  const eyeWidenFactor = Math.abs(features.eyeOpenness - baseline.eyeOpenness) * 10;
   
   // Eye asymmetry (can indicate tension)
-  const eyeAsymmetry = Math.abs(leftEyeOpening - rightEyeOpening) * 10;
+  const eyeAsymmetry = features.eyeAsymmetry * 10;
   
   // 4. Forehead smoothness (wrinkles indicate stress)
-  const foreheadTop = landmarks[FACIAL_LANDMARKS.FOREHEAD_TOP];
-  const foreheadMid = landmarks[FACIAL_LANDMARKS.FOREHEAD_MID];
-  const foreheadVariation = Math.abs(foreheadTop.y - foreheadMid.y);
+  const foreheadVariation = features.foreheadVariation;
   
   // 5. Jaw tension (tight jaw indicates stress)
-  const jawLeft = landmarks[FACIAL_LANDMARKS.JAW_LEFT];
-  const jawRight = landmarks[FACIAL_LANDMARKS.JAW_RIGHT];
-  const jawCenter = landmarks[FACIAL_LANDMARKS.JAW_CENTER];
-  
-  // Jaw clenching approximation
-  const jawWidth = Math.abs(jawLeft.x - jawRight.x);
-  const jawHeight = Math.abs(jawCenter.y - landmarks[FACIAL_LANDMARKS.CHIN].y);
-  const jawClenchFactor = (jawWidth / jawHeight) - 2.0;
+  // Jaw clenching approximation (wider-than-neutral jaw ratio)
+  const jawClenchFactor = features.jawRatio - baseline.jawRatio;
   
   // 6. Nose flaring (can indicate stress/anxiety)
-  const noseLeft = landmarks[FACIAL_LANDMARKS.NOSE_LEFT];
-  const noseRight = landmarks[FACIAL_LANDMARKS.NOSE_RIGHT];
-  const noseWidth = Math.abs(noseLeft.x - noseRight.x);
-  const noseFlaring = Math.max(0, (noseWidth - 0.15) * 5);
+  const noseFlaring = Math.max(0, (features.noseWidth - baseline.noseWidth) * 5);
   
   // Normalize and combine factors with appropriate weights based on research
   
   // Inverted mouth width - smaller width = higher stress
-  const mouthFactor = 1 - Math.min(1, mouthWidth * 3.5);
+  const mouthFactor = 1 - Math.min(1, features.mouthWidth * 3.5);
   
   // Higher eyebrow contraction = higher stress
   const eyebrowFactor = Math.min(1, (1 - browPinchFactor) * 5 + browAsymmetry * 3);
@@ -174,344 +141,200 @@ export function calculateStressLevel(landmarks: any): number {
   return Math.min(1, Math.max(0, stressLevel));
 }
 
+// Exercises are data records (src/exercises/*.json, see ExerciseRegistry.ts); this is their id
+export type ExerciseId = string;
+
+// Display names used throughout the UI, keyed by validator id
+export const EXERCISE_NAMES: Record<ExerciseId, string> = Object.fromEntries(
+  EXERCISES.map(exercise => [exercise.id, exercise.name])
+);
+
+export const EXERCISE_IDS: ExerciseId[] = EXERCISES.map(exercise => exercise.id);
+
 /**
- * Exercise validation functions
- * Each returns true if the exercise is performed correctly
- * Enhanced with more precise measurements and thresholds
+ * One measurable condition of an exercise
+ * calibration controls how a personal threshold is derived:
+ * - 'range':   a fraction of the way from the neutral face to the user's maximal attempt
+ * - 'neutral': the user's own neutral value plus a small tolerance (relaxation exercises)
+ * - 'none':    shape/symmetry checks that keep the fixed threshold
+ * rest is the value with no effort at all, where the graded score starts
  */
-export const ExerciseValidators = {
-  /**
-   * Jaw Dropper: Check if jaw is dropped enough
-   */
-  jawDropper: (landmarks: any): boolean => {
-    const chin = landmarks[FACIAL_LANDMARKS.CHIN];
-    const noseTip = landmarks[FACIAL_LANDMARKS.NOSE_TIP];
-    const upperLip = landmarks[FACIAL_LANDMARKS.UPPER_LIP];
-    const lowerLip = landmarks[FACIAL_LANDMARKS.LOWER_LIP];
-    
-    // Measure vertical distance between chin and nose
-    const jawDrop = Math.abs(chin.y - noseTip.y);
-    
-    // Measure mouth opening
-    const mouthOpening = Math.abs(upperLip.y - lowerLip.y);
-    
-    // Return true if jaw is dropped sufficiently AND mouth is open
-    return jawDrop > 0.22 && mouthOpening > 0.05;
-  },
-  
-  /**
-   * Brow Lifter: Check if eyebrows are raised
-   */
-  browLifter: (landmarks: any): boolean => {
-    const leftBrowOuter = landmarks[FACIAL_LANDMARKS.LEFT_EYEBROW_OUTER];
-    const leftBrowInner = landmarks[FACIAL_LANDMARKS.LEFT_EYEBROW_INNER];
-    const rightBrowOuter = landmarks[FACIAL_LANDMARKS.RIGHT_EYEBROW_OUTER];
-    const rightBrowInner = landmarks[FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER];
-    const noseTip = landmarks[FACIAL_LANDMARKS.NOSE_TIP];
-    
-    // Calculate average eyebrow height relative to nose
-    const leftBrowHeight = (noseTip.y - leftBrowOuter.y + noseTip.y - leftBrowInner.y) / 2;
-    const rightBrowHeight = (noseTip.y - rightBrowOuter.y + noseTip.y - rightBrowInner.y) / 2;
-    const browHeight = (leftBrowHeight + rightBrowHeight) / 2;
-    
-    // Check for symmetry (both eyebrows should be raised)
-    const symmetry = Math.abs(leftBrowHeight - rightBrowHeight) < 0.03;
-    
-    // Return true if brows are lifted enough and relatively symmetrical
-    return browHeight > 0.15 && symmetry;
-  },
-  
-  /**
-   * Cheek Puffer: Check if cheeks are puffed out
-   */
-  cheekPuffer: (landmarks: any): boolean => {
-    const leftCheek = landmarks[FACIAL_LANDMARKS.LEFT_CHEEK];
-    const rightCheek = landmarks[FACIAL_LANDMARKS.RIGHT_CHEEK];
-    const leftCheekOuter = landmarks[FACIAL_LANDMARKS.LEFT_CHEEK_OUTER];
-    const rightCheekOuter = landmarks[FACIAL_LANDMARKS.RIGHT_CHEEK_OUTER];
-    
-    // Measure the width between cheeks
-    const cheekWidth = Math.abs(leftCheek.x - rightCheek.x);
-    
-    // Measure cheek protrusion (z-axis)
-    const leftProtrusion = leftCheek.z - leftCheekOuter.z;
-    const rightProtrusion = rightCheek.z - rightCheekOuter.z;
-    const cheekProtrusion = (leftProtrusion + rightProtrusion) / 2;
-    
-    // Return true if cheeks are puffed enough (wide and protruding)
-    return cheekWidth > 0.25 && cheekProtrusion < -0.01;
-  },
-  
-  /**
-   * Eye Winker: Check for asymmetrical eye closure (winking)
-   */
-  eyeWinker: (landmarks: any): boolean => {
-    const leftEyeOpening = Math.abs(
-      landmarks[FACIAL_LANDMARKS.LEFT_EYE_TOP].y - 
-      landmarks[FACIAL_LANDMARKS.LEFT_EYE_BOTTOM].y
-    );
-    
-    const rightEyeOpening = Math.abs(
-      landmarks[FACIAL_LANDMARKS.RIGHT_EYE_TOP].y - 
-      landmarks[FACIAL_LANDMARKS.RIGHT_EYE_BOTTOM].y
-    );
-    
-    // Calculate difference between eye openings
-    const asymmetry = Math.abs(leftEyeOpening - rightEyeOpening);
-    
-    // Check that one eye is open and one is closed
-    const oneEyeClosed = Math.min(leftEyeOpening, rightEyeOpening) < 0.01;
-    const oneEyeOpen = Math.max(leftEyeOpening, rightEyeOpening) > 0.02;
-    
-    // Return true if one eye is significantly more closed (winking)
-    return asymmetry > 0.02 && oneEyeClosed && oneEyeOpen;
-  },
-  
-  /**
-   * Smiley Stretch: Check for a wide smile
-   */
-  smileyStretch: (landmarks: any): boolean => {
-    const mouthLeft = landmarks[FACIAL_LANDMARKS.MOUTH_LEFT];
-    const mouthRight = landmarks[FACIAL_LANDMARKS.MOUTH_RIGHT];
-    const upperLip = landmarks[FACIAL_LANDMARKS.UPPER_LIP];
-    const lowerLip = landmarks[FACIAL_LANDMARKS.LOWER_LIP];
-    
-    // Measure mouth width
-    const mouthWidth = Math.abs(mouthLeft.x - mouthRight.x);
-    
-    // Check for upturned corners (smile shape)
-    const mouthCornerHeight = (mouthLeft.y + mouthRight.y) / 2;
-    const lipCenterHeight = (upperLip.y + lowerLip.y) / 2;
-    const smileShape = mouthCornerHeight < lipCenterHeight;
-    
-    // Return true if smile is wide enough and has upturned corners
-    return mouthWidth > 0.3 && smileShape;
-  },
-  
-  /**
-   * Nose Scruncher: Check if nose is scrunched
-   */
-  noseScruncher: (landmarks: any): boolean => {
-    const noseTip = landmarks[FACIAL_LANDMARKS.NOSE_TIP];
-    const noseBridge = landmarks[FACIAL_LANDMARKS.NOSE_BRIDGE];
-    const leftBrowInner = landmarks[FACIAL_LANDMARKS.LEFT_EYEBROW_INNER];
-    const rightBrowInner = landmarks[FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER];
-    
-    // When nose is scrunched, distance between tip and bridge decreases
-    const noseLength = Math.abs(noseTip.y - noseBridge.y);
-    
-    // Brows typically move down/together when scrunching nose
-    const browPinch = Math.abs(leftBrowInner.x - rightBrowInner.x);
-    
-    // Return true if nose is scrunched (reduced length) and brows are pinched
-    return noseLength < 0.025 && browPinch < 0.08;
-  },
-  
-  /**
-   * Lip Pucker: Check if lips are pursed forward
-   */
-  lipPucker: (landmarks: any): boolean => {
-    const upperLip = landmarks[FACIAL_LANDMARKS.UPPER_LIP];
-    const lowerLip = landmarks[FACIAL_LANDMARKS.LOWER_LIP];
-    const upperLipTop = landmarks[FACIAL_LANDMARKS.UPPER_LIP_TOP];
-    const lowerLipBottom = landmarks[FACIAL_LANDMARKS.LOWER_LIP_BOTTOM];
-    const mouthLeft = landmarks[FACIAL_LANDMARKS.MOUTH_LEFT];
-    const mouthRight = landmarks[FACIAL_LANDMARKS.MOUTH_RIGHT];
-    
-    // When lips are pursed, mouth width decreases
-    const mouthWidth = Math.abs(mouthLeft.x - mouthRight.x);
-    
-    // Lip height increases during pucker
-    const lipHeight = Math.abs(upperLipTop.y - lowerLipBottom.y);
-    
-    // Lip protrusion is detected by forward position (negative Z value)
-    const lipProtrusion = (upperLip.z + lowerLip.z) / 2;
-    
-    // Return true if mouth is narrow, lips protrude, and lip height increases
-    return mouthWidth < 0.15 && lipProtrusion < -0.01 && lipHeight > 0.04;
-  },
+export interface ExerciseCriterion {
+  feature: FeatureName;
+  comparison: 'above' | 'below';
+  threshold: number;
+  rest: number;
+  calibration: 'range' | 'neutral' | 'none';
+}
+
+/**
+ * Default exercise criteria, used until the user runs a calibration session
+ * An exercise is performed correctly when every criterion is met
+ */
+export const DEFAULT_EXERCISE_CRITERIA: Record<ExerciseId, ExerciseCriterion[]> = Object.fromEntries(
+  EXERCISES.map(exercise => [exercise.id, exercise.criteria])
+);
+
+/**
+ * Whether an exercise's target is the resting face (its criteria are calibrated to
+ * the user's neutral face), so there's nothing to let go of between reps
+ */
+export function isRelaxationExercise(exerciseId: ExerciseId): boolean {
+  return (DEFAULT_EXERCISE_CRITERIA[exerciseId] ?? []).some(criterion => criterion.calibration === 'neutral');
+}
+
+// Neutral-face values the stress heuristic compares against when no calibration exists
+export const DEFAULT_NEUTRAL_BASELINE: Pick<FaceFeatures, 'eyeOpenness' | 'noseWidth' | 'jawRatio'> = {
+  eyeOpenness: 0.03,
+  noseWidth: 0.15,
+  jawRatio: 2.0
+};
+
+// Calibration profile in use (null = defaults)
+let activeCalibration: CalibrationProfile | null = null;
+
+export function setActiveCalibration(profile: CalibrationProfile | null) {
+  activeCalibration = profile;
+}
+
+export function getActiveCalibration(): CalibrationProfile | null {
+  return activeCalibration;
+}
+
+/**
+ * Get the criteria for an exercise, with personal thresholds applied when calibrated
+ */
+export function getExerciseCriteria(exerciseId: ExerciseId): ExerciseCriterion[] {
+  const personal = activeCalibration?.thresholds[exerciseId];
   
-  /**
-   * Chin Jutter: Check if chin is jutted forward
-   */
-  chinJutter: (landmarks: any): boolean => {
-    const chin = landmarks[FACIAL_LANDMARKS.CHIN];
-    const noseTip = landmarks[FACIAL_LANDMARKS.NOSE_TIP];
-    const chinLeft = landmarks[FACIAL_LANDMARKS.CHIN_LEFT];
-    const chinRight = landmarks[FACIAL_LANDMARKS.CHIN_RIGHT];
-    
-    // Chin jutting creates a negative Z difference relative to nose
-    const chinProtrusion = noseTip.z - chin.z;
-    
-    // Chin width typically narrows slightly when jutting forward
-    const chinWidth = Math.abs(chinLeft.x - chinRight.x);
-    const normalChinWidth = 0.2; // Approximate normalized width
-    const chinNarrowing = chinWidth < normalChinWidth;
-    
-    // Return true if chin is protruding forward enough
-    return chinProtrusion > 0.015 && chinNarrowing;
-  },
+  return DEFAULT_EXERCISE_CRITERIA[exerciseId].map(criterion => {
+    const threshold = personal?.[criterion.feature];
+    return threshold !== undefined ? { ...criterion, threshold } : criterion;
+  });
+}
+
+function meetsCriterion(features: FaceFeatures, criterion: ExerciseCriterion): boolean {
+  const value = features[criterion.feature];
+  return criterion.comparison === 'above' ? value > criterion.threshold : value < criterion.threshold;
+}
+
+// Score (0-100) an exercise has to reach to count as performed
+export const EXERCISE_PASS_SCORE = 70;
+
+export interface CriterionScore {
+  feature: FeatureName;
+  score: number;  // 0-100, EXERCISE_PASS_SCORE exactly at the threshold
+  met: boolean;
+}
+
+export interface ExerciseScore {
+  score: number;      // 0-100, the weakest criterion
+  passed: boolean;    // Every criterion met
+  passScore: number;
+  criteria: CriterionScore[];
+}
+
+/**
+ * Where a criterion's graded score starts: the user's calibrated neutral face for
+ * 'range' criteria, otherwise the default no-effort value
+ */
+function getCriterionRest(criterion: ExerciseCriterion): number {
+  if (criterion.calibration === 'range' && activeCalibration) {
+    return activeCalibration.neutral[criterion.feature];
+  }
+  return criterion.rest;
+}
+
+/**
+ * Grade one criterion: 0 at rest, EXERCISE_PASS_SCORE at the threshold,
+ * 100 a bit beyond it (the same distance again scaled by the remaining points)
+ */
+function scoreCriterion(features: FaceFeatures, criterion: ExerciseCriterion): CriterionScore {
+  const met = meetsCriterion(features, criterion);
+  const rest = getCriterionRest(criterion);
+  const span = criterion.threshold - rest;
+  const towardTarget = criterion.comparison === 'above' ? span > 0 : span < 0;
+  
+  // A rest value on the wrong side of the threshold can't be graded, so fall back to pass/fail
+  if (!towardTarget) {
+    return { feature: criterion.feature, score: met ? 100 : 0, met };
+  }
   
-  /**
-   * Forehead Smoother: Check for minimal forehead movement/wrinkles
-   */
-  foreheadSmoother: (landmarks: any): boolean => {
-    const foreheadTop = landmarks[FACIAL_LANDMARKS.FOREHEAD_TOP];
-    const foreheadMid = landmarks[FACIAL_LANDMARKS.FOREHEAD_MID];
-    const leftBrow = landmarks[FACIAL_LANDMARKS.LEFT_EYEBROW];
-    const rightBrow = landmarks[FACIAL_LANDMARKS.RIGHT_EYEBROW];
-    
-    // Measure forehead variation (wrinkles create more variation)
-    const verticalVariation = Math.abs(foreheadTop.y - foreheadMid.y);
-    
-    // Eyebrows should be in neutral position (not raised or furrowed)
-    const browNeutralPosition = Math.abs(leftBrow.y - rightBrow.y) < 0.01;
-    
-    // Return true if forehead is smooth (minimal variation) and brows neutral
-    return verticalVariation < 0.005 && browNeutralPosition;
-  },
+  const progress = (features[criterion.feature] - rest) / span;
+  const score = Math.min(100, Math.max(0, progress * EXERCISE_PASS_SCORE));
   
-  /**
-   * Tongue Twister: Check for open mouth with tongue extension
-   * Note: MediaPipe doesn't directly track the tongue, so we use proxies
-   */
-  tongueTwister: (landmarks: any): boolean => {
-    const upperLip = landmarks[FACIAL_LANDMARKS.UPPER_LIP];
-    const lowerLip = landmarks[FACIAL_LANDMARKS.LOWER_LIP];
-    const upperLipTop = landmarks[FACIAL_LANDMARKS.UPPER_LIP_TOP];
-    const lowerLipBottom = landmarks[FACIAL_LANDMARKS.LOWER_LIP_BOTTOM];
-    
-    // Measure mouth opening
-    const mouthOpening = Math.abs(upperLip.y - lowerLip.y);
-    
-    // Total mouth height (should be large for tongue out)
-    const totalMouthHeight = Math.abs(upperLipTop.y - lowerLipBottom.y);
-    
-    // Chin typically drops when sticking tongue out
-    const chinDrop = landmarks[FACIAL_LANDMARKS.CHIN].y - lowerLipBottom.y;
-    
-    // Return true if mouth is very open with significant chin drop
-    return mouthOpening > 0.1 && totalMouthHeight > 0.15 && chinDrop > 0.03;
-  }
+  // Keep the score consistent with the pass/fail check right at the threshold
+  return {
+    feature: criterion.feature,
+    score: met ? Math.max(score, EXERCISE_PASS_SCORE) : Math.min(score, EXERCISE_PASS_SCORE - 1),
+    met
+  };
+}
+
+/**
+ * Grade how far toward the target the face is for an exercise
+ * The overall score is the weakest criterion, so it only reaches the pass score when all are met
+ */
+export function scoreExercise(exerciseId: ExerciseId, landmarks: LandmarkFrame): ExerciseScore {
+  const { features } = analyzeFrame(landmarks);
+  const criteria = getExerciseCriteria(exerciseId).map(criterion => scoreCriterion(features, criterion));
+  
+  return {
+    score: Math.round(Math.min(...criteria.map(criterion => criterion.score))),
+    passed: criteria.every(criterion => criterion.met),
+    passScore: EXERCISE_PASS_SCORE,
+    criteria
+  };
+}
+
+// Build a validator that checks every criterion of an exercise on the normalized frame
+const createValidator = (exerciseId: ExerciseId) => (landmarks: LandmarkFrame): boolean => {
+  const { features } = analyzeFrame(landmarks);
+  return getExerciseCriteria(exerciseId).every(criterion => meetsCriterion(features, criterion));
 };
 
+/**
+ * Exercise validation functions
+ * Each returns true if the exercise is performed correctly
+ * Thresholds come from DEFAULT_EXERCISE_CRITERIA or the user's calibration
+ */
+export const ExerciseValidators: Record<ExerciseId, (landmarks: LandmarkFrame) => boolean> = {};
+for (const exerciseId of EXERCISE_IDS) {
+  ExerciseValidators[exerciseId] = createValidator(exerciseId);
+}
+
 /**
  * Get a standardized description of facial exercise positions
  */
 export function getExerciseInstructions(exerciseName: string): string {
-  const instructions: Record<string, string> = {
-    "Jaw Dropper": "Open your mouth wide, dropping your jaw as far as comfortable.",
-    "Brow Lifter": "Raise your eyebrows high, as if surprised.",
-    "Cheek Puffer": "Puff your cheeks out with air, hold, then release.",
-    "Eye Winker": "Wink one eye, then the other. Keep alternating.",
-    "Smiley Stretch": "Smile as wide as possible, showing your teeth.",
-    "Nose Scruncher": "Scrunch your nose up like you smell something bad.",
-    "Lip Pucker": "Pucker your lips forward as if giving a kiss.",
-    "Chin Jutter": "Jut your chin forward, extending it away from your neck.",
-    "Forehead Smoother": "Relax your forehead completely, removing all wrinkles.",
-    "Tongue Twister": "Open your mouth and stick your tongue out as far as possible."
-  };
-  
-  return instructions[exerciseName] || "Follow the on-screen guidance.";
+  return getExerciseByName(exerciseName)?.instructions ?? "Follow the on-screen guidance.";
 }
 
 /**
  * Get exercise benefits for CBT and stress reduction
  */
 export function getExerciseBenefits(exerciseName: string): string {
-  const benefits: Record<string, string> = {
-    "Jaw Dropper": "Releases tension in the jaw, a common stress holding area. Improves blood flow to facial muscles.",
-    "Brow Lifter": "Reduces forehead tension and headaches. Activates muscles associated with positive surprise emotions.",
-    "Cheek Puffer": "Strengthens facial muscles and promotes awareness of tension patterns. Creates a playful mindset.",
-    "Eye Winker": "Improves eye muscle control and reduces eye strain from digital devices. Engages playfulness.",
-    "Smiley Stretch": "Activates the same neural pathways as genuine happiness, triggering positive emotion feedback loops.",
-    "Nose Scruncher": "Releases tension in the central face area. Engages mindfulness through focused muscle control.",
-    "Lip Pucker": "Improves circulation to lips and mouth area. Activates muscles rarely used in daily expressions.",
-    "Chin Jutter": "Strengthens jawline and releases neck tension. Embodies confidence through posture adjustment.",
-    "Forehead Smoother": "Trains conscious relaxation of worry-expressing muscles. Essential for appearing and feeling calm.",
-    "Tongue Twister": "Releases tension in the tongue and throat. Improves vocal resonance and speech clarity under stress."
-  };
-  
-  return benefits[exerciseName] || "This exercise helps reduce facial tension and promote mindfulness.";
+  return getExerciseByName(exerciseName)?.benefits ?? "This exercise helps reduce facial tension and promote mindfulness.";
 }
 
+// Which way an exercise moves, and the facial region it moves
+export type VisualDirection = 'up' | 'down' | 'left' | 'right' | 'in' | 'out' | 'open' | 'close' | 'none';
+export type VisualPosition = 'mouth' | 'eyes' | 'eyebrows' | 'cheeks' | 'chin' | 'forehead' | 'nose' | 'tongue';
+
 /**
  * Get visual direction instructions for each exercise
  * Returns an object with direction, position, and description for visual aids
  */
 export function getExerciseVisualDirection(exerciseName: string): { 
-  direction: 'up' | 'down' | 'left' | 'right' | 'in' | 'out' | 'open' | 'close' | 'none',
-  position: 'mouth' | 'eyes' | 'eyebrows' | 'cheeks' | 'chin' | 'forehead' | 'nose' | 'tongue',
+  direction: VisualDirection,
+  position: VisualPosition,
   description: string
 } {
-  switch(exerciseName) {
-    case "Jaw Dropper":
-      return {
-        direction: 'down',
-        position: 'mouth',
-        description: 'Drop your jaw down'
-      };
-    case "Brow Lifter":
-      return {
-        direction: 'up',
-        position: 'eyebrows',
-        description: 'Raise your eyebrows'
-      };
-    case "Cheek Puffer":
-      return {
-        direction: 'out',
-        position: 'cheeks',
-        description: 'Puff your cheeks out'
-      };
-    case "Eye Winker":
-      return {
-        direction: 'close',
-        position: 'eyes',
-        description: 'Close one eye'
-      };
-    case "Smiley Stretch":
-      return {
-        direction: 'out',
-        position: 'mouth',
-        description: 'Stretch your smile wide'
-      };
-    case "Nose Scruncher":
-      return {
-        direction: 'in',
-        position: 'nose',
-        description: 'Scrunch your nose'
-      };
-    case "Lip Pucker":
-      return {
-        direction: 'in',
-        position: 'mouth',
-        description: 'Pucker your lips'
-      };
-    case "Chin Jutter":
-      return {
-        direction: 'out',
-        position: 'chin',
-        description: 'Jut your chin forward'
-      };
-    case "Forehead Smoother":
-      return {
-        direction: 'none',
-        position: 'forehead',
-        description: 'Relax your forehead'
-      };
-    case "Tongue Twister":
-      return {
-        direction: 'out',
-        position: 'tongue',
-        description: 'Stick your tongue out'
-      };
-    default:
-      return {
-        direction: 'none',
-        position: 'mouth',
-        description: 'Follow the exercise instructions'
-      };
-  }
+  return getExerciseByName(exerciseName)?.visual ?? {
+    direction: 'none',
+    position: 'mouth',
+    description: 'Follow the exercise instructions'
+  };
 }
 
 /**
@@ -519,82 +342,5 @@ export function getExerciseVisualDirection(exerciseName: string): {
  * This helps in isolating the specific facial area for validation
  */
 export function getExerciseFocusPoints(exerciseName: string): number[] {
-  switch(exerciseName) {
-    case "Jaw Dropper":
-      return [
-        FACIAL_LANDMARKS.CHIN, 
-        FACIAL_LANDMARKS.NOSE_TIP, 
-        FACIAL_LANDMARKS.UPPER_LIP, 
-        FACIAL_LANDMARKS.LOWER_LIP
-      ];
-    case "Brow Lifter":
-      return [
-        FACIAL_LANDMARKS.LEFT_EYEBROW_OUTER,
-        FACIAL_LANDMARKS.LEFT_EYEBROW_INNER,
-        FACIAL_LANDMARKS.RIGHT_EYEBROW_OUTER,
-        FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER,
-        FACIAL_LANDMARKS.NOSE_TIP
-      ];
-    case "Cheek Puffer":
-      return [
-        FACIAL_LANDMARKS.LEFT_CHEEK,
-        FACIAL_LANDMARKS.RIGHT_CHEEK,
-        FACIAL_LANDMARKS.LEFT_CHEEK_OUTER,
-        FACIAL_LANDMARKS.RIGHT_CHEEK_OUTER
-      ];
-    case "Eye Winker":
-      return [
-        FACIAL_LANDMARKS.LEFT_EYE_TOP,
-        FACIAL_LANDMARKS.LEFT_EYE_BOTTOM,
-        FACIAL_LANDMARKS.RIGHT_EYE_TOP,
-        FACIAL_LANDMARKS.RIGHT_EYE_BOTTOM
-      ];
-    case "Smiley Stretch":
-      return [
-        FACIAL_LANDMARKS.MOUTH_LEFT,
-        FACIAL_LANDMARKS.MOUTH_RIGHT,
-        FACIAL_LANDMARKS.UPPER_LIP,
-        FACIAL_LANDMARKS.LOWER_LIP
-      ];
-    case "Nose Scruncher":
-      return [
-        FACIAL_LANDMARKS.NOSE_TIP,
-        FACIAL_LANDMARKS.NOSE_BRIDGE,
-        FACIAL_LANDMARKS.LEFT_EYEBROW_INNER,
-        FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER
-      ];
-    case "Lip Pucker":
-      return [
-        FACIAL_LANDMARKS.UPPER_LIP,
-        FACIAL_LANDMARKS.LOWER_LIP,
-        FACIAL_LANDMARKS.UPPER_LIP_TOP,
-        FACIAL_LANDMARKS.LOWER_LIP_BOTTOM,
-        FACIAL_LANDMARKS.MOUTH_LEFT,
-        FACIAL_LANDMARKS.MOUTH_RIGHT
-      ];
-    case "Chin Jutter":
-      return [
-        FACIAL_LANDMARKS.CHIN,
-        FACIAL_LANDMARKS.NOSE_TIP,
-        FACIAL_LANDMARKS.CHIN_LEFT,
-        FACIAL_LANDMARKS.CHIN_RIGHT
-      ];
-    case "Forehead Smoother":
-      return [
-        FACIAL_LANDMARKS.FOREHEAD_TOP,
-        FACIAL_LANDMARKS.FOREHEAD_MID,
-        FACIAL_LANDMARKS.LEFT_EYEBROW,
-        FACIAL_LANDMARKS.RIGHT_EYEBROW
-      ];
-    case "Tongue Twister":
-      return [
-        FACIAL_LANDMARKS.UPPER_LIP,
-        FACIAL_LANDMARKS.LOWER_LIP,
-        FACIAL_LANDMARKS.UPPER_LIP_TOP,
-        FACIAL_LANDMARKS.LOWER_LIP_BOTTOM,
-        FACIAL_LANDMARKS.CHIN
-      ];
-    default:
-      return [];
-  }
-}
\ No newline at end of file
+  return getExerciseByName(exerciseName)?.focusPoints ?? [];
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { assessFraming, FramingCoach, measureFaceBox, measureLighting } from './FramingCoach';
+import type { FaceBox } from './FramingCoach';
+import { ExerciseProtocolTracker } from './ExerciseProtocol';
+import { createSyntheticFace } from './SyntheticFaces';
+
+const WIDTH = 64;
+const HEIGHT = 48;
+
+// RGBA frame with luma face inside the box and background everywhere else
+function createFrame(background: number, face: number, box: FaceBox | null = null): Uint8ClampedArray {
+  const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const u = (x + 0.5) / WIDTH;
+      const v = (y + 0.5) / HEIGHT;
+      const inFace = box && u >= box.minX && u <= box.maxX && v >= box.minY && v <= box.maxY;
+      // Checkerboard texture so the frame has some contrast
+      const value = (inFace ? face : background) + ((x + y) % 2 ? 20 : -20);
+      pixels.set([value, value, value, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return pixels;
+}
+
+describe('assessFraming', () => {
+  it('accepts a centered face at a comfortable distance', () => {
+    const assessment = assessFraming(measureFaceBox(createSyntheticFace()), null);
+    expect(assessment.ok).toBe(true);
+    expect(assessment.issues).toEqual([]);
+  });
+
+  it('points toward the center as seen in the mirrored preview', () => {
+    // Face on the left of the camera image shows up on the right of the mirrored preview
+    const left = assessFraming(measureFaceBox(createSyntheticFace({}, { x: 0.3 })), null);
+    expect(left.primary).toBe('offCenter');
+    expect(left.direction).toBe('left');
+    expect(left.message).toBe("Center your face, fam!");
+
+    const unmirrored = assessFraming(measureFaceBox(createSyntheticFace({}, { x: 0.3 })), null, undefined, false);
+    expect(unmirrored.direction).toBe('right');
+
+    const low = assessFraming(measureFaceBox(createSyntheticFace({}, { y: 0.7 })), null);
+    expect(low.direction).toBe('up');
+  });
+
+  it('asks to move closer or back up', () => {
+    const far = assessFraming(measureFaceBox(createSyntheticFace({}, { scale: 0.7 })), null);
+    expect(far.primary).toBe('tooFar');
+    expect(far.direction).toBe('closer');
+
+    const close = assessFraming(measureFaceBox(createSyntheticFace({}, { scale: 2.5 })), null);
+    expect(close.primary).toBe('tooClose');
+    expect(close.direction).toBe('back');
+  });
+
+  it('flags dark and backlit frames before anything else', () => {
+    const box = measureFaceBox(createSyntheticFace({}, { x: 0.3 }));
+
+    const dark = assessFraming(box, measureLighting(createFrame(25, 30, box), WIDTH, HEIGHT, box));
+    expect(dark.primary).toBe('tooDark');
+    expect(dark.direction).toBeNull();
+
+    const backlit = assessFraming(box, measureLighting(createFrame(220, 70, box), WIDTH, HEIGHT, box));
+    expect(backlit.primary).toBe('backlit');
+    expect(backlit.issues).toContain('offCenter');
+  });
+
+  it('only advises on flat lighting', () => {
+    const box = measureFaceBox(createSyntheticFace());
+    const flat = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(128);
+
+    const assessment = assessFraming(box, measureLighting(flat, WIDTH, HEIGHT, box));
+    expect(assessment.primary).toBe('lowContrast');
+    expect(assessment.ok).toBe(true);
+  });
+});
+
+describe('measureLighting', () => {
+  it('separates the face from the background', () => {
+    const box = measureFaceBox(createSyntheticFace());
+    const lighting = measureLighting(createFrame(200, 100, box), WIDTH, HEIGHT, box);
+
+    expect(lighting.faceBrightness).toBeCloseTo(100, 0);
+    expect(lighting.backgroundBrightness).toBeCloseTo(200, 0);
+    expect(lighting.contrast).toBeGreaterThan(20);
+    expect(measureLighting(createFrame(200, 100), WIDTH, HEIGHT).faceBrightness).toBeNull();
+  });
+});
+
+describe('FramingCoach', () => {
+  const centered = createSyntheticFace();
+  const offCenter = createSyntheticFace({}, { x: 0.25 });
+
+  it('pauses only after an issue persists, and resumes once it is fixed', () => {
+    const coach = new FramingCoach({ settleMs: 600, recoverMs: 400 });
+
+    expect(coach.update(offCenter, 0).paused).toBe(false);
+    expect(coach.update(offCenter, 500).paused).toBe(false);
+    expect(coach.update(offCenter, 700).paused).toBe(true);
+
+    expect(coach.update(centered, 800).paused).toBe(true);
+    expect(coach.update(centered, 1300).paused).toBe(false);
+  });
+
+  it('ignores a single badly framed frame', () => {
+    const coach = new FramingCoach();
+    const paused = [0, 100, 200, 300, 400, 500, 600, 700, 800].map(t =>
+      coach.update(t === 300 ? offCenter : centered, t).paused
+    );
+    expect(paused.some(Boolean)).toBe(false);
+  });
+});
+
+describe('ExerciseProtocolTracker.interrupt', () => {
+  it('drops a hold in progress without counting a rep', () => {
+    const tracker = new ExerciseProtocolTracker({ reps: 2, holdMs: 1000, restMs: 0, sets: 1 });
+    tracker.update(90, 0);
+    tracker.update(90, 500);
+
+    const snapshot = tracker.interrupt(600);
+    expect(snapshot.phase).toBe('active');
+    expect(snapshot.shortReps).toBe(0);
+    expect(snapshot.validReps).toBe(0);
+
+    // Resuming later starts a fresh hold
+    expect(tracker.update(90, 2000).snapshot.phase).toBe('hold');
+  });
+});
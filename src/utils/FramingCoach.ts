@@ -0,0 +1,316 @@
+/**
+ * FramingCoach.ts
+ *
+ * Checks that the user is set up well enough to be measured: face centered,
+ * at a sensible distance, and lit from the front. Face position and size come
+ * from the landmarks; brightness and contrast from a tiny downscaled copy of
+ * the video frame. Problems have to persist briefly before the coach pauses
+ * validation, so a single bad frame doesn't interrupt a rep.
+ */
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+/**
+ * What's wrong with the setup, most important first
+ * lowContrast is advisory: it's reported but doesn't pause validation
+ */
+export type FramingIssue = 'tooDark' | 'backlit' | 'offCenter' | 'tooClose' | 'tooFar' | 'lowContrast';
+
+const ISSUE_PRIORITY: FramingIssue[] = ['tooDark', 'backlit', 'offCenter', 'tooClose', 'tooFar', 'lowContrast'];
+const ADVISORY_ISSUES: FramingIssue[] = ['lowContrast'];
+
+export const FRAMING_MESSAGES: Record<FramingIssue, string> = {
+  tooDark: "Too dark, fam—find some light!",
+  backlit: "Backlit! Face the light, not the window.",
+  offCenter: "Center your face, fam!",
+  tooClose: "Back up a bit, glow boss!",
+  tooFar: "Get closer, vibe star!",
+  lowContrast: "Lighting's flat—brighten up the room!"
+};
+
+// Which way to move, as seen in the mirrored preview
+export type FramingDirection = 'left' | 'right' | 'up' | 'down' | 'closer' | 'back';
+
+// Face bounding box in normalized image coordinates
+export interface FaceBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+}
+
+// Luma (0-255) of the frame, the face and everything around it
+export interface LightingStats {
+  brightness: number;            // Mean over the whole frame
+  contrast: number;              // Standard deviation over the whole frame
+  faceBrightness: number | null; // Mean inside the face box (null without a face)
+  backgroundBrightness: number | null;
+}
+
+export interface FramingThresholds {
+  maxOffsetX: number;         // Largest horizontal offset of the face center (fraction of the width)
+  maxOffsetY: number;         // Largest vertical offset (fraction of the height)
+  minFaceWidth: number;       // Face width range, as a fraction of the frame width
+  maxFaceWidth: number;
+  minBrightness: number;      // Frame luma below this is too dark
+  minContrast: number;        // Luma spread below this looks washed out
+  backlitRatio: number;       // Face darker than this share of the background is backlit...
+  backlitBackground: number;  // ...when the background is at least this bright
+}
+
+// Roughly the original spec's 50px centering tolerance on a 640x480 preview
+export const DEFAULT_FRAMING_THRESHOLDS: FramingThresholds = {
+  maxOffsetX: 0.08,
+  maxOffsetY: 0.1,
+  minFaceWidth: 0.25,
+  maxFaceWidth: 0.65,
+  minBrightness: 50,
+  minContrast: 12,
+  backlitRatio: 0.6,
+  backlitBackground: 140
+};
+
+export interface FramingAssessment {
+  ok: boolean;                    // No issue that should pause validation
+  issues: FramingIssue[];         // Every issue found, most important first
+  primary: FramingIssue | null;
+  direction: FramingDirection | null;
+  message: string | null;
+  box: FaceBox | null;
+  lighting: LightingStats | null;
+}
+
+export interface FramingStatus {
+  paused: boolean;                // Validation should wait for better framing
+  assessment: FramingAssessment;  // This frame's assessment
+}
+
+export interface FramingCoachOptions {
+  thresholds: FramingThresholds;
+  mirrored: boolean;  // The preview is shown mirrored, so left and right swap
+  settleMs: number;   // How long an issue has to last before validation pauses
+  recoverMs: number;  // How long framing has to be fine again before it resumes
+}
+
+const DEFAULT_COACH_OPTIONS: FramingCoachOptions = {
+  thresholds: DEFAULT_FRAMING_THRESHOLDS,
+  mirrored: true,
+  settleMs: 600,
+  recoverMs: 400
+};
+
+export function measureFaceBox(landmarks: LandmarkFrame): FaceBox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const { x, y } of landmarks) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return {
+    minX, minY, maxX, maxY,
+    centerX: (minX + maxX) / 2,
+    centerY: (minY + maxY) / 2,
+    width: maxX - minX,
+    height: maxY - minY
+  };
+}
+
+/**
+ * Brightness and contrast of RGBA pixels, split into the face box and the rest
+ */
+export function measureLighting(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  box: FaceBox | null = null
+): LightingStats {
+  let sum = 0;
+  let sumSquares = 0;
+  let faceSum = 0;
+  let faceCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+      sum += luma;
+      sumSquares += luma * luma;
+
+      const u = (x + 0.5) / width;
+      const v = (y + 0.5) / height;
+      if (box && u >= box.minX && u <= box.maxX && v >= box.minY && v <= box.maxY) {
+        faceSum += luma;
+        faceCount++;
+      }
+    }
+  }
+
+  const count = width * height;
+  const brightness = count > 0 ? sum / count : 0;
+  const backgroundCount = count - faceCount;
+
+  return {
+    brightness,
+    contrast: count > 0 ? Math.sqrt(Math.max(0, sumSquares / count - brightness * brightness)) : 0,
+    faceBrightness: faceCount > 0 ? faceSum / faceCount : null,
+    backgroundBrightness: box && backgroundCount > 0 ? (sum - faceSum) / backgroundCount : null
+  };
+}
+
+// Lighting is measured on a tiny copy of the frame; that's plenty for averages
+const LIGHTING_SAMPLE_WIDTH = 64;
+const LIGHTING_SAMPLE_HEIGHT = 48;
+let lightingCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Measure the lighting of the video's current frame (null when it isn't playing)
+ */
+export function readVideoLighting(video: HTMLVideoElement | null, box: FaceBox | null = null): LightingStats | null {
+  if (!video || video.readyState < 2 || !video.videoWidth) return null;
+
+  if (!lightingCanvas) {
+    lightingCanvas = document.createElement('canvas');
+    lightingCanvas.width = LIGHTING_SAMPLE_WIDTH;
+    lightingCanvas.height = LIGHTING_SAMPLE_HEIGHT;
+  }
+  const ctx = lightingCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, LIGHTING_SAMPLE_WIDTH, LIGHTING_SAMPLE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, LIGHTING_SAMPLE_WIDTH, LIGHTING_SAMPLE_HEIGHT);
+  return measureLighting(data, LIGHTING_SAMPLE_WIDTH, LIGHTING_SAMPLE_HEIGHT, box);
+}
+
+/**
+ * Judge one frame's framing (lighting is skipped when it wasn't measured)
+ */
+export function assessFraming(
+  box: FaceBox | null,
+  lighting: LightingStats | null,
+  thresholds: FramingThresholds = DEFAULT_FRAMING_THRESHOLDS,
+  mirrored = true
+): FramingAssessment {
+  const issues = new Set<FramingIssue>();
+  let centerDirection: FramingDirection | null = null;
+
+  if (lighting) {
+    if (lighting.brightness < thresholds.minBrightness) {
+      issues.add('tooDark');
+    }
+    if (
+      lighting.faceBrightness !== null && lighting.backgroundBrightness !== null &&
+      lighting.backgroundBrightness >= thresholds.backlitBackground &&
+      lighting.faceBrightness < lighting.backgroundBrightness * thresholds.backlitRatio
+    ) {
+      issues.add('backlit');
+    }
+    if (lighting.contrast < thresholds.minContrast) {
+      issues.add('lowContrast');
+    }
+  }
+
+  if (box) {
+    // Offsets as seen in the preview; moving toward the center fixes them
+    const offsetX = (box.centerX - 0.5) * (mirrored ? -1 : 1);
+    const offsetY = box.centerY - 0.5;
+    const tooFarX = Math.abs(offsetX) > thresholds.maxOffsetX;
+    const tooFarY = Math.abs(offsetY) > thresholds.maxOffsetY;
+
+    if (box.width > thresholds.maxFaceWidth) {
+      issues.add('tooClose');
+    } else if (box.width < thresholds.minFaceWidth) {
+      issues.add('tooFar');
+    }
+    if (tooFarX || tooFarY) {
+      issues.add('offCenter');
+    }
+
+    // Point along whichever axis is further out, relative to its tolerance
+    if (tooFarX && (!tooFarY || Math.abs(offsetX) / thresholds.maxOffsetX >= Math.abs(offsetY) / thresholds.maxOffsetY)) {
+      centerDirection = offsetX > 0 ? 'left' : 'right';
+    } else if (tooFarY) {
+      centerDirection = offsetY > 0 ? 'up' : 'down';
+    }
+  }
+
+  const sorted = ISSUE_PRIORITY.filter(issue => issues.has(issue));
+  const primary = sorted[0] ?? null;
+  const direction = primary === 'offCenter' ? centerDirection
+    : primary === 'tooClose' ? 'back'
+    : primary === 'tooFar' ? 'closer'
+    : null;
+
+  return {
+    ok: sorted.every(issue => ADVISORY_ISSUES.includes(issue)),
+    issues: sorted,
+    primary,
+    direction,
+    message: primary ? FRAMING_MESSAGES[primary] : null,
+    box,
+    lighting
+  };
+}
+
+/**
+ * Follows framing over time and decides when validation should pause
+ */
+export class FramingCoach {
+  private readonly options: FramingCoachOptions;
+  private paused = false;
+  private badSince: number | null = null;
+  private goodSince: number | null = null;
+  private lastUpdate = -Infinity;
+
+  constructor(options: Partial<FramingCoachOptions> = {}) {
+    this.options = { ...DEFAULT_COACH_OPTIONS, ...options };
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Assess a frame with a face; lighting is the latest measurement, if any
+   */
+  update(landmarks: LandmarkFrame, now: number, lighting: LightingStats | null = null): FramingStatus {
+    // A new provider may restart the clock
+    if (now < this.lastUpdate) this.reset();
+    this.lastUpdate = now;
+
+    const assessment = assessFraming(measureFaceBox(landmarks), lighting, this.options.thresholds, this.options.mirrored);
+
+    if (assessment.ok) {
+      this.badSince = null;
+      this.goodSince ??= now;
+      if (this.paused && now - this.goodSince >= this.options.recoverMs) {
+        this.paused = false;
+      }
+    } else {
+      this.goodSince = null;
+      this.badSince ??= now;
+      if (!this.paused && now - this.badSince >= this.options.settleMs) {
+        this.paused = true;
+      }
+    }
+
+    return { paused: this.paused, assessment };
+  }
+
+  /**
+   * Start over (face lost, new provider)
+   */
+  reset() {
+    this.paused = false;
+    this.badSince = null;
+    this.goodSince = null;
+    this.lastUpdate = -Infinity;
+  }
+}
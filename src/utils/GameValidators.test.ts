@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BREATH_CYCLE_MS,
+  EYE_REST_HOLD_MS,
+  GAME_RULES,
+  JAW_JIGGLE_TARGET,
+  NOSTRIL_FLARE_TARGET
+} from './GameValidators';
+import { compileRule } from './LandmarkRules';
+import type { LandmarkRule } from './LandmarkRules';
+import { createSyntheticFace, createSyntheticSequence } from './SyntheticFaces';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+// Games sample at 10 Hz
+const FRAME_MS = 100;
+
+// Run frames through a freshly compiled rule, collecting each result
+const runFrames = (rule: LandmarkRule, frames: LandmarkFrame[], frameMs = FRAME_MS) => {
+  const compiled = compileRule(rule);
+  return frames.map((landmarks, i) => compiled.evaluate({ landmarks, timestamp: i * frameMs }));
+};
+
+describe('game rules', () => {
+  describe('jawJiggle', () => {
+    const neutral = createSyntheticFace();
+    const open = createSyntheticFace({ jawOpen: 1 });
+
+    it('wins after enough jaw jiggles', () => {
+      const frames = Array.from({ length: JAW_JIGGLE_TARGET * 2 + 1 }, (_, i) => i % 2 === 0 ? neutral : open);
+      const results = runFrames(GAME_RULES.jawJiggle, frames);
+      expect(results.indexOf(true)).toBe(JAW_JIGGLE_TARGET);
+      expect(results[results.length - 1]).toBe(true);
+    });
+
+    it('does not count small jaw movements', () => {
+      const small = createSyntheticFace({ jawOpen: 0.2 });
+      const frames = Array.from({ length: 40 }, (_, i) => i % 2 === 0 ? neutral : small);
+      expect(runFrames(GAME_RULES.jawJiggle, frames).some(Boolean)).toBe(false);
+    });
+
+    it('does not count nodding or leaning in', () => {
+      const frames = Array.from({ length: 40 }, (_, i) => createSyntheticFace({}, i % 2 === 0
+        ? { y: 0.45, scale: 1 }
+        : { y: 0.55, scale: 1.2 }));
+      expect(runFrames(GAME_RULES.jawJiggle, frames).some(Boolean)).toBe(false);
+    });
+  });
+
+  describe('noseFlare', () => {
+    it('wins after enough nostril flares', () => {
+      const neutral = createSyntheticFace();
+      const flared = createSyntheticFace({ noseFlare: 1 });
+      const frames = Array.from({ length: 30 }, (_, i) => i % 2 === 0 ? neutral : flared);
+      const results = runFrames(GAME_RULES.noseFlare, frames);
+      expect(results.indexOf(true)).toBe(NOSTRIL_FLARE_TARGET);
+      expect(results[results.length - 1]).toBe(true);
+    });
+
+    it('ignores a still nose', () => {
+      const frames = Array.from({ length: 30 }, () => createSyntheticFace());
+      expect(runFrames(GAME_RULES.noseFlare, frames).some(Boolean)).toBe(false);
+    });
+  });
+
+  describe('faceFreeze', () => {
+    it('passes while the face holds still', () => {
+      const frames = Array.from({ length: 10 }, () => createSyntheticFace());
+      expect(runFrames(GAME_RULES.faceFreeze, frames).every(Boolean)).toBe(true);
+    });
+
+    it('fails when the head moves, until it has been still again for a while', () => {
+      const frames = createSyntheticSequence('drift', [
+        { expressions: {}, durationMs: 100 },
+        { expressions: {}, durationMs: 300, pose: { x: 0.6 } },
+        { expressions: {}, durationMs: 1500, pose: { x: 0.6 } }
+      ], 10).frames as LandmarkFrame[];
+      const results = runFrames(GAME_RULES.faceFreeze, frames);
+      expect(results.some(result => !result)).toBe(true);
+      expect(results[results.length - 1]).toBe(true);
+    });
+
+    it('allows more drift between frames that arrive further apart', () => {
+      const frames = Array.from({ length: 6 }, (_, i) => createSyntheticFace({}, { x: 0.5 + i * 0.007 }));
+      expect(runFrames(GAME_RULES.faceFreeze, frames).every(Boolean)).toBe(false);
+      expect(runFrames(GAME_RULES.faceFreeze, frames, 200).every(Boolean)).toBe(true);
+    });
+  });
+
+  describe('breathBlast', () => {
+    const open = createSyntheticFace({ jawOpen: 1 });
+    const closed = createSyntheticFace();
+
+    it('wants the jaw open while inhaling and closed while exhaling', () => {
+      const inhale = BREATH_CYCLE_MS * 0.25;
+      const exhale = BREATH_CYCLE_MS * 0.75;
+      const check = (landmarks: LandmarkFrame, at: number) => {
+        const compiled = compileRule(GAME_RULES.breathBlast);
+        compiled.evaluate({ landmarks: closed, timestamp: 0 });
+        return compiled.evaluate({ landmarks, timestamp: at });
+      };
+
+      expect(check(open, inhale)).toBe(true);
+      expect(check(closed, inhale)).toBe(false);
+      expect(check(open, exhale)).toBe(false);
+      expect(check(closed, exhale)).toBe(true);
+    });
+  });
+
+  describe('eyeRest', () => {
+    const closedFor = (expressions: Parameters<typeof createSyntheticFace>[0], ms: number) =>
+      runFrames(GAME_RULES.eyeRest, Array.from({ length: ms / FRAME_MS + 1 }, () => createSyntheticFace(expressions)));
+
+    it('passes once both eyes have stayed closed', () => {
+      const results = closedFor({ eyesClosed: 1 }, EYE_REST_HOLD_MS);
+      expect(results[results.length - 2]).toBe(false);
+      expect(results[results.length - 1]).toBe(true);
+    });
+
+    it('needs both eyes', () => {
+      expect(closedFor({ wink: 1 }, EYE_REST_HOLD_MS * 2).some(Boolean)).toBe(false);
+      expect(closedFor({}, EYE_REST_HOLD_MS * 2).some(Boolean)).toBe(false);
+    });
+  });
+});
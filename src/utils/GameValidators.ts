@@ -0,0 +1,99 @@
+/**
+ * GameValidators.ts
+ *
+ * Rules for the stress mini-games that can't be judged from a single frame.
+ * Movement games (jaw jiggle, nose flare, face freeze) and rhythm games
+ * (breath blast) are written in the landmark rule language (LandmarkRules.ts),
+ * so the counters and previous positions they need live in the compiled rule
+ * rather than in storage, and each rule can be tested on its own.
+ */
+import type { LandmarkRule, RuleValue } from './LandmarkRules';
+
+// Jaw opening swing needed to count a jiggle (in eye widths), and jiggles needed to win
+export const JAW_JIGGLE_AMPLITUDE = 0.1;
+export const JAW_JIGGLE_TARGET = 10;
+
+// Change in nostril spread needed to count a flare (in eye widths), and flares needed to win
+export const NOSTRIL_FLARE_AMPLITUDE = 0.05;
+export const NOSTRIL_FLARE_TARGET = 5;
+
+// Largest movement of any tracked point still counted as frozen, and for how long
+export const FACE_FREEZE_TOLERANCE = 0.005;
+export const FACE_FREEZE_WINDOW_MS = 1000;
+
+// One breath: jaw open for the first half, closed for the second
+export const BREATH_CYCLE_MS = 4000;
+
+// Eyelid opening below which an eye counts as closed, and how long they have to stay shut
+export const EYE_CLOSED_APERTURE = 0.01;
+export const EYE_REST_HOLD_MS = 2000;
+
+// Longest a game runs; counting games only need their target within it
+const GAME_WINDOW_MS = 30000;
+
+// Distances relative to the outer eye corners hold up when the user leans in or out
+const inEyeWidths = (value: RuleValue): RuleValue => ({
+  op: 'ratio',
+  of: value,
+  to: { op: 'distance', from: 'LEFT_EYE_OUTER', to: 'RIGHT_EYE_OUTER' }
+});
+
+export const GAME_RULES = {
+  // Jaw Jiggle: swing the jaw open and closed, measured from the nose so nodding doesn't count
+  jawJiggle: {
+    op: 'oscillates',
+    value: inEyeWidths({ op: 'distance', from: 'NOSE_TIP', to: 'CHIN' }),
+    amplitude: JAW_JIGGLE_AMPLITUDE,
+    count: JAW_JIGGLE_TARGET,
+    withinMs: GAME_WINDOW_MS
+  },
+
+  // Nose Flare: nostrils spread and relax together
+  noseFlare: {
+    op: 'oscillates',
+    value: inEyeWidths({ op: 'distance', from: 'NOSTRIL_LEFT', to: 'NOSTRIL_RIGHT' }),
+    amplitude: NOSTRIL_FLARE_AMPLITUDE,
+    count: NOSTRIL_FLARE_TARGET,
+    withinMs: GAME_WINDOW_MS
+  },
+
+  // Face Freeze: nose, chin and eyes barely moved over the last second
+  faceFreeze: {
+    op: 'staysBelow',
+    value: {
+      op: 'max',
+      of: [
+        { op: 'movement', point: 'NOSE_TIP' },
+        { op: 'movement', point: 'CHIN' },
+        { op: 'movement', point: 'LEFT_EYE_TOP' },
+        { op: 'movement', point: 'RIGHT_EYE_TOP' }
+      ]
+    },
+    max: FACE_FREEZE_TOLERANCE,
+    forMs: FACE_FREEZE_WINDOW_MS
+  },
+
+  // Breath Blast: no chest detection, so the jaw stands in for the breathing rhythm
+  // (dropped while inhaling, closed while exhaling)
+  breathBlast: {
+    op: 'alternate',
+    rules: [
+      { op: 'exercise', id: 'jawDropper' },
+      { op: 'not', rule: { op: 'exercise', id: 'jawDropper' } }
+    ],
+    periodMs: BREATH_CYCLE_MS
+  },
+
+  // Eye Rest: both eyes nearly closed, and kept that way
+  eyeRest: {
+    op: 'heldFor',
+    rule: {
+      op: 'all',
+      rules: [
+        { op: 'below', value: { op: 'feature', name: 'eyeApertureLeft' }, than: EYE_CLOSED_APERTURE },
+        { op: 'below', value: { op: 'feature', name: 'eyeApertureRight' }, than: EYE_CLOSED_APERTURE }
+      ]
+    },
+    ms: EYE_REST_HOLD_MS
+  }
+} satisfies Record<string, LandmarkRule>;
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { measureGaze } from './Gaze';
+import { FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+describe('measureGaze', () => {
+  it('has no gaze without iris points', () => {
+    expect(measureGaze(createSyntheticFace().slice(0, FACE_MESH_POINT_COUNT))).toBeNull();
+  });
+
+  it('reads a centered gaze as straight ahead', () => {
+    const gaze = measureGaze(createSyntheticFace())!;
+    expect(gaze.x).toBeCloseTo(0, 6);
+    expect(gaze.y).toBeCloseTo(0, 6);
+    expect(gaze.vergence).toBeCloseTo(0, 6);
+  });
+
+  it('reads glances in the user\'s own directions', () => {
+    const right = measureGaze(createSyntheticFace({ lookRight: 1 }))!;
+    expect(right.x).toBeCloseTo(0.4, 2);
+    expect(right.vergence).toBeCloseTo(0, 6);
+
+    expect(measureGaze(createSyntheticFace({ lookRight: -1 }))!.x).toBeCloseTo(-0.4, 2);
+    expect(measureGaze(createSyntheticFace({ lookUp: 1 }))!.y).toBeCloseTo(-0.2, 2);
+  });
+
+  it('reads focusing near as both irises turning in', () => {
+    const gaze = measureGaze(createSyntheticFace({ lookNear: 1 }))!;
+    expect(gaze.vergence).toBeCloseTo(0.2, 2);
+    expect(gaze.x).toBeCloseTo(0, 6);
+  });
+
+  it('ignores turning the head', () => {
+    const gaze = measureGaze(createSyntheticFace({ lookRight: 0.5 }, { yaw: 15, roll: 10, scale: 1.4 }))!;
+    expect(gaze.x).toBeCloseTo(0.2, 1);
+    expect(Math.abs(gaze.y)).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Gaze.ts
+ *
+ * Where the eyes are looking, from the iris points of the refined face mesh.
+ * Each iris center is placed between its eye's corners on the pose-normalized
+ * frame, so turning the head doesn't read as a glance: only the eyes moving
+ * in their sockets do. Frames without iris points have no gaze.
+ */
+import { analyzeFrame } from './FacialAnalysis';
+import { FACIAL_LANDMARKS, hasIrisLandmarks, IRIS_LANDMARKS } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+/**
+ * Gaze direction in half eye widths (an iris against a corner is about 1)
+ */
+export interface GazeEstimate {
+  x: number;          // Sideways: positive toward the user's right (the right of the mirrored preview)
+  y: number;          // Vertical: positive is down
+  vergence: number;   // How far both irises turned toward the nose: higher when focusing near
+}
+
+interface EyePoints {
+  outer: number;
+  inner: number;
+  iris: number;
+}
+
+const LEFT_EYE: EyePoints = {
+  outer: FACIAL_LANDMARKS.LEFT_EYE_OUTER,
+  inner: FACIAL_LANDMARKS.LEFT_EYE_INNER,
+  iris: IRIS_LANDMARKS.LEFT_IRIS_CENTER
+};
+
+const RIGHT_EYE: EyePoints = {
+  outer: FACIAL_LANDMARKS.RIGHT_EYE_OUTER,
+  inner: FACIAL_LANDMARKS.RIGHT_EYE_INNER,
+  iris: IRIS_LANDMARKS.RIGHT_IRIS_CENTER
+};
+
+// Iris center relative to the middle of its eye: toward the nose, and down
+function placeIris(landmarks: LandmarkFrame, eye: EyePoints): { inward: number; down: number } {
+  const outer = landmarks[eye.outer];
+  const inner = landmarks[eye.inner];
+  const iris = landmarks[eye.iris];
+  const halfWidth = Math.hypot(inner.x - outer.x, inner.y - outer.y) / 2;
+  if (halfWidth === 0) return { inward: 0, down: 0 };
+
+  const ux = (inner.x - outer.x) / (halfWidth * 2);
+  const uy = (inner.y - outer.y) / (halfWidth * 2);
+  const dx = iris.x - (outer.x + inner.x) / 2;
+  const dy = iris.y - (outer.y + inner.y) / 2;
+  return {
+    inward: (dx * ux + dy * uy) / halfWidth,
+    down: dy / halfWidth
+  };
+}
+
+/**
+ * Estimate gaze from a raw frame, or null when the frame has no iris points
+ */
+export function measureGaze(landmarks: LandmarkFrame): GazeEstimate | null {
+  if (!hasIrisLandmarks(landmarks)) return null;
+
+  const { normalized } = analyzeFrame(landmarks);
+  const left = placeIris(normalized, LEFT_EYE);
+  const right = placeIris(normalized, RIGHT_EYE);
+
+  // The left (image) eye's nose side is the user's left, the right eye's is the user's right
+  return {
+    x: (right.inward - left.inward) / 2,
+    y: (left.down + right.down) / 2,
+    vergence: (left.inward + right.inward) / 2
+  };
+}
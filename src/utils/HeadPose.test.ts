@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { analyzeFrame, setFrameAspectRatio } from './FacialAnalysis';
+import { estimateHeadPose, normalizeLandmarks } from './HeadPose';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+const WIDESCREEN = 16 / 9;
+const WEBCAM = 640 / 480;
+
+// Forehead to chin over outer eye corner to outer eye corner
+const faceProportion = (normalized: LandmarkFrame) =>
+  Math.abs(normalized[FACIAL_LANDMARKS.CHIN].y - normalized[FACIAL_LANDMARKS.FOREHEAD_TOP].y) /
+  Math.abs(normalized[FACIAL_LANDMARKS.RIGHT_EYE_OUTER].x - normalized[FACIAL_LANDMARKS.LEFT_EYE_OUTER].x);
+
+describe('normalizeLandmarks', () => {
+  it('normalizes a turned face the same on any frame shape', () => {
+    for (const pose of [{ roll: 15 }, { yaw: 18 }, { roll: -10, yaw: 12, pitch: 5 }]) {
+      const square = normalizeLandmarks(createSyntheticFace({ jawOpen: 0.5 }, pose)).landmarks;
+      for (const aspectRatio of [WEBCAM, WIDESCREEN]) {
+        const framed = normalizeLandmarks(createSyntheticFace({ jawOpen: 0.5 }, { ...pose, aspectRatio }), aspectRatio).landmarks;
+        framed.forEach((point, i) => {
+          expect(point.x).toBeCloseTo(square[i].x, 9);
+          expect(point.y).toBeCloseTo(square[i].y, 9);
+          expect(point.z).toBeCloseTo(square[i].z, 9);
+        });
+      }
+    }
+  });
+
+  it('distorts the face when the frame shape is ignored', () => {
+    const square = faceProportion(normalizeLandmarks(createSyntheticFace()).landmarks);
+    const face = createSyntheticFace({}, { roll: 10, aspectRatio: WEBCAM });
+    expect(faceProportion(normalizeLandmarks(face, WEBCAM).landmarks)).toBeCloseTo(square, 9);
+    expect(faceProportion(normalizeLandmarks(face).landmarks)).toBeGreaterThan(square * 1.2);
+  });
+});
+
+describe('estimateHeadPose', () => {
+  it('reads the pose of a face on a widescreen frame as on a square one', () => {
+    const square = estimateHeadPose(createSyntheticFace({}, { yaw: 20, roll: 12 }));
+    const pose = estimateHeadPose(createSyntheticFace({}, { yaw: 20, roll: 12, aspectRatio: WIDESCREEN }), WIDESCREEN);
+    expect(pose.yaw).toBeCloseTo(square.yaw, 9);
+    expect(pose.roll).toBeCloseTo(square.roll, 9);
+    expect(pose.pitch).toBeCloseTo(square.pitch, 9);
+
+    // Ignoring the frame shape misreads the roll
+    const ignored = estimateHeadPose(createSyntheticFace({}, { yaw: 20, roll: 12, aspectRatio: WIDESCREEN }));
+    expect(Math.abs(ignored.roll - square.roll)).toBeGreaterThan(2);
+  });
+});
+
+describe('analyzeFrame', () => {
+  afterEach(() => setFrameAspectRatio(1));
+
+  it('normalizes with the tracked frame shape', () => {
+    const face = createSyntheticFace({ jawOpen: 1 }, { roll: 15, aspectRatio: WEBCAM });
+    const expected = analyzeFrame(createSyntheticFace({ jawOpen: 1 }, { roll: 15 })).features.jawDrop;
+
+    setFrameAspectRatio(WEBCAM);
+    expect(analyzeFrame(face).features.jawDrop).toBeCloseTo(expected, 9);
+  });
+});
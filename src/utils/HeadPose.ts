@@ -0,0 +1,165 @@
+/**
+ * HeadPose.ts
+ *
+ * Estimates head orientation from the face mesh and maps every frame into a
+ * canonical frontal frame before any measurement is taken:
+ * 1. Rotation removes yaw, pitch and roll
+ * 2. Scaling by the inter-ocular distance removes the effect of camera distance
+ *
+ * MediaPipe gives x (and z) as fractions of the frame width but y as a fraction
+ * of its height, so points are first stretched to square units using the
+ * frame's aspect ratio; otherwise rotating mixes two different scales.
+ */
+import { FACE_MESH_POINT_COUNT, FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { Landmark, LandmarkFrame } from './LandmarkFeatures';
+
+/**
+ * Outer eye corner distance that normalized frames are scaled to.
+ * Roughly a face sitting 40cm from a typical webcam, which is where the
+ * existing validator thresholds were tuned.
+ */
+export const REFERENCE_INTEROCULAR_DISTANCE = 0.2;
+
+/**
+ * Head orientation in degrees
+ * yaw   > 0: face turned toward the image's left edge
+ * pitch > 0: face tilted down (looking toward the floor)
+ * roll  > 0: head tilted clockwise in the image
+ */
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+export interface NormalizedFrame {
+  landmarks: LandmarkFrame;     // Landmarks in the canonical frontal frame
+  pose: HeadPose;               // Estimated pose of the original frame
+  interocularDistance: number;  // Outer eye corner distance of the original frame (in frame heights)
+}
+
+type Vector = [number, number, number];
+
+// A point in square units (frame heights); z is on the same scale as x
+const toVector = (p: Landmark, aspectRatio: number): Vector => [p.x * aspectRatio, p.y, p.z * aspectRatio];
+const subtract = (a: Vector, b: Vector): Vector => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const scale = (a: Vector, s: number): Vector => [a[0] * s, a[1] * s, a[2] * s];
+const length = (a: Vector) => Math.sqrt(dot(a, a));
+const normalize = (a: Vector): Vector => {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : a;
+};
+const cross = (a: Vector, b: Vector): Vector => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+/**
+ * Build the face's own axes: x runs between the outer eye corners,
+ * y runs from forehead to chin, z points away from the camera
+ */
+function getFaceAxes(points: Vector[]): { xAxis: Vector, yAxis: Vector, zAxis: Vector } {
+  const leftEye = points[FACIAL_LANDMARKS.LEFT_EYE_OUTER];
+  const rightEye = points[FACIAL_LANDMARKS.RIGHT_EYE_OUTER];
+  const forehead = points[FACIAL_LANDMARKS.FOREHEAD_TOP];
+  const chin = points[FACIAL_LANDMARKS.CHIN];
+
+  const xAxis = normalize(subtract(rightEye, leftEye));
+
+  // Remove any x component so the axes stay orthogonal
+  const vertical = subtract(chin, forehead);
+  const yAxis = normalize(subtract(vertical, scale(xAxis, dot(vertical, xAxis))));
+
+  const zAxis = cross(xAxis, yAxis);
+
+  return { xAxis, yAxis, zAxis };
+}
+
+// Read the rotation angles back out of the face axes
+function poseFromAxes(xAxis: Vector, yAxis: Vector): HeadPose {
+  return {
+    yaw: toDegrees(Math.atan2(xAxis[2], xAxis[0])),
+    pitch: toDegrees(Math.atan2(yAxis[2], yAxis[1])),
+    roll: toDegrees(Math.atan2(xAxis[1], xAxis[0]))
+  };
+}
+
+/**
+ * Estimate head yaw/pitch/roll from a face mesh frame
+ * aspectRatio is the frame's width over its height
+ */
+export function estimateHeadPose(landmarks: LandmarkFrame, aspectRatio = 1): HeadPose {
+  const { xAxis, yAxis } = getFaceAxes(landmarks.map(point => toVector(point, aspectRatio)));
+  return poseFromAxes(xAxis, yAxis);
+}
+
+/**
+ * Rotate a frame into the canonical frontal frame and rescale it so the
+ * inter-ocular distance equals REFERENCE_INTEROCULAR_DISTANCE.
+ * Points are expressed relative to the mesh centroid, which keeps depth
+ * values comparable to MediaPipe's head-centered z.
+ * aspectRatio is the width over the height of the frame the landmarks came from.
+ */
+export function normalizeLandmarks(landmarks: LandmarkFrame, aspectRatio = 1): NormalizedFrame {
+  const points = landmarks.map(point => toVector(point, aspectRatio));
+  const { xAxis, yAxis, zAxis } = getFaceAxes(points);
+
+  const interocularDistance = length(subtract(
+    points[FACIAL_LANDMARKS.RIGHT_EYE_OUTER],
+    points[FACIAL_LANDMARKS.LEFT_EYE_OUTER]
+  ));
+  const scaleFactor = interocularDistance > 0 ? REFERENCE_INTEROCULAR_DISTANCE / interocularDistance : 1;
+
+  // Centroid of the mesh is used as the origin (without the iris points, so
+  // frames with and without iris refinement share the same origin)
+  const meshPoints = points.slice(0, FACE_MESH_POINT_COUNT);
+  const centroid: Vector = [0, 0, 0];
+  for (const point of meshPoints) {
+    centroid[0] += point[0];
+    centroid[1] += point[1];
+    centroid[2] += point[2];
+  }
+  const center = scale(centroid, 1 / Math.max(1, meshPoints.length));
+
+  const normalized = points.map(point => {
+    const offset = subtract(point, center);
+    return {
+      x: dot(offset, xAxis) * scaleFactor,
+      y: dot(offset, yAxis) * scaleFactor,
+      z: dot(offset, zAxis) * scaleFactor
+    };
+  });
+
+  return {
+    landmarks: normalized,
+    pose: poseFromAxes(xAxis, yAxis),
+    interocularDistance
+  };
+}
+
+// Beyond these angles the mesh (and so every measurement) gets unreliable
+export const HEAD_POSE_LIMITS: HeadPose = {
+  yaw: 25,
+  pitch: 20,
+  roll: 20
+};
+
+/**
+ * Get a user-facing warning when the head is turned too far, or null if the pose is fine
+ */
+export function getHeadPoseWarning(pose: HeadPose): string | null {
+  if (Math.abs(pose.yaw) > HEAD_POSE_LIMITS.yaw) {
+    return "Turn back toward the camera, fam!";
+  }
+  if (Math.abs(pose.pitch) > HEAD_POSE_LIMITS.pitch) {
+    return pose.pitch > 0 ? "Chin up—look at the screen!" : "Lower your chin a little!";
+  }
+  if (Math.abs(pose.roll) > HEAD_POSE_LIMITS.roll) {
+    return "Straighten your head, vibe star!";
+  }
+  return null;
+}
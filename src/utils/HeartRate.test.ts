@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  blendHeartRateStress,
+  estimateHeartRate,
+  HEART_RATE_STRESS_WEIGHT,
+  HeartRateMonitor,
+  measureSkinColor,
+  MIN_PULSE_QUALITY,
+  skinRegions
+} from './HeartRate';
+import type { HeartRateEstimate } from './HeartRate';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+// Repeatable noise
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+// Green levels over ms at a jittery ~30 fps: a faint pulse with beats at beatTimes,
+// on top of slow lighting drift and sensor noise
+function createSamples(ms: number, beatTimes: number[], { pulse = 0.6, noise = 0.3, seed = 1 } = {}) {
+  const random = createRandom(seed);
+  const samples: { timestamp: number; green: number }[] = [];
+  let beat = 0;
+  for (let t = 0; t < ms; t += 28 + random() * 10) {
+    while (beat < beatTimes.length - 2 && beatTimes[beat + 1] <= t) beat++;
+    const phase = (t - beatTimes[beat]) / (beatTimes[beat + 1] - beatTimes[beat]);
+    samples.push({
+      timestamp: t,
+      green: 140 + 4 * t / ms + pulse * Math.cos(2 * Math.PI * phase) + (random() - 0.5) * 2 * noise
+    });
+  }
+  return samples;
+}
+
+// Beat times for intervals repeating the pattern
+const beats = (ms: number, pattern: number[]) => {
+  const times = [-pattern[0]];
+  for (let i = 0; times[times.length - 1] < ms + 2000; i++) {
+    times.push(times[times.length - 1] + pattern[i % pattern.length]);
+  }
+  return times;
+};
+
+describe('estimateHeartRate', () => {
+  it('waits for enough video', () => {
+    expect(estimateHeartRate(createSamples(5000, beats(5000, [833])))).toBeNull();
+  });
+
+  it('finds the pulse under drift and noise', () => {
+    const estimate = estimateHeartRate(createSamples(15000, beats(15000, [833])))!;
+    expect(estimate.bpm).toBeCloseTo(72, 0);
+    expect(estimate.quality).toBeGreaterThan(0.8);
+    expect(estimate.hrvMs).toBeLessThan(25);
+  });
+
+  it('measures beat-to-beat variability', () => {
+    // Speeding up on each breath in and slowing down on each breath out (RMSSD about 48ms)
+    const estimate = estimateHeartRate(createSamples(15000, beats(15000, [780, 820, 880, 920, 880, 820]), { noise: 0.1 }))!;
+    expect(estimate.bpm).toBeCloseTo(71, 0);
+    expect(estimate.hrvMs).toBeGreaterThan(30);
+    expect(estimate.hrvMs).toBeLessThan(70);
+  });
+
+  it('doesn\'t trust noise', () => {
+    const estimate = estimateHeartRate(createSamples(15000, beats(15000, [833]), { pulse: 0, noise: 1 }))!;
+    expect(estimate.quality).toBeLessThan(MIN_PULSE_QUALITY);
+  });
+});
+
+describe('HeartRateMonitor', () => {
+  it('starts over when the signal breaks', () => {
+    const monitor = new HeartRateMonitor();
+    for (const { timestamp, green } of createSamples(15000, beats(15000, [833]))) {
+      monitor.addSample({ r: 0, g: green, b: 0 }, timestamp);
+    }
+    expect(monitor.estimate).not.toBeNull();
+
+    monitor.addSample(null, 15100);
+    expect(monitor.estimate).toBeNull();
+  });
+});
+
+describe('measureSkinColor', () => {
+  it('averages just the skin patches', () => {
+    const width = 20;
+    const height = 10;
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const inPatch = i % width < width / 2;
+      pixels.set(inPatch ? [200, 150, 100, 255] : [0, 0, 0, 255], i * 4);
+    }
+
+    const color = measureSkinColor(pixels, width, height, [{ centerX: 0.25, centerY: 0.5, halfWidth: 0.2, halfHeight: 0.4 }]);
+    expect(color).toEqual({ r: 200, g: 150, b: 100 });
+    expect(measureSkinColor(pixels, width, height, [{ centerX: 2, centerY: 2, halfWidth: 0.1, halfHeight: 0.1 }])).toBeNull();
+  });
+
+  it('reads the forehead and cheeks', () => {
+    const landmarks = createSyntheticFace();
+    const [forehead, leftCheek, rightCheek] = skinRegions(landmarks);
+    expect(forehead.centerY).toBeCloseTo(landmarks[FACIAL_LANDMARKS.FOREHEAD_MID].y, 6);
+    expect(leftCheek.centerX).toBeLessThan(forehead.centerX);
+    expect(rightCheek.centerX).toBeGreaterThan(forehead.centerX);
+  });
+});
+
+describe('blendHeartRateStress', () => {
+  const estimate = (bpm: number, hrvMs: number | null, quality = 0.9): HeartRateEstimate =>
+    ({ bpm, hrvMs, quality, windowMs: 15000 });
+
+  it('leaves stress alone without a trustworthy pulse', () => {
+    expect(blendHeartRateStress(0.4, null)).toBe(0.4);
+    expect(blendHeartRateStress(0.4, estimate(120, 10, 0.2))).toBe(0.4);
+  });
+
+  it('raises stress with a racing pulse and low HRV', () => {
+    expect(blendHeartRateStress(0.5, estimate(60, 60))).toBeCloseTo(0.5 * (1 - HEART_RATE_STRESS_WEIGHT), 6);
+    expect(blendHeartRateStress(0.5, estimate(110, 10))).toBeCloseTo(0.5 + 0.5 * HEART_RATE_STRESS_WEIGHT, 6);
+    expect(blendHeartRateStress(0.5, estimate(110, null))).toBeCloseTo(0.5 + 0.5 * HEART_RATE_STRESS_WEIGHT, 6);
+  });
+});
@@ -0,0 +1,406 @@
+/**
+ * HeartRate.ts
+ *
+ * Pulse from the camera (remote photoplethysmography). Every heartbeat pushes
+ * blood into the skin, which then absorbs a little more green light; averaged
+ * over the forehead and cheeks that's a faint wave in the video. The green
+ * level is band-passed to heart-rate frequencies: its strongest frequency gives
+ * BPM, the spacing of its peaks gives HRV, and how much of the band that one
+ * frequency holds says how far to trust either. Movement and changing light
+ * swamp the wave, so estimates only count while the quality holds up.
+ */
+import { measureFaceBox } from './FramingCoach';
+import type { FaceBox } from './FramingCoach';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+export interface SkinColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * A patch of skin to average, as fractions of the image it's read from
+ */
+export interface SkinRegion {
+  centerX: number;
+  centerY: number;
+  halfWidth: number;
+  halfHeight: number;
+}
+
+export interface HeartRateEstimate {
+  bpm: number;
+  hrvMs: number | null;   // RMSSD of the beat-to-beat intervals, null with too few clean beats
+  quality: number;        // Share of the heart-rate band's power at the pulse (0-1)
+  windowMs: number;       // Video the estimate is based on
+}
+
+// Heart rates looked for (42-210 BPM)
+export const MIN_BPM = 42;
+export const MAX_BPM = 210;
+
+// The estimate looks back this far, and needs at least the minimum to start
+export const PULSE_WINDOW_MS = 15000;
+export const MIN_PULSE_WINDOW_MS = 8000;
+
+// Quality below which the pulse is too buried in noise to report
+export const MIN_PULSE_QUALITY = 0.5;
+
+// Samples are resampled to an even rate before filtering
+const PULSE_SAMPLE_HZ = 30;
+
+// A gap this long (face lost, camera stalled) starts the signal over
+const MAX_SAMPLE_GAP_MS = 500;
+
+// Power within this many BPM of the peak counts as the pulse (the spectral peak of a 15s window is about this wide)
+const PEAK_WIDTH_BPM = 8;
+
+// Band kept for timing beats, as multiples of the heart rate (wide enough for the rate to speed up and slow down)
+const PULSE_BAND_LOW = 0.5;
+const PULSE_BAND_HIGH = 1.5;
+
+// Beat-to-beat intervals this far off the median are missed or extra beats, not variability
+const MAX_INTERVAL_DEVIATION = 0.3;
+
+// Successive interval differences needed for an HRV figure
+const MIN_HRV_DIFFERENCES = 5;
+
+// Skin patches as fractions of the face box: the forehead is the flattest, least
+// shadowed skin, and the cheeks below the eyes the best perfused
+const FOREHEAD_SIZE = { halfWidth: 0.12, halfHeight: 0.06 };
+const CHEEK_SIZE = { halfWidth: 0.08, halfHeight: 0.06 };
+
+/**
+ * The forehead and cheek patches to read, as fractions of the frame
+ */
+export function skinRegions(landmarks: LandmarkFrame, box: FaceBox = measureFaceBox(landmarks)): SkinRegion[] {
+  const region = (index: number, size: typeof CHEEK_SIZE): SkinRegion => ({
+    centerX: landmarks[index].x,
+    centerY: landmarks[index].y,
+    halfWidth: box.width * size.halfWidth,
+    halfHeight: box.height * size.halfHeight
+  });
+
+  return [
+    region(FACIAL_LANDMARKS.FOREHEAD_MID, FOREHEAD_SIZE),
+    region(FACIAL_LANDMARKS.LEFT_CHEEK_OUTER, CHEEK_SIZE),
+    region(FACIAL_LANDMARKS.RIGHT_CHEEK_OUTER, CHEEK_SIZE)
+  ];
+}
+
+/**
+ * Average color of RGBA pixels inside any of the regions (null when none fall inside)
+ */
+export function measureSkinColor(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  regions: SkinRegion[]
+): SkinColor | null {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      if (!regions.some(region => Math.abs(u - region.centerX) <= region.halfWidth && Math.abs(v - region.centerY) <= region.halfHeight)) {
+        continue;
+      }
+      const i = (y * width + x) * 4;
+      r += pixels[i];
+      g += pixels[i + 1];
+      b += pixels[i + 2];
+      count++;
+    }
+  }
+
+  return count > 0 ? { r: r / count, g: g / count, b: b / count } : null;
+}
+
+// The face box is copied at this size; plenty of pixels per patch to average out sensor noise
+const SKIN_SAMPLE_SIZE = 96;
+let skinCanvas: HTMLCanvasElement | null = null;
+
+/**
+ * Average skin color of the forehead and cheeks in the video's current frame
+ * (null when it isn't playing)
+ */
+export function readVideoSkinColor(video: HTMLVideoElement | null, landmarks: LandmarkFrame): SkinColor | null {
+  if (!video || video.readyState < 2 || !video.videoWidth) return null;
+
+  const box = measureFaceBox(landmarks);
+  const minX = Math.max(0, box.minX);
+  const minY = Math.max(0, box.minY);
+  const width = Math.min(1, box.maxX) - minX;
+  const height = Math.min(1, box.maxY) - minY;
+  if (width <= 0 || height <= 0) return null;
+
+  if (!skinCanvas) {
+    skinCanvas = document.createElement('canvas');
+    skinCanvas.width = SKIN_SAMPLE_SIZE;
+    skinCanvas.height = SKIN_SAMPLE_SIZE;
+  }
+  const ctx = skinCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  // Copy just the face, then find the patches within the copy
+  ctx.drawImage(
+    video,
+    minX * video.videoWidth, minY * video.videoHeight, width * video.videoWidth, height * video.videoHeight,
+    0, 0, SKIN_SAMPLE_SIZE, SKIN_SAMPLE_SIZE
+  );
+  const { data } = ctx.getImageData(0, 0, SKIN_SAMPLE_SIZE, SKIN_SAMPLE_SIZE);
+  const regions = skinRegions(landmarks, box).map(region => ({
+    centerX: (region.centerX - minX) / width,
+    centerY: (region.centerY - minY) / height,
+    halfWidth: region.halfWidth / width,
+    halfHeight: region.halfHeight / height
+  }));
+  return measureSkinColor(data, SKIN_SAMPLE_SIZE, SKIN_SAMPLE_SIZE, regions);
+}
+
+interface PulseSample {
+  timestamp: number;
+  green: number;
+}
+
+// Second-order filter section (RBJ cookbook coefficients, normalized by a0)
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+function butterworth(type: 'lowpass' | 'highpass', cutoffHz: number, sampleHz: number): Biquad {
+  const w0 = 2 * Math.PI * cutoffHz / sampleHz;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const a0 = 1 + alpha;
+  const b1 = type === 'lowpass' ? 1 - cos : -(1 + cos);
+  const b0 = Math.abs(b1) / 2;
+  return { b0: b0 / a0, b1: b1 / a0, b2: b0 / a0, a1: -2 * cos / a0, a2: (1 - alpha) / a0 };
+}
+
+function applyBiquad(signal: number[], { b0, b1, b2, a1, a2 }: Biquad): number[] {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return signal.map(x => {
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    return y;
+  });
+}
+
+// Run forward then backward so the filter doesn't shift the beats in time
+function filtfilt(signal: number[], sections: Biquad[]): number[] {
+  let result = signal;
+  for (const section of sections) {
+    result = applyBiquad(result, section);
+  }
+  result.reverse();
+  for (const section of sections) {
+    result = applyBiquad(result, section);
+  }
+  return result.reverse();
+}
+
+// Spectral power at a frequency (cycles per sample)
+function powerAt(signal: number[], frequency: number): number {
+  let re = 0;
+  let im = 0;
+  for (let n = 0; n < signal.length; n++) {
+    const angle = 2 * Math.PI * frequency * n;
+    re += signal[n] * Math.cos(angle);
+    im -= signal[n] * Math.sin(angle);
+  }
+  return re * re + im * im;
+}
+
+// Vertex offset of the parabola through three neighbouring values (-0.5 to 0.5)
+function parabolicOffset(before: number, peak: number, after: number): number {
+  const curvature = before - 2 * peak + after;
+  return curvature < 0 ? 0.5 * (before - after) / curvature : 0;
+}
+
+/**
+ * RMSSD of the intervals between the filtered signal's peaks (ms), or null
+ * with too few clean beats to tell
+ */
+function measureHrv(signal: number[], bpm: number): number | null {
+  const minSpacing = 0.6 * PULSE_SAMPLE_HZ * 60 / bpm;
+  // The filter rings at the very ends
+  const edge = Math.round(PULSE_SAMPLE_HZ / 2);
+
+  const peaks: { index: number; value: number }[] = [];
+  for (let i = Math.max(1, edge); i < signal.length - Math.max(1, edge); i++) {
+    if (signal[i] <= 0 || signal[i] <= signal[i - 1] || signal[i] < signal[i + 1]) continue;
+    const peak = { index: i + parabolicOffset(signal[i - 1], signal[i], signal[i + 1]), value: signal[i] };
+    const last = peaks[peaks.length - 1];
+    if (last && peak.index - last.index < minSpacing) {
+      if (peak.value > last.value) peaks[peaks.length - 1] = peak;
+    } else {
+      peaks.push(peak);
+    }
+  }
+
+  const intervals = peaks.slice(1).map((peak, i) => (peak.index - peaks[i].index) / PULSE_SAMPLE_HZ * 1000);
+  if (intervals.length < 2) return null;
+  const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+  const clean = (interval: number) => Math.abs(interval - median) <= median * MAX_INTERVAL_DEVIATION;
+
+  const differences: number[] = [];
+  for (let i = 1; i < intervals.length; i++) {
+    if (clean(intervals[i]) && clean(intervals[i - 1])) {
+      differences.push(intervals[i] - intervals[i - 1]);
+    }
+  }
+  if (differences.length < MIN_HRV_DIFFERENCES) return null;
+  return Math.sqrt(differences.reduce((sum, difference) => sum + difference * difference, 0) / differences.length);
+}
+
+/**
+ * Pulse from timestamped green levels (null until there's enough signal)
+ */
+export function estimateHeartRate(samples: PulseSample[]): HeartRateEstimate | null {
+  if (samples.length < 2) return null;
+  const start = samples[0].timestamp;
+  const windowMs = samples[samples.length - 1].timestamp - start;
+  if (windowMs < MIN_PULSE_WINDOW_MS) return null;
+
+  // Even spacing, relative to the average level so brightness doesn't matter
+  const count = Math.floor(windowMs / 1000 * PULSE_SAMPLE_HZ) + 1;
+  const mean = samples.reduce((sum, sample) => sum + sample.green, 0) / samples.length;
+  if (mean <= 0) return null;
+  const even: number[] = [];
+  for (let n = 0, j = 0; n < count; n++) {
+    const t = start + n * 1000 / PULSE_SAMPLE_HZ;
+    while (j < samples.length - 2 && samples[j + 1].timestamp < t) j++;
+    const a = samples[j];
+    const b = samples[j + 1];
+    const f = b.timestamp > a.timestamp ? Math.min(1, Math.max(0, (t - a.timestamp) / (b.timestamp - a.timestamp))) : 0;
+    even.push((a.green + (b.green - a.green) * f) / mean - 1);
+  }
+
+  // Keep heart-rate frequencies only: no lighting drift, no sensor flicker
+  const filtered = filtfilt(even, [
+    butterworth('highpass', MIN_BPM / 60, PULSE_SAMPLE_HZ),
+    butterworth('lowpass', MAX_BPM / 60, PULSE_SAMPLE_HZ)
+  ]);
+
+  // Hann window so the window's edges don't leak power across the band
+  const windowed = filtered.map((value, n) => value * (0.5 - 0.5 * Math.cos(2 * Math.PI * n / (filtered.length - 1))));
+  const spectrum: number[] = [];
+  for (let bpm = MIN_BPM; bpm <= MAX_BPM; bpm++) {
+    spectrum.push(powerAt(windowed, bpm / 60 / PULSE_SAMPLE_HZ));
+  }
+
+  let peak = 0;
+  for (let i = 1; i < spectrum.length; i++) {
+    if (spectrum[i] > spectrum[peak]) peak = i;
+  }
+  const total = spectrum.reduce((sum, power) => sum + power, 0);
+  if (total <= 0) return null;
+
+  const atPulse = spectrum
+    .filter((_, i) => Math.abs(i - peak) <= PEAK_WIDTH_BPM)
+    .reduce((sum, power) => sum + power, 0);
+  const offset = peak > 0 && peak < spectrum.length - 1
+    ? parabolicOffset(spectrum[peak - 1], spectrum[peak], spectrum[peak + 1])
+    : 0;
+  const bpm = MIN_BPM + peak + offset;
+
+  // Beats are timed on a narrower band around the pulse, so noise doesn't move the peaks
+  const beatSignal = filtfilt(even, [
+    butterworth('highpass', bpm * PULSE_BAND_LOW / 60, PULSE_SAMPLE_HZ),
+    butterworth('lowpass', bpm * PULSE_BAND_HIGH / 60, PULSE_SAMPLE_HZ)
+  ]);
+
+  return {
+    bpm,
+    hrvMs: measureHrv(beatSignal, bpm),
+    quality: atPulse / total,
+    windowMs
+  };
+}
+
+/**
+ * Collects the skin's green level from every camera frame and estimates the
+ * pulse from the last PULSE_WINDOW_MS of it
+ */
+export class HeartRateMonitor {
+  private samples: PulseSample[] = [];
+  private estimated: HeartRateEstimate | null = null;
+  private stale = false;
+
+  reset() {
+    this.samples = [];
+    this.estimated = null;
+    this.stale = false;
+  }
+
+  /**
+   * Read the skin color from the video's current frame (no landmarks, or no
+   * playing video, breaks the signal). The landmarks can trail the video by a
+   * frame or two, which the skin patches tolerate, but the sample is stamped
+   * when the color is read so the pulse timing matches the frame it came from
+   */
+  addFrame(video: HTMLVideoElement | null, landmarks: LandmarkFrame | null) {
+    this.addSample(landmarks ? readVideoSkinColor(video, landmarks) : null, performance.now());
+  }
+
+  addSample(color: SkinColor | null, timestamp: number) {
+    const last = this.samples[this.samples.length - 1];
+    if (!color || (last && (timestamp - last.timestamp > MAX_SAMPLE_GAP_MS || timestamp <= last.timestamp))) {
+      this.reset();
+      if (!color) return;
+    }
+
+    this.samples.push({ timestamp, green: color.g });
+    const windowStart = timestamp - PULSE_WINDOW_MS;
+    while (this.samples[0].timestamp < windowStart) {
+      this.samples.shift();
+    }
+    this.stale = true;
+  }
+
+  // The pulse over the current window (worked out again only after new frames)
+  get estimate(): HeartRateEstimate | null {
+    if (this.stale) {
+      this.estimated = estimateHeartRate(this.samples);
+      this.stale = false;
+    }
+    return this.estimated;
+  }
+}
+
+// Resting and stressed heart rates, and the HRV (RMSSD) of a relaxed and a stressed adult
+export const RESTING_BPM = 65;
+export const STRESSED_BPM = 100;
+export const RELAXED_HRV_MS = 50;
+export const STRESSED_HRV_MS = 15;
+
+// Share of the stress level that comes from the pulse when it's trustworthy
+export const HEART_RATE_STRESS_WEIGHT = 0.3;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Mix the pulse into a stress level (0-1): a raised heart rate and low HRV
+ * both push it up; a noisy estimate leaves it alone
+ */
+export function blendHeartRateStress(stressLevel: number, estimate: HeartRateEstimate | null): number {
+  if (!estimate || estimate.quality < MIN_PULSE_QUALITY) return stressLevel;
+
+  const rate = clamp01((estimate.bpm - RESTING_BPM) / (STRESSED_BPM - RESTING_BPM));
+  const pulseStress = estimate.hrvMs === null
+    ? rate
+    : (rate + clamp01((RELAXED_HRV_MS - estimate.hrvMs) / (RELAXED_HRV_MS - STRESSED_HRV_MS))) / 2;
+  return clamp01(stressLevel * (1 - HEART_RATE_STRESS_WEIGHT) + pulseStress * HEART_RATE_STRESS_WEIGHT);
+}
@@ -0,0 +1,376 @@
+/**
+ * LandmarkFeatures.ts
+ *
+ * Turns MediaPipe Face Mesh landmark frames into named facial measurements.
+ * The stress heuristic, the exercise validators and the ML stress model all
+ * read these features instead of measuring raw landmark coordinates inline.
+ */
+
+// A single MediaPipe landmark in normalized image coordinates
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// One frame of the face mesh: 468 points, plus the iris points when refined
+export type LandmarkFrame = Landmark[];
+
+// Points in the face mesh proper, and with iris refinement (refineLandmarks) on
+export const FACE_MESH_POINT_COUNT = 468;
+export const REFINED_FACE_MESH_POINT_COUNT = 478;
+
+// Iris points added by refinement: a center and four points on the rim per eye
+// LEFT/RIGHT follow FACIAL_LANDMARKS (LEFT_IRIS sits between LEFT_EYE_OUTER and LEFT_EYE_INNER)
+export const IRIS_LANDMARKS = {
+  LEFT_IRIS_CENTER: 468,
+  LEFT_IRIS_RIM: [469, 470, 471, 472],
+  RIGHT_IRIS_CENTER: 473,
+  RIGHT_IRIS_RIM: [474, 475, 476, 477]
+};
+
+// Whether a frame came from a tracker with iris refinement on (recordings and other trackers may not have it)
+export const hasIrisLandmarks = (landmarks: LandmarkFrame) => landmarks.length >= REFINED_FACE_MESH_POINT_COUNT;
+
+// Enhanced landmark indices for facial features
+export const FACIAL_LANDMARKS = {
+    // Eyes
+    LEFT_EYE_TOP: 159,
+    LEFT_EYE_BOTTOM: 145,
+    LEFT_EYE_OUTER: 33,
+    LEFT_EYE_INNER: 133,
+    RIGHT_EYE_TOP: 386,
+    RIGHT_EYE_BOTTOM: 374,
+    RIGHT_EYE_OUTER: 263,
+    RIGHT_EYE_INNER: 362,
+
+    // Eyebrows
+    LEFT_EYEBROW_OUTER: 70,
+    LEFT_EYEBROW: 107,
+    LEFT_EYEBROW_INNER: 105,
+    RIGHT_EYEBROW_OUTER: 300,
+    RIGHT_EYEBROW: 336,
+    RIGHT_EYEBROW_INNER: 334,
+
+    // Mouth
+    MOUTH_LEFT: 61,
+    MOUTH_RIGHT: 291,
+    UPPER_LIP: 13,
+    LOWER_LIP: 14,
+    UPPER_LIP_TOP: 0,
+    LOWER_LIP_BOTTOM: 17,
+
+    // Face structure
+    NOSE_TIP: 4,
+    NOSE_BRIDGE: 6,
+    NOSE_LEFT: 285,
+    NOSE_RIGHT: 55,
+    NOSTRIL_LEFT: 102,
+    NOSTRIL_RIGHT: 331,
+    CHIN: 152,
+    CHIN_LEFT: 149,
+    CHIN_RIGHT: 378,
+    FOREHEAD_TOP: 10,
+    FOREHEAD_MID: 151,
+
+    // Cheeks
+    LEFT_CHEEK: 234,
+    RIGHT_CHEEK: 454,
+    LEFT_CHEEK_OUTER: 206,
+    RIGHT_CHEEK_OUTER: 426,
+
+    // Jaw
+    JAW_LEFT: 207,
+    JAW_RIGHT: 427,
+    JAW_CENTER: 200
+};
+
+/**
+ * Named measurements taken from a single landmark frame
+ * All values are in the same units as the landmarks they were measured from
+ */
+export interface FaceFeatures {
+  // Brows
+  browPinch: number;            // Horizontal gap between the inner brows
+  browBridgeDistance: number;   // Mean vertical offset of the inner brows from the nose bridge
+  browArchAsymmetry: number;    // Difference in outer-vs-inner brow slope between sides
+  browHeightLeft: number;       // Left brow height above the nose tip
+  browHeightRight: number;      // Right brow height above the nose tip
+  browHeight: number;           // Mean brow height above the nose tip
+  browHeightAsymmetry: number;  // |left - right| brow height
+  browLevelDelta: number;       // Vertical offset between the mid brows
+
+  // Eyes
+  eyeApertureLeft: number;      // Left eyelid opening
+  eyeApertureRight: number;     // Right eyelid opening
+  eyeOpenness: number;          // Mean eyelid opening
+  eyeAsymmetry: number;         // |left - right| eyelid opening
+  eyeApertureMin: number;       // Opening of the more closed eye
+  eyeApertureMax: number;       // Opening of the more open eye
+
+  // Mouth
+  mouthWidth: number;           // Corner-to-corner mouth width
+  mouthOpenness: number;        // Inner lip gap
+  lipHeight: number;            // Outer lip height (top of upper lip to bottom of lower lip)
+  mouthCornerLift: number;      // How far the corners sit above the lip center (positive = smile)
+  lipZ: number;                 // Mean depth of the inner lips (negative = toward the camera)
+
+  // Nose
+  noseLength: number;           // Vertical nose tip to bridge distance
+  noseWidth: number;            // Width across the nose wings
+  nostrilWidth: number;         // Width across the nostrils
+
+  // Cheeks
+  cheekWidth: number;           // Width between the cheek landmarks
+  cheekProtrusion: number;      // Mean cheek depth relative to the outer cheek points
+
+  // Jaw and chin
+  jawDrop: number;              // Vertical chin to nose tip distance
+  jawWidth: number;             // Width across the jaw
+  jawHeight: number;            // Vertical jaw center to chin distance
+  jawRatio: number;             // jawWidth / jawHeight
+  chinDrop: number;             // Signed chin offset below the lower lip
+  chinProtrusion: number;       // Chin depth relative to the nose tip (positive = jutted)
+  chinWidth: number;            // Width across the chin
+
+  // Forehead
+  foreheadVariation: number;    // Vertical gap between the forehead landmarks
+}
+
+export type FeatureName = keyof FaceFeatures;
+
+// Every named feature (new features go at the end)
+export const FEATURE_NAMES: FeatureName[] = [
+  'browPinch',
+  'browBridgeDistance',
+  'browArchAsymmetry',
+  'browHeightLeft',
+  'browHeightRight',
+  'browHeight',
+  'browHeightAsymmetry',
+  'browLevelDelta',
+  'eyeApertureLeft',
+  'eyeApertureRight',
+  'eyeOpenness',
+  'eyeAsymmetry',
+  'mouthWidth',
+  'mouthOpenness',
+  'lipHeight',
+  'mouthCornerLift',
+  'lipZ',
+  'noseLength',
+  'noseWidth',
+  'nostrilWidth',
+  'cheekWidth',
+  'cheekProtrusion',
+  'jawDrop',
+  'jawWidth',
+  'jawHeight',
+  'jawRatio',
+  'chinDrop',
+  'chinProtrusion',
+  'chinWidth',
+  'foreheadVariation',
+  'eyeApertureMin',
+  'eyeApertureMax'
+];
+
+// Version of the per-frame vector the stress model is trained on; bump it (and add
+// a new list) rather than editing a list a trained model depends on
+export const MODEL_FEATURE_VERSION = 1;
+
+// Per-frame model inputs in version 1 order
+export const MODEL_FEATURE_NAMES: readonly FeatureName[] = Object.freeze([
+  'browPinch',
+  'browBridgeDistance',
+  'browArchAsymmetry',
+  'browHeightLeft',
+  'browHeightRight',
+  'browHeight',
+  'browHeightAsymmetry',
+  'browLevelDelta',
+  'eyeApertureLeft',
+  'eyeApertureRight',
+  'eyeOpenness',
+  'eyeAsymmetry',
+  'mouthWidth',
+  'mouthOpenness',
+  'lipHeight',
+  'mouthCornerLift',
+  'lipZ',
+  'noseLength',
+  'noseWidth',
+  'nostrilWidth',
+  'cheekWidth',
+  'cheekProtrusion',
+  'jawDrop',
+  'jawWidth',
+  'jawHeight',
+  'jawRatio',
+  'chinDrop',
+  'chinProtrusion',
+  'chinWidth',
+  'foreheadVariation'
+] as const);
+
+/**
+ * Extract the named feature set from one landmark frame
+ */
+export function extractFeatures(landmarks: LandmarkFrame): FaceFeatures {
+  const point = (index: number) => landmarks[index];
+
+  // Brows
+  const leftBrowInner = point(FACIAL_LANDMARKS.LEFT_EYEBROW_INNER);
+  const rightBrowInner = point(FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER);
+  const leftBrowOuter = point(FACIAL_LANDMARKS.LEFT_EYEBROW_OUTER);
+  const rightBrowOuter = point(FACIAL_LANDMARKS.RIGHT_EYEBROW_OUTER);
+  const noseBridge = point(FACIAL_LANDMARKS.NOSE_BRIDGE);
+  const noseTip = point(FACIAL_LANDMARKS.NOSE_TIP);
+
+  const browHeightLeft = (noseTip.y - leftBrowOuter.y + noseTip.y - leftBrowInner.y) / 2;
+  const browHeightRight = (noseTip.y - rightBrowOuter.y + noseTip.y - rightBrowInner.y) / 2;
+
+  // Eyes
+  const eyeApertureLeft = Math.abs(
+    point(FACIAL_LANDMARKS.LEFT_EYE_TOP).y - point(FACIAL_LANDMARKS.LEFT_EYE_BOTTOM).y
+  );
+  const eyeApertureRight = Math.abs(
+    point(FACIAL_LANDMARKS.RIGHT_EYE_TOP).y - point(FACIAL_LANDMARKS.RIGHT_EYE_BOTTOM).y
+  );
+
+  // Mouth
+  const mouthLeft = point(FACIAL_LANDMARKS.MOUTH_LEFT);
+  const mouthRight = point(FACIAL_LANDMARKS.MOUTH_RIGHT);
+  const upperLip = point(FACIAL_LANDMARKS.UPPER_LIP);
+  const lowerLip = point(FACIAL_LANDMARKS.LOWER_LIP);
+  const upperLipTop = point(FACIAL_LANDMARKS.UPPER_LIP_TOP);
+  const lowerLipBottom = point(FACIAL_LANDMARKS.LOWER_LIP_BOTTOM);
+
+  // Cheeks
+  const leftCheek = point(FACIAL_LANDMARKS.LEFT_CHEEK);
+  const rightCheek = point(FACIAL_LANDMARKS.RIGHT_CHEEK);
+  const leftCheekOuter = point(FACIAL_LANDMARKS.LEFT_CHEEK_OUTER);
+  const rightCheekOuter = point(FACIAL_LANDMARKS.RIGHT_CHEEK_OUTER);
+
+  // Jaw and chin
+  const chin = point(FACIAL_LANDMARKS.CHIN);
+  const jawWidth = Math.abs(point(FACIAL_LANDMARKS.JAW_LEFT).x - point(FACIAL_LANDMARKS.JAW_RIGHT).x);
+  const jawHeight = Math.abs(point(FACIAL_LANDMARKS.JAW_CENTER).y - chin.y);
+
+  return {
+    browPinch: Math.abs(leftBrowInner.x - rightBrowInner.x),
+    browBridgeDistance: Math.abs(
+      (leftBrowInner.y - noseBridge.y) + (rightBrowInner.y - noseBridge.y)
+    ) / 2,
+    browArchAsymmetry: Math.abs(
+      (leftBrowOuter.y - leftBrowInner.y) - (rightBrowOuter.y - rightBrowInner.y)
+    ),
+    browHeightLeft,
+    browHeightRight,
+    browHeight: (browHeightLeft + browHeightRight) / 2,
+    browHeightAsymmetry: Math.abs(browHeightLeft - browHeightRight),
+    browLevelDelta: Math.abs(
+      point(FACIAL_LANDMARKS.LEFT_EYEBROW).y - point(FACIAL_LANDMARKS.RIGHT_EYEBROW).y
+    ),
+
+    eyeApertureLeft,
+    eyeApertureRight,
+    eyeOpenness: (eyeApertureLeft + eyeApertureRight) / 2,
+    eyeAsymmetry: Math.abs(eyeApertureLeft - eyeApertureRight),
+    eyeApertureMin: Math.min(eyeApertureLeft, eyeApertureRight),
+    eyeApertureMax: Math.max(eyeApertureLeft, eyeApertureRight),
+
+    mouthWidth: Math.abs(mouthLeft.x - mouthRight.x),
+    mouthOpenness: Math.abs(upperLip.y - lowerLip.y),
+    lipHeight: Math.abs(upperLipTop.y - lowerLipBottom.y),
+    mouthCornerLift: (upperLip.y + lowerLip.y) / 2 - (mouthLeft.y + mouthRight.y) / 2,
+    lipZ: (upperLip.z + lowerLip.z) / 2,
+
+    noseLength: Math.abs(noseTip.y - noseBridge.y),
+    noseWidth: Math.abs(point(FACIAL_LANDMARKS.NOSE_LEFT).x - point(FACIAL_LANDMARKS.NOSE_RIGHT).x),
+    nostrilWidth: Math.abs(
+      point(FACIAL_LANDMARKS.NOSTRIL_LEFT).x - point(FACIAL_LANDMARKS.NOSTRIL_RIGHT).x
+    ),
+
+    cheekWidth: Math.abs(leftCheek.x - rightCheek.x),
+    cheekProtrusion: ((leftCheek.z - leftCheekOuter.z) + (rightCheek.z - rightCheekOuter.z)) / 2,
+
+    jawDrop: Math.abs(chin.y - noseTip.y),
+    jawWidth,
+    jawHeight,
+    jawRatio: jawHeight > 0 ? jawWidth / jawHeight : 0,
+    chinDrop: chin.y - lowerLipBottom.y,
+    chinProtrusion: noseTip.z - chin.z,
+    chinWidth: Math.abs(
+      point(FACIAL_LANDMARKS.CHIN_LEFT).x - point(FACIAL_LANDMARKS.CHIN_RIGHT).x
+    ),
+
+    foreheadVariation: Math.abs(
+      point(FACIAL_LANDMARKS.FOREHEAD_TOP).y - point(FACIAL_LANDMARKS.FOREHEAD_MID).y
+    )
+  };
+}
+
+/**
+ * Flatten a feature set into the model's input vector (MODEL_FEATURE_NAMES order)
+ */
+export function toFeatureVector(features: FaceFeatures): number[] {
+  return MODEL_FEATURE_NAMES.map(name => features[name]);
+}
+
+/**
+ * Summary of how each feature behaves across a window of frames
+ */
+export interface TemporalFeatures {
+  frameCount: number;
+  mean: FaceFeatures;
+  variance: FaceFeatures;
+  velocity: FaceFeatures; // Mean absolute change per frame (or per second if an interval is given)
+}
+
+function emptyFeatures(): FaceFeatures {
+  const features = {} as FaceFeatures;
+  for (const name of FEATURE_NAMES) {
+    features[name] = 0;
+  }
+  return features;
+}
+
+/**
+ * Compute mean, variance and velocity of every feature over a window of frames
+ * Pass frameIntervalMs to express velocity per second instead of per frame
+ */
+export function computeTemporalFeatures(window: FaceFeatures[], frameIntervalMs?: number): TemporalFeatures {
+  const mean = emptyFeatures();
+  const variance = emptyFeatures();
+  const velocity = emptyFeatures();
+
+  if (window.length === 0) {
+    return { frameCount: 0, mean, variance, velocity };
+  }
+
+  for (const name of FEATURE_NAMES) {
+    let sum = 0;
+    for (const frame of window) {
+      sum += frame[name];
+    }
+    mean[name] = sum / window.length;
+
+    let squaredError = 0;
+    for (const frame of window) {
+      squaredError += Math.pow(frame[name] - mean[name], 2);
+    }
+    variance[name] = squaredError / window.length;
+
+    if (window.length > 1) {
+      let totalChange = 0;
+      for (let i = 1; i < window.length; i++) {
+        totalChange += Math.abs(window[i][name] - window[i - 1][name]);
+      }
+      const perFrame = totalChange / (window.length - 1);
+      velocity[name] = frameIntervalMs ? perFrame * (1000 / frameIntervalMs) : perFrame;
+    }
+  }
+
+  return { frameCount: window.length, mean, variance, velocity };
+}
@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_LANDMARK_PROVIDER_CONFIG, getLandmarkProviderConfig } from './LandmarkProvider';
+import type { LandmarkSample } from './LandmarkProvider';
+import { createLandmarkProvider } from './LandmarkProviders';
+import { RECORDED_RESOLUTION, RecordedLandmarkProvider } from './RecordedProvider';
+import { SyntheticLandmarkProvider } from './SyntheticProvider';
+import { encodeLandmarks, SESSION_FORMAT, SESSION_VERSION } from './SessionRecorder';
+import type { SessionFile } from './SessionRecorder';
+import { createSyntheticFace } from './SyntheticFaces';
+import { REFINED_FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+import { assessFraming, measureFaceBox } from './FramingCoach';
+
+const face = encodeLandmarks(createSyntheticFace(), 4);
+
+const session: SessionFile = {
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  startedAt: '2024-01-01T00:00:00.000Z',
+  durationMs: 200,
+  maxFps: 10,
+  precision: 4,
+  truncated: false,
+  frames: [0, 100, 200].map(t => ({
+    t,
+    exercise: null,
+    score: null,
+    passed: null,
+    stress: null,
+    landmarks: t === 100 ? [] : face
+  })),
+  events: []
+};
+
+describe('getLandmarkProviderConfig', () => {
+  it('defaults to MediaPipe', () => {
+    expect(getLandmarkProviderConfig('')).toEqual(DEFAULT_LANDMARK_PROVIDER_CONFIG);
+  });
+
+  it('reads the provider from the URL', () => {
+    expect(getLandmarkProviderConfig('?tracker=synthetic')).toEqual({ kind: 'synthetic' });
+    expect(getLandmarkProviderConfig('?tracker=recorded&session=demo.json')).toEqual({
+      kind: 'recorded',
+      sessionUrl: 'demo.json'
+    });
+  });
+
+  it('falls back to MediaPipe for unknown or incomplete settings', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(getLandmarkProviderConfig('?tracker=kinect')).toEqual(DEFAULT_LANDMARK_PROVIDER_CONFIG);
+    expect(getLandmarkProviderConfig('?tracker=recorded')).toEqual(DEFAULT_LANDMARK_PROVIDER_CONFIG);
+    vi.restoreAllMocks();
+  });
+
+  it('builds the configured provider', () => {
+    expect(createLandmarkProvider({ kind: 'synthetic' }).kind).toBe('synthetic');
+    expect(createLandmarkProvider({ kind: 'recorded', sessionUrl: 'demo.json' }).kind).toBe('recorded');
+  });
+});
+
+describe('providers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('RecordedLandmarkProvider plays frames with the recording timestamps', async () => {
+    const samples: LandmarkSample[] = [];
+    const onEnd = vi.fn();
+    const provider = new RecordedLandmarkProvider(session, { speed: 2, onEnd });
+
+    await provider.start(sample => samples.push(sample));
+    expect(provider.isRunning).toBe(true);
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(samples.map(sample => sample.landmarks?.length ?? null)).toEqual([REFINED_FACE_MESH_POINT_COUNT, null, REFINED_FACE_MESH_POINT_COUNT]);
+    expect(samples[2].timestamp - samples[0].timestamp).toBe(200);
+    expect(onEnd).toHaveBeenCalledOnce();
+    expect(provider.isRunning).toBe(false);
+  });
+
+  it('RecordedLandmarkProvider reports the recorded frame size', async () => {
+    const widescreen = new RecordedLandmarkProvider({ ...session, resolution: { width: 1280, height: 720 } });
+    expect(await widescreen.start(() => {})).toEqual({ width: 1280, height: 720 });
+    widescreen.stop();
+
+    const older = new RecordedLandmarkProvider(session);
+    expect(await older.start(() => {})).toEqual(RECORDED_RESOLUTION);
+    older.stop();
+  });
+
+  it('RecordedLandmarkProvider keeps timestamps increasing when looping', async () => {
+    const samples: LandmarkSample[] = [];
+    const provider = new RecordedLandmarkProvider(session, { loop: true });
+
+    await provider.start(sample => samples.push(sample));
+    await vi.advanceTimersByTimeAsync(500);
+    provider.stop();
+
+    expect(samples.length).toBeGreaterThan(3);
+    for (let i = 1; i < samples.length; i++) {
+      expect(samples[i].timestamp).toBeGreaterThan(samples[i - 1].timestamp);
+    }
+  });
+
+  it('SyntheticLandmarkProvider emits faces until stopped', async () => {
+    const samples: LandmarkSample[] = [];
+    const provider = new SyntheticLandmarkProvider({ fps: 10 });
+
+    await provider.start(sample => samples.push(sample));
+    await vi.advanceTimersByTimeAsync(1000);
+    provider.stop();
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(samples).toHaveLength(10);
+    expect(samples.every(sample => sample.landmarks?.length === REFINED_FACE_MESH_POINT_COUNT)).toBe(true);
+    // Framed well enough to be scored
+    expect(samples.every(sample => assessFraming(measureFaceBox(sample.landmarks!), null).ok)).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * LandmarkProvider.ts
+ *
+ * The contract between face trackers and everything that consumes their
+ * output. A provider emits timestamped 468-point frames; the tracker UI,
+ * the validators and the stress games only ever see those frames, so the
+ * source (camera + MediaPipe, a recorded session, a synthetic face) can be
+ * swapped through configuration.
+ */
+import type { LandmarkFrame } from './LandmarkFeatures';
+import type { AnalysisTarget, SampleAnalysis } from './FaceWorkerProtocol';
+
+export type LandmarkProviderKind = 'mediapipe' | 'recorded' | 'synthetic';
+
+export const LANDMARK_PROVIDER_KINDS: LandmarkProviderKind[] = ['mediapipe', 'recorded', 'synthetic'];
+
+/**
+ * One tracker output: the face found in a frame (null when none was) and
+ * when that frame was captured, in performance.now() milliseconds
+ */
+export interface LandmarkSample {
+  landmarks: LandmarkFrame | null;
+  timestamp: number;
+  analysis?: SampleAnalysis;  // Set by providers that already scored the frame off the main thread
+  rawLandmarks?: LandmarkFrame | null;  // The tracker's own output when landmarks were smoothed (LandmarkSmoothing.ts)
+}
+
+export interface LandmarkProviderStartOptions {
+  video?: HTMLVideoElement | null;          // Where camera providers show their stream
+  videoConstraints?: MediaTrackConstraints;
+}
+
+// Size of the frames the landmarks were measured on (for drawing them)
+export interface LandmarkProviderInfo {
+  width: number;
+  height: number;
+}
+
+export interface LandmarkProvider {
+  readonly kind: LandmarkProviderKind;
+  readonly isRunning: boolean;
+
+  /**
+   * Start emitting samples; resolves once the first frames can arrive
+   * Rejects with a LandmarkProviderError when the source can't be started
+   */
+  start(
+    onSample: (sample: LandmarkSample) => void,
+    options?: LandmarkProviderStartOptions
+  ): Promise<LandmarkProviderInfo>;
+
+  // Stop emitting and release the camera, timers and tracker resources
+  stop(): void;
+
+  // Providers that analyze frames themselves need to know what to score
+  setAnalysisTarget?(target: AnalysisTarget): void;
+
+  // Live providers can skip camera frames to process at most fps a second (null = every frame)
+  setMaxFps?(fps: number | null): void;
+}
+
+/**
+ * Why a provider failed to start
+ * - 'camera':   camera access was denied or no camera is available
+ * - 'playback': the camera stream couldn't be played
+ * - 'tracker':  the face tracker or its source data couldn't be loaded
+ */
+export type LandmarkProviderFailure = 'camera' | 'playback' | 'tracker';
+
+export class LandmarkProviderError extends Error {
+  readonly failure: LandmarkProviderFailure;
+
+  constructor(failure: LandmarkProviderFailure, message: string) {
+    super(message);
+    this.name = 'LandmarkProviderError';
+    this.failure = failure;
+  }
+}
+
+/**
+ * Which provider to use and what it needs
+ * The recorded provider loops the session file at sessionUrl
+ */
+export type LandmarkProviderConfig =
+  | { kind: 'mediapipe' | 'synthetic' }
+  | { kind: 'recorded'; sessionUrl: string };
+
+export const DEFAULT_LANDMARK_PROVIDER_CONFIG: LandmarkProviderConfig = {
+  kind: 'mediapipe'
+};
+
+const isProviderKind = (value: string | null | undefined): value is LandmarkProviderKind =>
+  LANDMARK_PROVIDER_KINDS.includes(value as LandmarkProviderKind);
+
+/**
+ * Read the provider configuration
+ * The ?tracker= and ?session= URL parameters win over the VITE_LANDMARK_PROVIDER
+ * and VITE_LANDMARK_SESSION_URL build settings; MediaPipe is the default
+ */
+export function getLandmarkProviderConfig(search: string = window.location.search): LandmarkProviderConfig {
+  const params = new URLSearchParams(search);
+  const requested = params.get('tracker') ?? import.meta.env.VITE_LANDMARK_PROVIDER;
+  const sessionUrl = params.get('session') ?? import.meta.env.VITE_LANDMARK_SESSION_URL;
+
+  if (!requested) {
+    return DEFAULT_LANDMARK_PROVIDER_CONFIG;
+  }
+  if (!isProviderKind(requested)) {
+    console.warn(`Unknown landmark provider "${requested}", using MediaPipe`);
+    return DEFAULT_LANDMARK_PROVIDER_CONFIG;
+  }
+  if (requested === 'recorded') {
+    if (!sessionUrl) {
+      console.warn('Recorded landmark provider needs a session URL, using MediaPipe');
+      return DEFAULT_LANDMARK_PROVIDER_CONFIG;
+    }
+    return { kind: requested, sessionUrl };
+  }
+
+  return { kind: requested };
+}
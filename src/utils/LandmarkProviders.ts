@@ -0,0 +1,22 @@
+/**
+ * LandmarkProviders.ts
+ *
+ * Builds the landmark provider a configuration asks for.
+ */
+import type { LandmarkProvider, LandmarkProviderConfig } from './LandmarkProvider';
+import { MediaPipeLandmarkProvider } from './MediaPipeProvider';
+import { RecordedLandmarkProvider } from './RecordedProvider';
+import { SyntheticLandmarkProvider } from './SyntheticProvider';
+import { canRunFaceMeshWorker, WorkerLandmarkProvider } from './WorkerProvider';
+
+export function createLandmarkProvider(config: LandmarkProviderConfig): LandmarkProvider {
+  switch (config.kind) {
+    case 'recorded':
+      return new RecordedLandmarkProvider(config.sessionUrl, { loop: true });
+    case 'synthetic':
+      return new SyntheticLandmarkProvider();
+    case 'mediapipe':
+      // Inference in a worker where possible, so the UI keeps up with the camera
+      return canRunFaceMeshWorker() ? new WorkerLandmarkProvider() : new MediaPipeLandmarkProvider();
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { compileRule, LandmarkRuleError, MOVEMENT_REFERENCE_INTERVAL_MS } from './LandmarkRules';
+import type { LandmarkRule, RuleValue } from './LandmarkRules';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+// A frame holding just the given points (index -> [x, y, z])
+const frameOf = (points: Record<number, [number, number, number]>): LandmarkFrame => {
+  const frame: LandmarkFrame = [];
+  for (const [index, [x, y, z]] of Object.entries(points)) frame[Number(index)] = { x, y, z };
+  return frame;
+};
+
+// Evaluate a rule once per value of point 0's y coordinate, frames 100 ms apart
+const runValues = (rule: LandmarkRule, ys: number[], frameMs = 100) => {
+  const compiled = compileRule(rule);
+  return ys.map((y, i) => compiled.evaluate({ landmarks: frameOf({ 0: [0, y, 0] }), timestamp: i * frameMs }));
+};
+
+const Y: RuleValue = { op: 'coord', point: 0, axis: 'y' };
+
+// Check a value by comparing it against a band around the expected number
+const measures = (value: RuleValue, landmarks: LandmarkFrame, expected: number) =>
+  compileRule({ op: 'between', value, min: expected - 1e-9, max: expected + 1e-9 }).evaluate({ landmarks, timestamp: 0 });
+
+describe('values', () => {
+  const frame = frameOf({ 0: [0.1, 0.2, 0], 1: [0.4, 0.6, -0.05], 2: [0.1, 0.4, 0.02] });
+
+  it('measures distances, z-offsets and ratios', () => {
+    expect(measures({ op: 'distance', from: 0, to: 1 }, frame, 0.5)).toBe(true);
+    expect(measures({ op: 'distance', from: 0, to: 1, axes: 'xyz' }, frame, Math.hypot(0.3, 0.4, 0.05))).toBe(true);
+    expect(measures({ op: 'zOffset', point: 1, from: 2 }, frame, -0.07)).toBe(true);
+    expect(measures({ op: 'ratio', of: { op: 'distance', from: 0, to: 2 }, to: { op: 'distance', from: 0, to: 1 } }, frame, 0.4)).toBe(true);
+    expect(measures({ op: 'max', of: [{ op: 'coord', point: 0, axis: 'x' }, { op: 'coord', point: 1, axis: 'x' }] }, frame, 0.4)).toBe(true);
+  });
+
+  it('reads landmarks by name and features from the normalized face', () => {
+    const face = createSyntheticFace({ jawOpen: 1 });
+    const chin = face[152];
+    expect(measures({ op: 'coord', point: 'CHIN', axis: 'y' }, face, chin.y)).toBe(true);
+    expect(compileRule({ op: 'above', value: { op: 'feature', name: 'mouthOpenness' }, than: 0.05 })
+      .evaluate({ landmarks: face, timestamp: 0 })).toBe(true);
+  });
+
+  it('fails checks on landmarks the frame does not have', () => {
+    const rule: LandmarkRule = { op: 'below', value: { op: 'coord', point: 300, axis: 'x' }, than: 1 };
+    expect(compileRule(rule).evaluate({ landmarks: frame, timestamp: 0 })).toBe(false);
+    expect(compileRule({ op: 'not', rule }).evaluate({ landmarks: frame, timestamp: 0 })).toBe(true);
+  });
+
+  it('measures movement per reference interval', () => {
+    const moved = (ms: number) => {
+      const compiled = compileRule({ op: 'above', value: { op: 'movement', point: 0 }, than: 0.015 });
+      compiled.evaluate({ landmarks: frameOf({ 0: [0.5, 0.5, 0] }), timestamp: 0 });
+      return compiled.evaluate({ landmarks: frameOf({ 0: [0.52, 0.5, 0] }), timestamp: ms });
+    };
+    expect(moved(MOVEMENT_REFERENCE_INTERVAL_MS / 2)).toBe(true);
+    expect(moved(MOVEMENT_REFERENCE_INTERVAL_MS)).toBe(true);
+    expect(moved(MOVEMENT_REFERENCE_INTERVAL_MS * 2)).toBe(false);
+  });
+});
+
+describe('checks', () => {
+  it('combines comparisons', () => {
+    const inBand: LandmarkRule = {
+      op: 'all',
+      rules: [{ op: 'above', value: Y, than: 0.2 }, { op: 'below', value: Y, than: 0.4 }]
+    };
+    expect(runValues(inBand, [0.1, 0.3, 0.5])).toEqual([false, true, false]);
+    expect(runValues({ op: 'any', rules: [{ op: 'not', rule: inBand }] }, [0.1, 0.3])).toEqual([true, false]);
+  });
+});
+
+describe('temporal operators', () => {
+  it('heldFor waits for an unbroken run', () => {
+    const rule: LandmarkRule = { op: 'heldFor', rule: { op: 'above', value: Y, than: 0.5 }, ms: 200 };
+    expect(runValues(rule, [0.6, 0.6, 0.4, 0.6, 0.6, 0.6])).toEqual([false, false, false, false, false, true]);
+  });
+
+  it('oscillates counts swings within the window', () => {
+    const rule: LandmarkRule = { op: 'oscillates', value: Y, amplitude: 0.1, count: 3, withinMs: 1000 };
+    // Small wobbles don't count; a long climb counts once
+    expect(runValues(rule, [0.5, 0.55, 0.5, 0.7, 0.8, 0.9, 0.6, 0.9])).toEqual([false, false, false, false, false, false, false, true]);
+    // Swings spread out beyond the window never add up
+    expect(runValues(rule, [0.5, 0.7, 0.5, 0.7, 0.5, 0.7], 600).some(Boolean)).toBe(false);
+  });
+
+  it('staysBelow fails once the value gets there, and recovers after the window', () => {
+    const rule: LandmarkRule = { op: 'staysBelow', value: Y, max: 0.5, forMs: 200 };
+    expect(runValues(rule, [0.1, 0.6, 0.1, 0.1, 0.1])).toEqual([true, false, false, false, true]);
+    expect(runValues({ op: 'staysBelow', value: Y, max: 0.5 }, [0.1, 0.6, ...Array(20).fill(0.1)]).slice(1).some(Boolean)).toBe(false);
+  });
+
+  it('alternate switches rules every half period', () => {
+    const rule: LandmarkRule = {
+      op: 'alternate',
+      rules: [{ op: 'above', value: Y, than: 0.5 }, { op: 'below', value: Y, than: 0.5 }],
+      periodMs: 400
+    };
+    expect(runValues(rule, [0.6, 0.6, 0.4, 0.4, 0.6])).toEqual([true, true, true, true, true]);
+    expect(runValues(rule, [0.4, 0.4, 0.6, 0.6, 0.4])).toEqual([false, false, false, false, false]);
+  });
+
+  it('keeps temporal state current inside all and any', () => {
+    // The heldFor sees every frame even while the first check is failing
+    const rule: LandmarkRule = {
+      op: 'all',
+      rules: [
+        { op: 'below', value: { op: 'coord', point: 0, axis: 'x' }, than: 0.5 },
+        { op: 'heldFor', rule: { op: 'above', value: Y, than: 0.5 }, ms: 200 }
+      ]
+    };
+    const compiled = compileRule(rule);
+    const results = [[0.9, 0.6], [0.9, 0.6], [0.1, 0.6]].map(([x, y], i) =>
+      compiled.evaluate({ landmarks: frameOf({ 0: [x, y, 0] }), timestamp: i * 100 })
+    );
+    expect(results).toEqual([false, false, true]);
+  });
+
+  it('starts over on reset or when the clock goes back', () => {
+    const compiled = compileRule({ op: 'heldFor', rule: { op: 'above', value: Y, than: 0.5 }, ms: 100 });
+    const high = frameOf({ 0: [0, 0.6, 0] });
+    compiled.evaluate({ landmarks: high, timestamp: 0 });
+    expect(compiled.evaluate({ landmarks: high, timestamp: 100 })).toBe(true);
+
+    compiled.reset();
+    expect(compiled.evaluate({ landmarks: high, timestamp: 150 })).toBe(false);
+    expect(compiled.evaluate({ landmarks: high, timestamp: 50 })).toBe(false);
+  });
+});
+
+describe('compileRule', () => {
+  it('points at the part of a malformed rule', () => {
+    const rule = {
+      op: 'all',
+      rules: [
+        { op: 'above', value: Y, than: 0.2 },
+        { op: 'below', value: { op: 'distance', from: 'CHIN', to: 'LEFT_EAR' }, than: 0.4 }
+      ]
+    } as LandmarkRule;
+    expect(() => compileRule(rule)).toThrow(LandmarkRuleError);
+    expect(() => compileRule(rule)).toThrow('rule.rules[1].value.to: unknown landmark "LEFT_EAR"');
+    expect(() => compileRule({ op: 'exercise', id: 'moonwalk' })).toThrow('unknown exercise');
+    expect(() => compileRule({ op: 'wiggle' } as unknown as LandmarkRule)).toThrow('rule.op: unknown rule "wiggle"');
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * LandmarkRules.ts
+ *
+ * A small rule language for judging faces frame by frame. Rules are plain
+ * data (so they can live in JSON next to exercises and games) built from:
+ *
+ * - values:   landmark coordinates, distances, z-offsets, ratios, extracted
+ *             features and per-frame movement
+ * - checks:   above / below / between, combined with all / any / not
+ * - time:     heldFor (true for N ms), oscillates (N swings within T ms),
+ *             staysBelow (never reached X within a window) and alternate
+ *             (one rule then another, on a fixed rhythm)
+ *
+ * compileRule resolves landmark names and builds closures once; the result
+ * keeps whatever state its temporal parts need, so evaluating a frame is just
+ * a few arithmetic operations and there is nothing to store elsewhere.
+ */
+import { analyzeFrame, ExerciseValidators } from './FacialAnalysis';
+import type { ExerciseId } from './FacialAnalysis';
+import { FACIAL_LANDMARKS, FEATURE_NAMES } from './LandmarkFeatures';
+import type { FeatureName, LandmarkFrame } from './LandmarkFeatures';
+import type { LandmarkName } from './ExerciseRegistry';
+
+// A landmark by mesh index or FACIAL_LANDMARKS name
+export type LandmarkRef = number | LandmarkName;
+
+export type Axis = 'x' | 'y' | 'z';
+
+/**
+ * Something measured on a frame (normalized image units unless noted)
+ */
+export type RuleValue =
+  | number
+  | { op: 'coord'; point: LandmarkRef; axis: Axis }
+  | { op: 'distance'; from: LandmarkRef; to: LandmarkRef; axes?: 'xy' | 'xyz' }
+  | { op: 'zOffset'; point: LandmarkRef; from: LandmarkRef }  // point.z - from.z; negative is nearer the camera
+  | { op: 'ratio'; of: RuleValue; to: RuleValue }
+  | { op: 'feature'; name: FeatureName }                     // From the pose-normalized frame (LandmarkFeatures.ts)
+  | { op: 'movement'; point: LandmarkRef }                   // Distance moved since the previous frame, per reference interval
+  | { op: 'max' | 'min'; of: RuleValue[] };
+
+/**
+ * A check on the current frame, or on recent frames for the temporal operators
+ */
+export type LandmarkRule =
+  | { op: 'above' | 'below'; value: RuleValue; than: RuleValue }
+  | { op: 'between'; value: RuleValue; min: RuleValue; max: RuleValue }
+  | { op: 'all' | 'any'; rules: LandmarkRule[] }
+  | { op: 'not'; rule: LandmarkRule }
+  | { op: 'exercise'; id: ExerciseId }                                            // The exercise's own criteria (calibrated)
+  | { op: 'heldFor'; rule: LandmarkRule; ms: number }                              // rule true on every frame for the last ms
+  | { op: 'oscillates'; value: RuleValue; amplitude: number; count: number; withinMs: number }
+  | { op: 'staysBelow'; value: RuleValue; max: number; forMs?: number }           // Never reached max in the window (since the start by default)
+  | { op: 'alternate'; rules: [LandmarkRule, LandmarkRule]; periodMs: number };   // First rule for half of each period, then the second
+
+// Movement is measured per this interval, so thresholds hold at lower frame rates
+// (frames further apart give the face longer to drift; closer ones never tighten it)
+export const MOVEMENT_REFERENCE_INTERVAL_MS = 100;
+
+// Frames further apart than this start a new movement track
+const MAX_MOVEMENT_GAP_MS = 1000;
+
+export class LandmarkRuleError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'LandmarkRuleError';
+    this.path = path;
+  }
+}
+
+export interface RuleFrame {
+  landmarks: LandmarkFrame;
+  timestamp: number;    // Capture time (ms); only differences matter
+}
+
+export interface CompiledRule {
+  evaluate(frame: RuleFrame): boolean;
+  reset(): void;        // Forget all temporal state (new game, face lost)
+}
+
+// What values and checks see for one frame
+interface EvaluationContext {
+  landmarks: LandmarkFrame;
+  previous: LandmarkFrame | null;
+  timestamp: number;
+  elapsedMs: number;      // Since the first frame after a reset
+  intervalMs: number;     // Since the previous frame (0 on the first)
+}
+
+type ValueFn = (context: EvaluationContext) => number;
+type CheckFn = (context: EvaluationContext) => boolean;
+
+const LANDMARK_NAMES = new Set(Object.keys(FACIAL_LANDMARKS));
+
+function resolvePoint(ref: LandmarkRef, path: string): number {
+  if (typeof ref === 'number' && Number.isInteger(ref) && ref >= 0) return ref;
+  if (typeof ref === 'string' && LANDMARK_NAMES.has(ref)) return FACIAL_LANDMARKS[ref];
+  throw new LandmarkRuleError(path, `unknown landmark ${JSON.stringify(ref)}`);
+}
+
+function requireNumber(value: unknown, path: string, min = -Infinity): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    throw new LandmarkRuleError(path, min > -Infinity ? `must be a number of at least ${min}` : 'must be a number');
+  }
+  return value;
+}
+
+// Missing landmarks (a partial mesh) measure as NaN, which fails every comparison
+const point = (landmarks: LandmarkFrame, index: number) => landmarks[index] ?? { x: NaN, y: NaN, z: NaN };
+
+function compileValue(value: RuleValue, path: string): ValueFn {
+  if (typeof value === 'number') {
+    const constant = requireNumber(value, path);
+    return () => constant;
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new LandmarkRuleError(path, 'must be a number or a value expression');
+  }
+
+  switch (value.op) {
+    case 'coord': {
+      const index = resolvePoint(value.point, `${path}.point`);
+      const axis = value.axis;
+      if (axis !== 'x' && axis !== 'y' && axis !== 'z') throw new LandmarkRuleError(`${path}.axis`, 'must be x, y or z');
+      return ({ landmarks }) => point(landmarks, index)[axis];
+    }
+    case 'distance': {
+      const from = resolvePoint(value.from, `${path}.from`);
+      const to = resolvePoint(value.to, `${path}.to`);
+      const withZ = value.axes === 'xyz';
+      return ({ landmarks }) => {
+        const a = point(landmarks, from);
+        const b = point(landmarks, to);
+        return withZ ? Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z) : Math.hypot(a.x - b.x, a.y - b.y);
+      };
+    }
+    case 'zOffset': {
+      const index = resolvePoint(value.point, `${path}.point`);
+      const from = resolvePoint(value.from, `${path}.from`);
+      return ({ landmarks }) => point(landmarks, index).z - point(landmarks, from).z;
+    }
+    case 'ratio': {
+      const of = compileValue(value.of, `${path}.of`);
+      const to = compileValue(value.to, `${path}.to`);
+      return (context) => {
+        const denominator = to(context);
+        return denominator !== 0 ? of(context) / denominator : NaN;
+      };
+    }
+    case 'feature': {
+      const name = value.name;
+      if (!FEATURE_NAMES.includes(name)) throw new LandmarkRuleError(`${path}.name`, `unknown feature ${JSON.stringify(name)}`);
+      return ({ landmarks }) => analyzeFrame(landmarks).features[name];
+    }
+    case 'movement': {
+      const index = resolvePoint(value.point, `${path}.point`);
+      return ({ landmarks, previous, intervalMs }) => {
+        if (!previous) return 0;
+        const a = point(landmarks, index);
+        const b = point(previous, index);
+        const moved = Math.hypot(a.x - b.x, a.y - b.y);
+        return intervalMs > MOVEMENT_REFERENCE_INTERVAL_MS ? moved * MOVEMENT_REFERENCE_INTERVAL_MS / intervalMs : moved;
+      };
+    }
+    case 'max':
+    case 'min': {
+      if (!Array.isArray(value.of) || value.of.length === 0) throw new LandmarkRuleError(`${path}.of`, 'must list at least one value');
+      const parts = value.of.map((part, i) => compileValue(part, `${path}.of[${i}]`));
+      const pick = value.op === 'max' ? Math.max : Math.min;
+      return (context) => pick(...parts.map(part => part(context)));
+    }
+    default:
+      throw new LandmarkRuleError(`${path}.op`, `unknown value ${JSON.stringify((value as { op: unknown }).op)}`);
+  }
+}
+
+// Temporal checks register their state reset here while compiling
+type ResetList = (() => void)[];
+
+function compileCheck(rule: LandmarkRule, path: string, resets: ResetList): CheckFn {
+  if (typeof rule !== 'object' || rule === null) {
+    throw new LandmarkRuleError(path, 'must be a rule');
+  }
+
+  switch (rule.op) {
+    case 'above':
+    case 'below': {
+      const value = compileValue(rule.value, `${path}.value`);
+      const than = compileValue(rule.than, `${path}.than`);
+      return rule.op === 'above'
+        ? (context) => value(context) > than(context)
+        : (context) => value(context) < than(context);
+    }
+    case 'between': {
+      const value = compileValue(rule.value, `${path}.value`);
+      const min = compileValue(rule.min, `${path}.min`);
+      const max = compileValue(rule.max, `${path}.max`);
+      return (context) => {
+        const measured = value(context);
+        return measured >= min(context) && measured <= max(context);
+      };
+    }
+    case 'all':
+    case 'any': {
+      if (!Array.isArray(rule.rules) || rule.rules.length === 0) throw new LandmarkRuleError(`${path}.rules`, 'must list at least one rule');
+      const checks = rule.rules.map((child, i) => compileCheck(child, `${path}.rules[${i}]`, resets));
+      // Every child sees every frame, so temporal children keep their state current
+      return rule.op === 'all'
+        ? (context) => checks.reduce((passed, check) => check(context) && passed, true)
+        : (context) => checks.reduce((passed, check) => check(context) || passed, false);
+    }
+    case 'not': {
+      const check = compileCheck(rule.rule, `${path}.rule`, resets);
+      return (context) => !check(context);
+    }
+    case 'exercise': {
+      const validate = ExerciseValidators[rule.id];
+      if (!validate) throw new LandmarkRuleError(`${path}.id`, `unknown exercise ${JSON.stringify(rule.id)}`);
+      return ({ landmarks }) => validate(landmarks);
+    }
+    case 'heldFor': {
+      const check = compileCheck(rule.rule, `${path}.rule`, resets);
+      const ms = requireNumber(rule.ms, `${path}.ms`, 0);
+      let trueSince: number | null = null;
+      resets.push(() => { trueSince = null; });
+      return (context) => {
+        if (!check(context)) {
+          trueSince = null;
+          return false;
+        }
+        trueSince ??= context.timestamp;
+        return context.timestamp - trueSince >= ms;
+      };
+    }
+    case 'oscillates': {
+      const value = compileValue(rule.value, `${path}.value`);
+      const amplitude = requireNumber(rule.amplitude, `${path}.amplitude`, 0);
+      const count = requireNumber(rule.count, `${path}.count`, 1);
+      const withinMs = requireNumber(rule.withinMs, `${path}.withinMs`, 0);
+      // A swing is a move of at least amplitude away from the last turning point,
+      // in the opposite direction to the swing before it
+      let anchor: number | null = null;
+      let direction = 0;
+      let swings: number[] = [];
+      resets.push(() => {
+        anchor = null;
+        direction = 0;
+        swings = [];
+      });
+      return (context) => {
+        const measured = value(context);
+        if (Number.isNaN(measured)) return false;
+
+        if (anchor === null) {
+          anchor = measured;
+        } else if (direction !== 0 && Math.sign(measured - anchor) === direction) {
+          // Still moving the same way: follow it to the turning point
+          anchor = measured;
+        } else if (Math.abs(measured - anchor) >= amplitude) {
+          direction = Math.sign(measured - anchor);
+          anchor = measured;
+          swings.push(context.timestamp);
+        }
+
+        swings = swings.filter(at => context.timestamp - at <= withinMs);
+        return swings.length >= count;
+      };
+    }
+    case 'staysBelow': {
+      const value = compileValue(rule.value, `${path}.value`);
+      const max = requireNumber(rule.max, `${path}.max`);
+      const forMs = rule.forMs === undefined ? Infinity : requireNumber(rule.forMs, `${path}.forMs`, 0);
+      let lastReachedAt: number | null = null;
+      resets.push(() => { lastReachedAt = null; });
+      return (context) => {
+        if (!(value(context) < max)) lastReachedAt = context.timestamp;
+        return lastReachedAt === null || context.timestamp - lastReachedAt > forMs;
+      };
+    }
+    case 'alternate': {
+      if (!Array.isArray(rule.rules) || rule.rules.length !== 2) throw new LandmarkRuleError(`${path}.rules`, 'must list exactly two rules');
+      const first = compileCheck(rule.rules[0], `${path}.rules[0]`, resets);
+      const second = compileCheck(rule.rules[1], `${path}.rules[1]`, resets);
+      const periodMs = requireNumber(rule.periodMs, `${path}.periodMs`, 1);
+      return (context) => {
+        const firstResult = first(context);
+        const secondResult = second(context);
+        return (context.elapsedMs % periodMs) / periodMs < 0.5 ? firstResult : secondResult;
+      };
+    }
+    default:
+      throw new LandmarkRuleError(`${path}.op`, `unknown rule ${JSON.stringify((rule as { op: unknown }).op)}`);
+  }
+}
+
+/**
+ * Compile a rule for per-frame evaluation
+ * Throws LandmarkRuleError (with the path of the offending part) for malformed rules
+ */
+export function compileRule(rule: LandmarkRule): CompiledRule {
+  const resets: ResetList = [];
+  const check = compileCheck(rule, 'rule', resets);
+
+  let startedAt: number | null = null;
+  let previous: LandmarkFrame | null = null;
+  let previousAt = 0;
+
+  const reset = () => {
+    startedAt = null;
+    previous = null;
+    resets.forEach(resetState => resetState());
+  };
+
+  return {
+    evaluate({ landmarks, timestamp }) {
+      // A restarted clock is a new run
+      if (startedAt !== null && timestamp < previousAt) reset();
+
+      // After a long gap, movement starts over rather than counting the jump
+      if (previous && timestamp - previousAt > MAX_MOVEMENT_GAP_MS) previous = null;
+
+      startedAt ??= timestamp;
+      const context: EvaluationContext = {
+        landmarks,
+        previous,
+        timestamp,
+        elapsedMs: timestamp - startedAt,
+        intervalMs: previous ? timestamp - previousAt : 0
+      };
+      const result = check(context);
+
+      previous = landmarks;
+      previousAt = timestamp;
+      return result;
+    },
+    reset
+  };
+}
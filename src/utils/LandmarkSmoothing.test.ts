@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { getExerciseSmoothing, LandmarkSmoother, smoothSample, SMOOTHING_PRESETS } from './LandmarkSmoothing';
+import { extractFeatures } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+const FRAME_MS = 1000 / 30;
+const NOSE_SCRUNCH_THRESHOLD = 0.025;
+
+// Deterministic tracker jitter
+function createNoise(seed: number, amplitude: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return (state / 4294967296 - 0.5) * 2 * amplitude;
+  };
+}
+
+const jitter = (face: LandmarkFrame, noise: () => number): LandmarkFrame =>
+  face.map(({ x, y, z }) => ({ x: x + noise(), y: y + noise(), z }));
+
+// How often a check changes its verdict over a run of frames
+const countFlips = (results: boolean[]) => results.filter((result, i) => i > 0 && result !== results[i - 1]).length;
+
+describe('LandmarkSmoother', () => {
+  it('steadies a borderline check against tracker jitter', () => {
+    // Held just past the pass threshold (noseLength 0.0242)
+    const face = createSyntheticFace({ noseScrunch: 0.72 });
+    const noise = createNoise(7, 0.0015);
+    const smoother = new LandmarkSmoother(getExerciseSmoothing('noseScruncher'));
+
+    const raw: boolean[] = [];
+    const smoothed: boolean[] = [];
+    for (let i = 0; i < 100; i++) {
+      const frame = jitter(face, noise);
+      const smoothedFrame = smoother.smooth(frame, i * FRAME_MS);
+      // Let the filter settle on the hold first
+      if (i < 10) continue;
+      raw.push(extractFeatures(frame).noseLength < NOSE_SCRUNCH_THRESHOLD);
+      smoothed.push(extractFeatures(smoothedFrame).noseLength < NOSE_SCRUNCH_THRESHOLD);
+    }
+
+    expect(countFlips(raw)).toBeGreaterThan(10);
+    expect(countFlips(smoothed)).toBeLessThanOrEqual(2);
+  });
+
+  it('follows fast movements sooner with responsive settings', () => {
+    const closed = createSyntheticFace();
+    const open = createSyntheticFace({ jawOpen: 1 });
+    const chin = 152;
+    const step = open[chin].y - closed[chin].y;
+
+    // Frames until the chin has covered 90% of a sudden jaw drop
+    const framesToFollow = (preset: keyof typeof SMOOTHING_PRESETS) => {
+      const smoother = new LandmarkSmoother(SMOOTHING_PRESETS[preset]);
+      for (let i = 0; i < 10; i++) smoother.smooth(closed, i * FRAME_MS);
+      for (let i = 10; i < 60; i++) {
+        const chinY = smoother.smooth(open, i * FRAME_MS)[chin].y;
+        if (chinY - closed[chin].y >= step * 0.9) return i - 9;
+      }
+      return Infinity;
+    };
+
+    expect(framesToFollow('responsive')).toBeLessThanOrEqual(3);
+    expect(framesToFollow('stable')).toBeGreaterThan(framesToFollow('responsive'));
+  });
+
+  it('starts a new track after a reset, a long gap or a clock reset', () => {
+    const smoother = new LandmarkSmoother(SMOOTHING_PRESETS.stable);
+    const left = createSyntheticFace({}, { x: 0.4 });
+    const right = createSyntheticFace({}, { x: 0.6 });
+
+    smoother.smooth(left, 0);
+    expect(smoother.smooth(right, FRAME_MS)[4].x).toBeLessThan(right[4].x);
+
+    smoother.reset();
+    expect(smoother.smooth(right, 2 * FRAME_MS)[4].x).toBe(right[4].x);
+    expect(smoother.smooth(left, 5000)[4].x).toBe(left[4].x);
+    expect(smoother.smooth(right, 100)[4].x).toBe(right[4].x);
+  });
+});
+
+describe('smoothSample', () => {
+  const face = createSyntheticFace();
+
+  it('keeps the tracker output as rawLandmarks', () => {
+    const sample = smoothSample(new LandmarkSmoother(), { landmarks: face, timestamp: 0 });
+    expect(sample.rawLandmarks).toBe(face);
+    expect(sample.landmarks).not.toBe(face);
+    expect(sample.landmarks).toEqual(face);
+  });
+
+  it('passes samples a provider already smoothed', () => {
+    const smoothed = { landmarks: face, rawLandmarks: face, timestamp: 0 };
+    expect(smoothSample(new LandmarkSmoother(), smoothed)).toBe(smoothed);
+  });
+
+  it('marks frames without a face', () => {
+    expect(smoothSample(new LandmarkSmoother(), { landmarks: null, timestamp: 0 }).rawLandmarks).toBeNull();
+  });
+});
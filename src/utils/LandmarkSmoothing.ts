@@ -0,0 +1,137 @@
+/**
+ * LandmarkSmoothing.ts
+ *
+ * One-Euro filtering of landmark coordinates between the tracker and its
+ * consumers. The filter smooths heavily while the face is still (so borderline
+ * checks stop flickering between pass and fail) and lets fast movements
+ * through with little lag. How much is tuned per exercise: hold-type exercises
+ * get stable readings, quick ones stay responsive.
+ */
+import type { ExerciseId } from './FacialAnalysis';
+import { getExercise } from './ExerciseRegistry';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import type { LandmarkSample } from './LandmarkProvider';
+
+/**
+ * One-Euro filter parameters (coordinates are normalized, time in seconds)
+ * - minCutoff: cutoff frequency (Hz) while still; lower means less jitter, more lag
+ * - beta:      how quickly the cutoff rises with speed; higher means less lag on fast moves
+ * - dCutoff:   cutoff for the speed estimate itself
+ */
+export interface SmoothingParams {
+  minCutoff: number;
+  beta: number;
+  dCutoff: number;
+}
+
+export type SmoothingPreset = 'responsive' | 'balanced' | 'stable';
+
+export const SMOOTHING_PRESETS: Record<SmoothingPreset, SmoothingParams> = {
+  responsive: { minCutoff: 3, beta: 40, dCutoff: 1 },
+  balanced: { minCutoff: 1.5, beta: 20, dCutoff: 1 },
+  stable: { minCutoff: 0.6, beta: 8, dCutoff: 1 }
+};
+
+/**
+ * Smoothing for an exercise (balanced when none is selected)
+ * Each exercise record picks its preset: quick exercises stay responsive,
+ * long holds and borderline checks get stable readings
+ */
+export function getExerciseSmoothing(exercise: ExerciseId | null): SmoothingParams {
+  return SMOOTHING_PRESETS[(exercise && getExercise(exercise)?.smoothing) || 'balanced'];
+}
+
+// Longest gap between frames that still continues the same filtered track
+const MAX_FRAME_GAP_MS = 1000;
+
+// Smoothing factor of a first-order low-pass at this cutoff for a step of dt seconds
+const lowPassAlpha = (cutoff: number, dt: number) => 1 / (1 + 1 / (2 * Math.PI * cutoff * dt));
+
+/**
+ * One-Euro filter over every coordinate of a landmark frame
+ * All coordinates share the frame timestamp, so state is kept in flat arrays
+ */
+export class LandmarkSmoother {
+  private params: SmoothingParams;
+  private values: Float64Array | null = null;       // Filtered x, y, z per landmark
+  private derivatives: Float64Array | null = null;  // Filtered speed per coordinate
+  private lastTimestamp = 0;
+
+  constructor(params: SmoothingParams = SMOOTHING_PRESETS.balanced) {
+    this.params = params;
+  }
+
+  /**
+   * Change the parameters; the filtered track carries on
+   */
+  setParams(params: SmoothingParams) {
+    this.params = params;
+  }
+
+  /**
+   * Forget the track (face lost, new source); the next frame passes through unfiltered
+   */
+  reset() {
+    this.values = null;
+    this.derivatives = null;
+  }
+
+  /**
+   * Smooth one frame captured at timestampMs; returns a new frame
+   */
+  smooth(landmarks: LandmarkFrame, timestampMs: number): LandmarkFrame {
+    const length = landmarks.length * 3;
+    const dt = (timestampMs - this.lastTimestamp) / 1000;
+
+    // Start a new track on the first frame, a different mesh size, a long gap or a clock reset
+    if (!this.values || !this.derivatives || this.values.length !== length || dt <= 0 || dt * 1000 > MAX_FRAME_GAP_MS) {
+      const values = new Float64Array(length);
+      landmarks.forEach((landmark, i) => {
+        values[i * 3] = landmark.x;
+        values[i * 3 + 1] = landmark.y;
+        values[i * 3 + 2] = landmark.z;
+      });
+      this.values = values;
+      this.derivatives = new Float64Array(length);
+      this.lastTimestamp = timestampMs;
+      return landmarks.map(({ x, y, z }) => ({ x, y, z }));
+    }
+    this.lastTimestamp = timestampMs;
+
+    const { minCutoff, beta, dCutoff } = this.params;
+    const values = this.values;
+    const derivatives = this.derivatives;
+    const derivativeAlpha = lowPassAlpha(dCutoff, dt);
+
+    const filter = (index: number, value: number): number => {
+      const derivative = derivatives[index] + derivativeAlpha * ((value - values[index]) / dt - derivatives[index]);
+      derivatives[index] = derivative;
+      const alpha = lowPassAlpha(minCutoff + beta * Math.abs(derivative), dt);
+      values[index] += alpha * (value - values[index]);
+      return values[index];
+    };
+
+    return landmarks.map((landmark, i) => ({
+      x: filter(i * 3, landmark.x),
+      y: filter(i * 3 + 1, landmark.y),
+      z: filter(i * 3 + 2, landmark.z)
+    }));
+  }
+}
+
+/**
+ * Run a tracker sample through the smoother, keeping the tracker's own landmarks as rawLandmarks
+ * Samples that were already smoothed (they carry rawLandmarks) pass through untouched
+ */
+export function smoothSample(smoother: LandmarkSmoother, sample: LandmarkSample): LandmarkSample {
+  if (sample.rawLandmarks !== undefined) return sample;
+  if (!sample.landmarks) {
+    smoother.reset();
+    return { ...sample, rawLandmarks: null };
+  }
+  return {
+    ...sample,
+    landmarks: smoother.smooth(sample.landmarks, sample.timestamp),
+    rawLandmarks: sample.landmarks
+  };
+}
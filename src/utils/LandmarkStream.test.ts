@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createStreamSelection, LandmarkStream } from './LandmarkStream';
+import { createSyntheticFace } from './SyntheticFaces';
+
+const FRAME_MS = 1000 / 30;
+const face = createSyntheticFace();
+
+// Publish seconds of 30 fps samples; visible(i) decides whether frame i has a face
+function play(stream: LandmarkStream, seconds: number, visible: (i: number) => boolean = () => true) {
+  for (let i = 0; i < seconds * 30; i++) {
+    stream.publish({ landmarks: visible(i) ? face : null, timestamp: 1000 + i * FRAME_MS });
+  }
+}
+
+describe('LandmarkStream', () => {
+  it('delivers to each subscriber at its own rate', () => {
+    const stream = new LandmarkStream();
+    const counts = { every: 0, games: 0, stress: 0 };
+    stream.subscribe(() => counts.every++);
+    stream.subscribe(() => counts.games++, { hz: 10 });
+    stream.subscribe(() => counts.stress++, { hz: 1 });
+
+    play(stream, 3);
+
+    expect(counts).toEqual({ every: 90, games: 30, stress: 3 });
+    expect(stream.frameCount).toBe(90);
+    expect(stream.latest.faceVisible).toBe(true);
+  });
+
+  it('keeps its rate when frame timing jitters', () => {
+    const stream = new LandmarkStream();
+    let count = 0;
+    stream.subscribe(() => count++, { hz: 10 });
+
+    for (let i = 0; i < 90; i++) {
+      stream.publish({ landmarks: face, timestamp: i * FRAME_MS + (i % 2 ? 3 : -3) });
+    }
+
+    expect(count).toBeGreaterThanOrEqual(29);
+  });
+
+  it('starts over when a new provider restarts the clock', () => {
+    const stream = new LandmarkStream();
+    const delivered: number[] = [];
+    stream.subscribe(frame => delivered.push(frame.timestamp), { hz: 1 });
+
+    stream.publish({ landmarks: face, timestamp: 50000 });
+    stream.publish({ landmarks: face, timestamp: 100 });
+
+    expect(delivered).toEqual([50000, 100]);
+  });
+
+  it('stops delivering after unsubscribing', () => {
+    const stream = new LandmarkStream();
+    let count = 0;
+    const unsubscribe = stream.subscribe(() => count++);
+
+    play(stream, 1);
+    unsubscribe();
+    play(stream, 1);
+
+    expect(count).toBe(30);
+    expect(stream.subscriberCount).toBe(0);
+  });
+});
+
+describe('createStreamSelection', () => {
+  it('only notifies when the selected value changes', () => {
+    const stream = new LandmarkStream();
+    const selection = createStreamSelection(stream, frame => frame.faceVisible, { hz: 10 });
+    const values: boolean[] = [];
+    selection.subscribe(() => values.push(selection.getSnapshot()));
+
+    // Face lost for the middle second
+    play(stream, 3, i => i < 30 || i >= 60);
+
+    expect(values).toEqual([true, false, true]);
+  });
+
+  it('cuts camera-rate re-renders down to value changes', () => {
+    // Before: App stored every frame in state, re-rendering itself and StressGame per frame
+    const stream = new LandmarkStream();
+    let propDrivenRenders = 0;
+    stream.subscribe(() => propDrivenRenders++);
+
+    // After: StressGame selects faceVisible at 10 Hz and only renders when it flips
+    const selection = createStreamSelection(stream, frame => frame.faceVisible, { hz: 10 });
+    let selectorRenders = 0;
+    selection.subscribe(() => selectorRenders++);
+
+    // Face comes and goes every 2 seconds
+    play(stream, 10, i => Math.floor(i / 60) % 2 === 0);
+
+    expect(propDrivenRenders).toBe(300);
+    expect(selectorRenders).toBe(5);
+  });
+});
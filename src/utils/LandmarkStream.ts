@@ -0,0 +1,221 @@
+/**
+ * LandmarkStream.ts
+ *
+ * Fans tracker samples out to the rest of the app without going through React
+ * state. Each consumer subscribes at its own sampling rate (the stress check
+ * at 1 Hz, games at 10 Hz, ...) and the selector hook only re-renders a
+ * component when the value it derives from the stream changes.
+ */
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import type { LandmarkSample } from './LandmarkProvider';
+import type { SampleAnalysis } from './FaceWorkerProtocol';
+
+export interface StreamFrame {
+  landmarks: LandmarkFrame | null;           // Smoothed for the current exercise
+  rawLandmarks?: LandmarkFrame | null;       // As tracked, for consumers that smooth on their own terms
+  faceVisible: boolean;
+  timestamp: number;            // Capture time of the frame (performance.now() ms)
+  analysis?: SampleAnalysis;    // Present when the provider analyzed the frame off the main thread
+  exerciseScore: number | null; // Live 0-100 score of the selected exercise as of the last scored frame (null while not scoring)
+}
+
+export const EMPTY_STREAM_FRAME: StreamFrame = {
+  landmarks: null,
+  faceVisible: false,
+  timestamp: 0,
+  exerciseScore: null
+};
+
+export interface StreamSubscribeOptions {
+  hz?: number;    // Most deliveries per second; every frame when omitted
+}
+
+export type StreamListener = (frame: StreamFrame) => void;
+
+interface Subscriber {
+  listener: StreamListener;
+  intervalMs: number;
+  nextDue: number;
+  lastDelivered: number;
+}
+
+export class LandmarkStream {
+  private frame: StreamFrame = EMPTY_STREAM_FRAME;
+  private subscribers = new Set<Subscriber>();
+  private published = 0;
+
+  get latest(): StreamFrame {
+    return this.frame;
+  }
+
+  // Frames published since the stream was created
+  get frameCount(): number {
+    return this.published;
+  }
+
+  get subscriberCount(): number {
+    return this.subscribers.size;
+  }
+
+  /**
+   * Publish a tracker sample to every subscriber that is due for one
+   * The exercise score rides along so the app can show it without re-rendering per frame
+   */
+  publish(sample: LandmarkSample, exerciseScore: number | null = null) {
+    const frame: StreamFrame = {
+      landmarks: sample.landmarks,
+      rawLandmarks: sample.rawLandmarks,
+      faceVisible: sample.landmarks !== null,
+      timestamp: sample.timestamp,
+      analysis: sample.analysis,
+      exerciseScore
+    };
+    this.frame = frame;
+    this.published++;
+
+    // Copy so listeners can unsubscribe while we iterate
+    for (const subscriber of [...this.subscribers]) {
+      // A new provider may restart the clock; don't starve subscribers until it catches up
+      if (frame.timestamp < subscriber.lastDelivered) {
+        subscriber.nextDue = -Infinity;
+      }
+      if (frame.timestamp < subscriber.nextDue) continue;
+
+      // Stay on the rate's grid so frame jitter doesn't lower the effective rate,
+      // but start over after a gap longer than one interval
+      subscriber.nextDue = frame.timestamp - subscriber.nextDue < subscriber.intervalMs
+        ? subscriber.nextDue + subscriber.intervalMs
+        : frame.timestamp + subscriber.intervalMs;
+      subscriber.lastDelivered = frame.timestamp;
+      subscriber.listener(frame);
+    }
+  }
+
+  /**
+   * Receive frames at most hz times a second; returns the unsubscribe function
+   */
+  subscribe(listener: StreamListener, options: StreamSubscribeOptions = {}): () => void {
+    const subscriber: Subscriber = {
+      listener,
+      intervalMs: options.hz && options.hz > 0 ? 1000 / options.hz : 0,
+      nextDue: -Infinity,
+      lastDelivered: -Infinity
+    };
+    this.subscribers.add(subscriber);
+
+    return () => {
+      this.subscribers.delete(subscriber);
+    };
+  }
+}
+
+export interface StreamSelection<T> {
+  subscribe: (onChange: () => void) => () => void;
+  getSnapshot: () => T;
+}
+
+/**
+ * A value derived from the stream that only reports changes
+ * (the store behind useStreamSelector)
+ */
+export function createStreamSelection<T>(
+  stream: LandmarkStream,
+  selector: (frame: StreamFrame) => T,
+  options: StreamSubscribeOptions & { isEqual?: (a: T, b: T) => boolean } = {}
+): StreamSelection<T> {
+  const isEqual = options.isEqual ?? Object.is;
+  let value = selector(stream.latest);
+
+  return {
+    subscribe: (onChange) => stream.subscribe(frame => {
+      const next = selector(frame);
+      if (isEqual(value, next)) return;
+      value = next;
+      onChange();
+    }, { hz: options.hz }),
+    getSnapshot: () => value
+  };
+}
+
+/**
+ * Derive a value from the stream; the component re-renders only when it changes
+ * The selector and isEqual may be inline functions
+ */
+export function useStreamSelector<T>(
+  stream: LandmarkStream,
+  selector: (frame: StreamFrame) => T,
+  options: StreamSubscribeOptions & { isEqual?: (a: T, b: T) => boolean } = {}
+): T {
+  const selectorRef = useRef(selector);
+  const isEqualRef = useRef(options.isEqual ?? Object.is);
+  selectorRef.current = selector;
+  isEqualRef.current = options.isEqual ?? Object.is;
+
+  const { hz } = options;
+  const selection = useMemo(
+    () => createStreamSelection(stream, frame => selectorRef.current(frame), {
+      hz,
+      isEqual: (a, b) => isEqualRef.current(a, b)
+    }),
+    [stream, hz]
+  );
+
+  return useSyncExternalStore(selection.subscribe, selection.getSnapshot);
+}
+
+/**
+ * Run a callback on stream frames without rendering (feeding buffers, validators...)
+ */
+export function useStreamSubscription(
+  stream: LandmarkStream,
+  listener: StreamListener,
+  options: StreamSubscribeOptions & { enabled?: boolean } = {}
+) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  const { hz, enabled = true } = options;
+  useEffect(() => {
+    if (!enabled) return;
+    return stream.subscribe(frame => listenerRef.current(frame), { hz });
+  }, [stream, hz, enabled]);
+}
+
+// Render counts per component, for checking how often the stream makes things re-render
+const renderCounts = new Map<string, number>();
+
+/**
+ * Count this component's renders under name (see getRenderCounts)
+ * StrictMode renders twice in dev, so compare counts from the same mode
+ */
+export function useRenderCount(name: string) {
+  renderCounts.set(name, (renderCounts.get(name) ?? 0) + 1);
+}
+
+export function getRenderCounts(): Record<string, number> {
+  return Object.fromEntries(renderCounts);
+}
+
+export function resetRenderCounts() {
+  renderCounts.clear();
+}
+
+/**
+ * Log renders per second of every counted component (dev aid, enabled with ?debug=renders)
+ * Returns a function that stops logging
+ */
+export function logRenderCounts(intervalMs = 5000): () => void {
+  let last = getRenderCounts();
+  const timer = window.setInterval(() => {
+    const current = getRenderCounts();
+    const rates = Object.fromEntries(Object.entries(current).map(([name, count]) => [
+      name,
+      Math.round((count - (last[name] ?? 0)) / (intervalMs / 1000) * 10) / 10
+    ]));
+    console.table(rates);
+    last = current;
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,297 @@
+/**
+ * MediaPipeProvider.ts
+ *
+ * Landmark provider that runs MediaPipe Face Mesh in the browser on the
+ * user's camera. Frames are pushed to the mesh from our own
+ * requestAnimationFrame loop and each result is emitted as a sample.
+ */
+import { LandmarkProviderError } from './LandmarkProvider';
+import type {
+  LandmarkProvider,
+  LandmarkProviderInfo,
+  LandmarkProviderStartOptions,
+  LandmarkSample
+} from './LandmarkProvider';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+// Subset of the MediaPipe FaceMesh results object that the provider reads
+export interface FaceMeshResults {
+  multiFaceLandmarks?: LandmarkFrame[];
+}
+
+// Subset of the MediaPipe FaceMesh API that the provider uses
+export interface FaceMeshInstance {
+  setOptions(options: Record<string, unknown>): Promise<void> | void;
+  onResults(listener: (results: FaceMeshResults) => void): void;
+  initialize(): Promise<void>;
+  send(input: { image: HTMLVideoElement | ImageData | ImageBitmap }): Promise<void>;
+  close(): Promise<void> | void;
+}
+
+// Define global types for MediaPipe
+declare global {
+  interface Window {
+    FaceMesh?: new (config: { locateFile: (file: string) => string }) => FaceMeshInstance;
+    Module?: { arguments_: string[]; locateFile: (file: string) => string };
+  }
+}
+
+// Served from our own build output by the mediapipeAssets Vite plugin
+export const FACE_MESH_ASSET_PATH = `${import.meta.env.BASE_URL}mediapipe/face_mesh`;
+
+const locateFaceMeshFile = (file: string) => `${FACE_MESH_ASSET_PATH}/${file}`;
+
+// refineLandmarks adds the iris points (IRIS_LANDMARKS) that gaze is measured from
+export const FACE_MESH_OPTIONS = {
+  maxNumFaces: 1,
+  refineLandmarks: true,
+  minDetectionConfidence: 0.5,
+  minTrackingConfidence: 0.5
+};
+
+export const DEFAULT_VIDEO_CONSTRAINTS: MediaTrackConstraints = {
+  width: 640,
+  height: 480,
+  facingMode: "user"
+};
+
+// Share of the frame interval that must have passed before the next frame is sent
+const FRAME_DUE_SLACK = 0.85;
+
+let faceMeshScript: Promise<void> | null = null;
+
+/**
+ * Load the Face Mesh script once per page
+ */
+export function loadFaceMeshScript(): Promise<void> {
+  if (window.FaceMesh) return Promise.resolve();
+  if (faceMeshScript) return faceMeshScript;
+
+  // Setup the Module object to prevent the "Module.arguments has been replaced" WASM error
+  window.Module = {
+    arguments_: [],
+    locateFile: locateFaceMeshFile
+  };
+
+  faceMeshScript = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = locateFaceMeshFile('face_mesh.js');
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      faceMeshScript = null;
+      script.remove();
+      reject(new Error("Couldn't load the Face Mesh script"));
+    };
+    document.body.appendChild(script);
+  });
+
+  return faceMeshScript;
+}
+
+/**
+ * Whether enough time has passed since the last sent frame to send another
+ * Allows a little slack so a cap equal to the display rate doesn't skip every other frame
+ */
+export function isFrameDue(lastSentAt: number, minIntervalMs: number, now: number = performance.now()): boolean {
+  return minIntervalMs <= 0 || now - lastSentAt >= minIntervalMs * FRAME_DUE_SLACK;
+}
+
+// Wait until the video can be played, then play it
+export function playVideo(video: HTMLVideoElement): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const loadHandler = () => {
+      video.removeEventListener('loadedmetadata', loadHandler);
+      video.removeEventListener('error', errorHandler);
+      video.play().then(resolve).catch(reject);
+    };
+
+    const errorHandler = () => {
+      video.removeEventListener('loadedmetadata', loadHandler);
+      video.removeEventListener('error', errorHandler);
+      reject(new Error("Video loading error"));
+    };
+
+    video.addEventListener('loadedmetadata', loadHandler);
+    video.addEventListener('error', errorHandler);
+
+    // If the video is already loaded, play right away
+    if (video.readyState >= 2) {
+      loadHandler();
+    }
+  });
+}
+
+export class MediaPipeLandmarkProvider implements LandmarkProvider {
+  readonly kind = 'mediapipe';
+  private mesh: FaceMeshInstance | null = null;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private fallbackCanvas: HTMLCanvasElement | null = null;
+  private animationFrameId: number | null = null;
+  private minFrameIntervalMs = 0;
+  private running = false;
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Process at most fps frames a second; the frames in between are skipped
+   */
+  setMaxFps(fps: number | null) {
+    this.minFrameIntervalMs = fps && fps > 0 ? 1000 / fps : 0;
+  }
+
+  async start(
+    onSample: (sample: LandmarkSample) => void,
+    options: LandmarkProviderStartOptions = {}
+  ): Promise<LandmarkProviderInfo> {
+    this.stop();
+    this.running = true;
+
+    try {
+      await loadFaceMeshScript();
+    } catch (error) {
+      this.stop();
+      throw new LandmarkProviderError('tracker', error instanceof Error ? error.message : String(error));
+    }
+
+    // Get user media with video constraints
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: options.videoConstraints ?? DEFAULT_VIDEO_CONSTRAINTS
+      });
+    } catch (error) {
+      this.stop();
+      throw new LandmarkProviderError('camera', error instanceof Error ? error.message : String(error));
+    }
+
+    // Stopped while waiting for permission
+    if (!this.running) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new LandmarkProviderError('camera', 'Provider stopped before the camera started');
+    }
+    this.stream = stream;
+
+    const video = options.video ?? document.createElement('video');
+    this.video = video;
+    video.srcObject = stream;
+
+    try {
+      await playVideo(video);
+    } catch (error) {
+      this.stop();
+      throw new LandmarkProviderError('playback', error instanceof Error ? error.message : String(error));
+    }
+
+    const settings = stream.getVideoTracks()[0]?.getSettings() ?? {};
+    const info: LandmarkProviderInfo = {
+      width: settings.width ?? video.videoWidth,
+      height: settings.height ?? video.videoHeight
+    };
+
+    try {
+      if (!window.FaceMesh) {
+        throw new Error("MediaPipe FaceMesh not available");
+      }
+      const mesh = new window.FaceMesh({ locateFile: locateFaceMeshFile });
+      this.mesh = mesh;
+
+      await mesh.setOptions(FACE_MESH_OPTIONS);
+
+      // Results arrive for the frame sent last, so stamp them with its capture time
+      let sentAt = performance.now();
+      mesh.onResults((results: FaceMeshResults) => {
+        onSample({ landmarks: results.multiFaceLandmarks?.[0] ?? null, timestamp: sentAt });
+      });
+
+      // Initialize the model with a short timeout to allow WASM initialization
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await mesh.initialize();
+
+      const processFrame = async () => {
+        if (!this.running || !this.mesh || !this.video) return;
+
+        // Check if video is playing and ready, and whether this frame is due
+        if (
+          this.video.paused || this.video.ended || this.video.readyState < 2 ||
+          !isFrameDue(sentAt, this.minFrameIntervalMs)
+        ) {
+          this.animationFrameId = requestAnimationFrame(processFrame);
+          return;
+        }
+
+        try {
+          sentAt = performance.now();
+          await this.sendFrame(this.video, info);
+        } catch (e) {
+          // Log but don't throw to keep animation frame running
+          console.error('Error processing frame:', e);
+        }
+
+        if (this.running) {
+          this.animationFrameId = requestAnimationFrame(processFrame);
+        }
+      };
+
+      this.animationFrameId = requestAnimationFrame(processFrame);
+    } catch (error) {
+      console.error("Error initializing FaceMesh:", error);
+      this.stop();
+      throw new LandmarkProviderError('tracker', error instanceof Error ? error.message : String(error));
+    }
+
+    return info;
+  }
+
+  stop() {
+    this.running = false;
+
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+
+    if (this.mesh) {
+      try {
+        this.mesh.close();
+      } catch (e) {
+        console.error("Error closing FaceMesh:", e);
+      }
+      this.mesh = null;
+    }
+
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+
+    if (this.video && this.video.srcObject) {
+      this.video.pause();
+      this.video.srcObject = null;
+    }
+    this.video = null;
+  }
+
+  // Send the video element directly; fall back to ImageData if the mesh rejects it
+  private async sendFrame(video: HTMLVideoElement, info: LandmarkProviderInfo) {
+    if (!this.mesh) return;
+
+    try {
+      await this.mesh.send({ image: video });
+    } catch {
+      if (!this.fallbackCanvas) {
+        this.fallbackCanvas = document.createElement('canvas');
+        this.fallbackCanvas.width = info.width;
+        this.fallbackCanvas.height = info.height;
+      }
+      const ctx = this.fallbackCanvas.getContext('2d');
+      if (!ctx || !this.mesh) return;
+
+      ctx.drawImage(video, 0, 0, info.width, info.height);
+      await this.mesh.send({ image: ctx.getImageData(0, 0, info.width, info.height) });
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { isPrecacheMessage, summarizeOfflineCache } from './OfflineCache';
+import type { PrecacheManifest } from './OfflineCache';
+
+const manifest: PrecacheManifest = {
+  version: 'abc123',
+  files: [
+    { url: '/facevibe/index.html', revision: '1' },
+    { url: '/facevibe/assets/index.js', revision: '2' },
+    { url: '/facevibe/mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.wasm', revision: '3' }
+  ]
+};
+
+describe('summarizeOfflineCache', () => {
+  it('is complete when every manifest file is cached', () => {
+    const status = summarizeOfflineCache(manifest, [
+      '/facevibe/precache-manifest.json',
+      ...manifest.files.map(file => file.url)
+    ]);
+
+    expect(status).toMatchObject({ version: 'abc123', totalFiles: 3, cachedFiles: 3, missing: [], complete: true });
+  });
+
+  it('lists the files that are missing', () => {
+    const status = summarizeOfflineCache(manifest, ['/facevibe/index.html'], true);
+
+    expect(status.complete).toBe(false);
+    expect(status.downloading).toBe(true);
+    expect(status.cachedFiles).toBe(1);
+    expect(status.missing).toEqual([
+      '/facevibe/assets/index.js',
+      '/facevibe/mediapipe/face_mesh/face_mesh_solution_simd_wasm_bin.wasm'
+    ]);
+  });
+
+  it('never reports an empty manifest as complete', () => {
+    expect(summarizeOfflineCache({ version: 'dev', files: [] }, []).complete).toBe(false);
+  });
+});
+
+describe('isPrecacheMessage', () => {
+  it('recognizes service worker precache messages', () => {
+    expect(isPrecacheMessage({ type: 'precache-incomplete', version: 'abc123', missing: [] })).toBe(true);
+    expect(isPrecacheMessage({ type: 'something-else' })).toBe(false);
+    expect(isPrecacheMessage(null)).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * OfflineCache.ts
+ *
+ * Page side of the offline cache: registers the service worker (public/sw.js)
+ * and checks how much of the precache manifest actually made it into the
+ * cache, so the UI can say when the app won't fully work offline.
+ */
+
+export const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}sw.js`;
+export const PRECACHE_MANIFEST_URL = `${import.meta.env.BASE_URL}precache-manifest.json`;
+
+// Must match CACHE_PREFIX in sw.js
+const CACHE_PREFIX = 'facevibe-';
+
+// Written by the offlinePrecache build plugin
+export interface PrecacheManifest {
+  version: string;
+  files: { url: string; revision: string }[];
+}
+
+/**
+ * Messages the service worker posts to pages when a precache run ends
+ */
+export interface PrecacheMessage {
+  type: 'precache-complete' | 'precache-incomplete';
+  version: string;
+  missing: string[];
+}
+
+export interface OfflineCacheStatus {
+  supported: boolean;       // Browser has service workers and the Cache API
+  version: string | null;   // Precache version, null if the manifest couldn't be read
+  totalFiles: number;
+  cachedFiles: number;
+  missing: string[];        // Manifest URLs that aren't cached yet
+  complete: boolean;
+  downloading: boolean;     // A new worker is still installing (precaching)
+}
+
+export const isOfflineCacheSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator && typeof caches !== 'undefined';
+
+export const isPrecacheMessage = (data: unknown): data is PrecacheMessage =>
+  typeof data === 'object' && data !== null &&
+  ((data as PrecacheMessage).type === 'precache-complete' || (data as PrecacheMessage).type === 'precache-incomplete');
+
+/**
+ * Compare the manifest with the URL paths found in the cache
+ */
+export function summarizeOfflineCache(
+  manifest: PrecacheManifest,
+  cachedPaths: Iterable<string>,
+  downloading = false
+): OfflineCacheStatus {
+  const cached = new Set(cachedPaths);
+  const missing = manifest.files.map(file => file.url).filter(url => !cached.has(url));
+
+  return {
+    supported: true,
+    version: manifest.version,
+    totalFiles: manifest.files.length,
+    cachedFiles: manifest.files.length - missing.length,
+    missing,
+    complete: manifest.files.length > 0 && missing.length === 0,
+    downloading
+  };
+}
+
+const UNKNOWN_STATUS: OfflineCacheStatus = {
+  supported: true,
+  version: null,
+  totalFiles: 0,
+  cachedFiles: 0,
+  missing: [],
+  complete: false,
+  downloading: false
+};
+
+/**
+ * Check the offline cache against the current precache manifest
+ */
+export async function getOfflineCacheStatus(): Promise<OfflineCacheStatus> {
+  if (!isOfflineCacheSupported()) {
+    return { ...UNKNOWN_STATUS, supported: false };
+  }
+
+  let manifest: PrecacheManifest;
+  try {
+    // The worker caches the manifest too, so this works offline once installed
+    const response = await fetch(PRECACHE_MANIFEST_URL);
+    if (!response.ok) return UNKNOWN_STATUS;
+    manifest = await response.json();
+  } catch {
+    return UNKNOWN_STATUS;
+  }
+
+  const cache = await caches.open(`${CACHE_PREFIX}${manifest.version}`);
+  const requests = await cache.keys();
+  // No registration yet means the worker is about to be registered and start downloading
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+
+  return summarizeOfflineCache(
+    manifest,
+    requests.map(request => new URL(request.url).pathname),
+    !registration || Boolean(registration.installing)
+  );
+}
+
+/**
+ * Ask the service worker to download the files it couldn't cache
+ */
+export async function retryOfflineCache(): Promise<void> {
+  if (!isOfflineCacheSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const worker = registration?.active ?? registration?.waiting ?? registration?.installing;
+  worker?.postMessage({ type: 'precache-retry' });
+}
+
+/**
+ * Register the service worker (production builds only; dev serves from Vite)
+ */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !isOfflineCacheSupported()) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL, { scope: import.meta.env.BASE_URL })
+      .catch(error => console.error('Service worker registration failed:', error));
+  });
+}
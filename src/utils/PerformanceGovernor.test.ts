@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { detectDeviceClass, PerformanceGovernor, TARGET_FPS } from './PerformanceGovernor';
+import type { PerformanceModeName } from './PerformanceGovernor';
+import { isFrameDue } from './MediaPipeProvider';
+
+// Feed seconds of results at fps, each latencyMs after capture; returns the end time
+function run(governor: PerformanceGovernor, seconds: number, fps: number, latencyMs: number, start = 0): number {
+  const frameMs = 1000 / fps;
+  let now = start;
+  for (let i = 0; i < seconds * fps; i++) {
+    now = start + i * frameMs;
+    governor.recordFrame(now - latencyMs, now);
+  }
+  return now + frameMs;
+}
+
+describe('PerformanceGovernor', () => {
+  it('holds full mode while the device keeps up', () => {
+    const governor = new PerformanceGovernor({ deviceClass: 'high' });
+    run(governor, 20, 30, 10);
+
+    expect(governor.mode.name).toBe('full');
+    expect(governor.stats.fps).toBeCloseTo(30, 0);
+    expect(governor.stats.latencyMs).toBeCloseTo(10);
+  });
+
+  it('steps down one mode at a time while the target is missed', () => {
+    const governor = new PerformanceGovernor({ deviceClass: 'high' });
+    const modes: PerformanceModeName[] = [];
+    governor.subscribe((stats, modeChanged) => {
+      if (modeChanged) modes.push(stats.mode.name);
+    });
+
+    run(governor, 20, 12, 60);
+
+    expect(modes).toEqual(['balanced', 'light', 'saver']);
+    expect(governor.mode.overlay).toBe('minimal');
+    expect(governor.targetFps).toBe(TARGET_FPS.high / 2);
+  });
+
+  it('steps back up only after sustained headroom', () => {
+    const governor = new PerformanceGovernor({ deviceClass: 'high' });
+    const now = run(governor, 5, 12, 60);
+    expect(governor.mode.name).toBe('balanced');
+
+    const windows: PerformanceModeName[] = [];
+    governor.subscribe(stats => windows.push(stats.mode.name));
+    run(governor, 14, 30, 5, now);
+
+    // The first window still has slow frames in it, then five good ones are needed
+    expect(windows.indexOf('full')).toBe(5);
+    expect(governor.mode.name).toBe('full');
+  });
+
+  it('waits longer each time an upgrade fails straight away', () => {
+    // Borderline device: keeps up at 640x480 but not at full resolution
+    const governor = new PerformanceGovernor({ deviceClass: 'high' });
+    const upgrades: number[] = [];
+    let now = 0;
+    governor.subscribe((stats, modeChanged) => {
+      if (modeChanged && stats.mode.name === 'full') upgrades.push(now);
+    });
+
+    while (now < 240000) {
+      governor.recordFrame(now - 5, now);
+      now += 1000 / (governor.mode.name === 'full' ? 20 : 30);
+    }
+
+    // Without a back-off this would retry full mode every 14 seconds
+    expect(upgrades.length).toBeGreaterThanOrEqual(3);
+    expect(upgrades.length).toBeLessThanOrEqual(4);
+    const gaps = upgrades.slice(1).map((at, i) => at - upgrades[i]);
+    expect(gaps[0]).toBeGreaterThan(30000);
+    expect(gaps[1]).toBeGreaterThan(gaps[0] * 1.5);
+  });
+
+  it('treats slow results as missed even at full frame rate', () => {
+    const governor = new PerformanceGovernor({ deviceClass: 'medium' });
+    run(governor, 5, 24, 80);
+    expect(governor.mode.name).toBe('balanced');
+  });
+
+  it('ignores gaps without results', () => {
+    const governor = new PerformanceGovernor({ deviceClass: 'high' });
+    const now = run(governor, 2, 30, 5);
+    const fpsSeen: number[] = [];
+    governor.subscribe(stats => fpsSeen.push(Math.round(stats.fps)));
+
+    // Tab hidden for a minute, then frames resume
+    run(governor, 5, 30, 5, now + 60000);
+
+    expect(fpsSeen.length).toBeGreaterThan(0);
+    expect(fpsSeen.every(fps => fps >= 29)).toBe(true);
+    expect(governor.mode.name).toBe('full');
+  });
+
+  it('starts low-end devices below full resolution', () => {
+    expect(new PerformanceGovernor({ deviceClass: 'low' }).mode.name).toBe('balanced');
+  });
+});
+
+describe('detectDeviceClass', () => {
+  const navigatorWith = (userAgent: string, hardwareConcurrency: number, deviceMemory?: number) =>
+    ({ userAgent, hardwareConcurrency, deviceMemory }) as unknown as Navigator;
+
+  it('sorts devices by their hardware hints', () => {
+    expect(detectDeviceClass(navigatorWith('Mozilla/5.0 (X11; Linux x86_64)', 12, 16))).toBe('high');
+    expect(detectDeviceClass(navigatorWith('Mozilla/5.0 (Macintosh)', 8))).toBe('medium');
+    expect(detectDeviceClass(navigatorWith('Mozilla/5.0 (iPhone) Mobile', 6))).toBe('low');
+    expect(detectDeviceClass(navigatorWith('Mozilla/5.0 (Windows NT 10.0)', 2, 8))).toBe('low');
+  });
+});
+
+describe('isFrameDue', () => {
+  it('skips frames that arrive before the capped interval', () => {
+    // 60 Hz display capped at 30 fps: every other frame goes through
+    const sent: number[] = [];
+    let lastSentAt = -Infinity;
+    for (let i = 0; i < 12; i++) {
+      const now = i * 1000 / 60;
+      if (isFrameDue(lastSentAt, 1000 / 30, now)) {
+        sent.push(i);
+        lastSentAt = now;
+      }
+    }
+    expect(sent).toEqual([0, 2, 4, 6, 8, 10]);
+    expect(isFrameDue(0, 0, 1)).toBe(true);
+  });
+});
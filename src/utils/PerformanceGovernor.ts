@@ -0,0 +1,271 @@
+/**
+ * PerformanceGovernor.ts
+ *
+ * Measures how fast face tracking actually runs (processed frames per second
+ * and capture-to-result latency) and steps through performance modes to hold
+ * a target frame rate for the device class:
+ * 1. full:     the app's own camera constraints, landmark dots drawn
+ * 2. balanced: 640x480 capture
+ * 3. light:    640x480, landmark dots no longer drawn
+ * 4. saver:    320x240, processing capped at half the target rate
+ * Modes step down quickly when the target is missed and back up slowly once
+ * there's headroom again. An upgrade that drops straight back down waits
+ * longer each time before that mode is tried again, so a borderline device
+ * doesn't keep restarting the camera.
+ */
+
+export type DeviceClass = 'high' | 'medium' | 'low';
+
+export type PerformanceModeName = 'full' | 'balanced' | 'light' | 'saver';
+
+export interface PerformanceMode {
+  name: PerformanceModeName;
+  label: string;
+  videoConstraints: MediaTrackConstraints | null;   // null = keep the app's constraints
+  overlay: 'full' | 'minimal';                      // minimal skips the landmark dots
+  fpsScale: number;                                 // Share of the device's target rate to process
+}
+
+export const PERFORMANCE_MODES: PerformanceMode[] = [
+  { name: 'full', label: 'Full', videoConstraints: null, overlay: 'full', fpsScale: 1 },
+  {
+    name: 'balanced',
+    label: 'Balanced',
+    videoConstraints: { width: { ideal: 640 }, height: { ideal: 480 }, facingMode: "user" },
+    overlay: 'full',
+    fpsScale: 1
+  },
+  {
+    name: 'light',
+    label: 'Light',
+    videoConstraints: { width: { ideal: 640 }, height: { ideal: 480 }, facingMode: "user" },
+    overlay: 'minimal',
+    fpsScale: 1
+  },
+  {
+    name: 'saver',
+    label: 'Saver',
+    videoConstraints: { width: { ideal: 320 }, height: { ideal: 240 }, facingMode: "user" },
+    overlay: 'minimal',
+    fpsScale: 0.5
+  }
+];
+
+// Frame rate to hold on each class of device
+export const TARGET_FPS: Record<DeviceClass, number> = {
+  high: 30,
+  medium: 24,
+  low: 15
+};
+
+// Mode each class of device starts in
+const INITIAL_MODE: Record<DeviceClass, PerformanceModeName> = {
+  high: 'full',
+  medium: 'full',
+  low: 'balanced'
+};
+
+export interface PerformanceGovernorOptions {
+  deviceClass: DeviceClass;
+  windowMs: number;           // Length of one measurement window
+  downgradeWindows: number;   // Consecutive missed windows before stepping down
+  upgradeWindows: number;     // Consecutive windows with headroom before stepping up
+  upgradeCooldownWindows: number; // Windows before retrying a mode an upgrade failed in (doubles with each failure)
+}
+
+const DEFAULT_OPTIONS: Omit<PerformanceGovernorOptions, 'deviceClass'> = {
+  windowMs: 2000,
+  downgradeWindows: 2,
+  upgradeWindows: 5,
+  upgradeCooldownWindows: 15
+};
+
+// Missed: below this share of the target rate, or slower than one frame budget per result
+const DOWNGRADE_FPS_RATIO = 0.8;
+// Headroom: at the target rate with results in under half a frame budget
+const UPGRADE_FPS_RATIO = 0.95;
+const UPGRADE_LATENCY_RATIO = 0.5;
+
+// Windows with fewer results than this are ignored
+const MIN_WINDOW_SAMPLES = 2;
+
+// Stepping back down within this many windows of an upgrade means the upgrade failed
+const UPGRADE_TRIAL_WINDOWS = 5;
+// Cap on how many times the upgrade cooldown doubles
+const MAX_COOLDOWN_DOUBLINGS = 5;
+
+export interface PerformanceStats {
+  deviceClass: DeviceClass;
+  mode: PerformanceMode;
+  targetFps: number;          // Rate to process at in the current mode
+  fps: number;                // Measured over the last window (0 before the first one)
+  latencyMs: number;          // Mean capture-to-result time over the last window
+  frameIntervalMs: number;    // Time between processed frames, for time-based validation
+}
+
+type GovernorListener = (stats: PerformanceStats, modeChanged: boolean) => void;
+
+/**
+ * Rough device class from the browser's hardware hints
+ */
+export function detectDeviceClass(nav: Navigator = navigator): DeviceClass {
+  const mobile = /Android|iPhone|iPad|iPod|Mobile/i.test(nav.userAgent);
+  const cores = nav.hardwareConcurrency || 4;
+  // deviceMemory is Chromium-only
+  const memory = (nav as Navigator & { deviceMemory?: number }).deviceMemory ?? 4;
+
+  if (mobile || cores <= 2 || memory <= 2) return 'low';
+  if (cores >= 8 && memory >= 8) return 'high';
+  return 'medium';
+}
+
+export class PerformanceGovernor {
+  private readonly options: PerformanceGovernorOptions;
+  private modeIndex: number;
+  private listeners = new Set<GovernorListener>();
+  private windowStart: number | null = null;
+  private windowSamples = 0;
+  private windowLatency = 0;
+  private lastReceivedAt: number | null = null;
+  private missedWindows = 0;
+  private headroomWindows = 0;
+  private fps = 0;
+  private latencyMs = 0;
+  private windowCount = 0;
+  private upgradedAt: number | null = null;     // Window of the last upgrade, while it's on trial
+  private failedUpgrades = PERFORMANCE_MODES.map(() => 0);
+  private retryUpgradeAt = PERFORMANCE_MODES.map(() => 0);
+
+  constructor(options: Partial<PerformanceGovernorOptions> = {}) {
+    this.options = {
+      ...DEFAULT_OPTIONS,
+      deviceClass: options.deviceClass ?? detectDeviceClass(),
+      ...options
+    };
+    this.modeIndex = PERFORMANCE_MODES.findIndex(mode => mode.name === INITIAL_MODE[this.options.deviceClass]);
+  }
+
+  get mode(): PerformanceMode {
+    return PERFORMANCE_MODES[this.modeIndex];
+  }
+
+  get targetFps(): number {
+    return TARGET_FPS[this.options.deviceClass] * this.mode.fpsScale;
+  }
+
+  get stats(): PerformanceStats {
+    const targetFps = this.targetFps;
+    return {
+      deviceClass: this.options.deviceClass,
+      mode: this.mode,
+      targetFps,
+      fps: this.fps,
+      latencyMs: this.latencyMs,
+      frameIntervalMs: 1000 / (this.fps > 0 ? Math.min(this.fps, targetFps) : targetFps)
+    };
+  }
+
+  /**
+   * Record one tracker result: when its frame was captured and when it arrived (ms, same clock)
+   */
+  recordFrame(capturedAt: number, receivedAt: number) {
+    // A gap longer than a window means the tab was hidden or the provider paused;
+    // measuring across it would look like a slow device, so start a new window
+    const gap = this.lastReceivedAt === null ? 0 : receivedAt - this.lastReceivedAt;
+    this.lastReceivedAt = receivedAt;
+    if (this.windowStart === null || gap > this.options.windowMs) {
+      this.windowStart = receivedAt;
+      this.windowSamples = 0;
+      this.windowLatency = 0;
+    }
+    this.windowSamples++;
+    this.windowLatency += Math.max(0, receivedAt - capturedAt);
+
+    const elapsed = receivedAt - this.windowStart;
+    if (elapsed >= this.options.windowMs) {
+      this.evaluateWindow(elapsed);
+      this.windowStart = receivedAt;
+      this.windowSamples = 0;
+      this.windowLatency = 0;
+    }
+  }
+
+  /**
+   * Start measuring afresh (new camera or provider); keeps the current mode
+   * and the upgrade back-off
+   */
+  reset() {
+    this.windowStart = null;
+    this.windowSamples = 0;
+    this.windowLatency = 0;
+    this.lastReceivedAt = null;
+    this.missedWindows = 0;
+    this.headroomWindows = 0;
+  }
+
+  /**
+   * Called after every measurement window; returns the unsubscribe function
+   */
+  subscribe(listener: GovernorListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private evaluateWindow(elapsedMs: number) {
+    if (this.windowSamples < MIN_WINDOW_SAMPLES) return;
+
+    this.fps = this.windowSamples / (elapsedMs / 1000);
+    this.latencyMs = this.windowLatency / this.windowSamples;
+
+    const target = this.targetFps;
+    const frameBudgetMs = 1000 / target;
+    const missed = this.fps < target * DOWNGRADE_FPS_RATIO || this.latencyMs > frameBudgetMs;
+    const headroom = this.fps >= target * UPGRADE_FPS_RATIO && this.latencyMs < frameBudgetMs * UPGRADE_LATENCY_RATIO;
+
+    this.missedWindows = missed ? this.missedWindows + 1 : 0;
+    this.headroomWindows = headroom ? this.headroomWindows + 1 : 0;
+
+    // An upgrade that held up clears the back-off for its mode
+    this.windowCount++;
+    if (this.upgradedAt !== null && this.windowCount - this.upgradedAt > UPGRADE_TRIAL_WINDOWS) {
+      this.failedUpgrades[this.modeIndex] = 0;
+      this.upgradedAt = null;
+    }
+
+    let modeChanged = false;
+    if (this.missedWindows >= this.options.downgradeWindows && this.modeIndex < PERFORMANCE_MODES.length - 1) {
+      if (this.upgradedAt !== null) {
+        this.backOffUpgrade();
+      }
+      this.modeIndex++;
+      modeChanged = true;
+    } else if (
+      this.headroomWindows >= this.options.upgradeWindows &&
+      this.modeIndex > 0 &&
+      this.windowCount >= this.retryUpgradeAt[this.modeIndex - 1]
+    ) {
+      this.modeIndex--;
+      this.upgradedAt = this.windowCount;
+      modeChanged = true;
+    }
+
+    if (modeChanged) {
+      // Measure the new mode from scratch
+      this.missedWindows = 0;
+      this.headroomWindows = 0;
+    }
+
+    const stats = this.stats;
+    this.listeners.forEach(listener => listener(stats, modeChanged));
+  }
+
+  // The current mode couldn't hold up right after an upgrade; wait longer before trying it again
+  private backOffUpgrade() {
+    const failures = ++this.failedUpgrades[this.modeIndex];
+    const cooldown = this.options.upgradeCooldownWindows * 2 ** Math.min(failures - 1, MAX_COOLDOWN_DOUBLINGS);
+    this.retryUpgradeAt[this.modeIndex] = this.windowCount + cooldown;
+    this.upgradedAt = null;
+  }
+}
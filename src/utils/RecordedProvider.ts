@@ -0,0 +1,113 @@
+/**
+ * RecordedProvider.ts
+ *
+ * Landmark provider that plays a recorded session file instead of running a
+ * tracker. Sample timestamps follow the recording's own timing, so holds and
+ * rests are judged the same at any playback speed.
+ */
+import { LandmarkProviderError } from './LandmarkProvider';
+import type {
+  LandmarkProvider,
+  LandmarkProviderInfo,
+  LandmarkSample
+} from './LandmarkProvider';
+import { parseSessionFile, SessionReplayer } from './SessionReplay';
+import type { SessionReplayOptions } from './SessionReplay';
+import type { SessionFile } from './SessionRecorder';
+
+// Recordings store normalized coordinates; ones without their frame size are drawn at this size
+export const RECORDED_RESOLUTION: LandmarkProviderInfo = { width: 640, height: 480 };
+
+export interface RecordedProviderOptions extends SessionReplayOptions {
+  onEnd?: () => void;   // Called when a non-looping playback finishes
+}
+
+/**
+ * Fetch and parse a session file from a URL
+ */
+export async function fetchSessionFile(url: string): Promise<SessionFile> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Couldn't fetch session file (${response.status})`);
+  }
+  return parseSessionFile(await response.text());
+}
+
+export class RecordedLandmarkProvider implements LandmarkProvider {
+  readonly kind = 'recorded';
+  private readonly source: SessionFile | string;
+  private options: Partial<RecordedProviderOptions>;
+  private replayer: SessionReplayer | null = null;
+  private running = false;
+
+  /**
+   * source is a parsed session or the URL of a session file
+   */
+  constructor(source: SessionFile | string, options: Partial<RecordedProviderOptions> = {}) {
+    this.source = source;
+    this.options = options;
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  async start(onSample: (sample: LandmarkSample) => void): Promise<LandmarkProviderInfo> {
+    this.stop();
+    this.running = true;
+
+    let session: SessionFile;
+    try {
+      session = typeof this.source === 'string' ? await fetchSessionFile(this.source) : this.source;
+    } catch (error) {
+      this.running = false;
+      throw new LandmarkProviderError('tracker', error instanceof Error ? error.message : String(error));
+    }
+
+    // Stopped while the file was loading
+    if (!this.running) {
+      return RECORDED_RESOLUTION;
+    }
+
+    const { onEnd, ...replayOptions } = this.options;
+    const replayer = new SessionReplayer(session, replayOptions);
+    this.replayer = replayer;
+
+    // Map recording time onto this page's clock, continuing forward when playback loops
+    const startedAt = performance.now();
+    const frameGap = session.frames.length > 1 ? session.durationMs / (session.frames.length - 1) : 0;
+    let loopOffset = 0;
+    let lastT = -Infinity;
+
+    replayer.start(
+      (landmarks, frame) => {
+        if (frame.t < lastT) {
+          loopOffset += lastT + frameGap - frame.t;
+        }
+        lastT = frame.t;
+        onSample({ landmarks, timestamp: startedAt + loopOffset + frame.t });
+      },
+      () => {
+        this.running = false;
+        this.replayer = null;
+        if (onEnd) onEnd();
+      }
+    );
+
+    return session.resolution ?? RECORDED_RESOLUTION;
+  }
+
+  // Takes effect from the next frame on
+  setSpeed(speed: number) {
+    this.options = { ...this.options, speed };
+    this.replayer?.setSpeed(speed);
+  }
+
+  stop() {
+    this.running = false;
+    if (this.replayer) {
+      this.replayer.stop();
+      this.replayer = null;
+    }
+  }
+}
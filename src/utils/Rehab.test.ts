@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AVERAGE_INTEROCULAR_MM,
+  getHealthyBest,
+  getRehabPairs,
+  getWeeklyRecovery,
+  REHAB_BASELINE_FRAMES,
+  RehabTracker,
+  toMillimeters
+} from './Rehab';
+import type { RehabSession } from './Rehab';
+import { EXERCISE_PASS_SCORE } from './FacialAnalysis';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import { REFERENCE_INTEROCULAR_DISTANCE } from './HeadPose';
+import { createSyntheticFace } from './SyntheticFaces';
+import type { SyntheticPose } from './SyntheticFaces';
+import { SYMMETRY_REGIONS } from './Symmetry';
+
+// A smile where the image-right corner (the user's left) only gets halfway
+const lopsidedSmile = (pose: Partial<SyntheticPose> = {}) => {
+  const smile = createSyntheticFace({ smile: 1 }, pose);
+  const neutral = createSyntheticFace({}, pose);
+  const corner = FACIAL_LANDMARKS.MOUTH_RIGHT;
+  return smile.map((point, index) => index === corner
+    ? { ...point, x: (point.x + neutral[index].x) / 2, y: (point.y + neutral[index].y) / 2 }
+    : point);
+};
+
+const startTracker = (tracker: RehabTracker) => {
+  const rest = createSyntheticFace();
+  for (let i = 0; i < REHAB_BASELINE_FRAMES; i++) {
+    expect(tracker.update(rest, 'smileyStretch')).toBeNull();
+  }
+  expect(tracker.baselineProgress).toBe(1);
+};
+
+const session = (startedAt: string, recovery: number): RehabSession => ({
+  startedAt,
+  affectedSide: 'left',
+  exercises: { smileyStretch: { affectedMm: recovery / 10, healthyMm: 10, recovery } }
+});
+
+describe('toMillimeters', () => {
+  it('puts the outer eye corners an average eye width apart', () => {
+    expect(toMillimeters(REFERENCE_INTEROCULAR_DISTANCE)).toBe(AVERAGE_INTEROCULAR_MM);
+  });
+});
+
+describe('getRehabPairs', () => {
+  it('pairs up an exercise\'s focus points across the face', () => {
+    expect(getRehabPairs('smileyStretch')).toEqual([[FACIAL_LANDMARKS.MOUTH_LEFT, FACIAL_LANDMARKS.MOUTH_RIGHT]]);
+    expect(getRehabPairs('browLifter')).toHaveLength(2);
+  });
+
+  it('falls back to the jaw for midline exercises', () => {
+    expect(getRehabPairs('jawDropper')).toEqual(SYMMETRY_REGIONS.jaw.pairs);
+  });
+});
+
+describe('RehabTracker', () => {
+  it('scores the affected side against the healthy side\'s range', () => {
+    const tracker = new RehabTracker({ affectedSide: 'left', goal: 0.5 });
+    startTracker(tracker);
+
+    const frame = tracker.update(lopsidedSmile({ yaw: 10 }), 'smileyStretch')!;
+    expect(frame.healthyPercent).toBe(100);
+    expect(frame.affectedPercent).toBeGreaterThan(45);
+    expect(frame.affectedPercent).toBeLessThan(55);
+    // Half the healthy range is right at the goal
+    expect(Math.abs(frame.score - EXERCISE_PASS_SCORE)).toBeLessThanOrEqual(7);
+    expect(frame.motion.healthy).toBeCloseTo(toMillimeters(Math.hypot(0.04, 0.02)), 0);
+  });
+
+  it('measures whichever side is affected', () => {
+    const tracker = new RehabTracker({ affectedSide: 'right', goal: 0.5 });
+    startTracker(tracker);
+
+    // Now the user's right lags, so the left sets the range and the right is well past it
+    const frame = tracker.update(lopsidedSmile(), 'smileyStretch')!;
+    expect(frame.healthyPercent).toBe(100);
+    expect(frame.affectedPercent).toBeGreaterThan(180);
+    expect(frame.score).toBe(100);
+  });
+
+  it('aims for the best healthy range of earlier sessions', () => {
+    const tracker = new RehabTracker({ affectedSide: 'left', goal: 0.5 }, { smileyStretch: 40 });
+    startTracker(tracker);
+
+    const frame = tracker.update(lopsidedSmile(), 'smileyStretch')!;
+    expect(frame.range).toBe(40);
+    expect(frame.healthyPercent).toBeLessThan(60);
+  });
+
+  it('logs each side\'s peak range of motion for the session', () => {
+    const tracker = new RehabTracker({ affectedSide: 'left', goal: 0.5 });
+    startTracker(tracker);
+    tracker.update(lopsidedSmile(), 'smileyStretch');
+    tracker.update(createSyntheticFace(), 'smileyStretch');
+    tracker.update(createSyntheticFace(), 'browLifter');
+
+    const { affectedSide, exercises } = tracker.getSession();
+    expect(affectedSide).toBe('left');
+    expect(exercises.smileyStretch.healthyMm).toBeGreaterThan(exercises.smileyStretch.affectedMm);
+    expect(exercises.smileyStretch.recovery).toBeGreaterThan(45);
+    expect(exercises.smileyStretch.recovery).toBeLessThan(55);
+    // Exercises where even the healthy side didn't move aren't logged
+    expect(exercises.browLifter).toBeUndefined();
+  });
+});
+
+describe('history', () => {
+  it('averages recovery per calendar week', () => {
+    const weeks = getWeeklyRecovery([
+      session('2026-10-19T09:00:00.000Z', 60),
+      session('2026-10-12T09:00:00.000Z', 40),
+      session('2026-10-18T20:00:00.000Z', 50)
+    ]);
+    expect(weeks).toEqual([
+      { week: '2026-10-12', recovery: { smileyStretch: 45 } },
+      { week: '2026-10-19', recovery: { smileyStretch: 60 } }
+    ]);
+  });
+
+  it('keeps the best healthy range per exercise', () => {
+    const history = [session('2026-10-12T09:00:00.000Z', 40), session('2026-10-13T09:00:00.000Z', 40)];
+    history[1].exercises.smileyStretch.healthyMm = 12;
+    expect(getHealthyBest(history)).toEqual({ smileyStretch: 12 });
+  });
+});
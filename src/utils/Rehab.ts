@@ -0,0 +1,348 @@
+/**
+ * Rehab.ts
+ *
+ * Rehabilitation mode for users recovering one side of the face (Bell's palsy,
+ * jaw surgery). Instead of the generic pass/fail, each exercise is measured
+ * per side: how far the exercise's focus points on each side moved from the
+ * user's resting face. The affected side is scored against the range the
+ * healthy side reaches, and every session's range of motion is logged in
+ * millimetre-equivalents so recovery can be followed week by week.
+ */
+import { analyzeFrame, EXERCISE_PASS_SCORE, getExerciseFocusPoints } from './FacialAnalysis';
+import type { ExerciseId } from './FacialAnalysis';
+import { getExercise } from './ExerciseRegistry';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import { REFERENCE_INTEROCULAR_DISTANCE } from './HeadPose';
+import { SYMMETRY_REGIONS } from './Symmetry';
+import type { FaceSide } from './Symmetry';
+
+/**
+ * Mean adult outer eye corner distance. Normalized frames put the outer eye
+ * corners REFERENCE_INTEROCULAR_DISTANCE apart, so this turns landmark
+ * distances into approximate millimetres without knowing the camera.
+ */
+export const AVERAGE_INTEROCULAR_MM = 90;
+
+export const toMillimeters = (normalizedDistance: number) =>
+  normalizedDistance / REFERENCE_INTEROCULAR_DISTANCE * AVERAGE_INTEROCULAR_MM;
+
+export interface RehabSettings {
+  affectedSide: FaceSide;   // From the user's own point of view
+  goal: number;             // Share of the healthy side's range that counts as a rep (0-1)
+}
+
+export const DEFAULT_REHAB_GOAL = 0.5;
+
+// Frames of relaxed face averaged into the resting face at the start of a session
+export const REHAB_BASELINE_FRAMES = 30;
+
+// The healthy side has to reach this range before the affected side is scored against it
+export const MIN_HEALTHY_RANGE_MM = 2;
+
+// Range of motion of one frame, per side of the user's face
+export interface SideMotion {
+  affected: number;   // mm moved from rest
+  healthy: number;
+}
+
+export interface RehabFrame {
+  motion: SideMotion;
+  range: number;            // Healthy side's range (mm) the affected side is compared to
+  affectedPercent: number;  // Affected side's motion as a percentage of that range
+  healthyPercent: number;
+  score: number;            // 0-100 for the rep protocol: EXERCISE_PASS_SCORE when the goal is reached
+}
+
+// Peak range of motion per side in one session of one exercise
+export interface RehabExerciseLog {
+  affectedMm: number;
+  healthyMm: number;
+  recovery: number;         // Affected peak as a percentage of the healthy peak
+}
+
+export interface RehabSession {
+  startedAt: string;        // ISO timestamp
+  affectedSide: FaceSide;
+  exercises: Record<ExerciseId, RehabExerciseLog>;
+}
+
+// FACIAL_LANDMARKS points with a counterpart on the other side (LEFT_* ↔ RIGHT_*)
+const MIRRORED_LANDMARKS = new Map<number, number>();
+for (const [name, index] of Object.entries(FACIAL_LANDMARKS)) {
+  const partnerName = name.includes('LEFT') ? name.replace('LEFT', 'RIGHT') : name.replace('RIGHT', 'LEFT');
+  const partner = FACIAL_LANDMARKS[partnerName as keyof typeof FACIAL_LANDMARKS];
+  if (partnerName !== name && partner !== undefined) {
+    MIRRORED_LANDMARKS.set(index, partner);
+  }
+}
+
+/**
+ * Mirrored landmark pairs an exercise is measured on: its focus points that
+ * have a partner on the other side. Exercises that only move the midline
+ * (jaw drops) are measured on the sides of the jaw instead.
+ */
+export function getRehabPairs(exerciseId: ExerciseId): [number, number][] {
+  const definition = getExercise(exerciseId);
+  const focusPoints = definition ? getExerciseFocusPoints(definition.name) : [];
+  const pairs: [number, number][] = [];
+
+  for (const index of focusPoints) {
+    const partner = MIRRORED_LANDMARKS.get(index);
+    if (partner !== undefined && !pairs.some(pair => pair.includes(index))) {
+      pairs.push([index, partner]);
+    }
+  }
+
+  return pairs.length > 0 ? pairs : SYMMETRY_REGIONS.jaw.pairs;
+}
+
+/**
+ * Movement of each side of the user's face from rest, in mm
+ * Sides are told apart by where the points sit in the resting face
+ * (smaller x is the image's left, which is the user's right).
+ */
+export function measureSideMotion(
+  rest: LandmarkFrame,
+  current: LandmarkFrame,
+  pairs: [number, number][],
+  affectedSide: FaceSide
+): SideMotion {
+  const moved = (index: number) =>
+    toMillimeters(Math.hypot(current[index].x - rest[index].x, current[index].y - rest[index].y));
+
+  let userLeft = 0;
+  let userRight = 0;
+  for (const [a, b] of pairs) {
+    const [imageLeft, imageRight] = rest[a].x < rest[b].x ? [a, b] : [b, a];
+    userRight += moved(imageLeft);
+    userLeft += moved(imageRight);
+  }
+  userLeft /= pairs.length;
+  userRight /= pairs.length;
+
+  return affectedSide === 'left'
+    ? { affected: userLeft, healthy: userRight }
+    : { affected: userRight, healthy: userLeft };
+}
+
+/**
+ * Protocol score for the affected side: reaching the goal share of the healthy
+ * range scores exactly EXERCISE_PASS_SCORE
+ */
+export function getRehabScore(motion: SideMotion, range: number, goal: number): number {
+  if (range < MIN_HEALTHY_RANGE_MM || goal <= 0) return 0;
+  return Math.min(100, Math.round(motion.affected / range / goal * EXERCISE_PASS_SCORE));
+}
+
+const toPercent = (value: number, range: number) => range > 0 ? Math.round(value / range * 100) : 0;
+
+/**
+ * Follows one rehab session
+ * The first frames are averaged into the resting face (the user is asked to
+ * relax); after that every frame is measured per side against it.
+ */
+export class RehabTracker {
+  private readonly settings: RehabSettings;
+  private readonly healthyBest: Record<ExerciseId, number>;
+  private readonly startedAt = new Date().toISOString();
+  private baseline: LandmarkFrame[] = [];
+  private rest: LandmarkFrame | null = null;
+  private peaks: Record<ExerciseId, SideMotion> = {};
+  private pairs = new Map<ExerciseId, [number, number][]>();
+
+  /**
+   * healthyBest: best healthy-side range per exercise from earlier sessions (mm),
+   * so the affected side has something to aim for before the healthy side moves
+   */
+  constructor(settings: RehabSettings, healthyBest: Record<ExerciseId, number> = {}) {
+    this.settings = settings;
+    this.healthyBest = healthyBest;
+  }
+
+  // 0-1 through reading the resting face
+  get baselineProgress(): number {
+    return this.rest ? 1 : this.baseline.length / REHAB_BASELINE_FRAMES;
+  }
+
+  /**
+   * Measure a frame for an exercise; null while the resting face is still being read
+   */
+  update(landmarks: LandmarkFrame, exerciseId: ExerciseId): RehabFrame | null {
+    const { normalized } = analyzeFrame(landmarks);
+
+    if (!this.rest) {
+      this.baseline.push(normalized);
+      if (this.baseline.length >= REHAB_BASELINE_FRAMES) {
+        this.rest = averageFrames(this.baseline);
+        this.baseline = [];
+      }
+      return null;
+    }
+
+    let pairs = this.pairs.get(exerciseId);
+    if (!pairs) {
+      pairs = getRehabPairs(exerciseId);
+      this.pairs.set(exerciseId, pairs);
+    }
+
+    const motion = measureSideMotion(this.rest, normalized, pairs, this.settings.affectedSide);
+    const peak = this.peaks[exerciseId] ?? { affected: 0, healthy: 0 };
+    peak.affected = Math.max(peak.affected, motion.affected);
+    peak.healthy = Math.max(peak.healthy, motion.healthy);
+    this.peaks[exerciseId] = peak;
+
+    const range = Math.max(peak.healthy, this.healthyBest[exerciseId] ?? 0);
+    return {
+      motion,
+      range,
+      affectedPercent: toPercent(motion.affected, range),
+      healthyPercent: toPercent(motion.healthy, range),
+      score: getRehabScore(motion, range, this.settings.goal)
+    };
+  }
+
+  getSession(): RehabSession {
+    const exercises: Record<ExerciseId, RehabExerciseLog> = {};
+    for (const [exerciseId, peak] of Object.entries(this.peaks)) {
+      if (peak.healthy < MIN_HEALTHY_RANGE_MM) continue;
+      exercises[exerciseId] = {
+        affectedMm: round(peak.affected),
+        healthyMm: round(peak.healthy),
+        recovery: Math.min(100, toPercent(peak.affected, peak.healthy))
+      };
+    }
+    return { startedAt: this.startedAt, affectedSide: this.settings.affectedSide, exercises };
+  }
+}
+
+const round = (mm: number) => Math.round(mm * 10) / 10;
+
+function averageFrames(frames: LandmarkFrame[]): LandmarkFrame {
+  return frames[0].map((_, index) => {
+    let x = 0;
+    let y = 0;
+    let z = 0;
+    for (const frame of frames) {
+      x += frame[index].x;
+      y += frame[index].y;
+      z += frame[index].z;
+    }
+    return { x: x / frames.length, y: y / frames.length, z: z / frames.length };
+  });
+}
+
+/**
+ * Best healthy-side range per exercise over past sessions, in mm
+ */
+export function getHealthyBest(history: RehabSession[]): Record<ExerciseId, number> {
+  const best: Record<ExerciseId, number> = {};
+  for (const session of history) {
+    for (const [exerciseId, log] of Object.entries(session.exercises)) {
+      best[exerciseId] = Math.max(best[exerciseId] ?? 0, log.healthyMm);
+    }
+  }
+  return best;
+}
+
+// Recovery per exercise for one calendar week
+export interface WeeklyRecovery {
+  week: string;                             // Monday the week starts on (YYYY-MM-DD)
+  recovery: Record<ExerciseId, number>;     // Mean recovery percentage over the week's sessions
+}
+
+// Monday of the week a timestamp falls in, in UTC
+function getWeekStart(timestamp: string): string {
+  const date = new Date(timestamp);
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - daysSinceMonday);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Group sessions into weeks, oldest first, averaging each movement's recovery
+ */
+export function getWeeklyRecovery(history: RehabSession[]): WeeklyRecovery[] {
+  const weeks = new Map<string, Record<ExerciseId, number[]>>();
+  for (const session of history) {
+    const week = getWeekStart(session.startedAt);
+    const exercises = weeks.get(week) ?? {};
+    for (const [exerciseId, log] of Object.entries(session.exercises)) {
+      (exercises[exerciseId] ??= []).push(log.recovery);
+    }
+    weeks.set(week, exercises);
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([week, exercises]) => {
+      const recovery: Record<ExerciseId, number> = {};
+      for (const [exerciseId, values] of Object.entries(exercises)) {
+        recovery[exerciseId] = Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+      }
+      return { week, recovery };
+    });
+}
+
+const REHAB_SETTINGS_KEY = 'rehab_settings';
+const REHAB_HISTORY_KEY = 'rehab_history';
+
+// Enough sessions for several months of daily practice
+export const REHAB_HISTORY_LIMIT = 200;
+
+/**
+ * Load rehab mode settings, or null when rehab mode is off
+ */
+export function loadRehabSettings(): RehabSettings | null {
+  if (typeof localStorage === 'undefined') return null;
+
+  const stored = localStorage.getItem(REHAB_SETTINGS_KEY);
+  if (!stored) return null;
+
+  try {
+    const settings = JSON.parse(stored) as RehabSettings;
+    if (settings.affectedSide !== 'left' && settings.affectedSide !== 'right') return null;
+    return { affectedSide: settings.affectedSide, goal: settings.goal > 0 ? settings.goal : DEFAULT_REHAB_GOAL };
+  } catch (error) {
+    console.error('Error parsing rehab settings from localStorage:', error);
+    return null;
+  }
+}
+
+export function saveRehabSettings(settings: RehabSettings) {
+  localStorage.setItem(REHAB_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function clearRehabSettings() {
+  localStorage.removeItem(REHAB_SETTINGS_KEY);
+}
+
+/**
+ * Load logged rehab sessions, oldest first
+ */
+export function loadRehabHistory(): RehabSession[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  const stored = localStorage.getItem(REHAB_HISTORY_KEY);
+  if (!stored) return [];
+
+  try {
+    const history = JSON.parse(stored);
+    return Array.isArray(history) ? history as RehabSession[] : [];
+  } catch (error) {
+    console.error('Error parsing rehab history from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Log a session, replacing an earlier save of the same session
+ * Sessions that didn't measure any exercise aren't kept.
+ */
+export function saveRehabSession(session: RehabSession) {
+  if (Object.keys(session.exercises).length === 0) return;
+
+  const history = loadRehabHistory().filter(entry => entry.startedAt !== session.startedAt);
+  history.push(session);
+  localStorage.setItem(REHAB_HISTORY_KEY, JSON.stringify(history.slice(-REHAB_HISTORY_LIMIT)));
+}
@@ -0,0 +1,184 @@
+/**
+ * Routines.ts
+ *
+ * Named, ordered lists of exercises played back by the routine player.
+ * Built-in presets ship with the app; user-created routines live in localStorage.
+ */
+import { EXERCISE_IDS } from './FacialAnalysis';
+import type { ExerciseId } from './FacialAnalysis';
+import type { ExerciseProtocol } from './ExerciseProtocol';
+
+export interface RoutineStep {
+  exercise: ExerciseId;
+  reps: number;
+  holdMs: number;        // How long each rep is held
+  restAfterMs: number;   // Rest screen before the next step
+}
+
+export interface Routine {
+  id: string;
+  name: string;
+  description?: string;
+  steps: RoutineStep[];
+  builtIn?: boolean;
+}
+
+export interface RoutineStepSummary {
+  step: RoutineStep;
+  validReps: number;
+  shortReps: number;
+  durationMs: number;
+  skipped: boolean;
+}
+
+export interface RoutineSummary {
+  routineId: string;
+  routineName: string;
+  steps: RoutineStepSummary[];
+  startedAt: number;
+  completedAt: number;
+}
+
+const ROUTINES_STORAGE_KEY = 'facevibe_routines';
+
+// Rest between reps inside a step
+export const ROUTINE_REP_REST_MS = 1500;
+
+// "Get ready" countdown before every step
+export const ROUTINE_COUNTDOWN_MS = 3000;
+
+// Rough time to get into position and relax again on every rep
+const REP_TRANSITION_MS = 1000;
+
+export const ROUTINE_PRESETS: Routine[] = [
+  {
+    id: 'preset-morning-jaw-release',
+    name: 'Morning jaw release',
+    description: 'Loosen up a jaw that clenched all night.',
+    builtIn: true,
+    steps: [
+      { exercise: 'jawDropper', reps: 8, holdMs: 3000, restAfterMs: 10000 },
+      { exercise: 'chinJutter', reps: 6, holdMs: 3000, restAfterMs: 10000 },
+      { exercise: 'tongueTwister', reps: 6, holdMs: 3000, restAfterMs: 10000 },
+      { exercise: 'smileyStretch', reps: 8, holdMs: 2000, restAfterMs: 10000 },
+      { exercise: 'foreheadSmoother', reps: 3, holdMs: 5000, restAfterMs: 0 }
+    ]
+  },
+  {
+    id: 'preset-desk-break',
+    name: 'Desk-break 3 minutes',
+    description: 'Quick reset for screen-tired eyes and a tense face.',
+    builtIn: true,
+    steps: [
+      { exercise: 'browLifter', reps: 6, holdMs: 2000, restAfterMs: 10000 },
+      { exercise: 'eyeWinker', reps: 6, holdMs: 1000, restAfterMs: 10000 },
+      { exercise: 'noseScruncher', reps: 6, holdMs: 2000, restAfterMs: 10000 },
+      { exercise: 'cheekPuffer', reps: 4, holdMs: 3000, restAfterMs: 10000 },
+      { exercise: 'foreheadSmoother', reps: 2, holdMs: 5000, restAfterMs: 0 }
+    ]
+  },
+  {
+    id: 'preset-full-face-tour',
+    name: 'Full face tour',
+    description: 'Every exercise once, head to chin.',
+    builtIn: true,
+    steps: EXERCISE_IDS.map((exercise, index) => ({
+      exercise,
+      reps: 5,
+      holdMs: 3000,
+      restAfterMs: index < EXERCISE_IDS.length - 1 ? 8000 : 0
+    }))
+  }
+];
+
+/**
+ * Protocol the tracker follows for a routine step (a single set)
+ */
+export function getStepProtocol(step: RoutineStep): ExerciseProtocol {
+  return {
+    reps: step.reps,
+    holdMs: step.holdMs,
+    restMs: ROUTINE_REP_REST_MS,
+    sets: 1
+  };
+}
+
+/**
+ * Estimated wall-clock time of a routine, including countdowns and rests
+ */
+export function estimateRoutineDurationMs(routine: Routine): number {
+  return routine.steps.reduce((total, step) =>
+    total +
+    ROUTINE_COUNTDOWN_MS +
+    step.reps * (step.holdMs + ROUTINE_REP_REST_MS + REP_TRANSITION_MS) +
+    step.restAfterMs,
+  0);
+}
+
+function isRoutineStep(value: unknown): value is RoutineStep {
+  const step = value as RoutineStep;
+  return typeof step === 'object' && step !== null &&
+    EXERCISE_IDS.includes(step.exercise) &&
+    typeof step.reps === 'number' && step.reps > 0 &&
+    typeof step.holdMs === 'number' && step.holdMs > 0 &&
+    typeof step.restAfterMs === 'number' && step.restAfterMs >= 0;
+}
+
+function isRoutine(value: unknown): value is Routine {
+  const routine = value as Routine;
+  return typeof routine === 'object' && routine !== null &&
+    typeof routine.id === 'string' &&
+    typeof routine.name === 'string' &&
+    Array.isArray(routine.steps) && routine.steps.length > 0 &&
+    routine.steps.every(isRoutineStep);
+}
+
+/**
+ * Load the user's own routines, skipping any malformed entries
+ */
+export function loadUserRoutines(): Routine[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  const stored = localStorage.getItem(ROUTINES_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed) ? parsed.filter(isRoutine) : [];
+  } catch (error) {
+    console.error('Error parsing routines from localStorage:', error);
+    return [];
+  }
+}
+
+function saveUserRoutines(routines: Routine[]) {
+  localStorage.setItem(ROUTINES_STORAGE_KEY, JSON.stringify(routines));
+}
+
+/**
+ * Insert or replace a user routine, returning the updated list
+ */
+export function saveUserRoutine(routine: Routine): Routine[] {
+  const routines = loadUserRoutines();
+  const stored = { ...routine, builtIn: false };
+  const index = routines.findIndex(existing => existing.id === routine.id);
+
+  if (index >= 0) {
+    routines[index] = stored;
+  } else {
+    routines.push(stored);
+  }
+
+  saveUserRoutines(routines);
+  return routines;
+}
+
+export function deleteUserRoutine(routineId: string): Routine[] {
+  const routines = loadUserRoutines().filter(routine => routine.id !== routineId);
+  saveUserRoutines(routines);
+  return routines;
+}
+
+export function createRoutineId(): string {
+  return `routine-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
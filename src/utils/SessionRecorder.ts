@@ -0,0 +1,250 @@
+/**
+ * SessionRecorder.ts
+ *
+ * Captures what the tracker saw during a session (every landmark frame with
+ * the selected exercise, its score, the stress level and app events) so a
+ * reported validator bug can be reproduced later from a downloaded file.
+ *
+ * Session files are versioned JSON. Landmarks are stored flat ([x, y, z, x, y, z, ...])
+ * and rounded to a fixed precision to keep files small.
+ */
+import type { ExerciseId } from './FacialAnalysis';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+export const SESSION_FORMAT = 'facevibe-session';
+export const SESSION_VERSION = 1;
+
+export interface SessionRecorderOptions {
+  maxBytes: number;    // Recording stops (and the file is marked truncated) past this size
+  maxFps: number;      // Frame-rate decimation; 0 keeps every frame
+  precision: number;   // Decimal places kept for landmark coordinates
+}
+
+export const DEFAULT_SESSION_RECORDER_OPTIONS: SessionRecorderOptions = {
+  maxBytes: 25 * 1024 * 1024,
+  maxFps: 15,
+  precision: 4
+};
+
+export interface RecordedFrame {
+  t: number;                  // ms since the recording started
+  exercise: ExerciseId | null;
+  score: number | null;       // 0-100 exercise score, null while not scoring (calibration, rests)
+  passed: boolean | null;
+  stress: number | null;      // Latest stress level (0-1)
+  landmarks: number[];        // Flat x, y, z triples
+}
+
+export interface SessionEvent {
+  t: number;
+  type: string;
+  data?: Record<string, unknown>;
+}
+
+export interface SessionFile {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  startedAt: string;
+  durationMs: number;
+  maxFps: number;
+  precision: number;
+  truncated: boolean;
+  resolution?: { width: number; height: number }; // Frame size the landmarks were tracked at (older files don't have it)
+  frames: RecordedFrame[];
+  events: SessionEvent[];
+}
+
+export interface FrameInfo {
+  exercise: ExerciseId | null;
+  score?: number | null;
+  passed?: boolean | null;
+}
+
+/**
+ * Flatten a landmark frame into [x, y, z, ...] rounded to the given precision
+ */
+export function encodeLandmarks(landmarks: LandmarkFrame, precision: number): number[] {
+  const factor = Math.pow(10, precision);
+  const round = (value: number) => Math.round(value * factor) / factor;
+  const flat: number[] = new Array(landmarks.length * 3);
+
+  landmarks.forEach((point, i) => {
+    flat[i * 3] = round(point.x);
+    flat[i * 3 + 1] = round(point.y);
+    flat[i * 3 + 2] = round(point.z);
+  });
+
+  return flat;
+}
+
+/**
+ * Rebuild a landmark frame from its flat recorded form
+ */
+export function decodeLandmarks(flat: number[]): LandmarkFrame {
+  const landmarks: LandmarkFrame = [];
+  for (let i = 0; i + 2 < flat.length; i += 3) {
+    landmarks.push({ x: flat[i], y: flat[i + 1], z: flat[i + 2] });
+  }
+  return landmarks;
+}
+
+/**
+ * Buffers a session in memory until it is downloaded
+ */
+export class SessionRecorder {
+  private options: SessionRecorderOptions;
+  private recording = false;
+  private startedAt = 0;
+  private startedAtIso = '';
+  private lastFrameAt = -Infinity;
+  private lastT = 0;
+  private stress: number | null = null;
+  private frames: RecordedFrame[] = [];
+  private events: SessionEvent[] = [];
+  private bytes = 0;
+  private truncated = false;
+  private resolution: { width: number; height: number } | null = null;
+
+  constructor(options: Partial<SessionRecorderOptions> = {}) {
+    this.options = { ...DEFAULT_SESSION_RECORDER_OPTIONS, ...options };
+  }
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  get byteSize(): number {
+    return this.bytes;
+  }
+
+  get isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  /**
+   * Start a new recording, discarding any previous one
+   * Options passed here override the recorder's options for this and later recordings
+   */
+  start(options: Partial<SessionRecorderOptions> = {}) {
+    this.options = { ...this.options, ...options };
+    this.recording = true;
+    this.startedAt = performance.now();
+    this.startedAtIso = new Date().toISOString();
+    this.lastFrameAt = -Infinity;
+    this.lastT = 0;
+    this.frames = [];
+    this.events = [];
+    this.bytes = 0;
+    this.truncated = false;
+    this.recordEvent('recordingStarted', { maxFps: this.options.maxFps });
+  }
+
+  stop() {
+    if (!this.recording) return;
+    this.recordEvent('recordingStopped');
+    this.recording = false;
+  }
+
+  /**
+   * Buffer one landmark frame; dropped when decimated or past the size cap
+   */
+  recordFrame(landmarks: LandmarkFrame, info: FrameInfo) {
+    if (!this.recording) return;
+
+    const now = performance.now();
+    if (this.options.maxFps > 0 && now - this.lastFrameAt < 1000 / this.options.maxFps) {
+      return;
+    }
+
+    const frame: RecordedFrame = {
+      t: this.elapsed(now),
+      exercise: info.exercise,
+      score: info.score ?? null,
+      passed: info.passed ?? null,
+      stress: this.stress,
+      landmarks: encodeLandmarks(landmarks, this.options.precision)
+    };
+
+    if (this.append(JSON.stringify(frame).length)) {
+      this.frames.push(frame);
+      this.lastFrameAt = now;
+    }
+  }
+
+  /**
+   * Remember the latest stress level; it is attached to the following frames
+   */
+  recordStress(level: number) {
+    this.stress = Math.round(level * 1000) / 1000;
+  }
+
+  /**
+   * Remember the frame size the landmarks come from, so replays normalize them the same way
+   */
+  recordResolution(resolution: { width: number; height: number }) {
+    this.resolution = { width: resolution.width, height: resolution.height };
+  }
+
+  recordEvent(type: string, data?: Record<string, unknown>) {
+    if (!this.recording) return;
+
+    const t = this.elapsed(performance.now());
+    const event: SessionEvent = data ? { t, type, data } : { t, type };
+    if (this.append(JSON.stringify(event).length)) {
+      this.events.push(event);
+    }
+  }
+
+  getSession(): SessionFile {
+    return {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      startedAt: this.startedAtIso,
+      durationMs: this.lastT,
+      maxFps: this.options.maxFps,
+      precision: this.options.precision,
+      truncated: this.truncated,
+      ...(this.resolution ? { resolution: this.resolution } : {}),
+      frames: this.frames,
+      events: this.events
+    };
+  }
+
+  toBlob(): Blob {
+    return new Blob([JSON.stringify(this.getSession())], { type: 'application/json' });
+  }
+
+  /**
+   * Save the session as a .json file through a temporary download link
+   */
+  download(filename = `facevibe-session-${this.startedAtIso.replace(/[:.]/g, '-')}.json`) {
+    const url = URL.createObjectURL(this.toBlob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+
+  private elapsed(now: number): number {
+    this.lastT = Math.round(now - this.startedAt);
+    return this.lastT;
+  }
+
+  // Account for an entry's size, stopping the recording once the cap is reached
+  private append(size: number): boolean {
+    if (this.bytes + size + 1 > this.options.maxBytes) {
+      this.truncated = true;
+      this.recording = false;
+      return false;
+    }
+    this.bytes += size + 1;
+    return true;
+  }
+}
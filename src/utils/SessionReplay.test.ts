@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { parseSessionFile } from './SessionReplay';
+import { encodeLandmarks, SESSION_FORMAT, SESSION_VERSION } from './SessionRecorder';
+import type { RecordedFrame } from './SessionRecorder';
+import { FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+
+const face = encodeLandmarks(createSyntheticFace(), 4);
+
+const frame = (t: number, landmarks: unknown[]): RecordedFrame =>
+  ({ t, exercise: null, score: null, passed: null, stress: null, landmarks }) as RecordedFrame;
+
+const sessionText = (frames: RecordedFrame[], extra: Record<string, unknown> = {}) => JSON.stringify({
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  startedAt: '2024-01-01T00:00:00.000Z',
+  durationMs: 100,
+  maxFps: 10,
+  precision: 4,
+  truncated: false,
+  frames,
+  events: [],
+  ...extra
+});
+
+describe('parseSessionFile', () => {
+  it('reads face, no-face and unrefined mesh frames', () => {
+    const session = parseSessionFile(sessionText([
+      frame(0, face),
+      frame(50, []),
+      frame(100, face.slice(0, FACE_MESH_POINT_COUNT * 3))
+    ], { resolution: { width: 1280, height: 720 } }));
+
+    expect(session.frames).toHaveLength(3);
+    expect(session.resolution).toEqual({ width: 1280, height: 720 });
+  });
+
+  it('rejects files that aren\'t sessions', () => {
+    expect(() => parseSessionFile('{')).toThrow('not valid JSON');
+    expect(() => parseSessionFile('{"format":"other"}')).toThrow('Not a FaceVibe session file');
+    expect(() => parseSessionFile(sessionText([]))).toThrow('no frames');
+  });
+
+  it('names the first frame that can\'t be replayed', () => {
+    const withBadFrame = (landmarks: unknown[]) => sessionText([frame(0, face), frame(50, landmarks)]);
+
+    expect(() => parseSessionFile(withBadFrame([...face.slice(0, -1), 'x']))).toThrow('frame 2 has non-numeric landmark values');
+    expect(() => parseSessionFile(withBadFrame([...face.slice(0, -1), null]))).toThrow('frame 2 has non-numeric landmark values');
+    expect(() => parseSessionFile(withBadFrame(face.slice(0, -1)))).toThrow('frame 2 has 1433 landmark values');
+    expect(() => parseSessionFile(withBadFrame(face.slice(0, 300)))).toThrow('frame 2 has 100 landmarks instead of 468 or 478');
+    expect(() => parseSessionFile(sessionText([frame(0, face), { t: 50 } as RecordedFrame]))).toThrow('frame 2 has no landmarks');
+    expect(() => parseSessionFile(sessionText([frame(Number.NaN, face)]))).toThrow('frame 1 has no timestamp');
+  });
+
+  it('rejects a malformed resolution', () => {
+    expect(() => parseSessionFile(sessionText([frame(0, face)], { resolution: { width: 0, height: 480 } }))).toThrow('resolution');
+    expect(() => parseSessionFile(sessionText([frame(0, face)], { resolution: null }))).toThrow('resolution');
+  });
+});
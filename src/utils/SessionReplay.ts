@@ -0,0 +1,155 @@
+/**
+ * SessionReplay.ts
+ *
+ * Reads session files written by SessionRecorder and plays their landmark
+ * frames back at the original timing (or sped up), so the tracker and
+ * everything downstream can run without a camera.
+ */
+import { decodeLandmarks, SESSION_FORMAT, SESSION_VERSION } from './SessionRecorder';
+import type { RecordedFrame, SessionFile } from './SessionRecorder';
+import { FACE_MESH_POINT_COUNT, REFINED_FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+
+export interface SessionReplayOptions {
+  speed: number;   // Playback rate; 2 plays twice as fast as recorded
+  loop: boolean;   // Start over after the last frame
+}
+
+export const DEFAULT_SESSION_REPLAY_OPTIONS: SessionReplayOptions = {
+  speed: 1,
+  loop: false
+};
+
+/**
+ * What's wrong with one recorded frame, or null if it can be replayed
+ * Landmarks must be flat x, y, z numbers for a whole face mesh, or empty (no face)
+ */
+function describeFrameProblem(frame: RecordedFrame): string | null {
+  if (!frame || typeof frame !== 'object' || typeof frame.t !== 'number' || !Number.isFinite(frame.t)) {
+    return 'has no timestamp';
+  }
+  const { landmarks } = frame;
+  if (!Array.isArray(landmarks)) {
+    return 'has no landmarks';
+  }
+  if (landmarks.some(value => typeof value !== 'number' || !Number.isFinite(value))) {
+    return 'has non-numeric landmark values';
+  }
+  if (landmarks.length % 3 !== 0) {
+    return `has ${landmarks.length} landmark values, which isn't a whole number of x, y, z points`;
+  }
+  const points = landmarks.length / 3;
+  if (points !== 0 && points !== FACE_MESH_POINT_COUNT && points !== REFINED_FACE_MESH_POINT_COUNT) {
+    return `has ${points} landmarks instead of ${FACE_MESH_POINT_COUNT} or ${REFINED_FACE_MESH_POINT_COUNT}`;
+  }
+  return null;
+}
+
+/**
+ * Parse and validate a session file's text
+ * Throws an Error describing the problem if the file can't be replayed
+ */
+export function parseSessionFile(text: string): SessionFile {
+  let parsed: SessionFile;
+  try {
+    parsed = JSON.parse(text) as SessionFile;
+  } catch {
+    throw new Error('Session file is not valid JSON');
+  }
+
+  if (!parsed || parsed.format !== SESSION_FORMAT) {
+    throw new Error('Not a FaceVibe session file');
+  }
+  if (parsed.version !== SESSION_VERSION) {
+    throw new Error(`Unsupported session file version ${parsed.version}`);
+  }
+  if (!Array.isArray(parsed.frames)) {
+    throw new Error('Session file has malformed frames');
+  }
+  if (parsed.frames.length === 0) {
+    throw new Error('Session file has no frames');
+  }
+  // Check every frame now rather than failing partway through a replay
+  parsed.frames.forEach((frame, index) => {
+    const problem = describeFrameProblem(frame);
+    if (problem) {
+      throw new Error(`Session file frame ${index + 1} ${problem}`);
+    }
+  });
+  const { resolution } = parsed;
+  if (resolution !== undefined && !(
+    resolution && Number.isFinite(resolution.width) && Number.isFinite(resolution.height) &&
+    resolution.width > 0 && resolution.height > 0
+  )) {
+    throw new Error('Session file has a malformed resolution');
+  }
+
+  return { ...parsed, events: Array.isArray(parsed.events) ? parsed.events : [] };
+}
+
+/**
+ * Plays a session's frames back on timers
+ * Frames recorded without a face are delivered as null landmarks
+ */
+export class SessionReplayer {
+  private readonly session: SessionFile;
+  private options: SessionReplayOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private index = 0;
+
+  constructor(session: SessionFile, options: Partial<SessionReplayOptions> = {}) {
+    this.session = session;
+    this.options = { ...DEFAULT_SESSION_REPLAY_OPTIONS, ...options };
+  }
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  get frameIndex(): number {
+    return this.index;
+  }
+
+  start(
+    onFrame: (landmarks: LandmarkFrame | null, frame: RecordedFrame) => void,
+    onEnd?: () => void
+  ) {
+    this.stop();
+    this.index = 0;
+
+    const frames = this.session.frames;
+
+    const playNext = () => {
+      const frame = frames[this.index];
+      onFrame(frame.landmarks.length > 0 ? decodeLandmarks(frame.landmarks) : null, frame);
+      this.index++;
+
+      if (this.index >= frames.length) {
+        if (!this.options.loop) {
+          this.timer = null;
+          if (onEnd) onEnd();
+          return;
+        }
+        this.index = 0;
+      }
+
+      // Wait as long as the recording did between these two frames
+      const gap = this.index === 0 ? 0 : frames[this.index].t - frame.t;
+      this.timer = setTimeout(playNext, Math.max(0, gap) / this.options.speed);
+    };
+
+    this.timer = setTimeout(playNext, 0);
+  }
+
+  // Takes effect from the next frame on
+  setSpeed(speed: number) {
+    this.options = { ...this.options, speed };
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
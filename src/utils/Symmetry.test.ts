@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getLaggingSide,
+  MIN_REST_FRAMES,
+  measureSymmetry,
+  SYMMETRY_REGION_NAMES,
+  SYMMETRY_TOLERANCE,
+  SymmetryTracker
+} from './Symmetry';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { LandmarkFrame } from './LandmarkFeatures';
+import { createSyntheticFace } from './SyntheticFaces';
+import type { ExpressionWeights, SyntheticPose } from './SyntheticFaces';
+
+// A synthetic face with some landmarks nudged (in image coordinates)
+const withOffsets = (face: LandmarkFrame, offsets: Record<number, [number, number]>): LandmarkFrame =>
+  face.map((point, index) => offsets[index]
+    ? { ...point, x: point.x + offsets[index][0], y: point.y + offsets[index][1] }
+    : point);
+
+// A smile where the image-right corner (the user's left) only gets partway
+const lopsidedSmile = (pose: Partial<SyntheticPose> = {}) => {
+  const smile = createSyntheticFace({ smile: 1 }, pose);
+  const neutral = createSyntheticFace({}, pose);
+  const corner = FACIAL_LANDMARKS.MOUTH_RIGHT;
+  return smile.map((point, index) => index === corner
+    ? { ...point, x: (point.x + neutral[index].x) / 2, y: (point.y + neutral[index].y) / 2 }
+    : point);
+};
+
+const feedRest = (tracker: SymmetryTracker, face: LandmarkFrame, frames = MIN_REST_FRAMES) => {
+  for (let i = 0; i < frames; i++) tracker.update(face, 'smileyStretch', 0);
+};
+
+describe('measureSymmetry', () => {
+  it('finds a neutral face even, however the head is posed', () => {
+    const poses: Partial<SyntheticPose>[] = [{}, { yaw: 15 }, { roll: 12, scale: 1.3 }, { pitch: 10, x: 0.4 }];
+    for (const pose of poses) {
+      const measured = measureSymmetry(createSyntheticFace({}, pose));
+      for (const region of SYMMETRY_REGION_NAMES) {
+        expect(measured[region].asymmetry).toBeLessThan(SYMMETRY_TOLERANCE);
+        expect(measured[region].lowerSide).toBeNull();
+      }
+    }
+  });
+
+  it('keeps symmetric expressions even', () => {
+    const expressions: ExpressionWeights[] = [{ smile: 1 }, { browRaise: 1 }, { jawOpen: 1 }, { pucker: 1 }];
+    for (const expression of expressions) {
+      const measured = measureSymmetry(createSyntheticFace(expression));
+      expect(Math.max(...SYMMETRY_REGION_NAMES.map(region => measured[region].asymmetry))).toBeLessThan(SYMMETRY_TOLERANCE);
+    }
+  });
+
+  it('reports the drooping side of a region', () => {
+    // Image-left points are the user's right
+    const droop = withOffsets(createSyntheticFace(), { [FACIAL_LANDMARKS.MOUTH_LEFT]: [0, 0.02] });
+    const measured = measureSymmetry(droop);
+    expect(measured.mouthCorners.asymmetry).toBeCloseTo(0.1, 2);
+    expect(measured.mouthCorners.lowerSide).toBe('right');
+    expect(measured.brows.asymmetry).toBeLessThan(SYMMETRY_TOLERANCE);
+
+    const brow = withOffsets(createSyntheticFace({}, { roll: 10 }), {
+      [FACIAL_LANDMARKS.RIGHT_EYEBROW_OUTER]: [0, 0.02],
+      [FACIAL_LANDMARKS.RIGHT_EYEBROW]: [0, 0.02],
+      [FACIAL_LANDMARKS.RIGHT_EYEBROW_INNER]: [0, 0.02]
+    });
+    expect(measureSymmetry(brow).brows.lowerSide).toBe('left');
+  });
+});
+
+describe('SymmetryTracker', () => {
+  it('waits for enough rest frames before reporting', () => {
+    const tracker = new SymmetryTracker();
+    feedRest(tracker, createSyntheticFace(), MIN_REST_FRAMES - 1);
+    expect(tracker.getReport().rest).toBeNull();
+    // Effort is only compared once there is a rest face to compare it to
+    expect(tracker.update(lopsidedSmile(), 'smileyStretch', 100).working).toBe(false);
+
+    tracker.update(createSyntheticFace(), 'smileyStretch', 0);
+    const report = tracker.getReport();
+    expect(report.restFrames).toBe(MIN_REST_FRAMES);
+    expect(report.rest?.mouthCorners.lowerSide).toBeNull();
+    expect(report.exercises).toEqual({});
+  });
+
+  it('finds the side that lags during an exercise', () => {
+    const tracker = new SymmetryTracker();
+    feedRest(tracker, createSyntheticFace());
+
+    const frame = tracker.update(lopsidedSmile({ yaw: 10 }), 'smileyStretch', 90);
+    expect(frame.working).toBe(true);
+    expect(frame.balance.mouthCorners?.lagging).toBe('left');
+
+    const report = tracker.getReport();
+    const mouth = report.exercises.smileyStretch.regions.mouthCorners;
+    expect(mouth?.lagging).toBe('left');
+    expect(mouth!.left).toBeLessThan(mouth!.right);
+    // Regions the exercise doesn't move aren't compared
+    expect(report.exercises.smileyStretch.regions.brows).toBeUndefined();
+    expect(getLaggingSide(report)).toBe('left');
+  });
+
+  it('treats an even movement as balanced', () => {
+    const tracker = new SymmetryTracker();
+    feedRest(tracker, createSyntheticFace());
+    tracker.update(createSyntheticFace({ smile: 1 }), 'smileyStretch', 90);
+    tracker.update(createSyntheticFace({ smile: 1 }), 'smileyStretch', 50);
+
+    const report = tracker.getReport();
+    expect(report.exercises.smileyStretch.frames).toBe(1);
+    expect(report.exercises.smileyStretch.regions.mouthCorners?.lagging).toBeNull();
+    expect(getLaggingSide(report)).toBeNull();
+  });
+
+  it('starts a new session on reset', () => {
+    const tracker = new SymmetryTracker();
+    feedRest(tracker, createSyntheticFace());
+    tracker.reset();
+    expect(tracker.getReport().restFrames).toBe(0);
+  });
+});
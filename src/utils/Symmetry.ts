@@ -0,0 +1,408 @@
+/**
+ * Symmetry.ts
+ *
+ * Compares the two sides of the face. Each frame is normalized for head pose,
+ * a midline is fitted through the nose and forehead, and every left-side
+ * landmark is mirrored across it onto its right-side partner: how far the pair
+ * misses is the region's asymmetry. At rest that shows which side sits lower;
+ * during an exercise, comparing how far each side moved from rest shows which
+ * side lags. A session's results are kept as a report so they can be tracked
+ * over time.
+ */
+import { analyzeFrame, EXERCISE_PASS_SCORE } from './FacialAnalysis';
+import type { ExerciseId } from './FacialAnalysis';
+import { FACIAL_LANDMARKS } from './LandmarkFeatures';
+import type { Landmark, LandmarkFrame } from './LandmarkFeatures';
+import { REFERENCE_INTEROCULAR_DISTANCE } from './HeadPose';
+
+export type SymmetryRegion = 'brows' | 'eyes' | 'cheeks' | 'mouthCorners' | 'jaw';
+
+/**
+ * A side of the user's face, from their own point of view.
+ * FACIAL_LANDMARKS names sides as they appear in the camera image, so its
+ * LEFT_* points are on the user's right.
+ */
+export type FaceSide = 'left' | 'right';
+
+const L = FACIAL_LANDMARKS;
+
+// Mirrored landmark pairs of each region, as [LEFT_*, RIGHT_*]
+export const SYMMETRY_REGIONS: Record<SymmetryRegion, { label: string; pairs: [number, number][] }> = {
+  brows: {
+    label: 'Brows',
+    pairs: [
+      [L.LEFT_EYEBROW_OUTER, L.RIGHT_EYEBROW_OUTER],
+      [L.LEFT_EYEBROW, L.RIGHT_EYEBROW],
+      [L.LEFT_EYEBROW_INNER, L.RIGHT_EYEBROW_INNER]
+    ]
+  },
+  eyes: {
+    label: 'Eyes',
+    pairs: [
+      [L.LEFT_EYE_OUTER, L.RIGHT_EYE_OUTER],
+      [L.LEFT_EYE_INNER, L.RIGHT_EYE_INNER],
+      [L.LEFT_EYE_TOP, L.RIGHT_EYE_TOP],
+      [L.LEFT_EYE_BOTTOM, L.RIGHT_EYE_BOTTOM]
+    ]
+  },
+  cheeks: {
+    label: 'Cheeks',
+    pairs: [
+      [L.LEFT_CHEEK, L.RIGHT_CHEEK],
+      [L.LEFT_CHEEK_OUTER, L.RIGHT_CHEEK_OUTER]
+    ]
+  },
+  mouthCorners: {
+    label: 'Mouth corners',
+    pairs: [[L.MOUTH_LEFT, L.MOUTH_RIGHT]]
+  },
+  jaw: {
+    label: 'Jaw',
+    pairs: [
+      [L.JAW_LEFT, L.JAW_RIGHT],
+      [L.CHIN_LEFT, L.CHIN_RIGHT]
+    ]
+  }
+};
+
+export const SYMMETRY_REGION_NAMES = Object.keys(SYMMETRY_REGIONS) as SymmetryRegion[];
+
+/**
+ * Landmarks on one side of a region
+ */
+export function getSidePoints(region: SymmetryRegion, side: FaceSide): number[] {
+  return SYMMETRY_REGIONS[region].pairs.map(([imageLeft, imageRight]) => side === 'right' ? imageLeft : imageRight);
+}
+
+// The midline is fitted through the upper face only: the chin and lower lip
+// shift sideways with the jaw, which is one of the things being measured
+export const SYMMETRY_MIDLINE_POINTS = [L.FOREHEAD_TOP, L.FOREHEAD_MID, L.NOSE_BRIDGE, L.NOSE_TIP, L.UPPER_LIP_TOP];
+
+// Asymmetry (in eye widths) below which a region counts as even
+export const SYMMETRY_TOLERANCE = 0.03;
+
+// Movement from rest (in eye widths) a region needs before its sides are compared,
+// and the share by which one side has to trail the other to count as lagging
+export const MIN_REGION_MOVEMENT = 0.05;
+export const LAGGING_TOLERANCE = 0.2;
+
+// Exercise scores at or below this count as resting; at or above the pass mark, as working
+export const SYMMETRY_REST_SCORE = 20;
+
+// Rest frames needed before rest asymmetry is reported or movement is compared
+export const MIN_REST_FRAMES = 10;
+
+// How one region compares side to side in a still face
+export interface RegionAsymmetry {
+  asymmetry: number;            // Mean mirrored pair mismatch, in eye widths
+  lowerSide: FaceSide | null;   // The side sitting lower, if noticeably so
+}
+
+// How far each side of a region moved from rest during an exercise
+export interface RegionBalance {
+  left: number;                 // Mean movement of the user's left side, in eye widths
+  right: number;
+  lagging: FaceSide | null;     // The side that moved noticeably less, if any
+}
+
+export type SymmetryMeasurement = Record<SymmetryRegion, RegionAsymmetry>;
+
+interface Midline {
+  x: number;      // Where the midline crosses y = 0
+  slope: number;  // dx/dy
+}
+
+// Least-squares fit of x = x0 + slope * y through the midline points
+function fitMidline(points: LandmarkFrame): Midline {
+  const samples = SYMMETRY_MIDLINE_POINTS.map(index => points[index]);
+  const meanX = samples.reduce((sum, point) => sum + point.x, 0) / samples.length;
+  const meanY = samples.reduce((sum, point) => sum + point.y, 0) / samples.length;
+
+  let covariance = 0;
+  let variance = 0;
+  for (const point of samples) {
+    covariance += (point.x - meanX) * (point.y - meanY);
+    variance += (point.y - meanY) ** 2;
+  }
+  const slope = variance > 0 ? covariance / variance : 0;
+  return { x: meanX - slope * meanY, slope };
+}
+
+// Reflect a point across the midline (x and y only; depth is too noisy to compare)
+function mirror(point: Landmark, midline: Midline): { x: number; y: number } {
+  const length = Math.hypot(midline.slope, 1);
+  const dx = midline.slope / length;
+  const dy = 1 / length;
+  const vx = point.x - midline.x;
+  const vy = point.y;
+  const along = vx * dx + vy * dy;
+  return { x: midline.x + 2 * along * dx - vx, y: 2 * along * dy - vy };
+}
+
+// Signed vertical offsets are positive when the image-left (user's right) point sits lower
+const toLowerSide = (offset: number): FaceSide | null =>
+  Math.abs(offset) < SYMMETRY_TOLERANCE ? null : offset > 0 ? 'right' : 'left';
+
+// Mirrored pair mismatch and signed vertical offset of each region, in eye widths
+type RegionMismatches = Record<SymmetryRegion, { mismatch: number; offset: number }>;
+
+function measureRegions(normalized: LandmarkFrame): RegionMismatches {
+  const midline = fitMidline(normalized);
+  const result = {} as RegionMismatches;
+
+  for (const region of SYMMETRY_REGION_NAMES) {
+    const { pairs } = SYMMETRY_REGIONS[region];
+    let mismatch = 0;
+    let offset = 0;
+    for (const [left, right] of pairs) {
+      const mirrored = mirror(normalized[left], midline);
+      mismatch += Math.hypot(mirrored.x - normalized[right].x, mirrored.y - normalized[right].y);
+      offset += mirrored.y - normalized[right].y;
+    }
+    result[region] = {
+      mismatch: mismatch / pairs.length / REFERENCE_INTEROCULAR_DISTANCE,
+      offset: offset / pairs.length / REFERENCE_INTEROCULAR_DISTANCE
+    };
+  }
+
+  return result;
+}
+
+// Summed mismatches over some frames, as a measurement
+function toMeasurement(regions: RegionMismatches, frames = 1): SymmetryMeasurement {
+  const result = {} as SymmetryMeasurement;
+  for (const region of SYMMETRY_REGION_NAMES) {
+    result[region] = {
+      asymmetry: regions[region].mismatch / frames,
+      lowerSide: toLowerSide(regions[region].offset / frames)
+    };
+  }
+  return result;
+}
+
+/**
+ * Score every region of one frame for asymmetry
+ */
+export function measureSymmetry(landmarks: LandmarkFrame): SymmetryMeasurement {
+  return toMeasurement(measureRegions(analyzeFrame(landmarks).normalized));
+}
+
+/**
+ * Compare how far each side of a region moved between a rest frame and the
+ * current one (both normalized). Null when the region barely moved.
+ */
+export function measureRegionBalance(
+  rest: LandmarkFrame,
+  current: LandmarkFrame,
+  region: SymmetryRegion
+): RegionBalance | null {
+  const { pairs } = SYMMETRY_REGIONS[region];
+  const moved = (index: number) =>
+    Math.hypot(current[index].x - rest[index].x, current[index].y - rest[index].y) / REFERENCE_INTEROCULAR_DISTANCE;
+
+  let userRight = 0;
+  let userLeft = 0;
+  for (const [imageLeft, imageRight] of pairs) {
+    userRight += moved(imageLeft);
+    userLeft += moved(imageRight);
+  }
+  return toBalance(userLeft / pairs.length, userRight / pairs.length);
+}
+
+function toBalance(left: number, right: number): RegionBalance | null {
+  const most = Math.max(left, right);
+  if (most < MIN_REGION_MOVEMENT) return null;
+
+  const lagging = Math.abs(left - right) / most < LAGGING_TOLERANCE ? null : left < right ? 'left' : 'right';
+  return { left, right, lagging };
+}
+
+// Live view of the latest frame for the overlay
+export interface SymmetryFrame {
+  regions: SymmetryMeasurement;
+  working: boolean;                                          // Whether the frame counted as exercise effort
+  balance: Partial<Record<SymmetryRegion, RegionBalance>>;   // Regions the exercise moved (working frames only)
+}
+
+/**
+ * Everything a session found about symmetry
+ */
+export interface SymmetryReport {
+  startedAt: string;            // ISO timestamp the session started
+  restFrames: number;
+  rest: SymmetryMeasurement | null;   // Mean over rest frames (null until there are enough)
+  exercises: Record<ExerciseId, {
+    frames: number;
+    regions: Partial<Record<SymmetryRegion, RegionBalance>>;
+  }>;
+}
+
+function emptyRegionTotals(): RegionMismatches {
+  const totals = {} as RegionMismatches;
+  for (const region of SYMMETRY_REGION_NAMES) {
+    totals[region] = { mismatch: 0, offset: 0 };
+  }
+  return totals;
+}
+
+interface RegionTotals {
+  left: number;
+  right: number;
+  frames: number;
+}
+
+/**
+ * Accumulates symmetry over a session
+ * Frames are sorted by the exercise score: low scores are rest, passing scores are
+ * effort. Rest frames build a reference face and the rest asymmetry; effort frames
+ * are compared to that reference, side by side, per exercise.
+ */
+export class SymmetryTracker {
+  private startedAt = new Date().toISOString();
+  private restFrames = 0;
+  private restSums = new Map<number, { x: number; y: number; z: number }>();
+  private restTotals = emptyRegionTotals();
+  private exerciseTotals: Record<ExerciseId, { frames: number; regions: Partial<Record<SymmetryRegion, RegionTotals>> }> = {};
+
+  // Start a new session
+  reset() {
+    this.startedAt = new Date().toISOString();
+    this.restFrames = 0;
+    this.restSums = new Map();
+    this.restTotals = emptyRegionTotals();
+    this.exerciseTotals = {};
+  }
+
+  /**
+   * Add a frame scored for an exercise (score 0-100)
+   */
+  update(landmarks: LandmarkFrame, exerciseId: ExerciseId, score: number): SymmetryFrame {
+    const { normalized } = analyzeFrame(landmarks);
+    const measured = measureRegions(normalized);
+    const regions = toMeasurement(measured);
+
+    if (score <= SYMMETRY_REST_SCORE) {
+      this.addRest(normalized, measured);
+      return { regions, working: false, balance: {} };
+    }
+
+    const rest = this.getRestFace();
+    if (score < EXERCISE_PASS_SCORE || !rest) {
+      return { regions, working: false, balance: {} };
+    }
+
+    const totals = this.exerciseTotals[exerciseId] ?? { frames: 0, regions: {} };
+    this.exerciseTotals[exerciseId] = totals;
+    totals.frames++;
+
+    const balance: Partial<Record<SymmetryRegion, RegionBalance>> = {};
+    for (const region of SYMMETRY_REGION_NAMES) {
+      const regionBalance = measureRegionBalance(rest, normalized, region);
+      if (!regionBalance) continue;
+      balance[region] = regionBalance;
+
+      const regionTotals = totals.regions[region] ?? { left: 0, right: 0, frames: 0 };
+      regionTotals.left += regionBalance.left;
+      regionTotals.right += regionBalance.right;
+      regionTotals.frames++;
+      totals.regions[region] = regionTotals;
+    }
+
+    return { regions, working: true, balance };
+  }
+
+  getReport(): SymmetryReport {
+    const rest = this.restFrames >= MIN_REST_FRAMES ? toMeasurement(this.restTotals, this.restFrames) : null;
+
+    const exercises: SymmetryReport['exercises'] = {};
+    for (const [exerciseId, totals] of Object.entries(this.exerciseTotals)) {
+      const regions: Partial<Record<SymmetryRegion, RegionBalance>> = {};
+      for (const region of SYMMETRY_REGION_NAMES) {
+        const regionTotals = totals.regions[region];
+        if (!regionTotals) continue;
+        const regionBalance = toBalance(regionTotals.left / regionTotals.frames, regionTotals.right / regionTotals.frames);
+        if (regionBalance) regions[region] = regionBalance;
+      }
+      exercises[exerciseId] = { frames: totals.frames, regions };
+    }
+
+    return { startedAt: this.startedAt, restFrames: this.restFrames, rest, exercises };
+  }
+
+  private addRest(normalized: LandmarkFrame, measured: RegionMismatches) {
+    this.restFrames++;
+    for (const region of SYMMETRY_REGION_NAMES) {
+      this.restTotals[region].mismatch += measured[region].mismatch;
+      this.restTotals[region].offset += measured[region].offset;
+
+      for (const index of SYMMETRY_REGIONS[region].pairs.flat()) {
+        const sum = this.restSums.get(index) ?? { x: 0, y: 0, z: 0 };
+        sum.x += normalized[index].x;
+        sum.y += normalized[index].y;
+        sum.z += normalized[index].z;
+        this.restSums.set(index, sum);
+      }
+    }
+  }
+
+  // Mean rest position of every paired landmark (other points are left empty)
+  private getRestFace(): LandmarkFrame | null {
+    if (this.restFrames < MIN_REST_FRAMES) return null;
+
+    const face: LandmarkFrame = [];
+    for (const [index, sum] of this.restSums) {
+      face[index] = { x: sum.x / this.restFrames, y: sum.y / this.restFrames, z: sum.z / this.restFrames };
+    }
+    return face;
+  }
+}
+
+// Past sessions' reports, newest last
+const SYMMETRY_HISTORY_KEY = 'symmetry_history';
+export const SYMMETRY_HISTORY_LIMIT = 30;
+
+/**
+ * Load saved session reports, oldest first
+ */
+export function loadSymmetryHistory(): SymmetryReport[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  const stored = localStorage.getItem(SYMMETRY_HISTORY_KEY);
+  if (!stored) return [];
+
+  try {
+    const history = JSON.parse(stored);
+    return Array.isArray(history) ? history as SymmetryReport[] : [];
+  } catch (error) {
+    console.error('Error parsing symmetry history from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a session's report, replacing an earlier save of the same session
+ * Sessions without any rest or exercise data aren't kept.
+ */
+export function saveSymmetryReport(report: SymmetryReport) {
+  if (!report.rest && Object.keys(report.exercises).length === 0) return;
+
+  const history = loadSymmetryHistory().filter(entry => entry.startedAt !== report.startedAt);
+  history.push(report);
+  localStorage.setItem(SYMMETRY_HISTORY_KEY, JSON.stringify(history.slice(-SYMMETRY_HISTORY_LIMIT)));
+}
+
+/**
+ * The side that lagged most often in a report, across exercises and regions
+ */
+export function getLaggingSide(report: SymmetryReport): FaceSide | null {
+  let left = 0;
+  let right = 0;
+  for (const { regions } of Object.values(report.exercises)) {
+    for (const balance of Object.values(regions)) {
+      if (balance.lagging === 'left') left++;
+      if (balance.lagging === 'right') right++;
+    }
+  }
+  if (left === right) return null;
+  return left > right ? 'left' : 'right';
+}
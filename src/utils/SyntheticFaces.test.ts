@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { estimateHeadPose } from './HeadPose';
+import { extractFeatures, REFINED_FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+import { encodeLandmarks, SESSION_FORMAT, SESSION_VERSION } from './SessionRecorder';
+import type { SessionFile } from './SessionRecorder';
+import {
+  createSyntheticFace,
+  createSyntheticSequence,
+  sequenceFromSession
+} from './SyntheticFaces';
+
+describe('createSyntheticFace', () => {
+  it('builds a full face mesh frame', () => {
+    expect(createSyntheticFace()).toHaveLength(REFINED_FACE_MESH_POINT_COUNT);
+  });
+
+  it('reports the requested head pose', () => {
+    const pose = estimateHeadPose(createSyntheticFace({}, { yaw: 15, pitch: -8, roll: 10 }));
+    expect(pose.yaw).toBeCloseTo(15, 0);
+    expect(pose.pitch).toBeCloseTo(-8, 0);
+    expect(pose.roll).toBeCloseTo(10, 0);
+  });
+
+  it('blends expressions by weight', () => {
+    const neutral = extractFeatures(createSyntheticFace()).jawDrop;
+    const half = extractFeatures(createSyntheticFace({ jawOpen: 0.5 })).jawDrop;
+    const full = extractFeatures(createSyntheticFace({ jawOpen: 1 })).jawDrop;
+    expect(half - neutral).toBeCloseTo((full - neutral) / 2, 6);
+  });
+});
+
+describe('createSyntheticSequence', () => {
+  it('eases from one keyframe to the next', () => {
+    const sequence = createSyntheticSequence('open and close', [
+      { expressions: { jawOpen: 1 }, durationMs: 500 },
+      { expressions: {}, durationMs: 500 }
+    ], 10);
+
+    const jawDrops = sequence.frames.map(frame => extractFeatures(frame!).jawDrop);
+    expect(sequence.frameIntervalMs).toBe(100);
+    expect(jawDrops).toHaveLength(10);
+    expect(Math.max(...jawDrops)).toBe(jawDrops[4]);
+    expect(jawDrops[9]).toBeCloseTo(extractFeatures(createSyntheticFace()).jawDrop, 6);
+  });
+});
+
+describe('sequenceFromSession', () => {
+  it('reads recorded frames back as a sequence', () => {
+    const face = createSyntheticFace({ smile: 1 });
+    const session: SessionFile = {
+      format: SESSION_FORMAT,
+      version: SESSION_VERSION,
+      startedAt: '2024-01-01T00:00:00.000Z',
+      durationMs: 200,
+      maxFps: 10,
+      precision: 4,
+      truncated: false,
+      frames: [
+        { t: 0, exercise: null, score: null, passed: null, stress: null, landmarks: encodeLandmarks(face, 4) },
+        { t: 100, exercise: null, score: null, passed: null, stress: null, landmarks: [] },
+        { t: 200, exercise: null, score: null, passed: null, stress: null, landmarks: encodeLandmarks(face, 4) }
+      ],
+      events: []
+    };
+
+    const sequence = sequenceFromSession('recorded smile', session);
+    expect(sequence.frameIntervalMs).toBe(100);
+    expect(sequence.frames[1]).toBeNull();
+    expect(sequence.frames[0]).toHaveLength(REFINED_FACE_MESH_POINT_COUNT);
+    expect(sequence.frames[2]![61].x).toBeCloseTo(face[61].x, 4);
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * SyntheticFaces.ts
+ *
+ * Generates plausible face mesh frames without a camera: a neutral face whose
+ * measurements sit at the exercise criteria's rest values, plus expressions
+ * (jaw open, wink, pucker, glances, ...) that can be blended at any strength
+ * and posed (scaled, rotated, moved) like a real head. Frames carry the iris
+ * points too, like the tracker's refined mesh.
+ *
+ * Sequences of frames use the same shape whether they are synthetic or read
+ * from a recorded session file, so validator regressions can be checked
+ * against both.
+ */
+import { FACE_MESH_POINT_COUNT, FACIAL_LANDMARKS, IRIS_LANDMARKS, REFINED_FACE_MESH_POINT_COUNT } from './LandmarkFeatures';
+import type { Landmark, LandmarkFrame } from './LandmarkFeatures';
+import { decodeLandmarks } from './SessionRecorder';
+import type { SessionFile } from './SessionRecorder';
+
+export type Expression =
+  | 'jawOpen'
+  | 'tongueOut'
+  | 'smile'
+  | 'pucker'
+  | 'browRaise'
+  | 'cheekPuff'
+  | 'wink'
+  | 'eyesClosed'
+  | 'noseScrunch'
+  | 'noseFlare'
+  | 'chinJut'
+  | 'foreheadRelax'
+  | 'lookRight'
+  | 'lookUp'
+  | 'lookNear';
+
+// How strongly each expression is made: 1 is a full, comfortable attempt
+export type ExpressionWeights = Partial<Record<Expression, number>>;
+
+/**
+ * Head placement in the image
+ * yaw/pitch/roll follow HeadPose's sign conventions (degrees)
+ */
+export interface SyntheticPose {
+  x: number;       // Face center in normalized image coordinates
+  y: number;
+  scale: number;   // 1 puts the outer eye corners REFERENCE_INTEROCULAR_DISTANCE apart
+  yaw: number;
+  pitch: number;
+  roll: number;
+  aspectRatio: number;  // Width over height of the frame the face is placed in (x and z are squeezed to fit, like MediaPipe's)
+}
+
+export const DEFAULT_SYNTHETIC_POSE: SyntheticPose = {
+  x: 0.5,
+  y: 0.5,
+  scale: 1,
+  yaw: 0,
+  pitch: 0,
+  roll: 0,
+  aspectRatio: 1
+};
+
+type Offset = [number, number, number];
+
+const L = FACIAL_LANDMARKS;
+
+// The same offset for an iris center and its rim points
+const irisOffsets = (center: number, rim: number[], offset: Offset): Record<number, Offset> =>
+  Object.fromEntries([center, ...rim].map(index => [index, offset]));
+
+const leftIris = (offset: Offset) => irisOffsets(IRIS_LANDMARKS.LEFT_IRIS_CENTER, IRIS_LANDMARKS.LEFT_IRIS_RIM, offset);
+const rightIris = (offset: Offset) => irisOffsets(IRIS_LANDMARKS.RIGHT_IRIS_CENTER, IRIS_LANDMARKS.RIGHT_IRIS_RIM, offset);
+
+// Iris rims 0.012 from the center (right, up, left, down), in front of the eye corners
+const IRIS_RIM_OFFSETS: Offset[] = [[0.012, 0, 0], [0, -0.012, 0], [-0.012, 0, 0], [0, 0.012, 0]];
+const IRIS_CENTER_Z = -0.005;
+
+const irisPoints = (center: number, rim: number[], x: number, y: number): Record<number, Offset> => ({
+  [center]: [x, y, IRIS_CENTER_Z],
+  ...Object.fromEntries(rim.map((index, i) => {
+    const [dx, dy, dz] = IRIS_RIM_OFFSETS[i];
+    return [index, [x + dx, y + dy, IRIS_CENTER_Z + dz]];
+  }))
+});
+
+// Neutral positions of the measured landmarks, centered on (0.5, 0.5)
+// Depth is relative to the head center, negative toward the camera
+const NEUTRAL_POINTS: Record<number, Offset> = {
+  // Eyes: outer corners 0.2 apart, lids 0.03 open
+  [L.LEFT_EYE_OUTER]: [0.4, 0.43, 0],
+  [L.LEFT_EYE_INNER]: [0.46, 0.43, 0],
+  [L.LEFT_EYE_TOP]: [0.43, 0.415, 0],
+  [L.LEFT_EYE_BOTTOM]: [0.43, 0.445, 0],
+  [L.RIGHT_EYE_OUTER]: [0.6, 0.43, 0],
+  [L.RIGHT_EYE_INNER]: [0.54, 0.43, 0],
+  [L.RIGHT_EYE_TOP]: [0.57, 0.415, 0],
+  [L.RIGHT_EYE_BOTTOM]: [0.57, 0.445, 0],
+
+  // Brows 0.12 above the nose tip, inner ends 0.1 apart
+  [L.LEFT_EYEBROW_OUTER]: [0.38, 0.4, 0],
+  [L.LEFT_EYEBROW]: [0.42, 0.4, 0],
+  [L.LEFT_EYEBROW_INNER]: [0.45, 0.4, 0],
+  [L.RIGHT_EYEBROW_OUTER]: [0.62, 0.4, 0],
+  [L.RIGHT_EYEBROW]: [0.58, 0.4, 0],
+  [L.RIGHT_EYEBROW_INNER]: [0.55, 0.4, 0],
+
+  // Mouth 0.25 wide, corners slightly below the lip line, lips nearly closed
+  [L.MOUTH_LEFT]: [0.375, 0.61, 0],
+  [L.MOUTH_RIGHT]: [0.625, 0.61, 0],
+  [L.UPPER_LIP]: [0.5, 0.595, 0],
+  [L.LOWER_LIP]: [0.5, 0.605, 0],
+  [L.UPPER_LIP_TOP]: [0.5, 0.59, 0],
+  [L.LOWER_LIP_BOTTOM]: [0.5, 0.61, 0],
+
+  // Nose
+  [L.NOSE_TIP]: [0.5, 0.52, -0.03],
+  [L.NOSE_BRIDGE]: [0.5, 0.485, -0.01],
+  [L.NOSE_LEFT]: [0.575, 0.51, -0.01],
+  [L.NOSE_RIGHT]: [0.425, 0.51, -0.01],
+  [L.NOSTRIL_LEFT]: [0.47, 0.53, -0.01],
+  [L.NOSTRIL_RIGHT]: [0.53, 0.53, -0.01],
+
+  // Chin and forehead share a depth so the neutral face has no pitch
+  [L.CHIN]: [0.5, 0.7, -0.03],
+  [L.CHIN_LEFT]: [0.385, 0.68, 0],
+  [L.CHIN_RIGHT]: [0.615, 0.68, 0],
+  [L.FOREHEAD_TOP]: [0.5, 0.3, -0.03],
+  [L.FOREHEAD_MID]: [0.5, 0.315, -0.02],
+
+  // Cheeks 0.22 apart, flush with the outer cheek points
+  [L.LEFT_CHEEK]: [0.39, 0.52, 0],
+  [L.RIGHT_CHEEK]: [0.61, 0.52, 0],
+  [L.LEFT_CHEEK_OUTER]: [0.42, 0.56, 0],
+  [L.RIGHT_CHEEK_OUTER]: [0.58, 0.56, 0],
+
+  // Jaw twice as wide as it is tall
+  [L.JAW_LEFT]: [0.45, 0.6, 0],
+  [L.JAW_RIGHT]: [0.55, 0.6, 0],
+  [L.JAW_CENTER]: [0.5, 0.65, 0],
+
+  // Irises centered between the eye corners, looking straight ahead
+  ...irisPoints(IRIS_LANDMARKS.LEFT_IRIS_CENTER, IRIS_LANDMARKS.LEFT_IRIS_RIM, 0.43, 0.43),
+  ...irisPoints(IRIS_LANDMARKS.RIGHT_IRIS_CENTER, IRIS_LANDMARKS.RIGHT_IRIS_RIM, 0.57, 0.43)
+};
+
+// Landmark offsets of each expression at full strength
+const EXPRESSION_OFFSETS: Record<Expression, Record<number, Offset>> = {
+  jawOpen: {
+    [L.LOWER_LIP]: [0, 0.06, 0],
+    [L.LOWER_LIP_BOTTOM]: [0, 0.06, 0],
+    [L.CHIN]: [0, 0.06, 0],
+    [L.CHIN_LEFT]: [0, 0.06, 0],
+    [L.CHIN_RIGHT]: [0, 0.06, 0],
+    [L.JAW_CENTER]: [0, 0.06, 0]
+  },
+  tongueOut: {
+    [L.LOWER_LIP]: [0, 0.12, 0],
+    [L.LOWER_LIP_BOTTOM]: [0, 0.14, 0],
+    [L.CHIN]: [0, 0.1, 0],
+    [L.CHIN_LEFT]: [0, 0.1, 0],
+    [L.CHIN_RIGHT]: [0, 0.1, 0],
+    [L.JAW_CENTER]: [0, 0.1, 0]
+  },
+  smile: {
+    [L.MOUTH_LEFT]: [-0.04, -0.02, 0],
+    [L.MOUTH_RIGHT]: [0.04, -0.02, 0],
+    [L.LEFT_CHEEK]: [0, -0.01, 0],
+    [L.RIGHT_CHEEK]: [0, -0.01, 0]
+  },
+  pucker: {
+    [L.MOUTH_LEFT]: [0.065, 0, 0],
+    [L.MOUTH_RIGHT]: [-0.065, 0, 0],
+    [L.UPPER_LIP]: [0, 0, -0.02],
+    [L.LOWER_LIP]: [0, 0, -0.02],
+    [L.UPPER_LIP_TOP]: [0, -0.015, -0.01],
+    [L.LOWER_LIP_BOTTOM]: [0, 0.015, -0.01]
+  },
+  browRaise: {
+    [L.LEFT_EYEBROW_OUTER]: [0, -0.045, 0],
+    [L.LEFT_EYEBROW]: [0, -0.045, 0],
+    [L.LEFT_EYEBROW_INNER]: [0, -0.045, 0],
+    [L.RIGHT_EYEBROW_OUTER]: [0, -0.045, 0],
+    [L.RIGHT_EYEBROW]: [0, -0.045, 0],
+    [L.RIGHT_EYEBROW_INNER]: [0, -0.045, 0],
+    [L.LEFT_EYE_TOP]: [0, -0.005, 0],
+    [L.RIGHT_EYE_TOP]: [0, -0.005, 0]
+  },
+  cheekPuff: {
+    [L.LEFT_CHEEK]: [-0.02, 0, -0.02],
+    [L.RIGHT_CHEEK]: [0.02, 0, -0.02]
+  },
+  // Closes the left (image) eye only
+  wink: {
+    [L.LEFT_EYE_TOP]: [0, 0.025, 0]
+  },
+  eyesClosed: {
+    [L.LEFT_EYE_TOP]: [0, 0.025, 0],
+    [L.RIGHT_EYE_TOP]: [0, 0.025, 0]
+  },
+  noseScrunch: {
+    [L.NOSE_TIP]: [0, -0.015, 0],
+    [L.LEFT_EYEBROW_INNER]: [0.015, 0.005, 0],
+    [L.RIGHT_EYEBROW_INNER]: [-0.015, 0.005, 0],
+    [L.NOSTRIL_LEFT]: [0, -0.01, 0],
+    [L.NOSTRIL_RIGHT]: [0, -0.01, 0]
+  },
+  noseFlare: {
+    [L.NOSTRIL_LEFT]: [-0.01, 0, 0],
+    [L.NOSTRIL_RIGHT]: [0.01, 0, 0],
+    [L.NOSE_LEFT]: [0.01, 0, 0],
+    [L.NOSE_RIGHT]: [-0.01, 0, 0]
+  },
+  chinJut: {
+    [L.CHIN]: [0, 0, -0.06],
+    [L.CHIN_LEFT]: [0.025, 0, -0.03],
+    [L.CHIN_RIGHT]: [-0.025, 0, -0.03]
+  },
+  // Relaxed forehead: the forehead landmarks settle closer together
+  foreheadRelax: {
+    [L.FOREHEAD_MID]: [0, -0.012, 0]
+  },
+  // Glances move only the irises; the user's right is the image's left
+  lookRight: {
+    ...leftIris([-0.012, 0, 0]),
+    ...rightIris([-0.012, 0, 0])
+  },
+  lookUp: {
+    ...leftIris([0, -0.006, 0]),
+    ...rightIris([0, -0.006, 0])
+  },
+  // Focusing on something close turns both irises toward the nose
+  lookNear: {
+    ...leftIris([0.006, 0, 0]),
+    ...rightIris([-0.006, 0, 0])
+  }
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Landmarks the features don't read are spread over the face oval so the
+// mesh centroid (the origin used by head-pose normalization) stays centered
+function fillerPoint(index: number): Offset {
+  const angle = (index / FACE_MESH_POINT_COUNT) * Math.PI * 2 * 7;
+  const radius = ((index % 6) + 1) / 6;
+  return [0.5 + Math.cos(angle) * 0.15 * radius, 0.5 + Math.sin(angle) * 0.2 * radius, 0];
+}
+
+// Place a point relative to the face center, applying the pose
+function posePoint([x, y, z]: Offset, pose: SyntheticPose): Landmark {
+  let px = (x - 0.5) * pose.scale;
+  let py = (y - 0.5) * pose.scale;
+  let pz = z * pose.scale;
+
+  // Pitch about the image x axis (positive tilts the chin away from the camera)
+  const pitch = toRadians(pose.pitch);
+  [py, pz] = [py * Math.cos(pitch) - pz * Math.sin(pitch), py * Math.sin(pitch) + pz * Math.cos(pitch)];
+
+  // Yaw about the vertical axis (positive turns the face toward the image's left edge)
+  const yaw = toRadians(pose.yaw);
+  [px, pz] = [px * Math.cos(yaw) - pz * Math.sin(yaw), px * Math.sin(yaw) + pz * Math.cos(yaw)];
+
+  // Roll in the image plane (positive is clockwise)
+  const roll = toRadians(pose.roll);
+  [px, py] = [px * Math.cos(roll) - py * Math.sin(roll), px * Math.sin(roll) + py * Math.cos(roll)];
+
+  return { x: pose.x + px / pose.aspectRatio, y: pose.y + py, z: pz / pose.aspectRatio };
+}
+
+/**
+ * Build one synthetic face mesh frame
+ * Expressions are blended by adding their offsets scaled by weight
+ */
+export function createSyntheticFace(
+  expressions: ExpressionWeights = {},
+  pose: Partial<SyntheticPose> = {}
+): LandmarkFrame {
+  const fullPose = { ...DEFAULT_SYNTHETIC_POSE, ...pose };
+  const points: Offset[] = [];
+
+  for (let i = 0; i < REFINED_FACE_MESH_POINT_COUNT; i++) {
+    const neutral = NEUTRAL_POINTS[i];
+    points.push(neutral ? [...neutral] : fillerPoint(i));
+  }
+
+  for (const [expression, weight] of Object.entries(expressions) as [Expression, number][]) {
+    for (const [index, offset] of Object.entries(EXPRESSION_OFFSETS[expression])) {
+      const point = points[Number(index)];
+      point[0] += offset[0] * weight;
+      point[1] += offset[1] * weight;
+      point[2] += offset[2] * weight;
+    }
+  }
+
+  return points.map(point => posePoint(point, fullPose));
+}
+
+// Named faces used as fixtures, one per exercise plus a neutral baseline
+export const SYNTHETIC_FACES = {
+  neutral: {},
+  jawOpen: { jawOpen: 1 },
+  tongueOut: { tongueOut: 1 },
+  smile: { smile: 1 },
+  pucker: { pucker: 1 },
+  browRaise: { browRaise: 1 },
+  cheekPuff: { cheekPuff: 1 },
+  wink: { wink: 1 },
+  eyesClosed: { eyesClosed: 1 },
+  noseScrunch: { noseScrunch: 1 },
+  noseFlare: { noseFlare: 1 },
+  chinJut: { chinJut: 1 },
+  foreheadRelax: { foreheadRelax: 1 }
+} satisfies Record<string, ExpressionWeights>;
+
+export type SyntheticFaceName = keyof typeof SYNTHETIC_FACES;
+
+/**
+ * A timed run of landmark frames (null where no face was found)
+ */
+export interface LandmarkSequence {
+  name: string;
+  frameIntervalMs: number;
+  frames: (LandmarkFrame | null)[];
+}
+
+/**
+ * One stretch of a synthetic sequence: move to these expressions over the
+ * given time, linearly from wherever the previous keyframe left off
+ */
+export interface SequenceKeyframe {
+  expressions: ExpressionWeights;
+  durationMs: number;
+  pose?: Partial<SyntheticPose>;
+}
+
+// Synthetic sequences default to a typical webcam rate
+export const DEFAULT_SEQUENCE_FPS = 30;
+
+/**
+ * Build a sequence that eases between expression keyframes
+ */
+export function createSyntheticSequence(
+  name: string,
+  keyframes: SequenceKeyframe[],
+  fps = DEFAULT_SEQUENCE_FPS
+): LandmarkSequence {
+  const frameIntervalMs = 1000 / fps;
+  const frames: LandmarkFrame[] = [];
+  let from: ExpressionWeights = {};
+
+  for (const keyframe of keyframes) {
+    const frameCount = Math.max(1, Math.round(keyframe.durationMs / frameIntervalMs));
+    const expressions = new Set([...Object.keys(from), ...Object.keys(keyframe.expressions)] as Expression[]);
+
+    for (let i = 1; i <= frameCount; i++) {
+      const t = i / frameCount;
+      const weights: ExpressionWeights = {};
+      expressions.forEach(expression => {
+        const start = from[expression] ?? 0;
+        const end = keyframe.expressions[expression] ?? 0;
+        weights[expression] = start + (end - start) * t;
+      });
+      frames.push(createSyntheticFace(weights, keyframe.pose));
+    }
+
+    from = keyframe.expressions;
+  }
+
+  return { name, frameIntervalMs, frames };
+}
+
+/**
+ * Read a recorded session file as a sequence
+ * Uses the mean gap between recorded frames as the frame interval
+ */
+export function sequenceFromSession(name: string, session: SessionFile): LandmarkSequence {
+  const frames = session.frames;
+  const span = frames.length > 1 ? frames[frames.length - 1].t - frames[0].t : 0;
+
+  return {
+    name,
+    frameIntervalMs: frames.length > 1 ? span / (frames.length - 1) : 1000 / DEFAULT_SEQUENCE_FPS,
+    frames: frames.map(frame => frame.landmarks.length > 0 ? decodeLandmarks(frame.landmarks) : null)
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * SyntheticProvider.ts
+ *
+ * Landmark provider that animates a generated face (SyntheticFaces.ts), so
+ * the app can be demoed and developed without a camera or the tracker.
+ */
+import type {
+  LandmarkProvider,
+  LandmarkProviderInfo,
+  LandmarkSample
+} from './LandmarkProvider';
+import { createSyntheticSequence, DEFAULT_SEQUENCE_FPS, DEFAULT_SYNTHETIC_POSE } from './SyntheticFaces';
+import type { Expression, SequenceKeyframe } from './SyntheticFaces';
+
+export const SYNTHETIC_RESOLUTION: LandmarkProviderInfo = { width: 640, height: 480 };
+
+// Expressions the default script runs through, one per exercise
+const SCRIPT_EXPRESSIONS: Expression[] = [
+  'jawOpen',
+  'browRaise',
+  'cheekPuff',
+  'wink',
+  'smile',
+  'noseScrunch',
+  'pucker',
+  'chinJut',
+  'foreheadRelax',
+  'tongueOut'
+];
+
+/**
+ * Default script: from a neutral face, perform each expression a few times
+ * (ease in, hold, ease out, rest)
+ */
+export const DEFAULT_SYNTHETIC_SCRIPT: SequenceKeyframe[] = [
+  { expressions: {}, durationMs: 2000 },
+  ...SCRIPT_EXPRESSIONS.flatMap(expression =>
+    Array.from({ length: 3 }, (): SequenceKeyframe[] => [
+      { expressions: { [expression]: 1 }, durationMs: 500 },
+      { expressions: { [expression]: 1 }, durationMs: 3000 },
+      { expressions: {}, durationMs: 500 },
+      { expressions: {}, durationMs: 1500 }
+    ]).flat()
+  )
+];
+
+export interface SyntheticProviderOptions {
+  script: SequenceKeyframe[];
+  fps: number;
+}
+
+export class SyntheticLandmarkProvider implements LandmarkProvider {
+  readonly kind = 'synthetic';
+  private readonly options: SyntheticProviderOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: Partial<SyntheticProviderOptions> = {}) {
+    this.options = { script: DEFAULT_SYNTHETIC_SCRIPT, fps: DEFAULT_SEQUENCE_FPS, ...options };
+  }
+
+  get isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  async start(onSample: (sample: LandmarkSample) => void): Promise<LandmarkProviderInfo> {
+    this.stop();
+
+    // Faces are placed in a frame of the reported size, like a camera's, and scaled
+    // up to match so they still take the width the framing coach expects
+    const aspectRatio = SYNTHETIC_RESOLUTION.width / SYNTHETIC_RESOLUTION.height;
+    const script = this.options.script.map(keyframe => ({
+      ...keyframe,
+      pose: { ...keyframe.pose, scale: (keyframe.pose?.scale ?? DEFAULT_SYNTHETIC_POSE.scale) * aspectRatio, aspectRatio }
+    }));
+    const { frames, frameIntervalMs } = createSyntheticSequence('synthetic', script, this.options.fps);
+    let index = 0;
+
+    // Loop the script for as long as the provider runs
+    this.timer = setInterval(() => {
+      onSample({ landmarks: frames[index], timestamp: performance.now() });
+      index = (index + 1) % frames.length;
+    }, frameIntervalMs);
+
+    return SYNTHETIC_RESOLUTION;
+  }
+
+  stop() {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FaceWorkerRequest } from './FaceWorkerProtocol';
+import { MediaPipeLandmarkProvider } from './MediaPipeProvider';
+import { WorkerLandmarkProvider } from './WorkerProvider';
+
+vi.mock('./MediaPipeProvider', async importOriginal => ({
+  ...await importOriginal<typeof import('./MediaPipeProvider')>(),
+  playVideo: async () => {}
+}));
+
+// Stands in for the face worker: loads instantly and swallows frames
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  frames = 0;
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: FaceWorkerRequest) {
+    if (message.type === 'init') {
+      queueMicrotask(() => this.onmessage?.({ data: { type: 'ready' } } as MessageEvent));
+    } else if (message.type === 'frame') {
+      this.frames++;
+    }
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const fakeVideo = () => ({
+  paused: false,
+  ended: false,
+  readyState: 4,
+  videoWidth: 640,
+  videoHeight: 480,
+  srcObject: null,
+  pause() {}
+}) as unknown as HTMLVideoElement;
+
+describe('WorkerLandmarkProvider', () => {
+  const track = { stop: vi.fn(), getSettings: () => ({ width: 640, height: 480 }) };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('OffscreenCanvas', class {});
+    vi.stubGlobal('createImageBitmap', async () => ({ close() {} }));
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => setTimeout(() => callback(performance.now()), 16));
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => clearTimeout(id));
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: async () => ({ getTracks: () => [track], getVideoTracks: () => [track] }) }
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('moves to main-thread Face Mesh when the worker dies mid-session', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fallbackStart = vi.spyOn(MediaPipeLandmarkProvider.prototype, 'start').mockResolvedValue({ width: 640, height: 480 });
+    const provider = new WorkerLandmarkProvider();
+    const onSample = vi.fn();
+    const options = { video: fakeVideo() };
+
+    await provider.start(onSample, options);
+    await vi.advanceTimersByTimeAsync(100);
+    const [worker] = FakeWorker.instances;
+    // The first frame never gets an answer
+    expect(worker.frames).toBe(1);
+
+    worker.onerror?.({ message: 'out of memory' } as ErrorEvent);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(worker.terminated).toBe(true);
+    expect(track.stop).toHaveBeenCalled();
+    expect(fallbackStart).toHaveBeenCalledWith(onSample, options);
+    expect(provider.usesFallback).toBe(true);
+    expect(provider.isRunning).toBe(true);
+    provider.stop();
+  });
+});
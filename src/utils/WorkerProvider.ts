@@ -0,0 +1,310 @@
+/**
+ * WorkerProvider.ts
+ *
+ * MediaPipe landmark provider that keeps inference off the main thread: the
+ * page only grabs camera frames as ImageBitmaps and transfers them to the
+ * face worker (FaceMeshWorker.ts), which detects, scores and posts back a
+ * compact result. Falls back to main-thread inference (MediaPipeProvider.ts)
+ * when the browser or the worker can't run Face Mesh.
+ */
+import { LandmarkProviderError } from './LandmarkProvider';
+import type {
+  LandmarkProvider,
+  LandmarkProviderInfo,
+  LandmarkProviderStartOptions,
+  LandmarkSample
+} from './LandmarkProvider';
+import { unpackLandmarks } from './FaceWorkerProtocol';
+import type { AnalysisTarget, FaceWorkerRequest, FaceWorkerResponse } from './FaceWorkerProtocol';
+import {
+  DEFAULT_VIDEO_CONSTRAINTS,
+  FACE_MESH_ASSET_PATH,
+  isFrameDue,
+  MediaPipeLandmarkProvider,
+  playVideo
+} from './MediaPipeProvider';
+
+// Give up on the worker if Face Mesh hasn't loaded by then
+const WORKER_INIT_TIMEOUT_MS = 20000;
+
+/**
+ * Whether this browser can run Face Mesh in a worker at all
+ */
+export const canRunFaceMeshWorker = (): boolean =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+export class WorkerLandmarkProvider implements LandmarkProvider {
+  readonly kind = 'mediapipe';
+  private worker: Worker | null = null;
+  private fallback: MediaPipeLandmarkProvider | null = null;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private animationFrameId: number | null = null;
+  private frameInFlight = false;
+  private lastSentAt = -Infinity;
+  private maxFps: number | null = null;
+  private target: AnalysisTarget = { exercise: null, calibration: null };
+  private startOptions: LandmarkProviderStartOptions = {};
+  private running = false;
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  // True when inference ended up on the main thread
+  get usesFallback(): boolean {
+    return this.fallback !== null;
+  }
+
+  async start(
+    onSample: (sample: LandmarkSample) => void,
+    options: LandmarkProviderStartOptions = {}
+  ): Promise<LandmarkProviderInfo> {
+    this.stop();
+    this.running = true;
+    this.startOptions = options;
+
+    // Load Face Mesh in the worker before touching the camera, so a fallback doesn't open it twice
+    let worker: Worker;
+    try {
+      worker = await this.startWorker(onSample);
+    } catch (error) {
+      if (!this.running) throw new LandmarkProviderError('tracker', 'Provider stopped while loading');
+      console.warn('Face worker unavailable, running Face Mesh on the main thread:', error);
+      return this.startFallback(onSample, options);
+    }
+
+    if (!this.running) {
+      worker.terminate();
+      throw new LandmarkProviderError('tracker', 'Provider stopped while loading');
+    }
+    this.worker = worker;
+    this.postToWorker({ type: 'target', target: this.target });
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        video: options.videoConstraints ?? DEFAULT_VIDEO_CONSTRAINTS
+      });
+    } catch (error) {
+      this.stop();
+      throw new LandmarkProviderError('camera', error instanceof Error ? error.message : String(error));
+    }
+
+    // Stopped while waiting for permission
+    if (!this.running) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new LandmarkProviderError('camera', 'Provider stopped before the camera started');
+    }
+    this.stream = stream;
+
+    const video = options.video ?? document.createElement('video');
+    this.video = video;
+    video.srcObject = stream;
+
+    try {
+      await playVideo(video);
+    } catch (error) {
+      this.stop();
+      throw new LandmarkProviderError('playback', error instanceof Error ? error.message : String(error));
+    }
+
+    const settings = stream.getVideoTracks()[0]?.getSettings() ?? {};
+    const info: LandmarkProviderInfo = {
+      width: settings.width ?? video.videoWidth,
+      height: settings.height ?? video.videoHeight
+    };
+
+    this.animationFrameId = requestAnimationFrame(this.captureFrame);
+    return info;
+  }
+
+  /**
+   * Tell the worker which exercise and calibration to score frames against
+   */
+  setAnalysisTarget(target: AnalysisTarget) {
+    this.target = target;
+    this.postToWorker({ type: 'target', target });
+  }
+
+  /**
+   * Process at most fps frames a second; the frames in between are never captured
+   */
+  setMaxFps(fps: number | null) {
+    this.maxFps = fps;
+    this.fallback?.setMaxFps(fps);
+  }
+
+  stop() {
+    this.running = false;
+    this.frameInFlight = false;
+    this.lastSentAt = -Infinity;
+
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+
+    // Terminating frees the worker's WASM heap and WebGL context with it
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+
+    if (this.fallback) {
+      this.fallback.stop();
+      this.fallback = null;
+    }
+
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+
+    if (this.video && this.video.srcObject) {
+      this.video.pause();
+      this.video.srcObject = null;
+    }
+    this.video = null;
+  }
+
+  // Create the worker and wait until Face Mesh is loaded in it
+  private startWorker(onSample: (sample: LandmarkSample) => void): Promise<Worker> {
+    if (!canRunFaceMeshWorker()) {
+      return Promise.reject(new Error('Workers, OffscreenCanvas or createImageBitmap not supported'));
+    }
+
+    const worker = new Worker(new URL('./FaceMeshWorker.ts', import.meta.url), { type: 'module' });
+
+    return new Promise<Worker>((resolve, reject) => {
+      let ready = false;
+      const timeout = setTimeout(() => {
+        worker.terminate();
+        reject(new Error('Timed out loading Face Mesh in the worker'));
+      }, WORKER_INIT_TIMEOUT_MS);
+
+      worker.onmessage = ({ data }: MessageEvent<FaceWorkerResponse>) => {
+        if (data.type === 'ready') {
+          ready = true;
+          clearTimeout(timeout);
+          resolve(worker);
+        } else if (data.type === 'error') {
+          if (ready) {
+            // A single frame failed; keep going with the next one
+            console.error('Error processing frame:', data.message);
+            this.frameInFlight = false;
+            return;
+          }
+          clearTimeout(timeout);
+          worker.terminate();
+          reject(new Error(data.message));
+        } else if (data.type === 'result') {
+          this.frameInFlight = false;
+          if (!this.running || this.worker !== worker) return;
+          onSample({
+            landmarks: data.landmarks ? unpackLandmarks(data.landmarks) : null,
+            rawLandmarks: data.rawLandmarks ? unpackLandmarks(data.rawLandmarks) : null,
+            timestamp: data.timestamp,
+            analysis: data.analysis ?? undefined
+          });
+        }
+      };
+
+      worker.onerror = (event) => {
+        if (ready) {
+          console.error('Face worker error:', event.message);
+          this.replaceWorkerWithFallback(worker, onSample);
+          return;
+        }
+        clearTimeout(timeout);
+        worker.terminate();
+        reject(new Error(event.message || "Couldn't start the face worker"));
+      };
+
+      const assetPath = new URL(FACE_MESH_ASSET_PATH, window.location.href).href;
+      const init: FaceWorkerRequest = { type: 'init', assetPath };
+      worker.postMessage(init);
+    });
+  }
+
+  private async startFallback(
+    onSample: (sample: LandmarkSample) => void,
+    options: LandmarkProviderStartOptions
+  ): Promise<LandmarkProviderInfo> {
+    const fallback = new MediaPipeLandmarkProvider();
+    fallback.setMaxFps(this.maxFps);
+    this.fallback = fallback;
+
+    try {
+      return await fallback.start(onSample, options);
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  // The worker died after startup: hand the camera over to main-thread inference
+  private async replaceWorkerWithFallback(worker: Worker, onSample: (sample: LandmarkSample) => void) {
+    worker.terminate();
+    if (!this.running || this.worker !== worker) return;
+
+    this.worker = null;
+    this.frameInFlight = false;
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.video) {
+      this.video.pause();
+      this.video.srcObject = null;
+      this.video = null;
+    }
+
+    try {
+      await this.startFallback(onSample, this.startOptions);
+    } catch (error) {
+      console.error('Main-thread Face Mesh failed after the face worker died:', error);
+    }
+  }
+
+  // Send the newest camera frame unless the worker is still busy with the last one
+  // or the frame rate cap says to skip it
+  private captureFrame = async () => {
+    if (!this.running || !this.video) return;
+    const video = this.video;
+    const minFrameIntervalMs = this.maxFps && this.maxFps > 0 ? 1000 / this.maxFps : 0;
+
+    if (
+      !this.frameInFlight && !video.paused && !video.ended && video.readyState >= 2 &&
+      isFrameDue(this.lastSentAt, minFrameIntervalMs)
+    ) {
+      this.frameInFlight = true;
+      try {
+        const timestamp = performance.now();
+        this.lastSentAt = timestamp;
+        const image = await createImageBitmap(video);
+        if (this.worker) {
+          this.postToWorker({ type: 'frame', image, timestamp }, [image]);
+        } else {
+          image.close();
+        }
+      } catch (e) {
+        // Log but don't throw to keep animation frame running
+        console.error('Error capturing frame:', e);
+        this.frameInFlight = false;
+      }
+    }
+
+    if (this.running) {
+      this.animationFrameId = requestAnimationFrame(this.captureFrame);
+    }
+  };
+
+  private postToWorker(message: FaceWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+}
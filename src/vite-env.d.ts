@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LANDMARK_PROVIDER?: string;
+  readonly VITE_LANDMARK_SESSION_URL?: string;
+}
@@ -1,11 +1,13 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react-swc';
 import { loadEnv } from 'vite';
+import mediapipeAssets from './plugins/mediapipeAssets';
+import offlinePrecache from './plugins/offlinePrecache';
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
   return {
-    plugins: [react()],
+    plugins: [react(), mediapipeAssets(), offlinePrecache()],
     base: '/facevibe/', 
     define: {
       'process.env': env,